@@ -1,17 +1,35 @@
 import React, { useState } from 'react';
 import GeolocationWizard from './components/GeolocationWizard';
+import SiteExport from './components/SiteExport';
+import { ProjectBuilding, ProjectExtent, WizardResult } from './types';
+import { CRS_UNIT_LABELS, ProjectedResult } from './crs';
+import { formatArea, formatLength } from './utils/units';
 import './App.css';
 
-interface WizardResult {
-  projectLocation: [number, number] | null;
-  projectExtent: { center: [number, number] | null; radius: number };
-  buildingLocation: [number, number] | null;
-  buildingRotation: number;
-  interactionMode: string;
-}
+const describeExtent = (extent: ProjectExtent) => {
+  const center = `Center: ${extent.center[0].toFixed(6)}, ${extent.center[1].toFixed(6)}`;
+  const size = `Area: ${formatArea(extent.area)}, Perimeter: ${formatLength(extent.perimeter)}`;
+  if (extent.type === 'circle') return `Circle, ${center}, Radius: ${extent.radius}m, ${size}`;
+  if (extent.type === 'rectangle') return `Rectangle, ${center}, ${size}`;
+  return `Polygon (${extent.vertices.length} vertices), ${center}, ${size}`;
+};
+
+const describeBuilding = ({ location, rotation, footprint }: ProjectBuilding) => {
+  if (!location || !footprint) return 'Not placed';
+  const size = `${formatLength(footprint.width)} × ${formatLength(footprint.depth)}, ${footprint.corners.length} corners`;
+  return `${location[0].toFixed(6)}, ${location[1].toFixed(6)}, Rotation: ${rotation}°, Footprint: ${size}`;
+};
+
+const describeProjected = ({ crs, projectLocation, convergence }: ProjectedResult) => {
+  const point = projectLocation
+    ? `E ${projectLocation[0].toFixed(3)}, N ${projectLocation[1].toFixed(3)} ${CRS_UNIT_LABELS[crs.unit]}`
+    : 'No project location';
+  return `${crs.name}, ${point}, Grid convergence: ${convergence.toFixed(4)}°`;
+};
 
 function App() {
   const [wizardResult, setWizardResult] = useState<WizardResult | null>(null);
+  const [editingResult, setEditingResult] = useState<WizardResult | null>(null);
 
   const handleWizardComplete = (result: WizardResult) => {
     console.log('Geolocation wizard completed:', result);
@@ -19,6 +37,12 @@ function App() {
   };
 
   const handleWizardReset = () => {
+    setEditingResult(null);
+    setWizardResult(null);
+  };
+
+  const handleWizardEdit = () => {
+    setEditingResult(wizardResult);
     setWizardResult(null);
   };
 
@@ -33,18 +57,27 @@ function App() {
                 <strong>Project Location:</strong> {wizardResult.projectLocation ? `${wizardResult.projectLocation[0].toFixed(6)}, ${wizardResult.projectLocation[1].toFixed(6)}` : 'Not set'}
               </div>
               <div className="result-item">
-                <strong>Project Extent:</strong> {wizardResult.projectExtent?.center ? `Center: ${wizardResult.projectExtent.center[0].toFixed(6)}, ${wizardResult.projectExtent.center[1].toFixed(6)}, Radius: ${wizardResult.projectExtent.radius}m` : 'Not set'}
-              </div>
-              <div className="result-item">
-                <strong>Building Location:</strong> {wizardResult.buildingLocation ? `${wizardResult.buildingLocation[0].toFixed(6)}, ${wizardResult.buildingLocation[1].toFixed(6)}` : 'Not placed'}
+                <strong>Project Extent:</strong> {wizardResult.projectExtent ? describeExtent(wizardResult.projectExtent) : 'Not set'}
               </div>
+              {wizardResult.buildings.map((building) => (
+                <div key={building.id} className="result-item">
+                  <strong>{building.name}:</strong> {describeBuilding(building)}
+                </div>
+              ))}
               <div className="result-item">
-                <strong>Building Rotation:</strong> {wizardResult.buildingRotation}°
+                <strong>Projected{wizardResult.projected ? ` (EPSG:${wizardResult.projected.crs.code})` : ''}:</strong> {wizardResult.projected ? describeProjected(wizardResult.projected) : 'Not set'}
               </div>
               <div className="result-item">
                 <strong>Interaction Mode Used:</strong> {wizardResult.interactionMode}
               </div>
             </div>
+            <SiteExport result={wizardResult} />
+            <button
+              onClick={handleWizardEdit}
+              className="edit-button"
+            >
+              Edit Geolocation
+            </button>
             <button 
               onClick={handleWizardReset}
               className="reset-button"
@@ -54,7 +87,11 @@ function App() {
           </div>
         </div>
       ) : (
-        <GeolocationWizard onComplete={handleWizardComplete} />
+        <GeolocationWizard
+          initialValue={editingResult ?? undefined}
+          onComplete={handleWizardComplete}
+          urlHash
+        />
       )}
     </div>
   );
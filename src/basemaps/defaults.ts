@@ -0,0 +1,37 @@
+import { Basemap } from './types';
+
+const ESRI_ATTRIBUTION = 'Tiles &copy; Esri';
+
+/** The switcher's choices when the host does not pass its own. */
+export const DEFAULT_BASEMAPS: Basemap[] = [
+  {
+    id: 'imagery',
+    name: 'Imagery',
+    category: 'imagery',
+    type: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: `${ESRI_ATTRIBUTION} &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community`,
+    maxZoom: 19,
+  },
+  {
+    id: 'streets',
+    name: 'Streets',
+    category: 'streets',
+    type: 'xyz',
+    url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19,
+  },
+  {
+    id: 'topo',
+    name: 'Topographic',
+    category: 'topo',
+    type: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+    attribution: `${ESRI_ATTRIBUTION} &mdash; Esri, HERE, Garmin, FAO, NOAA, USGS, &copy; OpenStreetMap contributors, and the GIS User Community`,
+    maxZoom: 19,
+  },
+  { id: 'plain', name: 'Plain', category: 'plain', type: 'plain' },
+];
+
+export const DEFAULT_PLAIN_COLOR = '#f3f4f6';
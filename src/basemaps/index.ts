@@ -0,0 +1,3 @@
+export * from './types';
+export { DEFAULT_BASEMAPS, DEFAULT_PLAIN_COLOR } from './defaults';
+export { createMemoryTileSource, flipRow, wmtsTileUrl } from './tiles';
@@ -0,0 +1,38 @@
+import { createMemoryTileSource, flipRow, wmtsTileUrl } from './tiles';
+import { WmtsBasemap } from './types';
+
+const wmts: WmtsBasemap = {
+  id: 'ortho',
+  name: 'Orthophoto',
+  type: 'wmts',
+  url: 'https://example.com/wmts',
+  layer: 'ortho 2024',
+  tileMatrixSet: 'GoogleMapsCompatible',
+};
+
+describe('basemap tiles', () => {
+  test('builds key-value WMTS requests', () => {
+    expect(wmtsTileUrl(wmts)).toBe(
+      'https://example.com/wmts?SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0&LAYER=ortho%202024&STYLE=default' +
+        '&TILEMATRIXSET=GoogleMapsCompatible&FORMAT=image%2Fpng&TILEMATRIX={z}&TILEROW={y}&TILECOL={x}'
+    );
+    expect(wmtsTileUrl({ ...wmts, url: 'https://example.com/wmts?token=abc' })).toMatch(/\?token=abc&SERVICE=WMTS/);
+  });
+
+  test('fills RESTful WMTS templates', () => {
+    const url = 'https://example.com/wmts/ortho/{Style}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.jpg';
+    expect(wmtsTileUrl({ ...wmts, url })).toBe('https://example.com/wmts/ortho/default/GoogleMapsCompatible/{z}/{y}/{x}.jpg');
+  });
+
+  test('flips rows between XYZ and TMS order', () => {
+    expect(flipRow(0, 0)).toBe(0);
+    expect(flipRow(3, 1)).toBe(6);
+    expect(flipRow(3, flipRow(3, 5))).toBe(5);
+  });
+
+  test('serves tiles from memory', async () => {
+    const getTile = createMemoryTileSource({ '1/0/1': 'data:image/png;base64,AAAA' });
+    expect(await getTile(1, 0, 1)).toBe('data:image/png;base64,AAAA');
+    expect(await getTile(1, 1, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+// Tile addressing shared by the basemap layers
+import { TileSource, WmtsBasemap } from './types';
+
+/** Row of a tile counted from the bottom, as TMS and MBTiles store them. */
+export const flipRow = (z: number, y: number) => 2 ** z - 1 - y;
+
+/** Leaflet URL template, with {z}, {x} and {y}, for a WMTS basemap. */
+export function wmtsTileUrl({ url, layer, tileMatrixSet, style = 'default', format = 'image/png' }: WmtsBasemap): string {
+  if (url.includes('{')) {
+    return url
+      .replace(/\{TileMatrixSet\}/gi, tileMatrixSet)
+      .replace(/\{Style\}/gi, style)
+      .replace(/\{TileMatrix\}/gi, '{z}')
+      .replace(/\{TileRow\}/gi, '{y}')
+      .replace(/\{TileCol\}/gi, '{x}');
+  }
+  const params = [
+    'SERVICE=WMTS',
+    'REQUEST=GetTile',
+    'VERSION=1.0.0',
+    `LAYER=${encodeURIComponent(layer)}`,
+    `STYLE=${encodeURIComponent(style)}`,
+    `TILEMATRIXSET=${encodeURIComponent(tileMatrixSet)}`,
+    `FORMAT=${encodeURIComponent(format)}`,
+    'TILEMATRIX={z}',
+    'TILEROW={y}',
+    'TILECOL={x}',
+  ];
+  return `${url}${url.includes('?') ? '&' : '?'}${params.join('&')}`;
+}
+
+/**
+ * Tile source over tiles keyed "z/x/y", e.g. read out of an MBTiles file or
+ * bundled with tests. Keys use the same row order as the basemap.
+ */
+export function createMemoryTileSource(tiles: Record<string, Blob | string>): TileSource {
+  return async (z, x, y) => tiles[`${z}/${x}/${y}`] ?? null;
+}
@@ -0,0 +1,73 @@
+// Background map layers the wizard can switch between
+
+/** Which button of the switcher a basemap belongs under. */
+export type BasemapCategory = 'imagery' | 'streets' | 'topo' | 'plain';
+
+/**
+ * Resolves to the image for a tile, as a Blob or a URL, or to null where
+ * there is no tile. Rows count from the top unless the basemap sets `tms`.
+ */
+export type TileSource = (z: number, x: number, y: number) => Promise<Blob | string | null>;
+
+interface BasemapBase {
+  /** Unique among the wizard's basemaps. */
+  id: string;
+  name: string;
+  category?: BasemapCategory;
+  /** HTML shown in the map's attribution control while the basemap is active. */
+  attribution?: string;
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+/** Slippy-map tiles from a URL template with {z}, {x}, {y} and optionally {s}; also a local tile directory. */
+export interface XyzBasemap extends BasemapBase {
+  type: 'xyz';
+  url: string;
+  subdomains?: string | string[];
+  /** Rows count from the bottom, as in TMS and MBTiles. */
+  tms?: boolean;
+}
+
+/**
+ * OGC WMTS in the Web Mercator tile matrix set. `url` is either the service
+ * endpoint, for key-value requests, or a RESTful template with {TileMatrix},
+ * {TileRow} and {TileCol}.
+ */
+export interface WmtsBasemap extends BasemapBase {
+  type: 'wmts';
+  url: string;
+  layer: string;
+  tileMatrixSet: string;
+  style?: string;
+  /** MIME type of the tiles; defaults to image/png. */
+  format?: string;
+}
+
+/** OGC WMS, requested tile by tile in EPSG:3857. */
+export interface WmsBasemap extends BasemapBase {
+  type: 'wms';
+  url: string;
+  /** Comma-separated layer names. */
+  layers: string;
+  styles?: string;
+  format?: string;
+  transparent?: boolean;
+  version?: string;
+}
+
+/** Tiles from code rather than a server, e.g. an MBTiles file read in the browser or bundled test tiles. */
+export interface LocalBasemap extends BasemapBase {
+  type: 'local';
+  getTile: TileSource;
+  tms?: boolean;
+}
+
+/** No tiles at all, just a background colour; works without any network. */
+export interface PlainBasemap extends BasemapBase {
+  type: 'plain';
+  /** CSS colour; defaults to a light grey. */
+  color?: string;
+}
+
+export type Basemap = XyzBasemap | WmtsBasemap | WmsBasemap | LocalBasemap | PlainBasemap;
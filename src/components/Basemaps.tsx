@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { TileLayer, WMSTileLayer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Layers, MapIcon, Mountain, Satellite, Square } from 'lucide-react';
+import { Basemap, BasemapCategory, DEFAULT_PLAIN_COLOR, LocalBasemap, TileSource, flipRow, wmtsTileUrl } from '../basemaps';
+
+const CATEGORY_ICONS: Record<BasemapCategory, typeof Layers> = {
+  imagery: Satellite,
+  streets: MapIcon,
+  topo: Mountain,
+  plain: Square,
+};
+
+// Leaflet treats an explicit undefined as a value, which would wipe out its own defaults
+function layerOptions({ attribution, minZoom, maxZoom }: Basemap) {
+  return {
+    ...(attribution !== undefined && { attribution }),
+    ...(minZoom !== undefined && { minZoom }),
+    ...(maxZoom !== undefined && { maxZoom }),
+  };
+}
+
+// Grid layer whose tiles come from a TileSource instead of URLs
+class SourceGridLayer extends L.GridLayer {
+  private source: TileSource;
+  private tms: boolean;
+
+  constructor(source: TileSource, tms: boolean, options: L.GridLayerOptions) {
+    super(options);
+    this.source = source;
+    this.tms = tms;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const img = document.createElement('img');
+    img.alt = '';
+    this.source(coords.z, coords.x, this.tms ? flipRow(coords.z, coords.y) : coords.y).then(
+      (tile) => {
+        if (!tile) {
+          done(undefined, img);
+          return;
+        }
+        const src = typeof tile === 'string' ? tile : URL.createObjectURL(tile);
+        const release = () => typeof tile !== 'string' && URL.revokeObjectURL(src);
+        img.onload = () => {
+          release();
+          done(undefined, img);
+        };
+        img.onerror = () => {
+          release();
+          done(new Error(`Tile ${coords.z}/${coords.x}/${coords.y} could not be displayed`), img);
+        };
+        img.src = src;
+      },
+      (error) => done(error, img)
+    );
+    return img;
+  }
+}
+
+function LocalTileLayer({ basemap }: { basemap: LocalBasemap }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new SourceGridLayer(basemap.getTile, basemap.tms === true, layerOptions(basemap));
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, basemap]);
+
+  return null;
+}
+
+// Colours the map background and shows the basemap's attribution, with no tiles
+function PlainBackground({ color, attribution }: { color: string; attribution?: string }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const container = map.getContainer();
+    const previous = container.style.background;
+    container.style.background = color;
+    return () => {
+      container.style.background = previous;
+    };
+  }, [map, color]);
+
+  useEffect(() => {
+    const control = map.attributionControl;
+    if (!attribution || !control) return;
+    control.addAttribution(attribution);
+    return () => {
+      control.removeAttribution(attribution);
+    };
+  }, [map, attribution]);
+
+  return null;
+}
+
+// The active basemap; key it by id so switching replaces the layer and its attribution
+export function BasemapLayer({ basemap }: { basemap: Basemap }) {
+  const options = layerOptions(basemap);
+  switch (basemap.type) {
+    case 'xyz':
+      return (
+        <TileLayer
+          url={basemap.url}
+          {...options}
+          {...(basemap.subdomains !== undefined && { subdomains: basemap.subdomains })}
+          tms={basemap.tms === true}
+        />
+      );
+    case 'wmts':
+      return <TileLayer url={wmtsTileUrl(basemap)} {...options} />;
+    case 'wms': {
+      const { layers, styles = '', format = 'image/png', transparent = false, version = '1.1.1' } = basemap;
+      return <WMSTileLayer url={basemap.url} params={{ layers, styles, format, transparent, version }} {...options} />;
+    }
+    case 'local':
+      return <LocalTileLayer basemap={basemap} />;
+    case 'plain':
+      return <PlainBackground color={basemap.color ?? DEFAULT_PLAIN_COLOR} attribution={basemap.attribution} />;
+  }
+}
+
+// On-map picker between the configured basemaps; hidden when there is only one
+export function BasemapSwitcher({
+  basemaps,
+  activeId,
+  onChange,
+}: {
+  basemaps: Basemap[];
+  activeId: string;
+  onChange: (id: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  if (basemaps.length < 2) return null;
+
+  return (
+    <div className="basemap-switcher">
+      <button
+        className="basemap-switcher-toggle"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-label="Basemap"
+        title="Basemap"
+      >
+        <Layers className="basemap-icon" />
+      </button>
+      {open && (
+        <div className="basemap-options" role="radiogroup" aria-label="Basemap">
+          {basemaps.map((basemap) => {
+            const Icon = CATEGORY_ICONS[basemap.category ?? 'imagery'];
+            return (
+              <button
+                key={basemap.id}
+                role="radio"
+                aria-checked={basemap.id === activeId}
+                className={`basemap-option ${basemap.id === activeId ? 'active' : ''}`}
+                onClick={() => {
+                  onChange(basemap.id);
+                  setOpen(false);
+                }}
+              >
+                <Icon className="basemap-icon" />
+                {basemap.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
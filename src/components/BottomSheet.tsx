@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+import { ChevronUp } from 'lucide-react';
+
+// How far a swipe on the handle has to travel, in pixels, to open or close the sheet
+const SWIPE_DISTANCE = 30;
+
+// Holds the map panels. On wide screens it takes no part in the layout and the panels float over the map;
+// on small screens (see the stylesheet) it docks them to the bottom as a sheet that is swiped or tapped open.
+export default function BottomSheet({
+  summary,
+  children,
+}: {
+  /** Shown above the handle even while the sheet is closed, e.g. the step instructions. */
+  summary?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const swipeStartRef = useRef<number | null>(null);
+  // A swipe ends with a click on the handle, which must not toggle the sheet straight back
+  const swipedRef = useRef(false);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    swipeStartRef.current = e.clientY;
+    swipedRef.current = false;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const start = swipeStartRef.current;
+    swipeStartRef.current = null;
+    if (start === null || Math.abs(e.clientY - start) < SWIPE_DISTANCE) return;
+    swipedRef.current = true;
+    setExpanded(e.clientY < start);
+  };
+
+  const handleClick = () => {
+    if (!swipedRef.current) setExpanded((open) => !open);
+    swipedRef.current = false;
+  };
+
+  return (
+    <div className={`bottom-sheet ${expanded ? 'bottom-sheet-expanded' : ''}`}>
+      <button
+        className="bottom-sheet-handle"
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onClick={handleClick}
+        aria-expanded={expanded}
+        aria-controls="bottom-sheet-body"
+      >
+        <ChevronUp className="bottom-sheet-icon" aria-hidden="true" />
+        {expanded ? 'Hide tools' : 'Show tools'}
+      </button>
+      {summary}
+      <div id="bottom-sheet-body" className="bottom-sheet-body">
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,457 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Marker, Polygon, Polyline, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Copy, Plus, RotateCw, Trash2, Upload } from 'lucide-react';
+import { LatLngTuple, LocalPoint } from '../types';
+import { angleBetween, normalizeAngle, screenBearing, snapAngle } from '../utils/angles';
+import { initialBearing, offsetToLatLng } from '../utils/geodesy';
+import { FootprintParseError, footprintCorners, isRectangleOutline, outlineSize, parseFootprintOutline, rectangleOutline, rotateLocal } from '../utils/footprint';
+import { BuildingPlacement } from '../utils/placement';
+import { LengthUnit, fromMetres, isImperial, toMetres } from '../utils/units';
+
+export type RotationSnap = 1 | 5 | 15;
+
+const ROTATION_SNAPS: RotationSnap[] = [1, 5, 15];
+// A two-finger gesture has to turn this far before it rotates the building, so plain pinch zooms stay zooms
+const PINCH_ROTATE_THRESHOLD = 10;
+const BUILDING_COLOR = '#FF6B35';
+
+const anchorIcon = L.divIcon({ className: 'building-anchor-handle', iconSize: [14, 14] });
+const rotationHandleIcon = L.divIcon({ className: 'building-rotation-handle', iconSize: [16, 16] });
+
+const formatAngle = (degrees: number) => String(Math.round(degrees * 10) / 10);
+
+const formatDimension = (metres: number, unit: LengthUnit) => String(Math.round(fromMetres(metres, unit) * 10) / 10);
+
+// The project's buildings: pick one to edit, rename it, duplicate or delete it, or add another
+export function BuildingList({
+  buildings,
+  selectedId,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onRemove,
+  onRename,
+}: {
+  buildings: BuildingPlacement[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  onRemove: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+}) {
+  const selected = buildings.find(({ id }) => id === selectedId) ?? buildings[0];
+
+  return (
+    <div className="building-list">
+      <div className="rotation-title">Buildings</div>
+      <ul className="building-list-items">
+        {buildings.map(({ id, name, location }) => (
+          <li key={id} className={`building-list-item ${id === selected.id ? 'selected' : ''}`}>
+            <button className="building-list-select" onClick={() => onSelect(id)} aria-pressed={id === selected.id}>
+              {name || 'Unnamed building'}
+              {!location && <span className="building-list-note"> (not placed)</span>}
+            </button>
+            <button
+              className="building-list-action"
+              onClick={() => onDuplicate(id)}
+              aria-label={`Duplicate ${name}`}
+              title="Duplicate"
+            >
+              <Copy className="building-list-icon" />
+            </button>
+            <button
+              className="building-list-action"
+              onClick={() => onRemove(id)}
+              aria-label={buildings.length > 1 ? `Delete ${name}` : `Remove ${name} from the map`}
+              title={buildings.length > 1 ? 'Delete' : 'Remove from the map'}
+              disabled={buildings.length === 1 && !location}
+            >
+              <Trash2 className="building-list-icon" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <label className="footprint-field">
+        <span>Name</span>
+        <input
+          type="text"
+          value={selected.name}
+          onChange={(e) => onRename(selected.id, e.target.value)}
+          className="radius-value"
+        />
+      </label>
+      <button className="extent-action" onClick={onAdd}>
+        <Plus className="mode-icon" />
+        Add building
+      </button>
+    </div>
+  );
+}
+
+// Building rotation control
+export function BuildingRotationControl({
+  rotation,
+  onRotationChange,
+  snap,
+  onSnapChange,
+  visible
+}: {
+  rotation: number;
+  onRotationChange: (rotation: number) => void;
+  snap: RotationSnap;
+  onSnapChange: (snap: RotationSnap) => void;
+  visible: boolean;
+}) {
+  const [angleText, setAngleText] = useState(formatAngle(rotation));
+
+  useEffect(() => {
+    setAngleText(formatAngle(rotation));
+  }, [rotation]);
+
+  if (!visible) return null;
+
+  // Typed angles are taken as-is; only the step buttons and the map handle snap
+  const commitAngle = () => {
+    const value = parseFloat(angleText);
+    if (isNaN(value)) {
+      setAngleText(formatAngle(rotation));
+    } else {
+      onRotationChange(normalizeAngle(value));
+      setAngleText(formatAngle(normalizeAngle(value)));
+    }
+  };
+
+  return (
+    <div className="rotation-control">
+      <div className="rotation-title">Building Rotation</div>
+      <div className="rotation-buttons">
+        <button
+          onClick={() => onRotationChange(snapAngle(rotation - snap, snap))}
+          className="rotation-button"
+          aria-label={`Rotate ${snap}° counterclockwise`}
+        >
+          <RotateCw className="rotation-icon-left" />
+        </button>
+        <input
+          type="number"
+          value={angleText}
+          onChange={(e) => setAngleText(e.target.value)}
+          onBlur={commitAngle}
+          onKeyDown={(e) => e.key === 'Enter' && commitAngle()}
+          className="rotation-input"
+          aria-label="Building rotation in degrees"
+          step="any"
+        />
+        <span className="rotation-value">°</span>
+        <button
+          onClick={() => onRotationChange(snapAngle(rotation + snap, snap))}
+          className="rotation-button"
+          aria-label={`Rotate ${snap}° clockwise`}
+        >
+          <RotateCw className="rotation-icon" />
+        </button>
+      </div>
+      <div className="rotation-snap" role="group" aria-label="Rotation snap">
+        <span className="rotation-snap-label">Snap</span>
+        {ROTATION_SNAPS.map((step) => (
+          <button
+            key={step}
+            onClick={() => onSnapChange(step)}
+            className={`rotation-snap-button ${snap === step ? 'active' : ''}`}
+            aria-pressed={snap === step}
+          >
+            {step}°
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Positive length entry in metres or feet; the value itself is always in metres
+function DimensionInput({
+  label,
+  value,
+  unit,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  unit: LengthUnit;
+  onChange: (metres: number) => void;
+}) {
+  const [text, setText] = useState(formatDimension(value, unit));
+
+  // Follow outside changes without rewriting what is being typed
+  useEffect(() => {
+    setText((current) =>
+      Math.abs(toMetres(parseFloat(current), unit) - value) < 1e-6 ? current : formatDimension(value, unit)
+    );
+  }, [value, unit]);
+
+  return (
+    <label className="footprint-field">
+      <span>{label}</span>
+      <input
+        type="number"
+        min="0.1"
+        step="0.1"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const metres = toMetres(parseFloat(e.target.value), unit);
+          if (!isNaN(metres) && metres > 0) onChange(metres);
+        }}
+        className="radius-value"
+      />
+    </label>
+  );
+}
+
+// Footprint size entry and outline upload
+export function BuildingFootprintControl({
+  outline,
+  onOutlineChange,
+  unit,
+  visible,
+}: {
+  outline: LocalPoint[];
+  onOutlineChange: (outline: LocalPoint[]) => void;
+  unit: LengthUnit;
+  visible: boolean;
+}) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!visible) return null;
+
+  // Building dimensions read better in metres or feet than in km or miles
+  const sizeUnit: LengthUnit = isImperial(unit) ? 'ft' : 'm';
+  const { width, depth } = outlineSize(outline);
+  // Follows the building shown, whichever way its outline was set
+  const isCustom = !isRectangleOutline(outline);
+
+  const handleSizeChange = (dimension: 'width' | 'depth', value: number) => {
+    onOutlineChange(
+      dimension === 'width' ? rectangleOutline(value, depth) : rectangleOutline(width, value)
+    );
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onOutlineChange(parseFootprintOutline(await file.text(), file.name));
+      setUploadError(null);
+    } catch (error) {
+      setUploadError(error instanceof FootprintParseError ? error.message : 'Could not read the footprint file.');
+    }
+  };
+
+  return (
+    <div className="footprint-control">
+      <div className="rotation-title">Building Footprint</div>
+      {isCustom ? (
+        <div className="footprint-custom">
+          <span>
+            Custom outline, {outline.length} vertices ({Math.round(fromMetres(width, sizeUnit))} × {Math.round(fromMetres(depth, sizeUnit))} {sizeUnit})
+          </span>
+          <button
+            className="extent-action"
+            onClick={() => {
+              onOutlineChange(rectangleOutline(width, depth));
+            }}
+          >
+            Use rectangle
+          </button>
+        </div>
+      ) : (
+        <div className="footprint-fields">
+          <DimensionInput
+            label="Width"
+            value={width}
+            unit={sizeUnit}
+            onChange={(value) => handleSizeChange('width', value)}
+          />
+          <DimensionInput
+            label="Depth"
+            value={depth}
+            unit={sizeUnit}
+            onChange={(value) => handleSizeChange('depth', value)}
+          />
+          <span className="footprint-unit">{sizeUnit}</span>
+        </div>
+      )}
+      <button className="extent-action footprint-upload" onClick={() => fileInputRef.current?.click()}>
+        <Upload className="mode-icon" />
+        Upload outline
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".geojson,.json,.csv,.txt"
+        onChange={handleFile}
+        hidden
+      />
+      {uploadError && <div className="extent-problem">{uploadError}</div>}
+    </div>
+  );
+}
+
+// Two-finger twist anywhere on the map turns the building. Leaflet still zooms on the pinch, as map apps do.
+function PinchRotate({
+  rotation,
+  snap,
+  onRotationChange,
+}: {
+  rotation: number;
+  snap: RotationSnap;
+  onRotationChange: (rotation: number) => void;
+}) {
+  const map = useMap();
+  // Kept in refs so a re-render in the middle of a gesture does not drop the pointers being tracked
+  const latest = useRef({ rotation, snap, onRotationChange });
+  latest.current = { rotation, snap, onRotationChange };
+
+  useEffect(() => {
+    const container = map.getContainer();
+    const pointers = new Map<number, [number, number]>();
+    let gesture: { startBearing: number; startRotation: number; twisting: boolean } | null = null;
+
+    const bearing = () => {
+      const [a, b] = Array.from(pointers.values());
+      return screenBearing(a, b);
+    };
+    const handleDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch') return;
+      pointers.set(e.pointerId, [e.clientX, e.clientY]);
+      gesture =
+        pointers.size === 2 ? { startBearing: bearing(), startRotation: latest.current.rotation, twisting: false } : null;
+    };
+    const handleMove = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      pointers.set(e.pointerId, [e.clientX, e.clientY]);
+      if (!gesture) return;
+      const turn = angleBetween(gesture.startBearing, bearing());
+      if (!gesture.twisting && Math.abs(turn) < PINCH_ROTATE_THRESHOLD) return;
+      gesture.twisting = true;
+      latest.current.onRotationChange(snapAngle(gesture.startRotation + turn, latest.current.snap));
+    };
+    const handleUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      gesture = null;
+    };
+
+    // Capture, so Leaflet's own touch handling cannot hide the events
+    container.addEventListener('pointerdown', handleDown, true);
+    container.addEventListener('pointermove', handleMove, true);
+    container.addEventListener('pointerup', handleUp, true);
+    container.addEventListener('pointercancel', handleUp, true);
+    return () => {
+      container.removeEventListener('pointerdown', handleDown, true);
+      container.removeEventListener('pointermove', handleMove, true);
+      container.removeEventListener('pointerup', handleUp, true);
+      container.removeEventListener('pointercancel', handleUp, true);
+    };
+  }, [map]);
+
+  return null;
+}
+
+// Rotated footprint polygon with an anchor handle and an on-map rotation handle, plus pinch-to-rotate.
+// Buildings other than the selected one are drawn fainter, and a click on one selects it.
+export function BuildingLayer({
+  anchor,
+  outline,
+  rotation,
+  snap,
+  label,
+  selected,
+  editable,
+  onSelect,
+  onAnchorChange,
+  onRotationChange,
+}: {
+  anchor: LatLngTuple;
+  outline: LocalPoint[];
+  rotation: number;
+  snap: RotationSnap;
+  /** Name shown on the footprint, when there is more than one building. */
+  label?: string;
+  selected: boolean;
+  editable: boolean;
+  onSelect?: () => void;
+  onAnchorChange: (anchor: LatLngTuple) => void;
+  onRotationChange: (rotation: number) => void;
+}) {
+  const corners = footprintCorners(anchor, outline, rotation);
+
+  // The rotation handle sits straight out from the building's front (local north) edge
+  const { depth } = outlineSize(outline);
+  const reach = Math.max(...outline.map(([, y]) => y)) + Math.max(5, depth * 0.25);
+  const [handleEast, handleNorth] = rotateLocal([0, reach], rotation);
+  const handlePosition = offsetToLatLng(anchor, handleEast, handleNorth);
+
+  return (
+    <>
+      <Polygon
+        positions={corners}
+        pathOptions={{
+          color: BUILDING_COLOR,
+          fillColor: BUILDING_COLOR,
+          fillOpacity: selected ? 0.35 : 0.15,
+          weight: selected ? 3 : 1,
+        }}
+        eventHandlers={{
+          click: (e) => {
+            if (selected || !onSelect) return;
+            // Selecting a building must not also count as a click on the map, which would move the selected one here
+            L.DomEvent.stopPropagation(e);
+            onSelect();
+          },
+        }}
+      >
+        {label && (
+          <Tooltip permanent direction="center" className="building-label">
+            {label}
+          </Tooltip>
+        )}
+      </Polygon>
+      {editable && (
+        <>
+          <PinchRotate rotation={rotation} snap={snap} onRotationChange={onRotationChange} />
+          <Polyline
+            positions={[anchor, handlePosition]}
+            pathOptions={{ color: BUILDING_COLOR, weight: 1, dashArray: '4 4' }}
+            interactive={false}
+          />
+          <Marker
+            position={anchor}
+            icon={anchorIcon}
+            draggable={true}
+            eventHandlers={{
+              dragend: (e) => {
+                const latlng = (e.target as L.Marker).getLatLng();
+                onAnchorChange([latlng.lat, latlng.lng]);
+              },
+            }}
+          />
+          <Marker
+            position={handlePosition}
+            icon={rotationHandleIcon}
+            draggable={true}
+            eventHandlers={{
+              drag: (e) => {
+                const latlng = (e.target as L.Marker).getLatLng();
+                onRotationChange(snapAngle(initialBearing(anchor, [latlng.lat, latlng.lng]), snap));
+              },
+            }}
+          />
+        </>
+      )}
+    </>
+  );
+}
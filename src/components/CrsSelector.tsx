@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { CrsDefinition, listCrs, lookupCrs } from '../crs';
+
+// Output coordinate system picker; "automatic" follows the UTM zone of the project location
+export default function CrsSelector({
+  crs,
+  isAutomatic,
+  convergence,
+  coordinateSystems,
+  onCodeChange,
+}: {
+  crs: CrsDefinition;
+  isAutomatic: boolean;
+  /** Grid convergence at the project location, in degrees. */
+  convergence: number | null;
+  coordinateSystems: CrsDefinition[];
+  /** Called with a supported EPSG code, or null to go back to the suggested UTM zone. */
+  onCodeChange: (code: number | null) => void;
+}) {
+  const [codeText, setCodeText] = useState(String(crs.code));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCodeText(String(crs.code));
+  }, [crs.code]);
+
+  const commitCode = () => {
+    const code = parseInt(codeText.replace(/^\s*epsg:\s*/i, ''), 10);
+    if (code === crs.code) {
+      setError(null);
+    } else if (!isNaN(code) && lookupCrs(code, coordinateSystems)) {
+      setError(null);
+      onCodeChange(code);
+    } else {
+      setError(`EPSG:${codeText.trim()} is not a supported projected coordinate system.`);
+      setCodeText(String(crs.code));
+    }
+  };
+
+  return (
+    <div className="crs-selector">
+      <div className="rotation-title">Coordinate System</div>
+      <label className="crs-code">
+        <span>EPSG:</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          list="crs-options"
+          value={codeText}
+          onChange={(e) => setCodeText(e.target.value)}
+          onBlur={commitCode}
+          onKeyDown={(e) => e.key === 'Enter' && commitCode()}
+          className="radius-value"
+          aria-label="EPSG code of the output coordinate system"
+        />
+      </label>
+      <datalist id="crs-options">
+        {listCrs(coordinateSystems).map((option) => (
+          <option key={option.code} value={option.code}>
+            {option.name}
+          </option>
+        ))}
+      </datalist>
+      <div className="crs-name">{crs.name}</div>
+      {isAutomatic ? (
+        <div className="extent-metrics">Suggested UTM zone for the project location</div>
+      ) : (
+        <button className="extent-action crs-auto" onClick={() => onCodeChange(null)}>
+          Use suggested UTM zone
+        </button>
+      )}
+      {convergence !== null && (
+        <div className="extent-metrics">Grid convergence: {convergence.toFixed(4)}°</div>
+      )}
+      {error && <div className="extent-problem">{error}</div>}
+    </div>
+  );
+}
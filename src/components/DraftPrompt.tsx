@@ -0,0 +1,38 @@
+import React from 'react';
+import { History } from 'lucide-react';
+
+const describeAge = (savedAt: number) => {
+  const minutes = Math.round((Date.now() - savedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(savedAt).toLocaleString();
+};
+
+// Offers to pick up an autosaved draft when the wizard opens
+export default function DraftPrompt({
+  savedAt,
+  onResume,
+  onDiscard,
+}: {
+  savedAt: number;
+  onResume: () => void;
+  onDiscard: () => void;
+}) {
+  return (
+    <div className="draft-prompt" role="alertdialog" aria-labelledby="draft-prompt-title">
+      <History className="draft-prompt-icon" />
+      <div className="draft-prompt-body">
+        <div id="draft-prompt-title" className="draft-prompt-title">Resume your draft?</div>
+        <div className="draft-prompt-text">An unfinished geolocation was saved {describeAge(savedAt)}.</div>
+      </div>
+      <div className="draft-prompt-buttons">
+        <button className="btn-secondary" onClick={onDiscard}>
+          Discard
+        </button>
+        <button className="btn-primary" onClick={onResume}>
+          Resume
+        </button>
+      </div>
+    </div>
+  );
+}
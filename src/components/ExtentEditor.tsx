@@ -0,0 +1,417 @@
+import React, { useEffect, useState } from 'react';
+import { Circle, Marker, Polygon, Polyline, Rectangle } from 'react-leaflet';
+import L from 'leaflet';
+import { Circle as CircleIcon, Square, Hexagon } from 'lucide-react';
+import { ExtentShape, ExtentShapeType, LatLngTuple } from '../types';
+import { extentMetrics, extentProblem, extentVertices, boundsFromCorners, rectangleVertices } from '../utils/extent';
+import { destinationPoint, haversineDistance, initialBearing } from '../utils/geodesy';
+import { LENGTH_UNITS, LengthUnit, formatArea, formatLength, fromMetres, roundForUnit, toMetres } from '../utils/units';
+
+export interface RadiusLimits {
+  /** Smallest allowed circle radius in metres. */
+  min: number;
+  /** Largest allowed circle radius in metres. */
+  max: number;
+}
+
+export const DEFAULT_RADIUS_LIMITS: RadiusLimits = { min: 10, max: 50000 };
+
+export const clampRadius = (radius: number, { min, max }: RadiusLimits) => Math.min(Math.max(radius, min), max);
+
+const EXTENT_COLOR = '#0696D7';
+const INVALID_COLOR = '#DC2626';
+
+const vertexIcon = L.divIcon({ className: 'extent-vertex-handle', iconSize: [12, 12] });
+const midpointIcon = L.divIcon({ className: 'extent-midpoint-handle', iconSize: [10, 10] });
+const closingVertexIcon = L.divIcon({ className: 'extent-vertex-handle extent-vertex-closing', iconSize: [14, 14] });
+const radiusHandleIcon = L.divIcon({ className: 'extent-radius-handle', iconSize: [14, 14] });
+
+const toTuple = (latlng: L.LatLng): LatLngTuple => [latlng.lat, latlng.lng];
+
+const midpoint = (a: LatLngTuple, b: LatLngTuple): LatLngTuple => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+
+// Numeric radius entry with a unit picker; the radius itself is always kept in metres
+function RadiusInput({
+  radius,
+  unit,
+  limits,
+  onRadiusChange,
+  onUnitChange,
+}: {
+  radius: number;
+  unit: LengthUnit;
+  limits: RadiusLimits;
+  onRadiusChange: (radius: number) => void;
+  onUnitChange: (unit: LengthUnit) => void;
+}) {
+  const [text, setText] = useState(String(roundForUnit(fromMetres(radius, unit), unit)));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow radius changes made on the map or a switch of unit, without rewriting what is being typed
+  useEffect(() => {
+    setText((current) =>
+      Math.abs(toMetres(parseFloat(current), unit) - radius) < 1e-6
+        ? current
+        : String(roundForUnit(fromMetres(radius, unit), unit))
+    );
+    setError(null);
+  }, [radius, unit]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    const value = parseFloat(e.target.value);
+    if (isNaN(value)) {
+      setError('Enter a number.');
+      return;
+    }
+    const metres = toMetres(value, unit);
+    if (metres < limits.min || metres > limits.max) {
+      setError(`Radius must be between ${formatLength(limits.min, unit)} and ${formatLength(limits.max, unit)}.`);
+      return;
+    }
+    setError(null);
+    onRadiusChange(metres);
+  };
+
+  return (
+    <div className="radius-input">
+      <label className="radius-label" htmlFor="extent-radius">Radius</label>
+      <div className="radius-fields">
+        <input
+          id="extent-radius"
+          type="number"
+          value={text}
+          onChange={handleChange}
+          className="radius-value"
+          min={roundForUnit(fromMetres(limits.min, unit), unit)}
+          max={roundForUnit(fromMetres(limits.max, unit), unit)}
+          step={unit === 'm' || unit === 'ft' ? 1 : 0.001}
+        />
+        <select
+          value={unit}
+          onChange={(e) => onUnitChange(e.target.value as LengthUnit)}
+          className="radius-unit"
+          aria-label="Radius unit"
+        >
+          {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map((key) => (
+            <option key={key} value={key}>
+              {LENGTH_UNITS[key].label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && <div className="extent-problem">{error}</div>}
+    </div>
+  );
+}
+
+// Shape picker and drawing status shown during the extent step
+export function ExtentShapeToggle({
+  mode,
+  onModeChange,
+  shape,
+  unit,
+  radiusLimits,
+  onShapeChange,
+  onUnitChange,
+  draftLength,
+  onFinishDraft,
+  onCancelDraft,
+  onRedraw,
+}: {
+  mode: ExtentShapeType;
+  onModeChange: (mode: ExtentShapeType) => void;
+  shape: ExtentShape | null;
+  unit: LengthUnit;
+  radiusLimits: RadiusLimits;
+  onShapeChange: (shape: ExtentShape) => void;
+  onUnitChange: (unit: LengthUnit) => void;
+  draftLength: number;
+  onFinishDraft: () => void;
+  onCancelDraft: () => void;
+  onRedraw: () => void;
+}) {
+  const options: { value: ExtentShapeType; label: string; icon: React.ReactNode }[] = [
+    { value: 'circle', label: 'Circle', icon: <CircleIcon className="mode-icon" /> },
+    { value: 'rectangle', label: 'Rectangle', icon: <Square className="mode-icon" /> },
+    { value: 'polygon', label: 'Polygon', icon: <Hexagon className="mode-icon" /> },
+  ];
+  const problem = shape && extentProblem(shape);
+  const metrics = shape && !problem ? extentMetrics(shape) : null;
+
+  return (
+    <div className="extent-toggle">
+      <div className="mode-toggle-title">Extent Shape</div>
+      <div className="mode-toggle-buttons">
+        {options.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onModeChange(option.value)}
+            className={`mode-button ${mode === option.value ? 'active' : 'inactive'}`}
+          >
+            {option.icon}
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {draftLength > 0 && (
+        <div className="extent-status">
+          <span>
+            {mode === 'polygon' ? `${draftLength} vertices placed` : 'Click the opposite corner'}
+          </span>
+          <div className="extent-status-actions">
+            {mode === 'polygon' && (
+              <button className="extent-action" onClick={onFinishDraft} disabled={draftLength < 3}>
+                Finish
+              </button>
+            )}
+            <button className="extent-action" onClick={onCancelDraft}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {draftLength === 0 && shape && shape.type !== 'circle' && (
+        <div className="extent-status">
+          <div className="extent-status-actions">
+            <button className="extent-action" onClick={onRedraw}>
+              Redraw
+            </button>
+          </div>
+        </div>
+      )}
+
+      {shape?.type === 'circle' && (
+        <RadiusInput
+          radius={shape.radius}
+          unit={unit}
+          limits={radiusLimits}
+          onRadiusChange={(radius) => onShapeChange({ ...shape, radius })}
+          onUnitChange={onUnitChange}
+        />
+      )}
+
+      {problem && <div className="extent-problem">{problem}</div>}
+      {metrics && (
+        <div className="extent-metrics">
+          Area {formatArea(metrics.area, unit)} · Perimeter {formatLength(metrics.perimeter, unit)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Draggable vertex handles with midpoint insertion and right-click deletion
+function VertexHandles({
+  vertices,
+  onChange,
+  allowInsertDelete,
+  snapPoint,
+}: {
+  vertices: LatLngTuple[];
+  onChange: (vertices: LatLngTuple[]) => void;
+  allowInsertDelete: boolean;
+  snapPoint: (point: LatLngTuple) => LatLngTuple;
+}) {
+  const moveVertex = (index: number, position: LatLngTuple) =>
+    onChange(vertices.map((vertex, i) => (i === index ? snapPoint(position) : vertex)));
+
+  const insertVertex = (afterIndex: number, position: LatLngTuple) =>
+    onChange([...vertices.slice(0, afterIndex + 1), snapPoint(position), ...vertices.slice(afterIndex + 1)]);
+
+  const deleteVertex = (index: number) => {
+    if (vertices.length > 3) onChange(vertices.filter((_, i) => i !== index));
+  };
+
+  return (
+    <>
+      {vertices.map((vertex, index) => (
+        <Marker
+          key={`vertex-${index}`}
+          position={vertex}
+          icon={vertexIcon}
+          draggable={true}
+          eventHandlers={{
+            drag: (e) => moveVertex(index, toTuple((e.target as L.Marker).getLatLng())),
+            contextmenu: () => allowInsertDelete && deleteVertex(index),
+          }}
+        />
+      ))}
+      {allowInsertDelete &&
+        vertices.map((vertex, index) => {
+          const next = vertices[(index + 1) % vertices.length];
+          const position = midpoint(vertex, next);
+          return (
+            <Marker
+              key={`midpoint-${index}-${position[0]}-${position[1]}`}
+              position={position}
+              icon={midpointIcon}
+              draggable={true}
+              eventHandlers={{
+                click: () => insertVertex(index, position),
+                dragend: (e) => insertVertex(index, toTuple((e.target as L.Marker).getLatLng())),
+              }}
+            />
+          );
+        })}
+    </>
+  );
+}
+
+// Edge handle that resizes a circle along the great circle from its center
+function CircleResizeHandle({
+  center,
+  radius,
+  limits,
+  onRadiusChange,
+}: {
+  center: LatLngTuple;
+  radius: number;
+  limits: RadiusLimits;
+  onRadiusChange: (radius: number) => void;
+}) {
+  // Remember where the user left the handle instead of snapping it back east
+  const [bearing, setBearing] = useState(90);
+
+  return (
+    <Marker
+      position={destinationPoint(center, bearing, radius)}
+      icon={radiusHandleIcon}
+      draggable={true}
+      eventHandlers={{
+        drag: (e) => {
+          const position = toTuple((e.target as L.Marker).getLatLng());
+          setBearing(initialBearing(center, position));
+          onRadiusChange(clampRadius(haversineDistance(center, position), limits));
+        },
+      }}
+    />
+  );
+}
+
+const keepPoint = (point: LatLngTuple) => point;
+
+// Everything the extent step draws on the map: the shape, its handles and any in-progress outline
+export function ExtentLayer({
+  shape,
+  mode,
+  draft,
+  cursor,
+  editable,
+  centerIcon,
+  radiusLimits,
+  snapPoint = keepPoint,
+  onShapeChange,
+  onFinishDraft,
+}: {
+  shape: ExtentShape | null;
+  mode: ExtentShapeType;
+  draft: LatLngTuple[];
+  cursor: LatLngTuple | null;
+  editable: boolean;
+  centerIcon: L.Icon;
+  radiusLimits: RadiusLimits;
+  /** Where a dragged vertex or center lands, e.g. on a nearby reference layer. */
+  snapPoint?: (point: LatLngTuple) => LatLngTuple;
+  onShapeChange: (shape: ExtentShape) => void;
+  onFinishDraft: () => void;
+}) {
+  const invalid = shape !== null && extentProblem(shape) !== null;
+  const pathOptions = {
+    fillColor: invalid ? INVALID_COLOR : EXTENT_COLOR,
+    fillOpacity: 0.1,
+    color: invalid ? INVALID_COLOR : EXTENT_COLOR,
+    weight: 2,
+  };
+
+  return (
+    <>
+      {shape?.type === 'circle' && (
+        <>
+          <Circle center={shape.center} radius={shape.radius} pathOptions={pathOptions} />
+          {editable && (
+            <>
+              <Marker
+                position={shape.center}
+                icon={centerIcon}
+                alt="Extent center"
+                draggable={true}
+                eventHandlers={{
+                  dragend: (e) =>
+                    onShapeChange({ ...shape, center: snapPoint(toTuple((e.target as L.Marker).getLatLng())) }),
+                }}
+              />
+              <CircleResizeHandle
+                center={shape.center}
+                radius={shape.radius}
+                limits={radiusLimits}
+                onRadiusChange={(radius) => onShapeChange({ ...shape, radius })}
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {shape?.type === 'rectangle' && (
+        <>
+          <Rectangle bounds={shape.bounds} pathOptions={pathOptions} />
+          {editable && (
+            <VertexHandles
+              vertices={rectangleVertices(shape.bounds)}
+              allowInsertDelete={false}
+              snapPoint={snapPoint}
+              onChange={(corners) => {
+                // Whichever corner moved, keep the one diagonally opposite it fixed
+                const previous = rectangleVertices(shape.bounds);
+                const moved = corners.findIndex(
+                  (corner, i) => corner[0] !== previous[i][0] || corner[1] !== previous[i][1]
+                );
+                if (moved === -1) return;
+                onShapeChange({ type: 'rectangle', bounds: boundsFromCorners(corners[moved], previous[(moved + 2) % 4]) });
+              }}
+            />
+          )}
+        </>
+      )}
+
+      {shape?.type === 'polygon' && (
+        <>
+          <Polygon positions={shape.vertices} pathOptions={pathOptions} />
+          {editable && (
+            <VertexHandles
+              vertices={extentVertices(shape)}
+              allowInsertDelete={true}
+              snapPoint={snapPoint}
+              onChange={(vertices) => onShapeChange({ type: 'polygon', vertices })}
+            />
+          )}
+        </>
+      )}
+
+      {/* Outline being drawn, following the cursor */}
+      {mode === 'rectangle' && draft.length === 1 && cursor && (
+        <Rectangle bounds={boundsFromCorners(draft[0], cursor)} pathOptions={{ ...pathOptions, dashArray: '6 4' }} />
+      )}
+      {mode === 'polygon' && draft.length > 0 && (
+        <>
+          <Polyline
+            positions={cursor ? [...draft, cursor] : draft}
+            pathOptions={{ color: EXTENT_COLOR, weight: 2, dashArray: '6 4' }}
+          />
+          {draft.map((vertex, index) => (
+            <Marker
+              key={`draft-${index}`}
+              position={vertex}
+              icon={index === 0 && draft.length >= 3 ? closingVertexIcon : vertexIcon}
+              eventHandlers={{
+                click: () => index === 0 && draft.length >= 3 && onFinishDraft(),
+              }}
+            />
+          ))}
+        </>
+      )}
+    </>
+  );
+}
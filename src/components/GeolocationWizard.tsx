@@ -1,7 +1,74 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { MapContainer, TileLayer, Marker, Circle, useMap, useMapEvents } from 'react-leaflet';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { MapContainer, Marker, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { Search, RotateCw, Move, Navigation, GripHorizontal } from 'lucide-react';
+import { Move, Navigation, GripHorizontal, Undo2, Redo2, Lock, Unlock } from 'lucide-react';
+import { createNominatimProvider, GeocodeResult, GeocodingProvider } from '../geocoding';
+import SearchInput, { SearchStatus, describeCoordinateError, describeGeocodingError } from './SearchInput';
+import { ValidationMarkers, ValidationSummary } from './ValidationDisplay';
+import CrsSelector from './CrsSelector';
+import BottomSheet from './BottomSheet';
+import DraftPrompt from './DraftPrompt';
+import IfcImport from './IfcImport';
+import { downloadText } from './SiteExport';
+import { BasemapLayer, BasemapSwitcher } from './Basemaps';
+import { DevicePositionLayer, LocateControl } from './LocateControl';
+import { SitePlanControl, SitePlanLayer } from './SitePlanEditor';
+import { ReferenceLayerControl, ReferenceLayerOverlay } from './ReferenceLayers';
+import { MeasureLayer, MeasurePanel, MeasureToggle } from './MeasureTool';
+import { SolarControl, SolarLayer } from './SolarAnalysis';
+import { BuildingFootprintControl, BuildingLayer, BuildingList, BuildingRotationControl, RotationSnap } from './BuildingEditor';
+import { DEFAULT_RADIUS_LIMITS, ExtentLayer, ExtentShapeToggle, RadiusLimits, clampRadius } from './ExtentEditor';
+import { COORDINATE_FORMAT_LABELS, ParsedCoordinate, formatCoordinates, parseCoordinates } from '../utils/coordinateParser';
+import { DEFAULT_EXTENT_RADIUS, circleVertices } from '../utils/extent';
+import { metresPerPixel, nudgeOffset, rotationNudge } from '../utils/nudge';
+import { InteractionMode, placementPoints } from '../utils/placement';
+import { normalizeAngle, snapAngle } from '../utils/angles';
+import { footprintCorners } from '../utils/footprint';
+import { offsetToLatLng } from '../utils/geodesy';
+import { MeasureMode, measurePath } from '../utils/measure';
+import { ExtentShape, ExtentShapeType, LatLngTuple, LocalPoint, WizardResult } from '../types';
+import { Validator } from '../validation';
+import { LengthUnit, formatArea, formatLength } from '../utils/units';
+import {
+  IfcConflict,
+  IfcModel,
+  ImportedSite,
+  SITE_FORMATS,
+  SiteImportError,
+  compareIfcSite,
+  detectSiteFormat,
+  importSite,
+  readIfcModel,
+  updateIfc,
+} from '../formats';
+import { CRS_UNIT_LABELS, CrsDefinition, projectPoint, unprojectPoint } from '../crs';
+import {
+  StepConfig,
+  StepContext,
+  WizardAction,
+  activeFeature,
+  describePlacementChange,
+  isBuiltInStep,
+  selectedBuilding,
+  useGeolocationWizard,
+  wizardReducer,
+} from '../wizard';
+import { Basemap, DEFAULT_BASEMAPS } from '../basemaps';
+import { DevicePosition, GeolocationSource, browserGeolocation, useDevicePosition } from '../positioning';
+import { PlanImage, PlanPixel, SitePlanError, isOnPlan, latLngToPlan, placeSitePlan, readPlanImage } from '../siteplan';
+import {
+  REFERENCE_SNAP_TOLERANCE_PX,
+  ReferenceLayer,
+  ReferenceLayerError,
+  alignRotation,
+  nearestLine,
+  parseReferenceFile,
+  readReferenceLines,
+  snapFootprint,
+  snapPoint,
+} from '../reference';
+import { formatSolarDate } from '../solar';
+import { DraftStorage, MapView, SavedDraft, WizardDraft, createLocalStorageDrafts, decodeDraftHash, draftLink, encodeDraftHash } from '../drafts';
 import 'leaflet/dist/leaflet.css';
 import './GeolocationWizard.css';
 
@@ -22,58 +89,171 @@ const projectIcon = new L.Icon({
     </svg>
   `),
   iconSize: [32, 32],
-  iconAnchor: [16, 32],
+  iconAnchor: [16, 16], // The middle of the dot, so it sits exactly under the center-mode crosshair
 });
 
-const buildingIcon = new L.Icon({
+const previewIcon = new L.Icon({
   iconUrl: 'data:image/svg+xml;base64,' + btoa(`
-    <svg width="32" height="48" viewBox="0 0 32 48" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <rect x="8" y="16" width="16" height="24" fill="#FF6B35" stroke="white" stroke-width="2" rx="2"/>
-      <rect x="10" y="18" width="3" height="3" fill="white"/>
-      <rect x="15" y="18" width="3" height="3" fill="white"/>
-      <rect x="10" y="23" width="3" height="3" fill="white"/>
-      <rect x="15" y="23" width="3" height="3" fill="white"/>
-      <rect x="12" y="32" width="4" height="8" fill="white"/>
+    <svg width="32" height="32" viewBox="0 0 32 32" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="16" cy="16" r="15" fill="#0696D7" fill-opacity="0.4" stroke="white" stroke-width="2" stroke-dasharray="4 3"/>
+      <circle cx="16" cy="16" r="4" fill="white"/>
     </svg>
   `),
-  iconSize: [32, 48],
-  iconAnchor: [16, 48],
+  iconSize: [32, 32],
+  iconAnchor: [16, 16],
 });
 
 
-interface WizardResult {
-  projectLocation: [number, number] | null;
-  projectExtent: { center: [number, number] | null; radius: number };
-  buildingLocation: [number, number] | null;
-  buildingRotation: number;
-  interactionMode: string;
-}
-
 interface Props {
   onComplete?: (result: WizardResult) => void;
   onClose?: () => void;
+  geocoder?: GeocodingProvider;
+  /** Allowed radius range for circular extents, in metres. */
+  radiusLimits?: Partial<RadiusLimits>;
+  /** Extra rules on top of the built-in containment checks. */
+  validators?: Validator[];
+  /** EPSG code of the projected output CRS. Defaults to the UTM zone of the project location. */
+  crs?: number;
+  /** Extra projected systems, e.g. local grids, that can be chosen by EPSG code. */
+  coordinateSystems?: CrsDefinition[];
+  /** A saved result to start from, for editing an existing geolocation. */
+  initialValue?: WizardResult;
+  /** Step to open on (0-based). Limited to the furthest step the starting value allows. */
+  initialStep?: number;
+  /** Controlled mode: the host owns the placement and receives every edit through onChange. */
+  value?: WizardResult;
+  /** Called with the updated result after every edit, in controlled and uncontrolled mode. */
+  onChange?: (result: WizardResult) => void;
+  /** Where the unfinished wizard is autosaved and offered for resuming; null turns this off. Defaults to localStorage. */
+  draftStorage?: DraftStorage | null;
+  /** Mirror the wizard in the URL fragment, so the address opens the same configuration, and offer "Copy link". */
+  urlHash?: boolean;
+  /** Background layers offered by the map's switcher. Defaults to imagery, streets, topographic and plain. */
+  basemaps?: Basemap[];
+  /** Id of the basemap shown first; defaults to the first one. */
+  defaultBasemap?: string;
+  /**
+   * Steps to run, in order. Built-in steps can be reordered, retitled, made
+   * optional or left out (except the location step), and custom steps added.
+   * Defaults to location, extent and building.
+   */
+  steps?: StepConfig[];
+  /** Source of the device position for "Use my current location". Defaults to the browser's; null hides the button. */
+  geolocation?: GeolocationSource | null;
+  /** Parcels, roads, existing buildings and the like to draw over the basemap and snap to. The user can add more from GeoJSON files. */
+  referenceLayers?: ReferenceLayer[];
+  /** How close, in screen pixels, the extent and buildings must come to a reference layer to snap to it. Defaults to 10; 0 turns snapping off. */
+  snapTolerance?: number;
+  /** Add the sun times and facade orientations for the date picked in the sun panel to the result as `solar`. */
+  includeSolar?: boolean;
+  /** IANA time zone, e.g. "Europe/London", for sun times; without one they are shown in local solar time. */
+  timeZone?: string;
 }
 
+const defaultGeocoder = createNominatimProvider();
+const defaultGeolocation = browserGeolocation();
+
+// A fix is framed at least this wide, in metres, so a precise one does not zoom the map right in
+const MIN_FIX_FRAME_M = 50;
+const defaultDraftStorage = createLocalStorageDrafts();
+
+// A newly loaded plan starts this share of the map's width across, north up in the middle of the view
+const PLAN_VIEW_SHARE = 0.6;
+const DEFAULT_PLAN_OPACITY = 0.6;
+
+// Autosave waits for edits to pause, since a drag updates the placement many times a second
+const DRAFT_SAVE_DELAY_MS = 500;
+
+// Rewrites the fragment in place, keeping the path (e.g. the GitHub Pages project folder) and the history entry
+const replaceUrlHash = (hash: string) => {
+  if (hash === window.location.hash) return;
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${hash}`);
+};
+
+const NO_COORDINATE_SYSTEMS: CrsDefinition[] = [];
+const NO_REFERENCE_LAYERS: ReferenceLayer[] = [];
+
+// Buildings only turn to road and parcel lines this close, in metres, so a distant road is not mistaken for the frontage
+const ALIGN_DISTANCE_M = 100;
+
+// What the arrow keys move on each built-in step, for the map's keyboard help
+const KEYBOARD_FEATURE_NAMES: Record<string, string> = {
+  location: 'project marker',
+  extent: 'project extent',
+  building: 'building',
+};
+
 // Map event handlers
 function MapEvents({ 
   onMapClick, 
+  onMouseMove,
+  onPanStart,
+  onPan,
+  onViewChange,
   interactionMode, 
   currentStep 
 }: { 
   onMapClick: (latlng: L.LatLng) => void;
+  onMouseMove?: (latlng: L.LatLng) => void;
+  /** The user started dragging the map; programmatic moves do not count. */
+  onPanStart?: () => void;
+  onPan?: (center: LatLngTuple) => void;
+  onViewChange?: (view: MapView) => void;
   interactionMode: string;
   currentStep: number;
 }) {
-  useMapEvents({
+  const map = useMapEvents({
     click: (e) => {
       if (onMapClick) {
         onMapClick(e.latlng);
       }
     },
+    mousemove: (e) => {
+      if (onMouseMove) {
+        onMouseMove(e.latlng);
+      }
+    },
+    dragstart: () => {
+      if (onPanStart) {
+        onPanStart();
+      }
+    },
+    move: () => {
+      if (onPan) {
+        const center = map.getCenter();
+        onPan([center.lat, center.lng]);
+      }
+    },
+    moveend: () => {
+      if (onViewChange) {
+        const center = map.getCenter();
+        onViewChange({ center: [center.lat, center.lng], zoom: map.getZoom() });
+      }
+    },
   });
   return null;
 }
 
+// Fits the map to a set of points, then reports the view it ended up with
+function FitBounds({
+  points,
+  onFitted
+}: {
+  points: LatLngTuple[] | null;
+  onFitted: (center: [number, number], zoom: number) => void;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!points || points.length === 0) return;
+    map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 18, animate: false });
+    const center = map.getCenter();
+    onFitted([center.lat, center.lng], map.getZoom());
+  }, [map, points, onFitted]);
+
+  return null;
+}
+
 // Component to handle map centering
 function MapCenter({ center, zoom }: { center: [number, number]; zoom?: number }) {
   const map = useMap();
@@ -87,16 +267,86 @@ function MapCenter({ center, zoom }: { center: [number, number]; zoom?: number }
   return null;
 }
 
+// Keyboard placement while the map has focus: arrow keys move the current step's feature, [ and ] rotate
+// the building, and Enter places at the map center like a click. Keys the wizard does not use, and arrows
+// when there is nothing to move, fall through to Leaflet, which pans and zooms.
+function KeyboardPlacement({
+  feature,
+  rotationSnap,
+  onPlace,
+  onNudge,
+  onRotate,
+  onFocusChange
+}: {
+  feature: LatLngTuple | null;
+  /** Rotation step for [ and ]; leave out when there is nothing to rotate. */
+  rotationSnap?: number;
+  onPlace: (point: LatLngTuple) => void;
+  onNudge: (east: number, north: number) => void;
+  onRotate: (degrees: number) => void;
+  /** Whether the map has keyboard focus, as opposed to focus from a click. */
+  onFocusChange: (focused: boolean) => void;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    const container = map.getContainer();
+    container.setAttribute('aria-label', 'Map');
+    container.setAttribute('aria-describedby', 'map-keyboard-help');
+  }, [map]);
+
+  useEffect(() => {
+    const container = map.getContainer();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target !== container || e.ctrlKey || e.metaKey) return;
+      const offset = feature && nudgeOffset(e, metresPerPixel(feature[0], map.getZoom()));
+      const rotation = rotationSnap === undefined ? null : rotationNudge(e, rotationSnap);
+      if (offset) {
+        onNudge(offset[0], offset[1]);
+      } else if (rotation !== null) {
+        onRotate(rotation);
+      } else if (e.key === 'Enter') {
+        const center = map.getCenter();
+        onPlace([center.lat, center.lng]);
+      } else {
+        return;
+      }
+      // Leaflet listens on the document, so this keeps it from panning as well
+      e.preventDefault();
+      e.stopPropagation();
+    };
+    container.addEventListener('keydown', handleKeyDown);
+    return () => container.removeEventListener('keydown', handleKeyDown);
+  }, [map, feature, rotationSnap, onPlace, onNudge, onRotate]);
+
+  useEffect(() => {
+    const container = map.getContainer();
+    const handleFocus = () => onFocusChange(container.matches(':focus-visible'));
+    const handleBlur = () => onFocusChange(false);
+    container.addEventListener('focus', handleFocus);
+    container.addEventListener('blur', handleBlur);
+    return () => {
+      container.removeEventListener('focus', handleFocus);
+      container.removeEventListener('blur', handleBlur);
+    };
+  }, [map, onFocusChange]);
+
+  return null;
+}
+
 // Custom draggable marker component
 function DraggableMarker({ 
   position, 
   onDragEnd, 
   icon, 
+  alt,
   children 
 }: {
   position: [number, number];
   onDragEnd?: (latlng: L.LatLng) => void;
   icon: L.Icon;
+  /** Name of the marker for screen readers. */
+  alt?: string;
   children?: React.ReactNode;
 }) {
   const markerRef = useRef<L.Marker>(null);
@@ -117,6 +367,7 @@ function DraggableMarker({
       position={position}
       ref={markerRef}
       icon={icon}
+      alt={alt}
     >
       {children}
     </Marker>
@@ -128,15 +379,23 @@ function DraggableMarker({
 // Step indicator component
 function StepIndicator({ currentStep, steps }: { currentStep: number; steps: { title: string }[] }) {
   return (
-    <div className="step-indicator">
-      <div className="step-indicator-content">
+    <nav className="step-indicator" aria-label="Wizard progress">
+      <p className="visually-hidden" aria-live="polite">
+        Step {currentStep + 1} of {steps.length}: {steps[currentStep]?.title}
+      </p>
+      <div className="step-indicator-content" role="list">
         {steps.map((step, index) => (
           <React.Fragment key={index}>
-            <div className={`step-item ${index === currentStep ? 'step-active' : ''}`}>
+            <div
+              className={`step-item ${index === currentStep ? 'step-active' : ''}`}
+              role="listitem"
+              aria-current={index === currentStep ? 'step' : undefined}
+            >
               <div className="step-title">
                 {step.title}
+                {index < currentStep && <span className="visually-hidden"> (completed)</span>}
               </div>
-              <div className={`step-number ${
+              <div aria-hidden="true" className={`step-number ${
                 index < currentStep
                   ? 'step-completed'
                   : index === currentStep
@@ -147,56 +406,14 @@ function StepIndicator({ currentStep, steps }: { currentStep: number; steps: { t
               </div>
             </div>
             {index < steps.length - 1 && (
-              <div className={`step-connector ${
+              <div aria-hidden="true" className={`step-connector ${
                 index < currentStep ? 'step-connector-completed' : 'step-connector-pending'
               }`} />
             )}
           </React.Fragment>
         ))}
       </div>
-    </div>
-  );
-}
-
-// Search component
-function SearchInput({ 
-  onSearch, 
-  value = "",
-  placeholder = "Enter address or latitude/longitude to start" 
-}: {
-  onSearch: (searchTerm: string) => void;
-  value?: string;
-  placeholder?: string;
-}) {
-  const [searchValue, setSearchValue] = useState(value);
-
-  // Update local state when external value changes
-  useEffect(() => {
-    setSearchValue(value);
-  }, [value]);
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchValue.trim()) {
-      onSearch(searchValue.trim());
-    }
-  };
-
-  return (
-    <div className="search-container">
-      <form onSubmit={handleSubmit}>
-        <div className="search-input-wrapper">
-          <Search className="search-icon" />
-          <input
-            type="text"
-            value={searchValue}
-            onChange={(e) => setSearchValue(e.target.value)}
-            placeholder={placeholder}
-            className="search-input"
-          />
-        </div>
-      </form>
-    </div>
+    </nav>
   );
 }
 
@@ -207,11 +424,12 @@ function InteractionModeToggle({ mode, onModeChange }: {
 }) {
   return (
     <div className="mode-toggle">
-      <div className="mode-toggle-title">Interaction Mode</div>
-      <div className="mode-toggle-buttons">
+      <div className="mode-toggle-title" id="mode-toggle-title">Interaction Mode</div>
+      <div className="mode-toggle-buttons" role="group" aria-labelledby="mode-toggle-title">
         <button
           onClick={() => onModeChange('drag')}
           className={`mode-button ${mode === 'drag' ? 'active' : 'inactive'}`}
+          aria-pressed={mode === 'drag'}
         >
           <Move className="mode-icon" />
           Drag
@@ -219,6 +437,7 @@ function InteractionModeToggle({ mode, onModeChange }: {
         <button
           onClick={() => onModeChange('center')}
           className={`mode-button ${mode === 'center' ? 'active' : 'inactive'}`}
+          aria-pressed={mode === 'center'}
         >
           <Navigation className="mode-icon" />
           Center
@@ -228,36 +447,46 @@ function InteractionModeToggle({ mode, onModeChange }: {
   );
 }
 
-// Building rotation control
-function BuildingRotationControl({ 
-  rotation, 
-  onRotationChange, 
-  visible 
+// Undo and redo buttons, also bound to Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y)
+function HistoryControls({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo
 }: {
-  rotation: number;
-  onRotationChange: (rotation: number) => void;
-  visible: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }) {
-  if (!visible) return null;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
 
   return (
-    <div className="rotation-control">
-      <div className="rotation-title">Building Rotation</div>
-      <div className="rotation-buttons">
-        <button
-          onClick={() => onRotationChange(rotation - 15)}
-          className="rotation-button"
-        >
-          <RotateCw className="rotation-icon-left" />
-        </button>
-        <span className="rotation-value">{rotation}°</span>
-        <button
-          onClick={() => onRotationChange(rotation + 15)}
-          className="rotation-button"
-        >
-          <RotateCw className="rotation-icon" />
-        </button>
-      </div>
+    <div className="history-controls">
+      <button onClick={onUndo} disabled={!canUndo} className="history-button" title="Undo (Ctrl+Z)" aria-label="Undo">
+        <Undo2 className="history-icon" />
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className="history-button" title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+        <Redo2 className="history-icon" />
+      </button>
     </div>
   );
 }
@@ -273,20 +502,29 @@ function MapRef({ mapRef }: { mapRef: React.MutableRefObject<L.Map | null> }) {
   return null;
 }
 
+const formatProjected = (value: number) => value.toFixed(3);
+
 // Coordinate Tooltip Component
 function CoordinateTooltip({ 
   position, 
   onPositionChange, 
   isDraggable = true,
-  mapRef
+  mapRef,
+  crs
 }: { 
   position: [number, number]; 
   onPositionChange: (lat: number, lng: number) => void;
   isDraggable?: boolean;
   mapRef: React.MutableRefObject<L.Map | null>;
+  /** When given, the tooltip can switch to easting/northing in this CRS. */
+  crs?: CrsDefinition;
 }) {
   const [localLat, setLocalLat] = useState(position[0].toFixed(6));
   const [localLng, setLocalLng] = useState(position[1].toFixed(6));
+  const [showProjected, setShowProjected] = useState(false);
+  const projected = useMemo(() => crs && projectPoint(crs, position), [crs, position]);
+  const [localEasting, setLocalEasting] = useState(projected ? formatProjected(projected[0]) : '');
+  const [localNorthing, setLocalNorthing] = useState(projected ? formatProjected(projected[1]) : '');
   const [isDragging, setIsDragging] = useState(false);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
   const tooltipRef = useRef<HTMLDivElement>(null);
@@ -309,6 +547,15 @@ function CoordinateTooltip({
     updateTooltipPosition();
   }, [position, updateTooltipPosition]);
 
+  // Keep a half-typed easting or northing unless the point really moved
+  useEffect(() => {
+    if (!projected) return;
+    const sync = (value: number) => (current: string) =>
+      Math.abs(parseFloat(current) - value) < 1e-3 ? current : formatProjected(value);
+    setLocalEasting(sync(projected[0]));
+    setLocalNorthing(sync(projected[1]));
+  }, [projected]);
+
   // Update tooltip position when map view changes
   useEffect(() => {
     const map = mapRef.current;
@@ -345,14 +592,38 @@ function CoordinateTooltip({
     }
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!isDraggable) return;
+  const handleProjectedChange = (axis: 'easting' | 'northing', value: string) => {
+    if (!crs) return;
+    const easting = parseFloat(axis === 'easting' ? value : localEasting);
+    const northing = parseFloat(axis === 'northing' ? value : localNorthing);
+    (axis === 'easting' ? setLocalEasting : setLocalNorthing)(value);
+    if (isNaN(easting) || isNaN(northing)) return;
+
+    const [lat, lng] = unprojectPoint(crs, [easting, northing]);
+    if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+      onPositionChange(lat, lng);
+    }
+  };
+
+  // The gripper also moves with the arrow keys, by the same number of pixels as a map nudge
+  const handleGripperKeyDown = (e: React.KeyboardEvent) => {
+    const offset = nudgeOffset(e, 1);
+    if (!isDraggable || !offset) return;
+    e.preventDefault();
+    setTooltipPosition(({ x, y }) => ({ x: x + offset[0], y: y - offset[1] }));
+  };
+
+  // Pointer events cover mouse, pen and touch; capturing the pointer keeps the drag going outside the gripper
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggable || !e.isPrimary) return;
+    const gripper = e.currentTarget;
+    gripper.setPointerCapture(e.pointerId);
     setIsDragging(true);
     const startX = e.clientX;
     const startY = e.clientY;
     const startPosition = { ...tooltipPosition };
 
-    const handleMouseMove = (e: MouseEvent) => {
+    const handlePointerMove = (e: PointerEvent) => {
       const deltaX = e.clientX - startX;
       const deltaY = e.clientY - startY;
       setTooltipPosition({
@@ -361,20 +632,22 @@ function CoordinateTooltip({
       });
     };
 
-    const handleMouseUp = () => {
+    const handlePointerUp = () => {
       setIsDragging(false);
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
+      gripper.removeEventListener('pointermove', handlePointerMove);
+      gripper.removeEventListener('pointerup', handlePointerUp);
+      gripper.removeEventListener('pointercancel', handlePointerUp);
     };
 
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('mouseup', handleMouseUp);
+    gripper.addEventListener('pointermove', handlePointerMove);
+    gripper.addEventListener('pointerup', handlePointerUp);
+    gripper.addEventListener('pointercancel', handlePointerUp);
   };
 
   return (
     <div 
       ref={tooltipRef}
-      className="coordinate-tooltip"
+      className={`coordinate-tooltip ${crs ? 'coordinate-tooltip-switchable' : ''} ${showProjected && crs ? 'coordinate-tooltip-projected' : ''}`}
       style={{ 
         cursor: isDragging ? 'grabbing' : 'default',
         left: `${tooltipPosition.x}px`,
@@ -385,194 +658,549 @@ function CoordinateTooltip({
       <div className="coordinate-tooltip-content">
         <div 
           className="coordinate-gripper"
-          onMouseDown={handleMouseDown}
+          onPointerDown={handlePointerDown}
+          onKeyDown={handleGripperKeyDown}
+          tabIndex={isDraggable ? 0 : undefined}
+          role={isDraggable ? 'button' : undefined}
+          aria-label={isDraggable ? 'Move coordinate panel with the arrow keys' : undefined}
           style={{ cursor: isDraggable ? (isDragging ? 'grabbing' : 'grab') : 'default' }}
         >
-          <GripHorizontal className="gripper-icon" />
+          <GripHorizontal className="gripper-icon" aria-hidden="true" />
         </div>
         <div className="coordinate-inputs">
-          <div className="coordinate-row">
-            <label className="coordinate-label">Latitude</label>
-            <input
-              type="number"
-              value={localLat}
-              onChange={handleLatChange}
-              className="coordinate-input"
-              step="0.000001"
-              min="-90"
-              max="90"
-            />
-          </div>
-          <div className="coordinate-row">
-            <label className="coordinate-label">Longitude</label>
-            <input
-              type="number"
-              value={localLng}
-              onChange={handleLngChange}
-              className="coordinate-input"
-              step="0.000001"
-              min="-180"
-              max="180"
-            />
-          </div>
+          {crs && (
+            <div className="coordinate-system-toggle">
+              <button
+                onClick={() => setShowProjected(false)}
+                className={`coordinate-system-button ${showProjected ? '' : 'active'}`}
+              >
+                Lat/Lng
+              </button>
+              <button
+                onClick={() => setShowProjected(true)}
+                className={`coordinate-system-button ${showProjected ? 'active' : ''}`}
+                title={crs.name}
+              >
+                EPSG:{crs.code}
+              </button>
+            </div>
+          )}
+          {showProjected && crs ? (
+            <>
+              <div className="coordinate-row">
+                <label className="coordinate-label">Easting</label>
+                <input
+                  type="number"
+                  value={localEasting}
+                  onChange={(e) => handleProjectedChange('easting', e.target.value)}
+                  className="coordinate-input"
+                  step="0.001"
+                  aria-label={`Easting in ${CRS_UNIT_LABELS[crs.unit]}`}
+                />
+              </div>
+              <div className="coordinate-row">
+                <label className="coordinate-label">Northing</label>
+                <input
+                  type="number"
+                  value={localNorthing}
+                  onChange={(e) => handleProjectedChange('northing', e.target.value)}
+                  className="coordinate-input"
+                  step="0.001"
+                  aria-label={`Northing in ${CRS_UNIT_LABELS[crs.unit]}`}
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="coordinate-row">
+                <label className="coordinate-label">Latitude</label>
+                <input
+                  type="number"
+                  value={localLat}
+                  onChange={handleLatChange}
+                  className="coordinate-input"
+                  aria-label="Latitude in degrees"
+                  step="0.000001"
+                  min="-90"
+                  max="90"
+                />
+              </div>
+              <div className="coordinate-row">
+                <label className="coordinate-label">Longitude</label>
+                <input
+                  type="number"
+                  value={localLng}
+                  onChange={handleLngChange}
+                  className="coordinate-input"
+                  aria-label="Longitude in degrees"
+                  step="0.000001"
+                  min="-180"
+                  max="180"
+                />
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+// Live position under the crosshair, with the button that fixes the feature there
+function CenterModeControls({
+  position,
+  locked,
+  onLock,
+  onUnlock
+}: {
+  position: LatLngTuple;
+  locked: boolean;
+  onLock: () => void;
+  onUnlock: () => void;
+}) {
+  return (
+    <div className="center-mode-controls">
+      <span className="center-mode-position">{formatCoordinates(position[0], position[1])}</span>
+      {locked ? (
+        <button className="btn-secondary center-mode-button" onClick={onUnlock}>
+          <Unlock className="mode-icon" />
+          Move
+        </button>
+      ) : (
+        <button className="btn-primary center-mode-button" onClick={onLock}>
+          <Lock className="mode-icon" />
+          Lock here
+        </button>
+      )}
+    </div>
+  );
+}
+
 // Instruction overlay
-function InstructionOverlay({ step, interactionMode }: { step: number; interactionMode: string }) {
+function InstructionOverlay({
+  stepId,
+  interactionMode,
+  extentShape = 'circle',
+  customInstructions
+}: {
+  stepId: string;
+  interactionMode: string;
+  extentShape?: ExtentShapeType;
+  /** A custom step's own instructions. */
+  customInstructions?: string;
+}) {
   const instructions = {
-    0: {
+    location: {
       drag: "Search for a location or click on the map to place a project marker. You can drag the marker to adjust its position.",
-      center: "Search for a location to center the map, then use the crosshair to position your project."
+      center: "Search for a location or drag the map to bring your project under the crosshair, then press \"Lock here\"."
     },
-    1: {
-      drag: "Click and drag to create a circular project extent. Drag the blue handles to resize the circle.",
-      center: "Use the map controls to position the circular extent for your project area."
+    extent: {
+      drag: "Click to place a circular project extent. Drag the center to move it and the white edge handle to resize it, or type an exact radius.",
+      center: "Drag the map to move the extent with the crosshair, and type its radius in the panel."
     },
-    2: {
-      drag: "Click to place a building within the project extent. Drag to reposition and use the rotation controls.",
-      center: "Center the map where you want to place the building, then use the controls to position and rotate it."
+    building: {
+      drag: "Click to place the selected building within the project extent. Drag its center to move it, drag the round handle to rotate it, and add, size or rename buildings in the panel.",
+      center: "Drag the map to move the selected building under the crosshair, then rotate and size it in the panel."
     }
   };
 
+  // Rectangles and polygons are drawn by clicking, whatever the interaction mode
+  const extentInstructions: Partial<Record<ExtentShapeType, string>> = {
+    rectangle: "Click two opposite corners to draw a rectangular extent. Drag the corner handles to adjust it.",
+    polygon: "Click to add vertices and click the first vertex to close the outline. Drag a vertex to move it, drag a midpoint to insert one, or right-click a vertex to delete it."
+  };
+
   return (
-    <div className="instruction-overlay">
+    <div className="instruction-overlay" role="status">
       <p className="instruction-text">
-        {instructions[step as keyof typeof instructions]?.[interactionMode as keyof typeof instructions[0]]}
+        {(stepId === 'extent' && extentInstructions[extentShape]) ||
+          customInstructions ||
+          instructions[stepId as keyof typeof instructions]?.[interactionMode as keyof typeof instructions.location]}
       </p>
     </div>
   );
 }
 
-export default function GeolocationWizard({ onClose, onComplete }: Props) {
-  const [currentStep, setCurrentStep] = useState(0);
-  const [interactionMode, setInteractionMode] = useState<'drag' | 'center'>('drag');
-  const [mapCenter, setMapCenter] = useState<[number, number]>([39.8283, -98.5795]); // Center of US
-  const [mapZoom, setMapZoom] = useState(4);
-  const [projectLocation, setProjectLocation] = useState<[number, number] | null>(null);
-  const [projectExtent, setProjectExtent] = useState<{ center: [number, number] | null; radius: number }>({ center: null, radius: 1000 });
-  const [buildingLocation, setBuildingLocation] = useState<[number, number] | null>(null);
-  const [buildingRotation, setBuildingRotation] = useState(0);
-  const [searchAddress, setSearchAddress] = useState("");
+export default function GeolocationWizard({
+  onClose,
+  onComplete,
+  geocoder = defaultGeocoder,
+  radiusLimits: radiusLimitOverrides,
+  validators,
+  crs,
+  coordinateSystems = NO_COORDINATE_SYSTEMS,
+  initialValue,
+  initialStep,
+  value,
+  onChange,
+  draftStorage = defaultDraftStorage,
+  urlHash = false,
+  basemaps = DEFAULT_BASEMAPS,
+  defaultBasemap,
+  steps: stepConfigs,
+  geolocation = defaultGeolocation,
+  referenceLayers = NO_REFERENCE_LAYERS,
+  snapTolerance = REFERENCE_SNAP_TOLERANCE_PX,
+  includeSolar = false,
+  timeZone
+}: Props) {
+  const radiusLimits: RadiusLimits = { ...DEFAULT_RADIUS_LIMITS, ...radiusLimitOverrides };
+  // A link wins over everything else; a saved draft is only offered when the host did not say what to open
+  const [linkedDraft] = useState(() => (urlHash ? decodeDraftHash(window.location.hash) : null));
+  const [offerSavedDraft] = useState(() => !linkedDraft && !initialValue && !value);
+  // The sun panel's date feeds the result, so it is chosen before the hook runs
+  const [solarDate, setSolarDate] = useState(() => formatSolarDate(new Date()));
+  const [solarOpen, setSolarOpen] = useState(false);
+  const {
+    state,
+    dispatch,
+    result: currentResult,
+    activeCrs,
+    isAutomaticCrs,
+    issues: visibleIssues,
+    isValidating,
+    canProceed,
+    steps,
+    stepId,
+    isLastStep,
+    canUndo,
+    canRedo
+  } = useGeolocationWizard({
+    initialValue,
+    initialStep,
+    initialDraft: linkedDraft,
+    value,
+    onChange,
+    defaultRadius: clampRadius(DEFAULT_EXTENT_RADIUS, radiusLimits),
+    validators,
+    crs,
+    coordinateSystems,
+    steps: stepConfigs,
+    solarDate: includeSolar ? solarDate : null
+  });
+  const { step: currentStep, placement, extentDrawMode, extentDraft, searchAddress, stepValues } = state;
+  const { projectLocation, projectExtent, sitePlan, interactionMode } = placement;
+  const building = selectedBuilding(state);
+  const [mapCenter, setMapCenter] = useState<[number, number]>(linkedDraft?.view?.center ?? projectLocation ?? [39.8283, -98.5795]); // Center of US
+  const [mapZoom, setMapZoom] = useState(linkedDraft?.view?.zoom ?? (projectLocation ? 15 : 4));
+  const [fitPoints, setFitPoints] = useState<LatLngTuple[] | null>(() => (linkedDraft?.view ? null : placementPoints(placement)));
+  const [mapView, setMapView] = useState<MapView | null>(linkedDraft?.view ?? null);
+  const [savedDraft, setSavedDraft] = useState<SavedDraft | null>(null);
+  // Autosave starts once any saved draft has been resumed or discarded, so it cannot be overwritten first
+  const [draftsReady, setDraftsReady] = useState(false);
+  const [linkCopy, setLinkCopy] = useState<'copied' | 'failed' | null>(null);
+  const [basemapId, setBasemapId] = useState(defaultBasemap ?? basemaps[0]?.id);
+  const activeBasemap = basemaps.find((basemap) => basemap.id === basemapId) ?? basemaps[0];
+  const [cursorLocation, setCursorLocation] = useState<LatLngTuple | null>(null);
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>('m');
+  const [rotationSnap, setRotationSnap] = useState<RotationSnap>(15);
+  const [searchStatus, setSearchStatus] = useState<SearchStatus | null>(null);
+  // The last IFC model imported, kept so the placement can be written back into it
+  const [ifcImport, setIfcImport] = useState<{
+    fileName: string;
+    source: string;
+    model: IfcModel;
+    conflicts: IfcConflict[];
+    open: boolean;
+  } | null>(null);
+  const [previewCandidate, setPreviewCandidate] = useState<GeocodeResult | null>(null);
+  const [centerLocked, setCenterLocked] = useState(false);
+  const [liveCenter, setLiveCenter] = useState<LatLngTuple | null>(null);
+  const [mapKeyboardFocus, setMapKeyboardFocus] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
   const mapRef = useRef<L.Map | null>(null);
+  const panningRef = useRef(false);
+  const searchRequestRef = useRef(0);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const devicePosition = useDevicePosition({ geolocation });
+  // Set when the user asks for their location, so the first fix that comes back frames the map
+  const frameNextFixRef = useRef(false);
+  // The plan's image stays out of the placement, so undo and drafts only carry its size and control points
+  const [planImage, setPlanImage] = useState<PlanImage | null>(null);
+  const [planOpacity, setPlanOpacity] = useState(DEFAULT_PLAN_OPACITY);
+  const [planError, setPlanError] = useState<string | null>(null);
+  // A control point being picked: first its pixel on the plan, then its location on the map
+  const [planPick, setPlanPick] = useState<{ pixel: PlanPixel | null } | null>(null);
+  // Reference layers the user loaded, and any they turned on or off; neither goes into the placement or drafts
+  const [uploadedLayers, setUploadedLayers] = useState<ReferenceLayer[]>([]);
+  const [layerVisibility, setLayerVisibility] = useState<Record<string, boolean>>({});
+  const [snapping, setSnapping] = useState(true);
+  const [autoAlign, setAutoAlign] = useState(false);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  // Measuring takes over map clicks, and is kept out of the placement so it never lands in undo or drafts
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+  const [measurePoints, setMeasurePoints] = useState<LatLngTuple[]>([]);
 
-  const steps = [
-    { title: 'Locate project' },
-    { title: 'Extent' },
-    { title: 'Place building (Optional)' }
-  ];
-
-  // Geocoding function (simplified - in production, use a proper geocoding service)
-  const geocodeLocation = async (searchTerm: string): Promise<{ lat: number; lng: number }> => {
-    // Check if it's coordinates (lat,lng format)
-    const coordPattern = /^-?\d+\.?\d*,-?\d+\.?\d*$/;
-    if (coordPattern.test(searchTerm)) {
-      const [lat, lng] = searchTerm.split(',').map(Number);
-      return { lat, lng };
+  const setProjectLocation = (location: LatLngTuple) => dispatch({ type: 'setProjectLocation', location });
+  const setProjectExtent = (extent: ExtentShape | null) => dispatch({ type: 'setProjectExtent', extent });
+  const setBuildingLocation = (location: LatLngTuple, rotation?: number) =>
+    dispatch({ type: 'setBuildingLocation', location, rotation });
+  const setBuildingRotation = (rotation: number) => dispatch({ type: 'setBuildingRotation', rotation });
+  const setBuildingOutline = (outline: LocalPoint[]) => dispatch({ type: 'setBuildingOutline', outline });
+  const selectBuilding = (id: string) => {
+    dispatch({ type: 'selectBuilding', id });
+    const name = placement.buildings.find((other) => other.id === id)?.name;
+    if (name) setAnnouncement(`${name} selected.`);
+  };
+  const setInteractionMode = (mode: InteractionMode) => dispatch({ type: 'setInteractionMode', mode });
+
+  // Layers of a step stay on the map once the user has got that far
+  const hasReached = (id: string) => {
+    const index = steps.findIndex((step) => step.id === id);
+    return index >= 0 && index <= currentStep;
+  };
+  const stepContext = (id: string): StepContext => ({
+    value: stepValues[id],
+    setValue: (value) => dispatch({ type: 'setStepValue', id, value }),
+    result: currentResult,
+  });
+  const customStep = steps[currentStep].custom;
+
+  // Center mode: the current step's feature follows the map center while the user drags, until it is locked.
+  // Rectangles and polygons still being drawn have nothing to follow.
+  const currentFeature = activeFeature(state);
+  const canFollowCenter =
+    interactionMode === 'center' &&
+    isBuiltInStep(stepId) &&
+    (stepId !== 'extent' || projectExtent !== null || extentDrawMode === 'circle');
+  const isFollowingCenter = canFollowCenter && !centerLocked;
+  // What the map shows, including a drag that has not been committed yet
+  const shownPlacement = useMemo(
+    () => (liveCenter ? wizardReducer(state, { type: 'placeAtCenter', point: liveCenter }).placement : placement),
+    [liveCenter, state, placement]
+  );
+  // The sun diagram is drawn over the selected building, or the project until that building is placed
+  const solarCenter = building.location ?? projectLocation;
+
+  // A new step or a switch to center mode starts unlocked, with the map on the feature
+  const activeFeatureRef = useRef(currentFeature);
+  activeFeatureRef.current = currentFeature;
+  useEffect(() => {
+    setCenterLocked(false);
+    const feature = activeFeatureRef.current;
+    if (interactionMode === 'center' && feature) {
+      setMapCenter([feature[0], feature[1]]);
     }
+  }, [currentStep, interactionMode]);
 
-    // For demo purposes, return a mock location
-    // In production, integrate with a geocoding service like Nominatim or Google Geocoding
-    return { lat: 40.7128, lng: -74.0060 }; // NYC coordinates
+  const handlePanStart = () => {
+    panningRef.current = isFollowingCenter && !measureMode;
   };
 
-  // Reverse geocoding function to get address from coordinates
+  const handlePan = (center: LatLngTuple) => {
+    if (panningRef.current) setLiveCenter(center);
+  };
+
+  const handleViewChange = (view: MapView) => {
+    setMapView(view);
+    if (!panningRef.current) return;
+    panningRef.current = false;
+    setLiveCenter(null);
+    dispatch({ type: 'placeAtCenter', point: view.center });
+    // Reverse geocoding waits for "Lock here", rather than hitting the geocoder after every drag
+    if (stepId === 'location') {
+      dispatch({ type: 'setSearchAddress', address: formatCoordinates(view.center[0], view.center[1]) });
+    }
+  };
+
+  const handleLockCenter = () => {
+    const center = currentMapCenter();
+    dispatch({ type: 'placeAtCenter', point: center });
+    setCenterLocked(true);
+    if (stepId === 'location') updateSearchAddress(center);
+  };
+
+  const handleUnlockCenter = () => {
+    setCenterLocked(false);
+    if (currentFeature) setMapCenter([currentFeature[0], currentFeature[1]]);
+  };
+
+  const handleNudge = (east: number, north: number) => {
+    const action: WizardAction = { type: 'nudge', east, north };
+    dispatch(action);
+    const moved = activeFeature(wizardReducer(state, action));
+    if (!moved) return;
+    // Center mode keeps the feature under the crosshair
+    if (interactionMode === 'center') setMapCenter([moved[0], moved[1]]);
+    if (stepId === 'location') dispatch({ type: 'setSearchAddress', address: formatCoordinates(moved[0], moved[1]) });
+  };
+
+  // Keyboard turns land on whole multiples of the step, like the rotation buttons
+  const handleKeyboardRotate = (degrees: number) =>
+    setBuildingRotation(snapAngle(building.rotation + degrees, Math.abs(degrees)));
+
+  // Screen readers hear each edit in words, whichever way it was made
+  const announcedPlacementRef = useRef(placement);
+  useEffect(() => {
+    const message = describePlacementChange(announcedPlacementRef.current, placement);
+    announcedPlacementRef.current = placement;
+    if (message) setAnnouncement(message);
+  }, [placement]);
+
+  const handleUndo = useCallback(() => dispatch({ type: 'undo' }), [dispatch]);
+  const handleRedo = useCallback(() => dispatch({ type: 'redo' }), [dispatch]);
+
+  const handleFitted = useCallback((center: [number, number], zoom: number) => {
+    setMapCenter(center);
+    setMapZoom(zoom);
+    setFitPoints(null);
+  }, []);
+
+  // Reverse geocoding to get an address from coordinates, falling back to the coordinates themselves
   const reverseGeocode = async (lat: number, lng: number): Promise<string> => {
     try {
-      // Using Nominatim reverse geocoding service
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        return data.display_name || `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
-      }
+      const result = await geocoder.reverse(lat, lng);
+      return result ? result.label : formatCoordinates(lat, lng);
     } catch (error) {
-      console.error('Reverse geocoding error:', error);
+      setSearchStatus({ type: 'error', message: `Address lookup failed: ${describeGeocodingError(error)}` });
+      return formatCoordinates(lat, lng);
+    }
+  };
+
+  // The lookup is dropped if the project has moved on, or the move was undone, by the time it returns
+  const updateSearchAddress = async (location: LatLngTuple) => {
+    setSearchStatus(null);
+    const address = await reverseGeocode(location[0], location[1]);
+    dispatch({ type: 'setSearchAddress', address, location });
+  };
+
+  // Where the user is actually looking, which may differ from mapCenter after panning
+  const currentMapCenter = (): [number, number] => {
+    const center = mapRef.current?.getCenter();
+    return center ? [center.lat, center.lng] : mapCenter;
+  };
+  // The search box only needs the center as of the last finished move, and keeping the same array between
+  // moves saves it from reading the query again on every render
+  const searchReference = mapView?.center ?? mapCenter;
+
+  const applySearchResult = (result: GeocodeResult) => {
+    const map = mapRef.current;
+    if (result.bbox && map) {
+      // Frame the whole match, but never zoom in further than street level
+      const [south, west, north, east] = result.bbox;
+      const bounds = L.latLngBounds([south, west], [north, east]);
+      setMapCenter([result.lat, result.lng]);
+      setMapZoom(Math.min(map.getBoundsZoom(bounds), 18));
+    } else {
+      setMapCenter([result.lat, result.lng]);
+      setMapZoom(15);
+    }
+
+    if (stepId === 'location') {
+      setProjectLocation([result.lat, result.lng]);
+      dispatch({ type: 'setSearchAddress', address: result.label });
     }
-    
-    // Fallback to coordinates if reverse geocoding fails
-    return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
   };
 
   const handleSearch = async (searchTerm: string) => {
+    const requestId = ++searchRequestRef.current;
+
+    // Coordinates are used as-is without hitting the geocoder
+    let coordinates: ParsedCoordinate | null;
     try {
-      const location = await geocodeLocation(searchTerm);
-      setMapCenter([location.lat, location.lng]);
-      setMapZoom(15);
-      
-      if (currentStep === 0) {
-        setProjectLocation([location.lat, location.lng]);
-        
-        // If user searched with coordinates, keep them as is, otherwise try reverse geocoding
-        const coordPattern = /^-?\d+\.?\d*,-?\d+\.?\d*$/;
-        if (coordPattern.test(searchTerm)) {
-          setSearchAddress(searchTerm);
-        } else {
-          // For address searches, try to get the proper formatted address
-          try {
-            const address = await reverseGeocode(location.lat, location.lng);
-            setSearchAddress(address);
-          } catch (error) {
-            setSearchAddress(searchTerm); // Fallback to original search term
-          }
-        }
-      }
+      coordinates = parseCoordinates(searchTerm, { reference: currentMapCenter() });
+    } catch (error) {
+      setSearchStatus({ type: 'error', message: describeCoordinateError(error) });
+      return;
+    }
+    if (coordinates) {
+      setSearchStatus(null);
+      applySearchResult({
+        id: searchTerm,
+        label: searchTerm,
+        lat: coordinates.lat,
+        lng: coordinates.lng,
+        type: COORDINATE_FORMAT_LABELS[coordinates.format],
+      });
+      return;
+    }
+
+    setSearchStatus({ type: 'loading' });
+    let results: GeocodeResult[];
+    try {
+      results = await geocoder.search(searchTerm, { limit: 5 });
     } catch (error) {
-      console.error('Geocoding error:', error);
+      if (requestId === searchRequestRef.current) {
+        setSearchStatus({ type: 'error', message: describeGeocodingError(error) });
+      }
+      return;
     }
+
+    // A newer search has started since this one was sent
+    if (requestId !== searchRequestRef.current) return;
+
+    if (results.length === 0) {
+      setSearchStatus({ type: 'empty', message: `No results found for "${searchTerm}"` });
+      return;
+    }
+
+    setSearchStatus(
+      results.length > 1
+        ? { type: 'ambiguous', message: `${results.length} matches found. Showing the first; pick another below.`, candidates: results }
+        : null
+    );
+    applySearchResult(results[0]);
   };
 
   const handleMapClick = async (latlng: L.LatLng) => {
-    if (currentStep === 0) {
-      setProjectLocation([latlng.lat, latlng.lng]);
-      if (interactionMode === 'center') {
-        setMapCenter([latlng.lat, latlng.lng]);
-      }
-      
+    const point: LatLngTuple = [latlng.lat, latlng.lng];
+    if (measureMode) {
+      handleMeasureClick(point);
+      return;
+    }
+    if (sitePlan && planPick) {
+      handlePlanPick(point);
+      return;
+    }
+    if (customStep) {
+      customStep.onMapClick?.(point, stepContext(stepId));
+      return;
+    }
+    const placed: { location: LatLngTuple; rotation?: number } =
+      stepId === 'building' ? placeBuilding(point) : { location: stepId === 'extent' ? snapToReference(point) : point };
+    dispatch({ type: 'placePoint', point: placed.location, rotation: placed.rotation });
+    if (interactionMode === 'center' && (stepId !== 'extent' || extentDrawMode === 'circle')) {
+      setMapCenter(point);
+    }
+
+    if (stepId === 'location') {
       // Update search address when clicking on map
-      try {
-        const address = await reverseGeocode(latlng.lat, latlng.lng);
-        setSearchAddress(address);
-      } catch (error) {
-        console.error('Failed to reverse geocode:', error);
-        setSearchAddress(`${latlng.lat.toFixed(6)}, ${latlng.lng.toFixed(6)}`);
-      }
-    } else if (currentStep === 1) {
-      setProjectExtent({ center: [latlng.lat, latlng.lng], radius: 1000 });
-      if (interactionMode === 'center') {
-        setMapCenter([latlng.lat, latlng.lng]);
-      }
-    } else if (currentStep === 2) {
-      setBuildingLocation([latlng.lat, latlng.lng]);
-      if (interactionMode === 'center') {
-        setMapCenter([latlng.lat, latlng.lng]);
-      }
+      await updateSearchAddress(point);
     }
   };
 
-  const handleMarkerDrag = async (latlng: L.LatLng, type: 'project' | 'extent' | 'building') => {
+  const handleMeasureClick = (point: LatLngTuple) => {
+    const points = [...measurePoints, point];
+    setMeasurePoints(points);
+    const { length, area } = measurePath(points, measureMode ?? 'distance');
+    setAnnouncement(
+      area === null
+        ? `Point ${points.length}. ${formatLength(length, lengthUnit)} in total.`
+        : `Point ${points.length}. Area ${formatArea(area, lengthUnit)}.`
+    );
+  };
+
+  const handleMeasureModeChange = (mode: MeasureMode | null) => {
+    setMeasureMode(mode);
+    if (!mode) setMeasurePoints([]);
+  };
+
+  const handleStopMeasuring = useCallback(() => {
+    setMeasureMode(null);
+    setMeasurePoints([]);
+  }, []);
+
+  const handleMarkerDrag = async (latlng: L.LatLng, type: 'project' | 'building') => {
     if (type === 'project') {
       setProjectLocation([latlng.lat, latlng.lng]);
       
       // Update search address when project marker is dragged
-      if (currentStep === 0) {
-        try {
-          const address = await reverseGeocode(latlng.lat, latlng.lng);
-          setSearchAddress(address);
-        } catch (error) {
-          console.error('Failed to reverse geocode:', error);
-          setSearchAddress(`${latlng.lat.toFixed(6)}, ${latlng.lng.toFixed(6)}`);
-        }
+      if (stepId === 'location') {
+        await updateSearchAddress([latlng.lat, latlng.lng]);
       }
-    } else if (type === 'extent') {
-      setProjectExtent(prev => ({ ...prev, center: [latlng.lat, latlng.lng] }));
     } else if (type === 'building') {
-      setBuildingLocation([latlng.lat, latlng.lng]);
+      const { location, rotation } = placeBuilding([latlng.lat, latlng.lng]);
+      setBuildingLocation(location, rotation);
     }
   };
 
@@ -581,55 +1209,321 @@ export default function GeolocationWizard({ onClose, onComplete }: Props) {
     setMapCenter([lat, lng]);
     
     // Update search address with reverse geocoding
+    await updateSearchAddress([lat, lng]);
+  };
+
+  const handleLocate = () => {
+    frameNextFixRef.current = true;
+    devicePosition.locate();
+  };
+
+  const handleWatchPosition = () => {
+    frameNextFixRef.current = true;
+    devicePosition.watch();
+  };
+
+  // On site, the position keeps updating after it has been used, so the project can be moved again as the fix improves
+  const handleAcceptPosition = ({ location }: DevicePosition) => {
+    if (devicePosition.status !== 'watching') devicePosition.clear();
+    handleCoordinateChange(location[0], location[1]);
+  };
+
+  const { position: fix, clear: clearDevicePosition } = devicePosition;
+  useEffect(() => {
+    if (!fix || !frameNextFixRef.current) return;
+    frameNextFixRef.current = false;
+    setFitPoints(circleVertices(fix.location, Math.max(fix.accuracy, MIN_FIX_FRAME_M), 16));
+    setAnnouncement(`Location found, accurate to within ${formatLength(fix.accuracy, lengthUnit)}.`);
+  }, [fix, lengthUnit]);
+
+  // The device position only matters while choosing the project location; stop following it afterwards
+  useEffect(() => {
+    if (stepId !== 'location') clearDevicePosition();
+  }, [stepId, clearDevicePosition]);
+
+  // Revoke each image's URL once it is replaced or the wizard goes away
+  useEffect(
+    () => () => {
+      if (planImage) URL.revokeObjectURL(planImage.url);
+    },
+    [planImage]
+  );
+
+  const planImageLoaded =
+    planImage !== null &&
+    sitePlan !== null &&
+    planImage.name === sitePlan.name &&
+    planImage.width === sitePlan.width &&
+    planImage.height === sitePlan.height;
+
+  const handleLoadPlanImage = async (file: File) => {
+    setPlanError(null);
+    let image: PlanImage;
     try {
-      const address = await reverseGeocode(lat, lng);
-      setSearchAddress(address);
+      image = await readPlanImage(file);
     } catch (error) {
-      console.error('Failed to reverse geocode:', error);
-      setSearchAddress(`${lat.toFixed(6)}, ${lng.toFixed(6)}`);
+      setPlanError(`Could not load ${file.name}: ${error instanceof SitePlanError ? error.message : 'The image could not be read.'}`);
+      return;
     }
+    setPlanImage(image);
+    setPlanPick(null);
+    // The same image again, e.g. after resuming a draft, keeps its control points
+    if (sitePlan && sitePlan.name === image.name && sitePlan.width === image.width && sitePlan.height === image.height) return;
+    const center = currentMapCenter();
+    const map = mapRef.current;
+    const viewWidth = map ? map.getSize().x : image.width;
+    const scale = (metresPerPixel(center[0], map?.getZoom() ?? mapZoom) * viewWidth * PLAN_VIEW_SHARE) / image.width;
+    dispatch({ type: 'setSitePlan', plan: placeSitePlan(image, center, scale) });
   };
 
-  const canProceed = () => {
-    if (currentStep === 0) return projectLocation !== null;
-    if (currentStep === 1) return projectExtent.center !== null;
-    return true; // Step 2 is optional
+  const handlePlanPick = (point: LatLngTuple) => {
+    if (!sitePlan || !planPick) return;
+    if (planPick.pixel) {
+      dispatch({ type: 'addControlPoint', pixel: planPick.pixel, location: point });
+      setPlanPick(null);
+      return;
+    }
+    const pixel = latLngToPlan(sitePlan.transform, point);
+    if (!isOnPlan(sitePlan, pixel)) {
+      setAnnouncement('That is off the plan. Click a point on the plan.');
+      return;
+    }
+    setPlanPick({ pixel });
+    setAnnouncement('Now click where that point is on the map.');
   };
 
-  const handleNext = () => {
-    if (currentStep < steps.length - 1) {
-      setCurrentStep(currentStep + 1);
-      
-      // Auto-center on the project location for next step
-      if (currentStep === 0 && projectLocation) {
-        setMapCenter(projectLocation);
-        setMapZoom(14);
-        if (currentStep + 1 === 1) {
-          // Set initial extent center to project location
-          setProjectExtent({ center: projectLocation, radius: 1000 });
+  const handleStartPlanPick = () => {
+    setPlanPick({ pixel: null });
+    setAnnouncement('Click a point on the plan.');
+  };
+
+  const handleCancelPlanPick = useCallback(() => setPlanPick(null), []);
+
+  const handleRemovePlan = () => {
+    setPlanPick(null);
+    dispatch({ type: 'setSitePlan', plan: null });
+  };
+
+  // A building drawn square on the plan takes the plan's rotation
+  const alignBuilding =
+    stepId === 'building' && building.location && sitePlan && sitePlan.transform.rmsError !== null
+      ? {
+          name: building.name,
+          onAlign: () => setBuildingRotation(normalizeAngle(Math.round(sitePlan.transform.rotation * 10) / 10)),
         }
+      : null;
+
+  const allReferenceLayers = useMemo(() => [...referenceLayers, ...uploadedLayers], [referenceLayers, uploadedLayers]);
+  const isLayerVisible = (layer: ReferenceLayer) => layerVisibility[layer.id] ?? layer.visible !== false;
+  const shownReferenceLayers = useMemo(
+    () => allReferenceLayers.filter((layer) => layerVisibility[layer.id] ?? layer.visible !== false),
+    [allReferenceLayers, layerVisibility]
+  );
+  const snapLines = useMemo(
+    () => (snapping ? shownReferenceLayers.filter((layer) => layer.snap !== false).flatMap((layer) => readReferenceLines(layer)) : []),
+    [shownReferenceLayers, snapping]
+  );
+  const alignLines = useMemo(
+    () =>
+      shownReferenceLayers
+        .flatMap((layer) => readReferenceLines(layer))
+        .filter(({ kind }) => kind === 'roads' || kind === 'parcels'),
+    [shownReferenceLayers]
+  );
+
+  // The tolerance is in screen pixels, so it covers less ground the further the map is zoomed in
+  const snapDistance = (latitude: number) => snapTolerance * metresPerPixel(latitude, mapRef.current?.getZoom() ?? mapZoom);
+
+  const snapToReference = (point: LatLngTuple): LatLngTuple =>
+    snapPoint(point, snapLines, snapDistance(point[0]))?.point ?? point;
+
+  // The rotation that squares the selected building up to the nearest road or parcel line, if one is close
+  const lineRotation = (anchor: LatLngTuple) => {
+    const line = nearestLine(anchor, alignLines, ALIGN_DISTANCE_M);
+    return line && { line, rotation: normalizeAngle(Math.round(alignRotation(building.rotation, line.bearing) * 10) / 10) };
+  };
+
+  // Where the selected building goes when put down at `anchor`, and how it is turned: to the nearest line if
+  // the user asked for that, then moved so its footprint meets a reference layer in reach. Both go into one
+  // edit, so one undo takes the placement back
+  const placeBuilding = (anchor: LatLngTuple): { location: LatLngTuple; rotation: number } => {
+    const aligned = autoAlign ? lineRotation(anchor) : null;
+    const rotation = aligned ? aligned.rotation : building.rotation;
+    const corners = footprintCorners(anchor, building.outline, rotation);
+    const snap = snapFootprint(corners, snapLines, snapDistance(anchor[0]));
+    return { location: snap ? offsetToLatLng(anchor, snap.offset[0], snap.offset[1]) : anchor, rotation };
+  };
+
+  const nearbyLine = stepId === 'building' && building.location ? lineRotation(building.location) : null;
+  const alignBuildingToLine = nearbyLine
+    ? {
+        name: building.name,
+        line: nearbyLine.line.kind === 'roads' ? 'road' : 'parcel line',
+        onAlign: () => setBuildingRotation(nearbyLine.rotation),
       }
+    : null;
+
+  const handleLoadReferenceFile = async (file: File) => {
+    setReferenceError(null);
+    try {
+      const layer = parseReferenceFile(await file.text(), file.name, allReferenceLayers);
+      setUploadedLayers((layers) => [...layers, layer]);
+    } catch (error) {
+      setReferenceError(error instanceof ReferenceLayerError ? error.message : `${file.name} could not be read.`);
+    }
+  };
+
+  const handleRemoveReferenceLayer = ({ id }: ReferenceLayer) =>
+    setUploadedLayers((layers) => layers.filter((layer) => layer.id !== id));
+
+  // Loads a previously exported site; the user then walks through the steps to review it
+  const applyImportedSite = async (site: ImportedSite) => {
+    const action: WizardAction = { type: 'importSite', site };
+    dispatch(action);
+    setFitPoints(placementPoints(wizardReducer(state, action).placement));
+    await updateSearchAddress(site.projectLocation);
+  };
+
+  // An IFC model fills in an empty wizard straight away, but waits for the user to pick a side when it
+  // disagrees with what they placed
+  const importIfcModel = async (source: string, fileName: string) => {
+    const model = readIfcModel(source, coordinateSystems);
+    const conflicts = compareIfcSite(model, currentResult);
+    setIfcImport({ fileName, source, model, conflicts, open: true });
+    if (conflicts.length === 0) await applyImportedSite(model.site);
+  };
+
+  const handleUseIfcModel = async () => {
+    if (!ifcImport) return;
+    setIfcImport({ ...ifcImport, conflicts: [] });
+    await applyImportedSite(ifcImport.model.site);
+  };
+
+  const handleDownloadIfc = () => {
+    if (!ifcImport) return;
+    const { source, fileName } = ifcImport;
+    const name = `${fileName.replace(/\.ifc$/i, '')}-georeferenced.ifc`;
+    downloadText(updateIfc(source, currentResult, coordinateSystems), name, SITE_FORMATS.ifc.mimeType);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      if (detectSiteFormat(text, file.name) === 'ifc') {
+        await importIfcModel(text, file.name);
+      } else {
+        await applyImportedSite(importSite(text, file.name));
+      }
+    } catch (error) {
+      const reason = error instanceof SiteImportError ? error.message : 'The file could not be read.';
+      setSearchStatus({ type: 'error', message: `Could not import ${file.name}: ${reason}` });
+    }
+  };
+
+  const draft = useMemo<WizardDraft>(
+    () => ({ step: currentStep, placement, crsCode: state.crsCode, view: mapView }),
+    [currentStep, placement, state.crsCode, mapView]
+  );
+
+  useEffect(() => {
+    if (!draftStorage || !offerSavedDraft) {
+      setDraftsReady(true);
+      return;
+    }
+    let cancelled = false;
+    draftStorage.load().then((saved) => {
+      if (cancelled) return;
+      if (saved?.placement.projectLocation) {
+        setSavedDraft(saved);
+      } else {
+        setDraftsReady(true);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [draftStorage, offerSavedDraft]);
+
+  useEffect(() => {
+    if (!draftsReady || !draftStorage) return;
+    const timer = setTimeout(() => {
+      const saving = draft.placement.projectLocation
+        ? draftStorage.save({ ...draft, savedAt: Date.now() })
+        : draftStorage.clear();
+      // Autosave is best-effort; full or blocked storage should not get in the user's way
+      saving.catch(() => {});
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, draftsReady, draftStorage]);
+
+  useEffect(() => {
+    if (urlHash && draftsReady) {
+      replaceUrlHash(draft.placement.projectLocation ? `#${encodeDraftHash(draft)}` : '');
+    }
+  }, [draft, draftsReady, urlHash]);
+
+  // A copied link is out of date after the next edit
+  useEffect(() => setLinkCopy(null), [draft]);
+
+  const handleResumeDraft = () => {
+    if (!savedDraft?.placement.projectLocation) return;
+    dispatch({ type: 'restoreDraft', draft: savedDraft });
+    if (savedDraft.view) {
+      setMapCenter(savedDraft.view.center);
+      setMapZoom(savedDraft.view.zoom);
     } else {
+      setFitPoints(placementPoints(savedDraft.placement));
+    }
+    setSavedDraft(null);
+    setDraftsReady(true);
+    updateSearchAddress(savedDraft.placement.projectLocation);
+  };
+
+  const handleDiscardDraft = () => {
+    draftStorage?.clear().catch(() => {});
+    setSavedDraft(null);
+    setDraftsReady(true);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(draftLink(draft));
+      setLinkCopy('copied');
+    } catch (error) {
+      setLinkCopy('failed');
+    }
+  };
+
+  const finishExtentDraft = () => dispatch({ type: 'finishExtentDraft' });
+
+  const handleNext = () => {
+    if (!canProceed) return;
+    if (isLastStep) {
+      // A finished wizard is no longer a draft
+      setDraftsReady(false);
+      draftStorage?.clear().catch(() => {});
+      if (urlHash) replaceUrlHash('');
+
       // Wizard complete
-      const result: WizardResult = {
-        projectLocation,
-        projectExtent,
-        buildingLocation,
-        buildingRotation,
-        interactionMode
-      };
       if (onComplete) {
-        onComplete(result);
+        onComplete(currentResult);
       }
+      return;
     }
-  };
 
-  const handlePrevious = () => {
-    if (currentStep > 0) {
-      setCurrentStep(currentStep - 1);
+    dispatch({ type: 'next' });
+    // Auto-center on the project location for next step
+    if (stepId === 'location' && projectLocation) {
+      setMapCenter(projectLocation);
+      setMapZoom(14);
     }
   };
 
+  const handlePrevious = () => dispatch({ type: 'previous' });
+
   return (
     <div className="wizard-container">
       {/* Header */}
@@ -637,8 +1531,8 @@ export default function GeolocationWizard({ onClose, onComplete }: Props) {
         <div className="wizard-header-content">
           <h1 className="wizard-title">Create geolocation</h1>
           {onClose && (
-            <button onClick={onClose} className="close-button">
-              <svg className="close-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <button onClick={onClose} className="close-button" aria-label="Close">
+              <svg className="close-icon" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
             </button>
@@ -658,101 +1552,327 @@ export default function GeolocationWizard({ onClose, onComplete }: Props) {
           className="leaflet-map"
         >
           <MapRef mapRef={mapRef} />
-          <TileLayer
-            url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-            attribution='Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community'
-          />
+          {activeBasemap && <BasemapLayer key={activeBasemap.id} basemap={activeBasemap} />}
           
           <MapCenter center={mapCenter} zoom={mapZoom} />
+          <FitBounds points={fitPoints} onFitted={handleFitted} />
           <MapEvents 
             onMapClick={handleMapClick} 
+            onViewChange={handleViewChange}
+            onPanStart={handlePanStart}
+            onPan={handlePan}
+            onMouseMove={(latlng) => {
+              if (extentDraft.length > 0 || measureMode) setCursorLocation([latlng.lat, latlng.lng]);
+            }}
             interactionMode={interactionMode}
             currentStep={currentStep}
           />
+          <KeyboardPlacement
+            feature={currentFeature}
+            rotationSnap={stepId === 'building' && building.location ? rotationSnap : undefined}
+            onPlace={(point) => handleMapClick(L.latLng(point[0], point[1]))}
+            onNudge={handleNudge}
+            onRotate={handleKeyboardRotate}
+            onFocusChange={setMapKeyboardFocus}
+          />
+
+          <ReferenceLayerOverlay layers={shownReferenceLayers} />
+
+          {sitePlan && (
+            <SitePlanLayer
+              plan={sitePlan}
+              url={planImageLoaded && planImage ? planImage.url : null}
+              opacity={planOpacity}
+              pendingPixel={planPick?.pixel ?? null}
+              onMovePoint={(id, location) => dispatch({ type: 'moveControlPoint', id, location })}
+            />
+          )}
 
           {/* Project Location Marker */}
-          {projectLocation && (
+          {shownPlacement.projectLocation && (
             interactionMode === 'drag' ? (
               <DraggableMarker
-                position={projectLocation}
+                position={shownPlacement.projectLocation}
                 onDragEnd={(latlng) => handleMarkerDrag(latlng, 'project')}
                 icon={projectIcon}
+                alt="Project location"
               />
             ) : (
-              <Marker position={projectLocation} icon={projectIcon} />
+              <Marker position={shownPlacement.projectLocation} icon={projectIcon} alt="Project location" />
             )
           )}
 
-          {/* Project Extent Circle */}
-          {currentStep >= 1 && projectExtent.center && (
-            <>
-              <Circle
-                center={projectExtent.center}
-                radius={projectExtent.radius}
-                pathOptions={{
-                  fillColor: '#0696D7',
-                  fillOpacity: 0.1,
-                  color: '#0696D7',
-                  weight: 2,
-                }}
-              />
-              {interactionMode === 'drag' && (
-                <DraggableMarker
-                  position={projectExtent.center}
-                  onDragEnd={(latlng) => handleMarkerDrag(latlng, 'extent')}
-                  icon={projectIcon}
+          {stepId === 'location' && devicePosition.position && <DevicePositionLayer position={devicePosition.position} />}
+
+          {/* Preview of the highlighted search candidate */}
+          {stepId === 'location' && previewCandidate && (
+            <Marker
+              position={[previewCandidate.lat, previewCandidate.lng]}
+              icon={previewIcon}
+              interactive={false}
+            />
+          )}
+
+          {/* Project Extent */}
+          {hasReached('extent') && (
+            <ExtentLayer
+              shape={shownPlacement.projectExtent}
+              mode={extentDrawMode}
+              draft={stepId === 'extent' ? extentDraft : []}
+              cursor={cursorLocation}
+              editable={stepId === 'extent' && interactionMode === 'drag'}
+              centerIcon={projectIcon}
+              radiusLimits={radiusLimits}
+              snapPoint={snapToReference}
+              onShapeChange={setProjectExtent}
+              onFinishDraft={finishExtentDraft}
+            />
+          )}
+
+          {/* Building Footprints */}
+          {hasReached('building') &&
+            shownPlacement.buildings.map(({ id, name, location, outline, rotation }) =>
+              location ? (
+                <BuildingLayer
+                  key={id}
+                  anchor={location}
+                  outline={outline}
+                  rotation={rotation}
+                  snap={rotationSnap}
+                  label={shownPlacement.buildings.length > 1 ? name : undefined}
+                  selected={id === building.id}
+                  editable={id === building.id && interactionMode === 'drag'}
+                  onSelect={stepId === 'building' ? () => selectBuilding(id) : undefined}
+                  onAnchorChange={([lat, lng]) => handleMarkerDrag(L.latLng(lat, lng), 'building')}
+                  onRotationChange={setBuildingRotation}
                 />
-              )}
-            </>
+              ) : null
+            )}
+
+          {steps.map(({ id, custom }) =>
+            custom?.renderMapLayers && hasReached(id) ? (
+              <React.Fragment key={id}>{custom.renderMapLayers(stepContext(id))}</React.Fragment>
+            ) : null
           )}
 
-          {/* Building Location */}
-          {currentStep >= 2 && buildingLocation && (
-            interactionMode === 'drag' ? (
-              <DraggableMarker
-                position={buildingLocation}
-                onDragEnd={(latlng) => handleMarkerDrag(latlng, 'building')}
-                icon={buildingIcon}
-              />
-            ) : (
-              <Marker position={buildingLocation} icon={buildingIcon} />
-            )
+          <ValidationMarkers issues={visibleIssues} />
+
+          {solarOpen && projectLocation && solarCenter && (
+            <SolarLayer center={solarCenter} location={projectLocation} date={solarDate} timeZone={timeZone} />
           )}
+
+          {measureMode && <MeasureLayer mode={measureMode} points={measurePoints} cursor={cursorLocation} unit={lengthUnit} />}
         </MapContainer>
 
         {/* UI Overlays */}
-        <InteractionModeToggle 
-          mode={interactionMode} 
-          onModeChange={setInteractionMode}
+        {activeBasemap && (
+          <BasemapSwitcher basemaps={basemaps} activeId={activeBasemap.id} onChange={setBasemapId} />
+        )}
+
+        <SitePlanControl
+          plan={sitePlan}
+          imageLoaded={planImageLoaded}
+          opacity={planOpacity}
+          picking={sitePlan && planPick ? (planPick.pixel ? 'map' : 'plan') : null}
+          error={planError}
+          unit={lengthUnit}
+          alignBuilding={alignBuilding}
+          onLoadImage={handleLoadPlanImage}
+          onOpacityChange={setPlanOpacity}
+          onModelChange={(model) => dispatch({ type: 'setSitePlanModel', model })}
+          onStartPick={handleStartPlanPick}
+          onCancelPick={handleCancelPlanPick}
+          onRemovePoint={(id) => dispatch({ type: 'removeControlPoint', id })}
+          onRemovePlan={handleRemovePlan}
+        />
+
+        <ReferenceLayerControl
+          layers={allReferenceLayers}
+          isVisible={isLayerVisible}
+          isUploaded={(layer) => uploadedLayers.includes(layer)}
+          snapping={snapping}
+          autoAlign={autoAlign}
+          error={referenceError}
+          alignBuilding={alignBuildingToLine}
+          onToggleLayer={(layer, visible) => setLayerVisibility((visibility) => ({ ...visibility, [layer.id]: visible }))}
+          onSnappingChange={setSnapping}
+          onAutoAlignChange={setAutoAlign}
+          onLoadFile={handleLoadReferenceFile}
+          onRemoveLayer={handleRemoveReferenceLayer}
         />
-        
-        {currentStep === 0 && (
+
+        {projectLocation && (
+          <SolarControl
+            open={solarOpen}
+            location={projectLocation}
+            rotation={building.rotation}
+            buildingName={building.name}
+            buildingPlaced={building.location !== null}
+            date={solarDate}
+            timeZone={timeZone}
+            onOpenChange={setSolarOpen}
+            onDateChange={setSolarDate}
+          />
+        )}
+
+        {measureMode && (
+          <MeasurePanel
+            mode={measureMode}
+            points={measurePoints}
+            cursor={cursorLocation}
+            unit={lengthUnit}
+            onUndo={() => setMeasurePoints((points) => points.slice(0, -1))}
+            onClear={() => setMeasurePoints([])}
+            onClose={handleStopMeasuring}
+          />
+        )}
+
+        {stepId === 'location' && devicePosition.isSupported && (
+          <LocateControl
+            status={devicePosition.status}
+            position={devicePosition.position}
+            error={devicePosition.error}
+            unit={lengthUnit}
+            onLocate={handleLocate}
+            onWatch={handleWatchPosition}
+            onStop={devicePosition.stop}
+            onAccept={handleAcceptPosition}
+            onDismiss={clearDevicePosition}
+          />
+        )}
+
+        {stepId === 'location' && (
           <SearchInput 
             onSearch={handleSearch} 
+            onSelectCandidate={(candidate) => {
+              setSearchStatus(null);
+              setPreviewCandidate(null);
+              applySearchResult(candidate);
+            }}
+            onPreviewCandidate={setPreviewCandidate}
+            geocoder={geocoder}
+            coordinateReference={searchReference}
+            status={searchStatus}
             value={searchAddress}
           />
         )}
 
-        {currentStep === 0 && projectLocation && (
+        {stepId === 'location' && shownPlacement.projectLocation && (
           <CoordinateTooltip
-            position={projectLocation}
+            position={shownPlacement.projectLocation}
             onPositionChange={handleCoordinateChange}
             isDraggable={true}
             mapRef={mapRef}
+            crs={activeCrs ?? undefined}
           />
         )}
 
-        <BuildingRotationControl
-          rotation={buildingRotation}
-          onRotationChange={setBuildingRotation}
-          visible={currentStep === 2 && buildingLocation !== null}
-        />
+        {/* Panels float over the map on wide screens and dock into a bottom sheet on phones */}
+        <BottomSheet
+          summary={
+            <InstructionOverlay
+              stepId={stepId}
+              interactionMode={interactionMode}
+              extentShape={extentDrawMode}
+              customInstructions={customStep?.instructions}
+            />
+          }
+        >
+          <div className="map-toolbar">
+            <HistoryControls
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+            />
+            <InteractionModeToggle 
+              mode={interactionMode} 
+              onModeChange={setInteractionMode}
+            />
+            <MeasureToggle mode={measureMode} onModeChange={handleMeasureModeChange} />
+          </div>
 
-        <InstructionOverlay step={currentStep} interactionMode={interactionMode} />
+          {activeCrs && (
+            <CrsSelector
+              crs={activeCrs}
+              isAutomatic={isAutomaticCrs}
+              convergence={currentResult.projected?.convergence ?? null}
+              coordinateSystems={coordinateSystems}
+              onCodeChange={(code) => dispatch({ type: 'setCrs', code })}
+            />
+          )}
 
-        {/* Crosshair for center mode */}
-        {interactionMode === 'center' && (
-          <div className="crosshair">
+          {stepId === 'building' && (
+            <div className="building-panel">
+              <BuildingList
+                buildings={placement.buildings}
+                selectedId={building.id}
+                onSelect={selectBuilding}
+                onAdd={() => dispatch({ type: 'addBuilding' })}
+                onDuplicate={(id) => dispatch({ type: 'duplicateBuilding', id })}
+                onRemove={(id) => dispatch({ type: 'removeBuilding', id })}
+                onRename={(id, name) => dispatch({ type: 'renameBuilding', id, name })}
+              />
+              {/* Keyed by building, so an uploaded outline's "custom" note does not carry over to the next one */}
+              <BuildingFootprintControl
+                key={building.id}
+                outline={building.outline}
+                onOutlineChange={setBuildingOutline}
+                unit={lengthUnit}
+                visible={building.location !== null}
+              />
+              <BuildingRotationControl
+                rotation={building.rotation}
+                onRotationChange={setBuildingRotation}
+                snap={rotationSnap}
+                onSnapChange={setRotationSnap}
+                visible={building.location !== null}
+              />
+            </div>
+          )}
+
+          {customStep?.renderPanel && (
+            <div className="custom-step-panel">{customStep.renderPanel(stepContext(stepId))}</div>
+          )}
+
+          {stepId === 'extent' && (
+            <ExtentShapeToggle
+              mode={extentDrawMode}
+              onModeChange={(mode) => dispatch({ type: 'setExtentDrawMode', mode })}
+              shape={projectExtent}
+              unit={lengthUnit}
+              radiusLimits={radiusLimits}
+              onShapeChange={setProjectExtent}
+              onUnitChange={setLengthUnit}
+              draftLength={extentDraft.length}
+              onFinishDraft={finishExtentDraft}
+              onCancelDraft={() => dispatch({ type: 'cancelExtentDraft' })}
+              onRedraw={() => dispatch({ type: 'redrawExtent' })}
+            />
+          )}
+        </BottomSheet>
+
+        {savedDraft && (
+          <DraftPrompt savedAt={savedDraft.savedAt} onResume={handleResumeDraft} onDiscard={handleDiscardDraft} />
+        )}
+
+        {ifcImport?.open && (
+          <IfcImport
+            fileName={ifcImport.fileName}
+            model={ifcImport.model}
+            conflicts={ifcImport.conflicts}
+            unit={lengthUnit}
+            canDownload={projectLocation !== null}
+            onUseModel={handleUseIfcModel}
+            onKeepPlacement={() => setIfcImport({ ...ifcImport, conflicts: [] })}
+            onDownload={handleDownloadIfc}
+            onClose={() => setIfcImport({ ...ifcImport, open: false })}
+          />
+        )}
+
+        {/* Crosshair for center mode, and for keyboard placement, where Enter places at the center */}
+        {(interactionMode === 'center' || mapKeyboardFocus) && (
+          <div className="crosshair" aria-hidden="true">
             <div className="crosshair-svg">
               <svg viewBox="0 0 32 32">
                 <circle cx="16" cy="16" r="12" fill="none" stroke="#0696D7" strokeWidth="2" />
@@ -764,6 +1884,26 @@ export default function GeolocationWizard({ onClose, onComplete }: Props) {
             </div>
           </div>
         )}
+
+        {canFollowCenter && (
+          <CenterModeControls
+            position={liveCenter ?? (centerLocked ? currentFeature : null) ?? mapView?.center ?? mapCenter}
+            locked={centerLocked}
+            onLock={handleLockCenter}
+            onUnlock={handleUnlockCenter}
+          />
+        )}
+      </div>
+
+      <p id="map-keyboard-help" className="visually-hidden">
+        {currentFeature
+          ? `Arrow keys move the ${KEYBOARD_FEATURE_NAMES[stepId]}; hold Shift for larger steps or Alt for smaller ones.`
+          : 'Arrow keys pan the map.'}
+        {stepId === 'building' && building.location && ' Press [ or ] to rotate the building.'}
+        {' Press Enter to click at the center of the map, and + or - to zoom.'}
+      </p>
+      <div className="visually-hidden" role="status" aria-live="polite">
+        {announcement}
       </div>
 
       {/* Footer */}
@@ -772,6 +1912,31 @@ export default function GeolocationWizard({ onClose, onComplete }: Props) {
           <button className="help-button" onClick={() => console.log('Help clicked')}>
             Help
           </button>
+          {stepId === 'location' && (
+            <>
+              <button className="help-button import-site-button" onClick={() => importInputRef.current?.click()}>
+                Import site
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".geojson,.json,.kml,.wkt,.txt,.ifc"
+                onChange={handleImportFile}
+                hidden
+              />
+            </>
+          )}
+          {ifcImport && !ifcImport.open && (
+            <button className="help-button" onClick={() => setIfcImport({ ...ifcImport, open: true })}>
+              IFC model
+            </button>
+          )}
+          {urlHash && projectLocation && (
+            <button className="help-button share-link-button" onClick={handleCopyLink}>
+              {linkCopy === 'copied' ? 'Link copied' : linkCopy === 'failed' ? 'Copy the address bar instead' : 'Copy link'}
+            </button>
+          )}
+          <ValidationSummary issues={visibleIssues} validating={isValidating} />
           <div className="footer-buttons">
             <button
               onClick={handlePrevious}
@@ -789,10 +1954,10 @@ export default function GeolocationWizard({ onClose, onComplete }: Props) {
             )}
             <button
               onClick={handleNext}
-              disabled={!canProceed()}
+              disabled={!canProceed}
               className="btn-primary"
             >
-              {currentStep === steps.length - 1 ? 'Finish' : 'Next'}
+              {isLastStep ? 'Finish' : 'Next'}
             </button>
           </div>
         </div>
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { IfcConflict, IfcModel } from '../formats';
+import { LengthUnit, formatLength } from '../utils/units';
+
+const LOCATION_SOURCES: Record<IfcModel['locationSource'], string> = {
+  'map-conversion': 'IfcMapConversion',
+  'site-reference': 'the IfcSite reference point',
+};
+
+const describeNorth = ({ northSource, northBearing }: IfcModel) =>
+  northSource
+    ? `north from ${northSource === 'map-conversion' ? 'IfcMapConversion' : 'TrueNorth'}, ${Math.round(northBearing * 10) / 10}°`
+    : 'no north given, so taken as north up';
+
+const describeConflict = ({ label, kind, difference }: IfcConflict, unit: LengthUnit) =>
+  `${label}: ${kind === 'location' ? formatLength(difference, unit) : `${Math.round(difference * 10) / 10}°`} apart`;
+
+// What an imported IFC model says about where it is, where that disagrees with the user's placement,
+// and a download of the model with the placement written back into it
+export default function IfcImport({
+  fileName,
+  model,
+  conflicts,
+  unit,
+  canDownload,
+  onUseModel,
+  onKeepPlacement,
+  onDownload,
+  onClose,
+}: {
+  fileName: string;
+  model: IfcModel;
+  /** Differences from what the user had placed, still waiting for them to pick a side. */
+  conflicts: IfcConflict[];
+  unit: LengthUnit;
+  canDownload: boolean;
+  onUseModel: () => void;
+  onKeepPlacement: () => void;
+  onDownload: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="draft-prompt ifc-import" role="alertdialog" aria-labelledby="ifc-import-title">
+      <Building2 className="draft-prompt-icon" />
+      <div className="draft-prompt-body">
+        <div id="ifc-import-title" className="draft-prompt-title">
+          {model.siteName || fileName} ({model.schema || 'IFC'})
+        </div>
+        <div className="draft-prompt-text">
+          Placed by {LOCATION_SOURCES[model.locationSource]}; {describeNorth(model)}.
+        </div>
+        {model.conflicts.length > 0 && (
+          <>
+            <div className="draft-prompt-text">The model disagrees with itself:</div>
+            <ul className="ifc-import-list">
+              {model.conflicts.map((conflict) => (
+                <li key={conflict.label}>{describeConflict(conflict, unit)}</li>
+              ))}
+            </ul>
+          </>
+        )}
+        {model.notes.map((note) => (
+          <div key={note} className="draft-prompt-text">
+            {note}
+          </div>
+        ))}
+        {conflicts.length > 0 && (
+          <>
+            <div className="draft-prompt-text">The model and your placement differ:</div>
+            <ul className="ifc-import-list">
+              {conflicts.map((conflict) => (
+                <li key={conflict.label}>{describeConflict(conflict, unit)}</li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+      <div className="draft-prompt-buttons">
+        {conflicts.length > 0 ? (
+          <>
+            <button className="btn-secondary" onClick={onKeepPlacement}>
+              Keep mine
+            </button>
+            <button className="btn-primary" onClick={onUseModel}>
+              Use the model's
+            </button>
+          </>
+        ) : (
+          <>
+            <button className="btn-secondary" onClick={onClose}>
+              Close
+            </button>
+            <button
+              className="btn-primary"
+              onClick={onDownload}
+              disabled={!canDownload}
+              title="The uploaded model with this placement written into its IfcSite and IfcMapConversion"
+            >
+              Download updated model
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Circle, CircleMarker } from 'react-leaflet';
+import { Loader2, LocateFixed, X } from 'lucide-react';
+import { DevicePosition, PositioningError, PositioningStatus, isLowAccuracy } from '../positioning';
+import { formatCoordinates } from '../utils/coordinateParser';
+import { LengthUnit, formatLength } from '../utils/units';
+
+const POSITION_COLOR = '#2563eb';
+
+// The device's position: a dot inside a circle as wide as the fix is uncertain
+export function DevicePositionLayer({ position }: { position: DevicePosition }) {
+  return (
+    <>
+      <Circle
+        center={position.location}
+        radius={position.accuracy}
+        pathOptions={{ color: POSITION_COLOR, fillColor: POSITION_COLOR, fillOpacity: 0.12, weight: 1 }}
+        interactive={false}
+      />
+      <CircleMarker
+        center={position.location}
+        radius={6}
+        pathOptions={{ color: 'white', fillColor: POSITION_COLOR, fillOpacity: 1, weight: 2 }}
+        interactive={false}
+      />
+    </>
+  );
+}
+
+// Locate button under the map controls, with a panel for the fix: its accuracy, a warning when it is rough,
+// and the choice to use it, keep following the device on site, or dismiss it
+export function LocateControl({
+  status,
+  position,
+  error,
+  unit,
+  onLocate,
+  onWatch,
+  onStop,
+  onAccept,
+  onDismiss,
+}: {
+  status: PositioningStatus;
+  position: DevicePosition | null;
+  error: PositioningError | null;
+  unit: LengthUnit;
+  onLocate: () => void;
+  onWatch: () => void;
+  onStop: () => void;
+  onAccept: (position: DevicePosition) => void;
+  onDismiss: () => void;
+}) {
+  const isOpen = status !== 'idle' || position !== null || error !== null;
+
+  return (
+    <div className="locate-control">
+      <button
+        className="basemap-switcher-toggle"
+        onClick={status === 'locating' ? undefined : onLocate}
+        aria-label="Use my current location"
+        title="Use my current location"
+        aria-busy={status === 'locating'}
+      >
+        {status === 'locating' ? <Loader2 className="basemap-icon search-spinner" /> : <LocateFixed className="basemap-icon" />}
+      </button>
+      {isOpen && (
+        <div className="locate-panel" role="status">
+          <button className="locate-dismiss" onClick={onDismiss} aria-label="Close">
+            <X className="locate-dismiss-icon" />
+          </button>
+          {status === 'locating' && <div className="locate-text">Finding your location…</div>}
+          {error && <div className="extent-problem">{error.message}</div>}
+          {position && (
+            <>
+              <div className="locate-text">
+                {formatCoordinates(position.location[0], position.location[1])}
+                <br />
+                Accurate to within {formatLength(position.accuracy, unit)}
+              </div>
+              {isLowAccuracy(position) && (
+                <div className="locate-warning">
+                  This is a rough fix. Check it on the map, or keep updating until it settles.
+                </div>
+              )}
+            </>
+          )}
+          <div className="locate-actions">
+            {position && (
+              <button className="extent-action locate-accept" onClick={() => onAccept(position)}>
+                Use this location
+              </button>
+            )}
+            {status === 'watching' ? (
+              <button className="extent-action" onClick={onStop}>
+                Stop updating
+              </button>
+            ) : (
+              <button className="extent-action" onClick={onWatch} disabled={error?.code === 'unsupported'}>
+                Keep updating
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import React, { useEffect } from 'react';
+import { CircleMarker, Polygon, Polyline, Tooltip } from 'react-leaflet';
+import { Pentagon, Ruler, Undo2, X } from 'lucide-react';
+import { LatLngTuple } from '../types';
+import { MeasureMode, formatBearing, measurePath } from '../utils/measure';
+import { LengthUnit, formatArea, formatLength } from '../utils/units';
+
+const MEASURE_COLOR = '#db2777';
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Turns measuring on as distance or area, next to the interaction mode; picking the active one turns it off
+export function MeasureToggle({
+  mode,
+  onModeChange,
+}: {
+  mode: MeasureMode | null;
+  onModeChange: (mode: MeasureMode | null) => void;
+}) {
+  const button = (value: MeasureMode, Icon: typeof Ruler, label: string) => (
+    <button
+      onClick={() => onModeChange(mode === value ? null : value)}
+      className={`mode-button ${mode === value ? 'active' : 'inactive'}`}
+      aria-pressed={mode === value}
+    >
+      <Icon className="mode-icon" />
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="mode-toggle">
+      <div className="mode-toggle-title" id="measure-toggle-title">
+        Measure
+      </div>
+      <div className="mode-toggle-buttons" role="group" aria-labelledby="measure-toggle-title">
+        {button('distance', Ruler, 'Distance')}
+        {button('area', Pentagon, 'Area')}
+      </div>
+    </div>
+  );
+}
+
+// The measured path with each leg's length, and a dashed leg following the cursor to show where the next click goes
+export function MeasureLayer({
+  mode,
+  points,
+  cursor,
+  unit,
+}: {
+  mode: MeasureMode;
+  points: LatLngTuple[];
+  cursor: LatLngTuple | null;
+  unit: LengthUnit;
+}) {
+  const { segments } = measurePath(points, mode);
+  const pathOptions = { color: MEASURE_COLOR, weight: 3 };
+  const last = points[points.length - 1];
+
+  return (
+    <>
+      {mode === 'area' && points.length >= 3 && (
+        <Polygon positions={points} pathOptions={{ ...pathOptions, weight: 0, fillOpacity: 0.15 }} interactive={false} />
+      )}
+      {segments.map(({ from, to, length }, index) => (
+        <Polyline
+          key={`${index}-${from[0]}-${from[1]}-${to[0]}-${to[1]}`}
+          positions={[from, to]}
+          pathOptions={pathOptions}
+          interactive={false}
+        >
+          <Tooltip permanent direction="center" className="building-label">
+            {formatLength(length, unit)}
+          </Tooltip>
+        </Polyline>
+      ))}
+      {last && cursor && (
+        <Polyline positions={[last, cursor]} pathOptions={{ ...pathOptions, dashArray: '6 4' }} interactive={false} />
+      )}
+      {points.map((point, index) => (
+        <CircleMarker
+          key={`${index}-${point[0]}-${point[1]}`}
+          center={point}
+          radius={4}
+          pathOptions={{ color: 'white', fillColor: MEASURE_COLOR, fillOpacity: 1, weight: 2 }}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
+
+// Readout of the measurement: the total, the area once there is one, and the last leg's bearing, or the
+// leg to the cursor while the user is choosing the next point
+export function MeasurePanel({
+  mode,
+  points,
+  cursor,
+  unit,
+  onUndo,
+  onClear,
+  onClose,
+}: {
+  mode: MeasureMode;
+  points: LatLngTuple[];
+  cursor: LatLngTuple | null;
+  unit: LengthUnit;
+  onUndo: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}) {
+  // Escape leaves the tool and drops the measurement, unless it was meant for a field, such as the search box
+  // closing its suggestions
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || e.defaultPrevented || isEditable(e.target)) return;
+      onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const { length, area, segments } = measurePath(points, mode);
+  const last = points[points.length - 1];
+  const next = last && cursor ? measurePath([last, cursor], 'distance').segments[0] : null;
+  // The closing leg of an area is not the one the user just drew
+  const lastLeg = segments[mode === 'area' && points.length >= 3 ? segments.length - 2 : segments.length - 1];
+
+  return (
+    <div className="locate-panel measure-panel">
+      <button className="locate-dismiss" onClick={onClose} aria-label="Stop measuring">
+        <X className="locate-dismiss-icon" />
+      </button>
+      <div className="rotation-title">{mode === 'area' ? 'Measure area' : 'Measure distance'}</div>
+      {points.length === 0 ? (
+        <div className="locate-text">
+          Click the map to start measuring{mode === 'area' ? ' an area' : ''}. Nothing is placed while the tool is on.
+        </div>
+      ) : (
+        <dl className="measure-readout">
+          <dt>{mode === 'area' ? 'Perimeter' : 'Distance'}</dt>
+          <dd>{formatLength(length, unit)}</dd>
+          {mode === 'area' && (
+            <>
+              <dt>Area</dt>
+              <dd>{area === null ? 'Add at least 3 points' : formatArea(area, unit)}</dd>
+            </>
+          )}
+          {next ? (
+            <>
+              <dt>Next leg</dt>
+              <dd>
+                {formatLength(next.length, unit)}, {formatBearing(next.bearing)}
+              </dd>
+            </>
+          ) : (
+            lastLeg && (
+              <>
+                <dt>Last leg</dt>
+                <dd>
+                  {formatLength(lastLeg.length, unit)}, {formatBearing(lastLeg.bearing)}
+                </dd>
+              </>
+            )
+          )}
+        </dl>
+      )}
+      <div className="locate-actions">
+        <button className="extent-action" onClick={onUndo} disabled={points.length === 0}>
+          <Undo2 className="mode-icon" />
+          Remove last point
+        </button>
+        <button className="extent-action" onClick={onClear} disabled={points.length === 0}>
+          Start again
+        </button>
+      </div>
+    </div>
+  );
+}
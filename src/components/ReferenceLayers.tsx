@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { GeoJSON, Pane } from 'react-leaflet';
+import L from 'leaflet';
+import type { GeoJsonObject } from 'geojson';
+import { Map as MapIcon, Trash2, X } from 'lucide-react';
+import {
+  REFERENCE_FILE_ACCEPT,
+  ReferenceLayer,
+  ReferenceLayerKind,
+  readReferenceLines,
+  referenceLayerKind,
+  referenceLayerStyle,
+} from '../reference';
+
+// Above the site plan and below the extent and footprints, which are what the user edits
+const REFERENCE_PANE = 'reference';
+const REFERENCE_PANE_Z_INDEX = 360;
+
+const KIND_LABELS: Record<ReferenceLayerKind, string> = {
+  parcels: 'Parcels',
+  roads: 'Roads',
+  buildings: 'Existing buildings',
+  other: 'Other',
+};
+
+// The shown reference layers, drawn for reference only: clicks go through them to the map
+export function ReferenceLayerOverlay({ layers }: { layers: ReferenceLayer[] }) {
+  return (
+    <Pane name={REFERENCE_PANE} style={{ zIndex: REFERENCE_PANE_Z_INDEX }}>
+      {layers
+        // Leaflet throws on objects that are not GeoJSON, so those are left off the map
+        .filter((layer) => readReferenceLines(layer).length > 0)
+        .map((layer) => {
+          const { color, weight, fillOpacity, dashArray } = referenceLayerStyle(layer);
+          const pathOptions = { color, weight, fillColor: color, fillOpacity, dashArray: dashArray || undefined };
+          return (
+            <GeoJSON
+              key={layer.id}
+              data={layer.data as GeoJsonObject}
+              style={pathOptions}
+              pointToLayer={(_, latlng) =>
+                L.circleMarker(latlng, { ...pathOptions, radius: 4, fillOpacity: 1, interactive: false })
+              }
+              interactive={false}
+            />
+          );
+        })}
+    </Pane>
+  );
+}
+
+// Button under the map controls with a panel listing the reference layers: a toggle for each, snapping on
+// or off, loading more from GeoJSON files, and squaring the selected building up to the nearest line
+export function ReferenceLayerControl({
+  layers,
+  isVisible,
+  isUploaded,
+  snapping,
+  autoAlign,
+  error,
+  alignBuilding,
+  onToggleLayer,
+  onSnappingChange,
+  onAutoAlignChange,
+  onLoadFile,
+  onRemoveLayer,
+}: {
+  layers: ReferenceLayer[];
+  isVisible: (layer: ReferenceLayer) => boolean;
+  /** Layers the user loaded can be removed again; the host's cannot. */
+  isUploaded: (layer: ReferenceLayer) => boolean;
+  snapping: boolean;
+  autoAlign: boolean;
+  error: string | null;
+  /** Offered on the building step when a road or parcel line is near the selected building. */
+  alignBuilding: { name: string; line: string; onAlign: () => void } | null;
+  onToggleLayer: (layer: ReferenceLayer, visible: boolean) => void;
+  onSnappingChange: (snapping: boolean) => void;
+  onAutoAlignChange: (autoAlign: boolean) => void;
+  onLoadFile: (file: File) => void;
+  onRemoveLayer: (layer: ReferenceLayer) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="reference-control">
+      <button
+        className="basemap-switcher-toggle"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-label="Reference layers"
+        title="Reference layers"
+      >
+        <MapIcon className="basemap-icon" />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={REFERENCE_FILE_ACCEPT}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onLoadFile(file);
+        }}
+        hidden
+      />
+      {open && (
+        <div className="locate-panel reference-panel">
+          <button className="locate-dismiss" onClick={() => setOpen(false)} aria-label="Close">
+            <X className="locate-dismiss-icon" />
+          </button>
+          <div className="rotation-title">Reference layers</div>
+          {layers.length === 0 ? (
+            <div className="locate-text">
+              Load parcels, roads or existing buildings as GeoJSON to see them on the map and snap to them.
+            </div>
+          ) : (
+            <ul className="reference-layers">
+              {layers.map((layer) => {
+                const { color } = referenceLayerStyle(layer);
+                return (
+                  <li key={layer.id} className="reference-layer-item">
+                    <label className="reference-layer-toggle">
+                      <input
+                        type="checkbox"
+                        checked={isVisible(layer)}
+                        onChange={(e) => onToggleLayer(layer, e.target.checked)}
+                      />
+                      <span className="reference-layer-swatch" style={{ borderColor: color }} aria-hidden="true" />
+                      <span>{layer.name}</span>
+                    </label>
+                    <span className="reference-layer-kind">{KIND_LABELS[referenceLayerKind(layer)]}</span>
+                    {isUploaded(layer) && (
+                      <button
+                        className="building-list-action"
+                        onClick={() => onRemoveLayer(layer)}
+                        aria-label={`Remove ${layer.name}`}
+                        title="Remove"
+                      >
+                        <Trash2 className="building-list-icon" />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <label className="reference-layer-toggle">
+            <input type="checkbox" checked={snapping} onChange={(e) => onSnappingChange(e.target.checked)} />
+            <span>Snap to shown layers</span>
+          </label>
+          <label className="reference-layer-toggle">
+            <input type="checkbox" checked={autoAlign} onChange={(e) => onAutoAlignChange(e.target.checked)} />
+            <span>Turn placed buildings to the nearest road or parcel line</span>
+          </label>
+          <div className="locate-actions">
+            {alignBuilding && (
+              <button className="extent-action locate-accept" onClick={alignBuilding.onAlign}>
+                Turn {alignBuilding.name} to the {alignBuilding.line}
+              </button>
+            )}
+            <button className="extent-action" onClick={() => inputRef.current?.click()}>
+              Add GeoJSON file
+            </button>
+          </div>
+          {error && <div className="extent-problem">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, AlertCircle, Loader2, Crosshair } from 'lucide-react';
+import { GeocodeResult, GeocodingError, GeocodingProvider } from '../geocoding';
+import { COORDINATE_FORMAT_LABELS, CoordinateParseError, ParsedCoordinate, parseCoordinates } from '../utils/coordinateParser';
+
+export type SearchStatus =
+  | { type: 'loading' }
+  | { type: 'error' | 'empty'; message: string }
+  | { type: 'ambiguous'; message: string; candidates: GeocodeResult[] };
+
+export const describeGeocodingError = (error: unknown) =>
+  error instanceof GeocodingError ? error.message : 'Something went wrong while searching';
+
+export const describeCoordinateError = (error: unknown) =>
+  error instanceof CoordinateParseError
+    ? `${COORDINATE_FORMAT_LABELS[error.format]}: ${error.message}`
+    : 'Could not read those coordinates';
+
+type CoordinateDetection = { coordinates: ParsedCoordinate } | { error: string } | null;
+
+function detectCoordinates(text: string, reference?: [number, number]): CoordinateDetection {
+  try {
+    const coordinates = parseCoordinates(text, { reference });
+    return coordinates && { coordinates };
+  } catch (error) {
+    return { error: describeCoordinateError(error) };
+  }
+}
+
+const SUGGEST_DEBOUNCE_MS = 300;
+const SUGGEST_MIN_LENGTH = 3;
+
+// Candidate row: label on top, type and locality underneath
+function CandidateOption({
+  id,
+  candidate,
+  active,
+  onSelect,
+  onHover,
+}: {
+  id: string;
+  candidate: GeocodeResult;
+  active: boolean;
+  onSelect: () => void;
+  onHover: () => void;
+}) {
+  const details = [candidate.type, candidate.locality].filter(Boolean).join(' · ');
+
+  return (
+    <li
+      id={id}
+      role="option"
+      aria-selected={active}
+      className={`search-candidate ${active ? 'search-candidate-active' : ''}`}
+      // Keep focus in the input so keyboard navigation keeps working
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onSelect}
+      onMouseEnter={onHover}
+    >
+      <span className="search-candidate-label">{candidate.label}</span>
+      {details && <span className="search-candidate-details">{details}</span>}
+    </li>
+  );
+}
+
+// Search component with debounced type-ahead suggestions
+export default function SearchInput({
+  onSearch,
+  onSelectCandidate,
+  onPreviewCandidate,
+  geocoder,
+  coordinateReference,
+  status = null,
+  value = "",
+  placeholder = "Enter address or latitude/longitude to start"
+}: {
+  onSearch: (searchTerm: string) => void;
+  onSelectCandidate?: (candidate: GeocodeResult) => void;
+  onPreviewCandidate?: (candidate: GeocodeResult | null) => void;
+  geocoder?: GeocodingProvider;
+  /** Location used to resolve short plus codes, usually the map center. */
+  coordinateReference?: [number, number];
+  status?: SearchStatus | null;
+  value?: string;
+  placeholder?: string;
+}) {
+  const [searchValue, setSearchValue] = useState(value);
+  const [query, setQuery] = useState('');
+  const [candidates, setCandidates] = useState<GeocodeResult[]>([]);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const previewRef = useRef(onPreviewCandidate);
+  previewRef.current = onPreviewCandidate;
+
+  // Update local state when external value changes
+  useEffect(() => {
+    setSearchValue(value);
+  }, [value]);
+
+  // Ambiguous search results are offered through the same dropdown
+  useEffect(() => {
+    if (status?.type === 'ambiguous') {
+      setCandidates(status.candidates);
+      setSuggestError(null);
+      setActiveIndex(-1);
+      setIsOpen(true);
+    }
+  }, [status]);
+
+  // Tell the user which coordinate format we recognised while they type
+  const detection = useMemo(
+    () => detectCoordinates(query, coordinateReference),
+    [query, coordinateReference]
+  );
+
+  // Fetch suggestions once the user pauses typing; coordinates never need them
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!geocoder || trimmed.length < SUGGEST_MIN_LENGTH || detectCoordinates(trimmed) !== null) {
+      setCandidates([]);
+      setIsSuggesting(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSuggesting(true);
+      try {
+        const results = await geocoder.suggest(trimmed, { limit: 6, signal: controller.signal });
+        setCandidates(results);
+        setSuggestError(null);
+        setActiveIndex(-1);
+        setIsOpen(true);
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return;
+        setCandidates([]);
+        setSuggestError(describeGeocodingError(error));
+        setIsOpen(true);
+      } finally {
+        if (!controller.signal.aborted) setIsSuggesting(false);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, geocoder]);
+
+  // Clear any preview marker when the dropdown goes away
+  useEffect(() => {
+    if (!isOpen) previewRef.current?.(null);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const select = (candidate: GeocodeResult) => {
+    close();
+    setQuery('');
+    setSearchValue(candidate.label);
+    onSelectCandidate?.(candidate);
+  };
+
+  const highlight = (index: number) => {
+    setActiveIndex(index);
+    onPreviewCandidate?.(candidates[index] || null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isOpen && activeIndex >= 0 && candidates[activeIndex]) {
+      select(candidates[activeIndex]);
+      return;
+    }
+    close();
+    setQuery('');
+    if (searchValue.trim()) {
+      onSearch(searchValue.trim());
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && candidates.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      highlight(activeIndex < candidates.length - 1 ? activeIndex + 1 : 0);
+    } else if (e.key === 'ArrowUp' && candidates.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      highlight(activeIndex > 0 ? activeIndex - 1 : candidates.length - 1);
+    } else if (e.key === 'Escape') {
+      close();
+    }
+  };
+
+  const showDropdown = isOpen && (candidates.length > 0 || suggestError !== null);
+  const isLoading = isSuggesting || status?.type === 'loading';
+  const message = status && status.type !== 'loading' && status.type !== 'ambiguous' ? status : null;
+
+  return (
+    <div className="search-container">
+      <form onSubmit={handleSubmit}>
+        <div className="search-input-wrapper">
+          <Search className="search-icon" />
+          <input
+            type="text"
+            role="combobox"
+            aria-expanded={showDropdown}
+            aria-controls="search-candidates"
+            aria-autocomplete="list"
+            aria-activedescendant={activeIndex >= 0 ? `search-candidate-${activeIndex}` : undefined}
+            value={searchValue}
+            onChange={(e) => {
+              setSearchValue(e.target.value);
+              setQuery(e.target.value);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => candidates.length > 0 && setIsOpen(true)}
+            onBlur={close}
+            placeholder={placeholder}
+            className="search-input"
+          />
+          {isLoading && <Loader2 className="search-spinner" />}
+        </div>
+      </form>
+      {showDropdown && (
+        <div className="search-dropdown">
+          {status?.type === 'ambiguous' && candidates === status.candidates && (
+            <div className="search-dropdown-header">{status.message}</div>
+          )}
+          {suggestError && (
+            <div className="search-status-message search-status-error">
+              <AlertCircle className="search-status-icon" />
+              Suggestions unavailable: {suggestError}
+            </div>
+          )}
+          <ul id="search-candidates" role="listbox" className="search-candidates">
+            {candidates.map((candidate, index) => (
+              <CandidateOption
+                key={candidate.id}
+                id={`search-candidate-${index}`}
+                candidate={candidate}
+                active={index === activeIndex}
+                onSelect={() => select(candidate)}
+                onHover={() => highlight(index)}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+      {detection && !showDropdown && (
+        <div
+          className={`search-status ${'error' in detection ? 'search-status-error' : 'search-status-detected'}`}
+          role="status"
+        >
+          <div className="search-status-message">
+            {'error' in detection ? (
+              <>
+                <AlertCircle className="search-status-icon" />
+                {detection.error}
+              </>
+            ) : (
+              <>
+                <Crosshair className="search-status-icon" />
+                {COORDINATE_FORMAT_LABELS[detection.coordinates.format]}:{' '}
+                {detection.coordinates.lat.toFixed(6)}, {detection.coordinates.lng.toFixed(6)}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+      {message && !detection && !showDropdown && (
+        <div className={`search-status search-status-${message.type}`} role="status">
+          <div className="search-status-message">
+            <AlertCircle className="search-status-icon" />
+            {message.message}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Copy, Download } from 'lucide-react';
+import { SITE_FORMATS, SiteFormat, exportSite } from '../formats';
+import { WizardResult } from '../types';
+
+const FORMATS = Object.keys(SITE_FORMATS) as SiteFormat[];
+
+/** Saves text as a file through a temporary link. */
+export function downloadText(text: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  // Firefox only follows links that are in the document
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // The download starts after this task; revoking now can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Download and copy buttons for each exchange format
+export default function SiteExport({ result, fileName = 'project-site' }: { result: WizardResult; fileName?: string }) {
+  const [copied, setCopied] = useState<SiteFormat | null>(null);
+  const [copyError, setCopyError] = useState<string | null>(null);
+
+  const handleCopy = async (format: SiteFormat) => {
+    try {
+      await navigator.clipboard.writeText(exportSite(result, format));
+      setCopied(format);
+      setCopyError(null);
+    } catch (error) {
+      setCopied(null);
+      setCopyError('Copying is not available here; use Download instead.');
+    }
+  };
+
+  return (
+    <div className="site-export">
+      {FORMATS.map((format) => {
+        const { label, extension, mimeType } = SITE_FORMATS[format];
+        return (
+          <div key={format} className="site-export-row">
+            <span className="site-export-label">{label}</span>
+            <button
+              className="site-export-button"
+              onClick={() => downloadText(exportSite(result, format), `${fileName}.${extension}`, mimeType)}
+            >
+              <Download className="site-export-icon" />
+              Download
+            </button>
+            <button className="site-export-button" onClick={() => handleCopy(format)}>
+              <Copy className="site-export-icon" />
+              {copied === format ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        );
+      })}
+      {copyError && <div className="site-export-error">{copyError}</div>}
+    </div>
+  );
+}
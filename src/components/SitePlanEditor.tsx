@@ -0,0 +1,347 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Marker, Polyline, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { FileImage, Plus, Trash2, X } from 'lucide-react';
+import {
+  MIN_CONTROL_POINTS,
+  PLAN_IMAGE_ACCEPT,
+  PlanPixel,
+  PlanTransformModel,
+  SitePlan,
+  planCorners,
+  planToLatLng,
+} from '../siteplan';
+import { LatLngTuple } from '../types';
+import { LengthUnit, formatLength } from '../utils/units';
+
+/** Which half of a control point pair the next map click picks. */
+export type ControlPointPick = 'plan' | 'map';
+
+// Below the vector overlays, so footprints and the extent stay visible over the plan
+const PLAN_PANE = 'site-plan';
+const PLAN_PANE_Z_INDEX = '350';
+const RESIDUAL_COLOR = '#DC2626';
+
+const MODEL_LABELS: Record<PlanTransformModel, string> = {
+  similarity: 'Similarity (move, turn, scale)',
+  affine: 'Affine (also stretch and shear)',
+};
+
+// Numbered markers are reused, so re-renders do not swap the icon under a drag
+const pointIcons = new Map<number, L.DivIcon>();
+const pointIcon = (number: number) => {
+  let icon = pointIcons.get(number);
+  if (!icon) {
+    icon = L.divIcon({ className: 'site-plan-point', html: String(number), iconSize: [20, 20] });
+    pointIcons.set(number, icon);
+  }
+  return icon;
+};
+const pendingIcon = L.divIcon({ className: 'site-plan-point site-plan-point-pending', iconSize: [20, 20] });
+
+// The image as an element of its own pane, stretched onto the plan's corners with a CSS matrix.
+// Leaflet's ImageOverlay only takes north-up bounds, so it cannot show a turned or sheared plan.
+function PlanImage({ url, plan, opacity }: { url: string; plan: SitePlan; opacity: number }) {
+  const map = useMap();
+  const [image] = useState(() => {
+    const element = L.DomUtil.create('img', 'site-plan-image leaflet-zoom-hide');
+    element.alt = '';
+    return element;
+  });
+
+  useEffect(() => {
+    const pane = map.getPane(PLAN_PANE) ?? map.createPane(PLAN_PANE);
+    pane.style.zIndex = PLAN_PANE_Z_INDEX;
+    pane.appendChild(image);
+    return () => {
+      image.remove();
+    };
+  }, [map, image]);
+
+  useEffect(() => {
+    image.src = url;
+  }, [image, url]);
+
+  useEffect(() => {
+    image.style.opacity = String(opacity);
+  }, [image, opacity]);
+
+  useEffect(() => {
+    const { width, height } = plan;
+    image.style.width = `${width}px`;
+    image.style.height = `${height}px`;
+    // Unrounded layer points, so a large plan does not drift by the rounding at its far corners
+    const update = () => {
+      const origin = map.getPixelOrigin();
+      const [topLeft, topRight, , bottomLeft] = planCorners(plan).map((corner) => map.project(corner).subtract(origin));
+      const matrix = [
+        (topRight.x - topLeft.x) / width,
+        (topRight.y - topLeft.y) / width,
+        (bottomLeft.x - topLeft.x) / height,
+        (bottomLeft.y - topLeft.y) / height,
+        topLeft.x,
+        topLeft.y,
+      ];
+      image.style.transform = `matrix(${matrix.join(',')})`;
+    };
+    update();
+    map.on('zoomend viewreset', update);
+    return () => {
+      map.off('zoomend viewreset', update);
+    };
+  }, [map, image, plan]);
+
+  return null;
+}
+
+// The plan image with its control points: a numbered marker at each map location, which can be dragged,
+// and once the plan is fitted a red line from where the transform puts the point to where it should be
+export function SitePlanLayer({
+  plan,
+  url,
+  opacity,
+  pendingPixel,
+  onMovePoint,
+}: {
+  plan: SitePlan;
+  /** Null until the image is loaded, e.g. after resuming a draft; the points still show. */
+  url: string | null;
+  opacity: number;
+  /** The plan half of a pair still waiting for its map location. */
+  pendingPixel: PlanPixel | null;
+  onMovePoint: (id: string, location: LatLngTuple) => void;
+}) {
+  const { controlPoints, transform } = plan;
+
+  return (
+    <>
+      {url && <PlanImage url={url} plan={plan} opacity={opacity} />}
+      {transform.rmsError !== null &&
+        controlPoints.map(({ id, pixel, location }) => (
+          <Polyline
+            key={`residual-${id}`}
+            positions={[planToLatLng(transform, pixel), location]}
+            pathOptions={{ color: RESIDUAL_COLOR, weight: 2, dashArray: '4 4' }}
+            interactive={false}
+          />
+        ))}
+      {controlPoints.map(({ id, location }, index) => (
+        <Marker
+          key={id}
+          position={location}
+          icon={pointIcon(index + 1)}
+          draggable={true}
+          alt={`Control point ${index + 1}`}
+          eventHandlers={{
+            dragend: (e) => {
+              const { lat, lng } = (e.target as L.Marker).getLatLng();
+              onMovePoint(id, [lat, lng]);
+            },
+          }}
+        />
+      ))}
+      {pendingPixel && <Marker position={planToLatLng(transform, pendingPixel)} icon={pendingIcon} interactive={false} />}
+    </>
+  );
+}
+
+function describeFit({ model, controlPoints, transform }: SitePlan, unit: LengthUnit): string {
+  const needed = MIN_CONTROL_POINTS[model] - controlPoints.length;
+  if (transform.rmsError === null) {
+    return needed > 0
+      ? `Add ${needed} more control point${needed === 1 ? '' : 's'} to align the plan.`
+      : 'The control points are too close together, or in a line. Spread them across the plan.';
+  }
+  const error = `Fit error ${formatLength(transform.rmsError, unit)} (RMS).`;
+  if (transform.model !== model) {
+    return needed > 0
+      ? `Using a similarity fit until there are ${MIN_CONTROL_POINTS[model]} points. ${error}`
+      : `These points cannot pin down an affine fit, so a similarity fit is used. ${error}`;
+  }
+  return `${error} Scale ${formatLength(transform.metresPerPixel, unit)} per pixel, turned ${Math.round(transform.rotation * 10) / 10}°.`;
+}
+
+// Button under the map controls, and a panel to load the plan, set its opacity and fit, and pick control points
+export function SitePlanControl({
+  plan,
+  imageLoaded,
+  opacity,
+  picking,
+  error,
+  unit,
+  alignBuilding,
+  onLoadImage,
+  onOpacityChange,
+  onModelChange,
+  onStartPick,
+  onCancelPick,
+  onRemovePoint,
+  onRemovePlan,
+}: {
+  plan: SitePlan | null;
+  imageLoaded: boolean;
+  opacity: number;
+  picking: ControlPointPick | null;
+  error: string | null;
+  unit: LengthUnit;
+  /** Offered on the building step once the plan is aligned: turns the selected building square to the plan. */
+  alignBuilding: { name: string; onAlign: () => void } | null;
+  onLoadImage: (file: File) => void;
+  onOpacityChange: (opacity: number) => void;
+  onModelChange: (model: PlanTransformModel) => void;
+  onStartPick: () => void;
+  onCancelPick: () => void;
+  onRemovePoint: (id: string) => void;
+  onRemovePlan: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Escape gives up on a half-picked pair
+  useEffect(() => {
+    if (!picking) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancelPick();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [picking, onCancelPick]);
+
+  const chooseFile = () => inputRef.current?.click();
+
+  return (
+    <div className="site-plan-control">
+      <button
+        className="basemap-switcher-toggle"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-label="Site plan"
+        title="Site plan"
+      >
+        <FileImage className="basemap-icon" />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={PLAN_IMAGE_ACCEPT}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onLoadImage(file);
+        }}
+        hidden
+      />
+      {(open || picking) && (
+        <div className="locate-panel site-plan-panel">
+          <button
+            className="locate-dismiss"
+            onClick={() => {
+              setOpen(false);
+              onCancelPick();
+            }}
+            aria-label="Close"
+          >
+            <X className="locate-dismiss-icon" />
+          </button>
+          <div className="rotation-title">Site plan</div>
+          {!plan ? (
+            <>
+              <div className="locate-text">
+                Load an image of the site plan, then pick a few points on it and click where each one is on the map.
+              </div>
+              <div className="locate-actions">
+                <button className="extent-action locate-accept" onClick={chooseFile}>
+                  Load plan image
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="locate-text">
+                {plan.name} ({plan.width} × {plan.height} px)
+              </div>
+              {!imageLoaded && (
+                <div className="locate-warning">Load {plan.name} again to see it; its control points are kept.</div>
+              )}
+              <label className="footprint-field">
+                <span>Opacity</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={opacity}
+                  onChange={(e) => onOpacityChange(Number(e.target.value))}
+                />
+              </label>
+              <label className="footprint-field">
+                <span>Fit</span>
+                <select
+                  value={plan.model}
+                  onChange={(e) => onModelChange(e.target.value as PlanTransformModel)}
+                  className="radius-unit"
+                >
+                  {(Object.keys(MODEL_LABELS) as PlanTransformModel[]).map((model) => (
+                    <option key={model} value={model}>
+                      {MODEL_LABELS[model]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {plan.controlPoints.length > 0 && (
+                <ol className="site-plan-points">
+                  {plan.controlPoints.map(({ id }, index) => (
+                    <li key={id} className="site-plan-point-item">
+                      <span>Point {index + 1}</span>
+                      {plan.transform.rmsError !== null && (
+                        <span className="site-plan-residual">{formatLength(plan.transform.residuals[index], unit)}</span>
+                      )}
+                      <button
+                        className="building-list-action"
+                        onClick={() => onRemovePoint(id)}
+                        aria-label={`Delete control point ${index + 1}`}
+                        title="Delete"
+                      >
+                        <Trash2 className="building-list-icon" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <div className="locate-text">{describeFit(plan, unit)}</div>
+              {picking ? (
+                <div className="locate-actions">
+                  <div className="locate-warning">
+                    {picking === 'plan' ? 'Click a point on the plan.' : 'Now click where that point is on the map.'}
+                  </div>
+                  <button className="extent-action" onClick={onCancelPick}>
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="locate-actions">
+                  <button className="extent-action locate-accept" onClick={onStartPick} disabled={!imageLoaded}>
+                    <Plus className="mode-icon" />
+                    Add control point
+                  </button>
+                  {alignBuilding && (
+                    <button className="extent-action" onClick={alignBuilding.onAlign}>
+                      Turn {alignBuilding.name} to the plan
+                    </button>
+                  )}
+                  <button className="extent-action" onClick={chooseFile}>
+                    {imageLoaded ? 'Replace image' : 'Load image'}
+                  </button>
+                  <button className="extent-action" onClick={onRemovePlan}>
+                    Remove plan
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+          {error && <div className="extent-problem">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { Circle, CircleMarker, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import { Sun, X } from 'lucide-react';
+import { LatLngTuple } from '../types';
+import { FacadeSide, SunPathPoint, facadeSun, parseSolarDate, sunPath, sunTimes } from '../solar';
+import { destinationPoint } from '../utils/geodesy';
+import { formatBearing } from '../utils/measure';
+import { metresPerPixel } from '../utils/nudge';
+
+const SUN_COLOR = '#f59e0b';
+const GUIDE_COLOR = '#9ca3af';
+// Screen radius of the diagram's horizon, so it reads the same at any zoom
+const DIAGRAM_RADIUS_PX = 120;
+const ELEVATION_RINGS = [30, 60];
+
+const FACADE_LABELS: Record<FacadeSide, string> = {
+  north: 'Front',
+  east: 'Right',
+  south: 'Back',
+  west: 'Left',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// A time in the host's time zone, or in local mean solar time at the longitude when there is none
+function formatSunTime(time: Date, lng: number, timeZone?: string): string {
+  if (timeZone) return new Intl.DateTimeFormat(undefined, { hour: '2-digit', minute: '2-digit', timeZone }).format(time);
+  const solar = new Date(time.getTime() + lng * 4 * 60 * 1000);
+  return `${pad(solar.getUTCHours())}:${pad(solar.getUTCMinutes())}`;
+}
+
+const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${Math.floor(minutes / 60)} h ${pad(minutes % 60)} min`;
+};
+
+// Polar sun-path diagram: the centre is straight up, the outer circle the horizon, and elevation falls evenly between
+const diagramPoint = (center: LatLngTuple, radius: number, { azimuth, elevation }: { azimuth: number; elevation: number }) =>
+  destinationPoint(center, azimuth, (radius * (90 - elevation)) / 90);
+
+// The stretches of a day's path when the sun is up; polar days wrap round in one
+function daylightRuns(path: SunPathPoint[]): SunPathPoint[][] {
+  const runs: SunPathPoint[][] = [];
+  let run: SunPathPoint[] = [];
+  for (const point of path) {
+    if (point.elevation > 0) {
+      run.push(point);
+    } else if (run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  if (run.length > 0) runs.push(run);
+  return runs;
+}
+
+// Sun-path diagram over the building: the chosen day's path with a dot each hour, the solstices dashed
+// for the range through the year, and rays towards sunrise and sunset. The sun is worked out at `location`,
+// the project, so the diagram agrees with the panel and the result whichever building it is drawn over
+export function SolarLayer({
+  center,
+  location,
+  date,
+  timeZone,
+}: {
+  center: LatLngTuple;
+  location: LatLngTuple;
+  date: string;
+  timeZone?: string;
+}) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const radius = DIAGRAM_RADIUS_PX * metresPerPixel(center[0], zoom);
+  const year = date.slice(0, 4);
+  const days = useMemo(
+    () => ({
+      path: sunPath(location, date),
+      hours: sunPath(location, date, 60).filter(({ elevation }) => elevation > 0),
+      solstices: [`${year}-06-21`, `${year}-12-21`].map((day) => sunPath(location, day)),
+      times: sunTimes(location, date),
+    }),
+    [location, date, year]
+  );
+  const { sunrise, sunset, sunriseAzimuth, sunsetAzimuth } = days.times;
+  const line = (path: SunPathPoint[]) => path.map((point) => diagramPoint(center, radius, point));
+  const guide = { color: GUIDE_COLOR, weight: 1, fill: false };
+
+  return (
+    <>
+      <Circle center={center} radius={radius} pathOptions={guide} interactive={false} />
+      {ELEVATION_RINGS.map((elevation) => (
+        <Circle
+          key={elevation}
+          center={center}
+          radius={(radius * (90 - elevation)) / 90}
+          pathOptions={{ ...guide, dashArray: '2 4' }}
+          interactive={false}
+        />
+      ))}
+      {days.solstices.flatMap((path, index) =>
+        daylightRuns(path).map((run, part) => (
+          <Polyline
+            key={`solstice-${index}-${part}`}
+            positions={line(run)}
+            pathOptions={{ color: SUN_COLOR, weight: 2, opacity: 0.6, dashArray: '6 6' }}
+            interactive={false}
+          />
+        ))
+      )}
+      {daylightRuns(days.path).map((run, part) => (
+        <Polyline key={`path-${part}`} positions={line(run)} pathOptions={{ color: SUN_COLOR, weight: 3 }} interactive={false} />
+      ))}
+      {days.hours.map((point) => (
+        <CircleMarker
+          key={point.time.getTime()}
+          center={diagramPoint(center, radius, point)}
+          radius={3}
+          pathOptions={{ color: 'white', fillColor: SUN_COLOR, fillOpacity: 1, weight: 1 }}
+          interactive={false}
+        />
+      ))}
+      {[
+        { label: 'Sunrise', time: sunrise, azimuth: sunriseAzimuth },
+        { label: 'Sunset', time: sunset, azimuth: sunsetAzimuth },
+      ].map(({ label, time, azimuth }) =>
+        time && azimuth !== null ? (
+          <Polyline
+            key={label}
+            positions={[center, destinationPoint(center, azimuth, radius)]}
+            pathOptions={{ color: SUN_COLOR, weight: 2 }}
+            interactive={false}
+          >
+            <Tooltip permanent direction="center" className="building-label">
+              {label} {formatSunTime(time, location[1], timeZone)}
+            </Tooltip>
+          </Polyline>
+        ) : null
+      )}
+    </>
+  );
+}
+
+// Button under the map controls with a panel of sun times for a date and the way each facade of the
+// selected building faces, with its hours of direct sun. Like the result's `solar`, everything is worked
+// out at the project location, so the figures match what the host receives for that building
+export function SolarControl({
+  open,
+  location,
+  rotation,
+  buildingName,
+  buildingPlaced,
+  date,
+  timeZone,
+  onOpenChange,
+  onDateChange,
+}: {
+  open: boolean;
+  /** The project location. */
+  location: LatLngTuple;
+  rotation: number;
+  buildingName: string;
+  /** Facades are listed once the selected building is placed, as they are in the result. */
+  buildingPlaced: boolean;
+  date: string;
+  /** IANA time zone for the times shown; without one they are local solar time. */
+  timeZone?: string;
+  onOpenChange: (open: boolean) => void;
+  onDateChange: (date: string) => void;
+}) {
+  const times = useMemo(() => sunTimes(location, date), [location, date]);
+  const facades = useMemo(() => facadeSun(location, rotation, date), [location, rotation, date]);
+  const time = (value: Date) => formatSunTime(value, location[1], timeZone);
+
+  return (
+    <div className="solar-control">
+      <button
+        className="basemap-switcher-toggle"
+        onClick={() => onOpenChange(!open)}
+        aria-expanded={open}
+        aria-label="Sun and orientation"
+        title="Sun and orientation"
+      >
+        <Sun className="basemap-icon" />
+      </button>
+      {open && (
+        <div className="locate-panel solar-panel">
+          <button className="locate-dismiss" onClick={() => onOpenChange(false)} aria-label="Close">
+            <X className="locate-dismiss-icon" />
+          </button>
+          <div className="rotation-title">Sun and orientation</div>
+          <label className="solar-date">
+            <span>Date</span>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => {
+                // Clearing the field keeps the last date rather than dropping the diagram
+                if (!Number.isNaN(parseSolarDate(e.target.value))) onDateChange(e.target.value);
+              }}
+            />
+          </label>
+          <dl className="measure-readout">
+            {times.sunrise && times.sunset && times.sunriseAzimuth !== null && times.sunsetAzimuth !== null && (
+              <>
+                <dt>Sunrise</dt>
+                <dd>
+                  {time(times.sunrise)}, {formatBearing(times.sunriseAzimuth)}
+                </dd>
+                <dt>Sunset</dt>
+                <dd>
+                  {time(times.sunset)}, {formatBearing(times.sunsetAzimuth)}
+                </dd>
+              </>
+            )}
+            <dt>Solar noon</dt>
+            <dd>
+              {time(times.solarNoon)}, {times.noonElevation.toFixed(1)}° high
+            </dd>
+            <dt>Daylight</dt>
+            <dd>{formatHours(times.dayLength)}</dd>
+          </dl>
+          {times.polar && (
+            <div className="locate-warning">
+              {times.polar === 'day' ? 'The sun does not set on this day.' : 'The sun does not rise on this day.'}
+            </div>
+          )}
+          {buildingPlaced ? (
+            <table className="solar-facades">
+              <caption>{buildingName} facades</caption>
+              <thead>
+                <tr>
+                  <th scope="col">Side</th>
+                  <th scope="col">Faces</th>
+                  <th scope="col">Sun</th>
+                </tr>
+              </thead>
+              <tbody>
+                {facades.map(({ side, azimuth, sunHours }) => (
+                  <tr key={side}>
+                    <th scope="row">{FACADE_LABELS[side]}</th>
+                    <td>{formatBearing(azimuth)}</td>
+                    <td>{formatHours(sunHours)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="locate-text">Place {buildingName} to see which way its facades face.</div>
+          )}
+          <div className="solar-note">
+            Times in {timeZone ?? 'local solar time'}. The front is the side facing the building's rotation.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
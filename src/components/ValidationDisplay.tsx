@@ -0,0 +1,54 @@
+import React from 'react';
+import { CircleMarker, Tooltip } from 'react-leaflet';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { ValidationIssue } from '../validation';
+
+const SEVERITY_COLORS = { error: '#DC2626', warning: '#D97706' };
+
+// Flags issues that have a location directly on the map
+export function ValidationMarkers({ issues }: { issues: ValidationIssue[] }) {
+  return (
+    <>
+      {issues
+        .filter((issue) => issue.location)
+        .map((issue) => (
+          <CircleMarker
+            key={issue.id}
+            center={issue.location!}
+            radius={10}
+            pathOptions={{
+              color: SEVERITY_COLORS[issue.severity],
+              fillColor: SEVERITY_COLORS[issue.severity],
+              fillOpacity: 0.25,
+              weight: 2,
+            }}
+          >
+            <Tooltip direction="top" offset={[0, -10]}>
+              {issue.message}
+            </Tooltip>
+          </CircleMarker>
+        ))}
+    </>
+  );
+}
+
+// Compact list of issues for the footer, errors first
+export function ValidationSummary({ issues, validating }: { issues: ValidationIssue[]; validating?: boolean }) {
+  if (issues.length === 0 && !validating) return null;
+
+  return (
+    <ul className="validation-summary" role="status">
+      {validating && issues.length === 0 && <li className="validation-item validation-pending">Checking…</li>}
+      {issues.map((issue) => (
+        <li key={issue.id} className={`validation-item validation-${issue.severity}`}>
+          {issue.severity === 'error' ? (
+            <AlertCircle className="validation-icon" />
+          ) : (
+            <AlertTriangle className="validation-icon" />
+          )}
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,11 @@
+export * from './types';
+export {
+  BUILT_IN_CRS,
+  CRS_UNIT_LABELS,
+  CRS_UNIT_METRES,
+  crsToProj4,
+  listCrs,
+  lookupCrs,
+  suggestUtmCrs,
+} from './registry';
+export { gridConvergence, projectPoint, projectResult, unprojectPoint } from './transform';
@@ -0,0 +1,109 @@
+// EPSG lookup for the projected coordinate systems the wizard can output
+import { utmParams, utmZoneFor } from '../utils/utm';
+import { CrsDefinition, CrsUnit } from './types';
+
+export const CRS_UNIT_METRES: Record<CrsUnit, number> = { m: 1, 'us-ft': 1200 / 3937, ft: 0.3048 };
+
+export const CRS_UNIT_LABELS: Record<CrsUnit, string> = { m: 'm', 'us-ft': 'ftUS', ft: 'ft' };
+
+const dms = (degrees: number, minutes = 0) => Math.sign(degrees || 1) * (Math.abs(degrees) + minutes / 60);
+
+const statePlaneLcc = (
+  code: number,
+  name: string,
+  [lat1, lat2, lat0, lon0]: [number, number, number, number],
+  falseEasting: number,
+  falseNorthing: number
+): CrsDefinition => ({
+  code,
+  name: `NAD83 / ${name} (ftUS)`,
+  datum: 'NAD83',
+  unit: 'us-ft',
+  projection: { method: 'lcc', lat0, lon0, lat1, lat2, falseEasting, falseNorthing },
+});
+
+/** Built-in non-UTM systems. UTM zones are generated on demand by lookupCrs. */
+export const BUILT_IN_CRS: CrsDefinition[] = [
+  statePlaneLcc(2227, 'California zone 3', [dms(38, 26), dms(37, 4), dms(36, 30), dms(-120, 30)], 2000000, 500000),
+  statePlaneLcc(2229, 'California zone 5', [dms(35, 28), dms(34, 2), dms(33, 30), -118], 2000000, 500000),
+  statePlaneLcc(2249, 'Massachusetts Mainland', [dms(42, 41), dms(41, 43), 41, dms(-71, 30)], 200000, 750000),
+  statePlaneLcc(2263, 'New York Long Island', [dms(41, 2), dms(40, 40), dms(40, 10), -74], 300000, 0),
+  statePlaneLcc(2272, 'Pennsylvania South', [dms(40, 58), dms(39, 56), dms(39, 20), dms(-77, 45)], 600000, 0),
+  statePlaneLcc(2278, 'Texas South Central', [dms(30, 17), dms(28, 23), dms(27, 50), -99], 600000, 4000000),
+  {
+    code: 2260,
+    name: 'NAD83 / New York East (ftUS)',
+    datum: 'NAD83',
+    unit: 'us-ft',
+    projection: { method: 'tmerc', lat0: dms(38, 50), lon0: dms(-74, 30), k0: 0.9999, falseEasting: 150000, falseNorthing: 0 },
+  },
+  {
+    code: 2193,
+    name: 'NZGD2000 / New Zealand Transverse Mercator 2000',
+    datum: 'GRS80',
+    unit: 'm',
+    projection: { method: 'tmerc', lat0: 0, lon0: 173, k0: 0.9996, falseEasting: 1600000, falseNorthing: 10000000 },
+  },
+];
+
+const utmCrs = (code: number, zone: number, hemisphere: 'N' | 'S', datum: CrsDefinition['datum']): CrsDefinition => ({
+  code,
+  name: `${datum === 'WGS84' ? 'WGS 84' : datum} / UTM zone ${zone}${hemisphere}`,
+  datum,
+  unit: 'm',
+  projection: { method: 'tmerc', ...utmParams(zone, hemisphere) },
+});
+
+// WGS 84 (326xx/327xx), ETRS89 (258xx) and NAD83 (269xx) UTM zones
+function lookupUtm(code: number): CrsDefinition | null {
+  const zone = code % 100;
+  const series = Math.floor(code / 100);
+  if (series === 326 && zone >= 1 && zone <= 60) return utmCrs(code, zone, 'N', 'WGS84');
+  if (series === 327 && zone >= 1 && zone <= 60) return utmCrs(code, zone, 'S', 'WGS84');
+  if (series === 258 && zone >= 28 && zone <= 38) return utmCrs(code, zone, 'N', 'ETRS89');
+  if (series === 269 && zone >= 1 && zone <= 23) return utmCrs(code, zone, 'N', 'NAD83');
+  return null;
+}
+
+/**
+ * Finds a projected CRS by EPSG code. Host-supplied definitions take
+ * precedence over the built-in ones. Returns null for unsupported codes.
+ */
+export function lookupCrs(code: number, extra: CrsDefinition[] = []): CrsDefinition | null {
+  return (
+    extra.find((crs) => crs.code === code) ||
+    BUILT_IN_CRS.find((crs) => crs.code === code) ||
+    lookupUtm(code)
+  );
+}
+
+/** All systems with a fixed definition, for pickers. UTM zones are omitted. */
+export const listCrs = (extra: CrsDefinition[] = []) => [
+  ...extra,
+  ...BUILT_IN_CRS.filter((crs) => !extra.some((other) => other.code === crs.code)),
+];
+
+/** The WGS 84 UTM zone covering a point. */
+export function suggestUtmCrs(lat: number, lng: number): CrsDefinition {
+  const zone = utmZoneFor(lat, lng);
+  const hemisphere = lat < 0 ? 'S' : 'N';
+  return utmCrs((hemisphere === 'N' ? 32600 : 32700) + zone, zone, hemisphere, 'WGS84');
+}
+
+const PROJ4_DATUMS: Record<CrsDefinition['datum'], string> = {
+  WGS84: '+datum=WGS84',
+  NAD83: '+datum=NAD83',
+  ETRS89: '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0',
+  GRS80: '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0',
+};
+
+/** proj4 definition string for a CRS. */
+export function crsToProj4({ datum, unit, projection }: CrsDefinition): string {
+  const common = `+x_0=${projection.falseEasting} +y_0=${projection.falseNorthing} ${PROJ4_DATUMS[datum]} +units=${unit} +no_defs`;
+  if (projection.method === 'tmerc') {
+    const { lat0, lon0, k0 } = projection;
+    return `+proj=tmerc +lat_0=${lat0} +lon_0=${lon0} +k=${k0} ${common}`;
+  }
+  const { lat0, lon0, lat1, lat2 } = projection;
+  return `+proj=lcc +lat_0=${lat0} +lon_0=${lon0} +lat_1=${lat1} +lat_2=${lat2} ${common}`;
+}
@@ -0,0 +1,63 @@
+import { latLngToUtm } from '../utils/utm';
+import { crsToProj4, lookupCrs, suggestUtmCrs } from './registry';
+import { gridConvergence, projectPoint, unprojectPoint } from './transform';
+import { CrsDefinition } from './types';
+
+const longIsland = lookupCrs(2263) as CrsDefinition;
+
+describe('projected coordinate systems', () => {
+  test('suggests the WGS 84 UTM zone for a location', () => {
+    expect(suggestUtmCrs(40.7128, -74.006)).toMatchObject({ code: 32618, name: 'WGS 84 / UTM zone 18N' });
+    expect(suggestUtmCrs(-33.8688, 151.2093).code).toBe(32756);
+    expect(lookupCrs(32618)).toEqual(suggestUtmCrs(40.7128, -74.006));
+    expect(lookupCrs(1234)).toBeNull();
+  });
+
+  test('host definitions take precedence over built-in ones', () => {
+    const custom: CrsDefinition = { ...longIsland, name: 'Custom' };
+    expect(lookupCrs(2263, [custom])?.name).toBe('Custom');
+  });
+
+  test('UTM projection matches the UTM converter', () => {
+    const utm = latLngToUtm(40.7128, -74.006);
+    const [easting, northing] = projectPoint(suggestUtmCrs(40.7128, -74.006), [40.7128, -74.006]);
+    expect(easting).toBeCloseTo(utm.easting, 6);
+    expect(northing).toBeCloseTo(utm.northing, 6);
+  });
+
+  test('Lambert conformal conic places the origin at the false origin and round-trips', () => {
+    const [x, y] = projectPoint(longIsland, [40 + 10 / 60, -74]);
+    expect(x).toBeCloseTo(300000 / (1200 / 3937), 3);
+    expect(y).toBeCloseTo(0, 3);
+
+    const [lat, lng] = unprojectPoint(longIsland, projectPoint(longIsland, [40.7484, -73.9857]));
+    expect(lat).toBeCloseTo(40.7484, 9);
+    expect(lng).toBeCloseTo(-73.9857, 9);
+  });
+
+  test('transverse Mercator with a non-zero origin latitude round-trips', () => {
+    const newYorkEast = lookupCrs(2260) as CrsDefinition;
+    const [lat, lng] = unprojectPoint(newYorkEast, projectPoint(newYorkEast, [41.2, -73.8]));
+    expect(lat).toBeCloseTo(41.2, 8);
+    expect(lng).toBeCloseTo(-73.8, 8);
+  });
+
+  test('grid convergence is zero on the central meridian and positive to the east', () => {
+    const zone18 = suggestUtmCrs(40, -75);
+    expect(gridConvergence(zone18, [40, -75])).toBeCloseTo(0, 6);
+    // Close to Δλ·sin(φ) for transverse Mercator
+    expect(gridConvergence(zone18, [40, -73])).toBeCloseTo(2 * Math.sin((40 * Math.PI) / 180), 2);
+    expect(gridConvergence(zone18, [40, -77])).toBeLessThan(0);
+
+    // Exactly n·Δλ for Lambert conformal conic
+    const n = Math.sin((40.8 * Math.PI) / 180);
+    expect(gridConvergence(longIsland, [40.7, -73])).toBeCloseTo(n, 2);
+  });
+
+  test('builds proj4 strings', () => {
+    expect(crsToProj4(suggestUtmCrs(40.7128, -74.006))).toBe(
+      '+proj=tmerc +lat_0=0 +lon_0=-75 +k=0.9996 +x_0=500000 +y_0=0 +datum=WGS84 +units=m +no_defs'
+    );
+    expect(crsToProj4(longIsland)).toMatch(/^\+proj=lcc .* \+datum=NAD83 \+units=us-ft \+no_defs$/);
+  });
+});
@@ -0,0 +1,82 @@
+// Conversions between WGS84 and projected coordinate systems
+import { LatLngTuple, WizardResult } from '../types';
+import { normalizeAngle } from '../utils/angles';
+import { circleVertices, extentVertices } from '../utils/extent';
+import {
+  lambertConformalConicForward,
+  lambertConformalConicInverse,
+  transverseMercatorForward,
+  transverseMercatorInverse,
+} from '../utils/projection';
+import { CRS_UNIT_METRES, crsToProj4 } from './registry';
+import { CrsDefinition, ProjectedBuilding, ProjectedPoint, ProjectedResult } from './types';
+
+/** Projects a WGS84 point into the CRS, in CRS units. */
+export function projectPoint({ projection, unit }: CrsDefinition, [lat, lng]: LatLngTuple): ProjectedPoint {
+  const [x, y] =
+    projection.method === 'tmerc'
+      ? transverseMercatorForward(lat, lng, projection)
+      : lambertConformalConicForward(lat, lng, projection);
+  return [x / CRS_UNIT_METRES[unit], y / CRS_UNIT_METRES[unit]];
+}
+
+/** Converts a point in CRS units back to WGS84. */
+export function unprojectPoint({ projection, unit }: CrsDefinition, [easting, northing]: ProjectedPoint): LatLngTuple {
+  const x = easting * CRS_UNIT_METRES[unit];
+  const y = northing * CRS_UNIT_METRES[unit];
+  return projection.method === 'tmerc'
+    ? transverseMercatorInverse(x, y, projection)
+    : lambertConformalConicInverse(x, y, projection);
+}
+
+/**
+ * Grid convergence in degrees at a point: positive when grid north lies east
+ * of true north. Measured from a short step along the meridian, so it works
+ * for any projection.
+ */
+export function gridConvergence(crs: CrsDefinition, point: LatLngTuple): number {
+  const [x0, y0] = projectPoint(crs, point);
+  const [x1, y1] = projectPoint(crs, [point[0] + 1e-5, point[1]]);
+  return (-Math.atan2(x1 - x0, y1 - y0) * 180) / Math.PI;
+}
+
+/** Expresses a wizard result in a projected CRS; null until there is a project location. */
+export function projectResult(result: WizardResult, crs: CrsDefinition): ProjectedResult | null {
+  const { projectLocation, projectExtent, buildings } = result;
+  if (!projectLocation) return null;
+
+  const project = (point: LatLngTuple) => projectPoint(crs, point);
+  const convergence = gridConvergence(crs, projectLocation);
+
+  let extent: ProjectedResult['projectExtent'] = null;
+  if (projectExtent?.type === 'circle') {
+    extent = {
+      center: project(projectExtent.center),
+      vertices: circleVertices(projectExtent.center, projectExtent.radius).map(project),
+      radius: projectExtent.radius / CRS_UNIT_METRES[crs.unit],
+    };
+  } else if (projectExtent) {
+    extent = { center: project(projectExtent.center), vertices: extentVertices(projectExtent).map(project) };
+  }
+
+  const projectedBuildings = buildings.map(
+    ({ id, location, footprint, rotation }): ProjectedBuilding => ({
+      id,
+      location: location && project(location),
+      corners: footprint && footprint.corners.map(project),
+      gridRotation: normalizeAngle(rotation - convergence),
+    })
+  );
+  const [first] = projectedBuildings;
+
+  return {
+    crs: { ...crs, proj4: crsToProj4(crs) },
+    convergence,
+    projectLocation: project(projectLocation),
+    projectExtent: extent,
+    buildings: projectedBuildings,
+    buildingLocation: first.location,
+    buildingCorners: first.corners,
+    buildingGridRotation: first.gridRotation,
+  };
+}
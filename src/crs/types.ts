@@ -0,0 +1,63 @@
+// Types for projected coordinate reference systems
+import { LambertConformalConicParams, TransverseMercatorParams } from '../utils/projection';
+
+/** Linear unit of a projected CRS. */
+export type CrsUnit = 'm' | 'us-ft' | 'ft';
+
+/** Projection method and parameters. False easting and northing are always in metres. */
+export type CrsProjection =
+  | ({ method: 'tmerc' } & TransverseMercatorParams)
+  | ({ method: 'lcc' } & LambertConformalConicParams);
+
+export interface CrsDefinition {
+  /** EPSG code. */
+  code: number;
+  name: string;
+  /**
+   * Geodetic datum. NAD83, ETRS89 and similar realisations are treated as
+   * WGS84, which is within a metre or two for site placement.
+   */
+  datum: 'WGS84' | 'NAD83' | 'ETRS89' | 'GRS80';
+  unit: CrsUnit;
+  projection: CrsProjection;
+}
+
+/** [easting, northing] in the units of the CRS. */
+export type ProjectedPoint = [number, number];
+
+export interface ProjectedBuilding {
+  id: string;
+  location: ProjectedPoint | null;
+  /** Footprint outline after rotation. */
+  corners: ProjectedPoint[] | null;
+  /** Building rotation measured from grid north rather than true north. */
+  gridRotation: number;
+}
+
+/** The wizard result expressed in a projected CRS. */
+export interface ProjectedResult {
+  crs: CrsDefinition & {
+    /** proj4 definition string, for tools that cannot look up EPSG codes. */
+    proj4: string;
+  };
+  /**
+   * Grid convergence at the project location in degrees: the angle from true
+   * north to grid north, positive when grid north lies east of true north.
+   * Grid bearing = true bearing − convergence.
+   */
+  convergence: number;
+  projectLocation: ProjectedPoint | null;
+  projectExtent: {
+    center: ProjectedPoint;
+    /** Outline vertices; circles are approximated by a regular polygon. */
+    vertices: ProjectedPoint[];
+    /** Ground radius of circular extents, in CRS units. */
+    radius?: number;
+  } | null;
+  /** Each entry of the building list, by the same ids as the result's buildings. */
+  buildings: ProjectedBuilding[];
+  /** The first building, as in the result. */
+  buildingLocation: ProjectedPoint | null;
+  buildingCorners: ProjectedPoint[] | null;
+  buildingGridRotation: number;
+}
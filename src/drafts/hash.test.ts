@@ -0,0 +1,60 @@
+import { LatLngTuple } from '../types';
+import { rectangleOutline } from '../utils/footprint';
+import { EMPTY_PLACEMENT } from '../utils/placement';
+import { decodeDraftHash, draftLink, encodeDraftHash } from './hash';
+import { WizardDraft } from './types';
+
+const project: LatLngTuple = [51.5074, -0.1278];
+
+const draft: WizardDraft = {
+  step: 2,
+  placement: {
+    projectLocation: project,
+    projectExtent: { type: 'polygon', vertices: [[51.5, -0.13], [51.51, -0.13], [51.51, -0.12]] },
+    buildings: [
+      { id: 'building-1', name: 'Main hall', location: [51.5076, -0.1275], rotation: 45, outline: rectangleOutline(12, 18) },
+      { id: 'annex', name: 'Annex, north', location: null, rotation: 0, outline: EMPTY_PLACEMENT.buildings[0].outline },
+      { id: 'building-3', name: 'Building 3', location: [51.5072, -0.128], rotation: 0, outline: rectangleOutline(6, 6) },
+    ],
+    sitePlan: null,
+    interactionMode: 'center',
+  },
+  crsCode: 27700,
+  view: { center: project, zoom: 16 },
+};
+
+describe('draft hash', () => {
+  test('round-trips a draft', () => {
+    expect(decodeDraftHash(`#${encodeDraftHash(draft)}`)).toEqual(draft);
+  });
+
+  test('leaves defaults out', () => {
+    const hash = encodeDraftHash({ step: 0, placement: { ...EMPTY_PLACEMENT, projectLocation: project }, crsCode: null, view: null });
+    expect(hash).toBe('v=1&p=51.5074,-0.1278');
+    expect(decodeDraftHash(hash)?.placement.buildings).toEqual(EMPTY_PLACEMENT.buildings);
+    expect(decodeDraftHash(hash)?.placement.buildings[0].outline).toBe(EMPTY_PLACEMENT.buildings[0].outline);
+  });
+
+  test('rounds coordinates to six decimals', () => {
+    const hash = encodeDraftHash({
+      ...draft,
+      placement: { ...EMPTY_PLACEMENT, projectExtent: { type: 'circle', center: [51.50741234, -0.12781234], radius: 250.456 } },
+    });
+    expect(hash).toContain('e=c:51.507412,-0.127812,250.46');
+  });
+
+  test('ignores fragments that are not drafts or are damaged', () => {
+    expect(decodeDraftHash('')).toBeNull();
+    expect(decodeDraftHash('#section-2')).toBeNull();
+    expect(decodeDraftHash('#v=2&p=51.5,-0.1')).toBeNull();
+    expect(decodeDraftHash('#v=1&p=51.5')).toBeNull();
+    expect(decodeDraftHash('#v=1&e=g:51.5,-0.1,51.6,-0.1')).toBeNull();
+    expect(decodeDraftHash('#v=1&p=%E0%A4%A')).toBeNull();
+    expect(decodeDraftHash('#v=1&b=51.5,-0.1,0;51.6,-0.1,0&k=a%2Ca')).toBeNull();
+  });
+
+  test('links keep the page path and query', () => {
+    const location = { origin: 'https://clover28.github.io', pathname: '/GeolocationTest/', search: '?lang=en' };
+    expect(draftLink(draft, location)).toBe(`https://clover28.github.io/GeolocationTest/?lang=en#${encodeDraftHash(draft)}`);
+  });
+});
@@ -0,0 +1,162 @@
+// Compact URL-fragment encoding of a draft, e.g. "#v=1&s=1&p=51.5074,-0.1278&e=c:51.5074,-0.1278,250"
+import { ExtentShape, LatLngTuple, LocalPoint } from '../types';
+import { BuildingPlacement, DEFAULT_OUTLINE, Placement } from '../utils/placement';
+import { MapView, WizardDraft } from './types';
+
+const HASH_VERSION = '1';
+
+// Six decimals of a degree is about 0.1 m, plenty for a site
+const degrees = (value: number) => String(Number(value.toFixed(6)));
+const metres = (value: number) => String(Number(value.toFixed(2)));
+
+const joinPoints = (points: [number, number][], format: (value: number) => string) =>
+  points.map((point) => point.map(format).join(',')).join(',');
+
+const isDefaultOutline = (outline: LocalPoint[]) =>
+  outline === DEFAULT_OUTLINE || JSON.stringify(outline) === JSON.stringify(DEFAULT_OUTLINE);
+
+// Names and ids are free text, so each entry is escaped before the list is, to keep the commas apart
+const encodeList = (values: string[]) => encodeURIComponent(values.map(encodeURIComponent).join(','));
+
+const encodeBuilding = ({ location, rotation }: BuildingPlacement) =>
+  location ? `${joinPoints([location], degrees)},${metres(rotation)}` : '';
+
+function encodeExtent(extent: ExtentShape): string {
+  switch (extent.type) {
+    case 'circle':
+      return `c:${joinPoints([extent.center], degrees)},${metres(extent.radius)}`;
+    case 'rectangle':
+      return `r:${joinPoints(extent.bounds, degrees)}`;
+    case 'polygon':
+      return `g:${joinPoints(extent.vertices, degrees)}`;
+  }
+}
+
+/**
+ * Encodes a draft as `key=value` pairs for the URL fragment, leaving out
+ * anything at its default. Buildings are `;`-separated lists in `b` and `o`,
+ * with an empty entry for an unplaced building or the default outline. The
+ * site plan is left out, since its image cannot travel with a link. The
+ * result has no leading "#".
+ */
+export function encodeDraftHash({ step, placement, crsCode, view }: WizardDraft): string {
+  const { projectLocation, projectExtent, buildings, interactionMode } = placement;
+  const onlyDefaults = (values: string[], fallback: (index: number) => string) =>
+    values.every((value, index) => value === fallback(index));
+  const names = buildings.map(({ name }) => name);
+  const ids = buildings.map(({ id }) => id);
+  const fields: [string, string | null][] = [
+    ['v', HASH_VERSION],
+    ['s', step > 0 ? String(step) : null],
+    ['p', projectLocation && joinPoints([projectLocation], degrees)],
+    ['e', projectExtent && encodeExtent(projectExtent)],
+    ['b', buildings.length > 1 || buildings[0].location ? buildings.map(encodeBuilding).join(';') : null],
+    [
+      'o',
+      buildings.every(({ outline }) => isDefaultOutline(outline))
+        ? null
+        : buildings.map(({ outline }) => (isDefaultOutline(outline) ? '' : joinPoints(outline, metres))).join(';'),
+    ],
+    ['n', onlyDefaults(names, (index) => `Building ${index + 1}`) ? null : encodeList(names)],
+    ['k', onlyDefaults(ids, (index) => `building-${index + 1}`) ? null : encodeList(ids)],
+    ['crs', crsCode === null ? null : String(crsCode)],
+    ['m', view && `${joinPoints([view.center], degrees)},${metres(view.zoom)}`],
+    ['i', interactionMode === 'center' ? 'c' : null],
+  ];
+  return fields
+    .filter((field): field is [string, string] => field[1] !== null)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+class MalformedHash extends Error {}
+
+// Reads a comma-separated list of numbers, in pairs when `pairs` is set
+function readNumbers(text: string | undefined, minimum: number, pairs = false): number[] {
+  const values = (text ?? '').split(',').map(Number);
+  if (values.length < minimum || values.some((value) => !isFinite(value)) || (pairs && values.length % 2 !== 0)) {
+    throw new MalformedHash();
+  }
+  return values;
+}
+
+const toPairs = (values: number[]): [number, number][] =>
+  values.filter((_, i) => i % 2 === 0).map((value, i) => [value, values[i * 2 + 1]]);
+
+function decodeExtent(text: string): ExtentShape {
+  const [kind, list] = text.split(':');
+  if (kind === 'c') {
+    const [lat, lng, radius] = readNumbers(list, 3);
+    if (radius <= 0) throw new MalformedHash();
+    return { type: 'circle', center: [lat, lng], radius };
+  }
+  if (kind === 'r') {
+    const [south, west, north, east] = readNumbers(list, 4);
+    return { type: 'rectangle', bounds: [[south, west], [north, east]] };
+  }
+  if (kind === 'g') return { type: 'polygon', vertices: toPairs(readNumbers(list, 6, true)) };
+  throw new MalformedHash();
+}
+
+/** Reads a draft from a URL fragment, with or without the "#". Returns null if there is none or it is malformed. */
+export function decodeDraftHash(hash: string): WizardDraft | null {
+  try {
+    const fields = new Map(
+      hash
+        .replace(/^#/, '')
+        .split('&')
+        .map((pair): [string, string] => {
+          const index = pair.indexOf('=');
+          return index < 0 ? [pair, ''] : [pair.slice(0, index), decodeURIComponent(pair.slice(index + 1))];
+        })
+    );
+    if (fields.get('v') !== HASH_VERSION) return null;
+
+    const point = (key: string): LatLngTuple | null => {
+      if (!fields.has(key)) return null;
+      const [lat, lng] = readNumbers(fields.get(key), 2);
+      return [lat, lng];
+    };
+    const list = (key: string) => (fields.has(key) ? (fields.get(key) as string).split(';') : []);
+    const textList = (key: string) => (fields.has(key) ? (fields.get(key) as string).split(',').map(decodeURIComponent) : []);
+    const [locations, outlines, names, ids] = [list('b'), list('o'), textList('n'), textList('k')];
+    const buildings = Array.from({ length: Math.max(1, locations.length) }, (_, index): BuildingPlacement => {
+      const building = locations[index] ? readNumbers(locations[index], 3) : null;
+      return {
+        id: ids[index] ?? `building-${index + 1}`,
+        name: names[index] ?? `Building ${index + 1}`,
+        location: building && [building[0], building[1]],
+        rotation: building ? building[2] : 0,
+        outline: outlines[index] ? toPairs(readNumbers(outlines[index], 6, true)) : DEFAULT_OUTLINE,
+      };
+    });
+    if (new Set(buildings.map(({ id }) => id)).size < buildings.length) return null;
+    const view = fields.has('m') ? readNumbers(fields.get('m'), 3) : null;
+    const step = fields.has('s') ? Number(fields.get('s')) : 0;
+    const crsCode = fields.has('crs') ? Number(fields.get('crs')) : null;
+    if (!Number.isInteger(step) || step < 0 || (crsCode !== null && !Number.isInteger(crsCode))) return null;
+
+    const placement: Placement = {
+      projectLocation: point('p'),
+      projectExtent: fields.has('e') ? decodeExtent(fields.get('e') as string) : null,
+      buildings,
+      sitePlan: null,
+      interactionMode: fields.get('i') === 'c' ? 'center' : 'drag',
+    };
+    const mapView: MapView | null = view && { center: [view[0], view[1]], zoom: view[2] };
+    return { step, placement, crsCode, view: mapView };
+  } catch (error) {
+    // Links get mangled in chat apps; a broken one is treated as no link at all
+    if (error instanceof MalformedHash || error instanceof URIError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Link that opens the draft. Only the fragment changes, so the page's own
+ * path (e.g. /GeolocationTest/ on GitHub Pages) is kept and never reaches
+ * the server's router.
+ */
+export function draftLink(draft: WizardDraft, location: Pick<Location, 'origin' | 'pathname' | 'search'> = window.location): string {
+  return `${location.origin}${location.pathname}${location.search}#${encodeDraftHash(draft)}`;
+}
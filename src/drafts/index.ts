@@ -0,0 +1,3 @@
+export * from './types';
+export { DEFAULT_DRAFT_KEY, createLocalStorageDrafts, createMemoryDrafts, parseDraft, serializeDraft } from './storage';
+export { decodeDraftHash, draftLink, encodeDraftHash } from './hash';
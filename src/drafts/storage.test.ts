@@ -0,0 +1,61 @@
+import { fitSitePlan, placeSitePlan } from '../siteplan';
+import { EMPTY_PLACEMENT } from '../utils/placement';
+import { createLocalStorageDrafts, serializeDraft } from './storage';
+import { SavedDraft } from './types';
+
+const saved: SavedDraft = {
+  step: 1,
+  placement: {
+    ...EMPTY_PLACEMENT,
+    projectLocation: [40.7484, -73.9857],
+    projectExtent: { type: 'circle', center: [40.7484, -73.9857], radius: 300 },
+  },
+  crsCode: null,
+  view: { center: [40.7484, -73.9857], zoom: 15 },
+  savedAt: 1760000000000,
+};
+
+describe('createLocalStorageDrafts', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  test('saves, loads and clears a draft', async () => {
+    const drafts = createLocalStorageDrafts('test-draft');
+    expect(await drafts.load()).toBeNull();
+
+    await drafts.save(saved);
+    expect(await drafts.load()).toEqual(saved);
+
+    await drafts.clear();
+    expect(window.localStorage.getItem('test-draft')).toBeNull();
+  });
+
+  test('ignores drafts it cannot read', async () => {
+    const drafts = createLocalStorageDrafts('test-draft');
+    window.localStorage.setItem('test-draft', '{not json');
+    expect(await drafts.load()).toBeNull();
+
+    window.localStorage.setItem('test-draft', serializeDraft(saved).replace('"version":2', '"version":1'));
+    expect(await drafts.load()).toBeNull();
+
+    window.localStorage.setItem('test-draft', JSON.stringify({ ...JSON.parse(serializeDraft(saved)), placement: { projectLocation: 'here' } }));
+    expect(await drafts.load()).toBeNull();
+  });
+
+  test('keeps the site plan and its control points', async () => {
+    const plan = placeSitePlan({ name: 'plan.png', width: 1000, height: 800 }, [40.7484, -73.9857], 0.1);
+    const sitePlan = fitSitePlan(plan, {
+      controlPoints: [
+        { id: 'point-1', pixel: [0, 0], location: [40.749, -73.987] },
+        { id: 'point-2', pixel: [1000, 800], location: [40.748, -73.985] },
+      ],
+    });
+    const drafts = createLocalStorageDrafts('test-draft');
+    await drafts.save({ ...saved, placement: { ...saved.placement, sitePlan } });
+    expect((await drafts.load())?.placement.sitePlan).toEqual(sitePlan);
+
+    const broken = { ...sitePlan, controlPoints: [{ id: 'point-1', pixel: 'top left' }] };
+    const draft = { ...saved, placement: { ...saved.placement, sitePlan: broken } } as unknown as SavedDraft;
+    window.localStorage.setItem('test-draft', serializeDraft(draft));
+    expect(await drafts.load()).toBeNull();
+  });
+});
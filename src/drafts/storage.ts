@@ -0,0 +1,179 @@
+import { ControlPoint, PlanTransformModel, SitePlan, toPlanTransform } from '../siteplan';
+import { ExtentShape, LatLngTuple, LocalPoint } from '../types';
+import { BuildingPlacement, DEFAULT_OUTLINE, Placement } from '../utils/placement';
+import { DraftStorage, SavedDraft } from './types';
+
+export const DEFAULT_DRAFT_KEY = 'geolocation-wizard:draft';
+
+// Bumped when the stored shape changes; older drafts are then ignored
+const DRAFT_VERSION = 2;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isPair = (value: unknown): value is LatLngTuple =>
+  Array.isArray(value) && value.length === 2 && isNumber(value[0]) && isNumber(value[1]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPresent = <T>(value: T | null): value is T => value !== null;
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const isRing = (value: unknown): value is LatLngTuple[] => Array.isArray(value) && value.length >= 3 && value.every(isPair);
+
+function readExtent(value: unknown): ExtentShape | null | undefined {
+  if (value === null) return null;
+  if (!isRecord(value)) return undefined;
+  if (value.type === 'circle' && isPair(value.center) && isNumber(value.radius) && value.radius > 0) {
+    return { type: 'circle', center: value.center, radius: value.radius };
+  }
+  if (value.type === 'rectangle' && Array.isArray(value.bounds) && isPair(value.bounds[0]) && isPair(value.bounds[1])) {
+    return { type: 'rectangle', bounds: [value.bounds[0], value.bounds[1]] };
+  }
+  if (value.type === 'polygon' && isRing(value.vertices)) {
+    return { type: 'polygon', vertices: value.vertices };
+  }
+  return undefined;
+}
+
+function readBuilding(value: unknown): BuildingPlacement | null {
+  if (!isRecord(value)) return null;
+  const { id, name, location, rotation, outline } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || (location !== null && !isPair(location)) || !isNumber(rotation)) {
+    return null;
+  }
+  return { id, name, location, rotation, outline: isRing(outline) ? (outline as LocalPoint[]) : DEFAULT_OUTLINE };
+}
+
+const isModel = (value: unknown): value is PlanTransformModel => value === 'similarity' || value === 'affine';
+
+const readControlPoint = (value: unknown): ControlPoint | null =>
+  isRecord(value) && typeof value.id === 'string' && isPair(value.pixel) && isPair(value.location)
+    ? { id: value.id, pixel: value.pixel, location: value.location }
+    : null;
+
+// The scale, rotation and residuals are worked out again from the matrix rather than trusted
+function readSitePlan(value: unknown): SitePlan | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value) || !isRecord(value.transform)) return undefined;
+  const { name, width, height, model, transform } = value;
+  const controlPoints = Array.isArray(value.controlPoints) ? value.controlPoints.map(readControlPoint) : [null];
+  const { origin, matrix } = transform;
+  if (
+    typeof name !== 'string' ||
+    !isNumber(width) ||
+    !isNumber(height) ||
+    width <= 0 ||
+    height <= 0 ||
+    !isModel(model) ||
+    !controlPoints.every(isPresent) ||
+    !isPair(origin) ||
+    !Array.isArray(matrix) ||
+    matrix.length !== 6 ||
+    !matrix.every(isNumber)
+  ) {
+    return undefined;
+  }
+  const fitted = isModel(transform.model) ? transform.model : model;
+  return {
+    name,
+    width,
+    height,
+    model,
+    controlPoints,
+    transform: toPlanTransform(fitted, origin, matrix as SitePlan['transform']['matrix'], controlPoints, isNumber(transform.rmsError)),
+  };
+}
+
+function readPlacement(value: unknown): Placement | null {
+  if (!isRecord(value)) return null;
+  const projectExtent = readExtent(value.projectExtent);
+  const { projectLocation, interactionMode } = value;
+  const buildings = Array.isArray(value.buildings) ? value.buildings.map(readBuilding) : [];
+  // Drafts saved before site plans have none
+  const sitePlan = readSitePlan(value.sitePlan);
+  if (
+    (projectLocation !== null && !isPair(projectLocation)) ||
+    projectExtent === undefined ||
+    sitePlan === undefined ||
+    buildings.length === 0 ||
+    !buildings.every(isPresent)
+  ) {
+    return null;
+  }
+  return {
+    projectLocation,
+    projectExtent,
+    buildings,
+    sitePlan,
+    interactionMode: interactionMode === 'center' ? 'center' : 'drag',
+  };
+}
+
+/** Reads a stored draft, or returns null if it is malformed or from another version. */
+export function parseDraft(text: string): SavedDraft | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return null;
+  }
+  if (!isRecord(data) || data.version !== DRAFT_VERSION || !isInteger(data.step) || !isNumber(data.savedAt)) return null;
+
+  const placement = readPlacement(data.placement);
+  if (!placement) return null;
+  const { view } = data;
+  return {
+    step: Math.max(0, data.step),
+    placement,
+    crsCode: isInteger(data.crsCode) ? data.crsCode : null,
+    view: isRecord(view) && isPair(view.center) && isNumber(view.zoom) ? { center: view.center, zoom: view.zoom } : null,
+    ...(isRecord(data.stepValues) && { stepValues: data.stepValues }),
+    savedAt: data.savedAt,
+  };
+}
+
+export const serializeDraft = (draft: SavedDraft) => JSON.stringify({ version: DRAFT_VERSION, ...draft });
+
+/**
+ * Keeps the draft in Web Storage under `key`. Reads that fail, e.g. with
+ * storage disabled, resolve to no draft; failed writes reject.
+ */
+export function createLocalStorageDrafts(key = DEFAULT_DRAFT_KEY, storage?: Storage): DraftStorage {
+  // Resolved on each call, since touching localStorage can throw when it is blocked
+  const getStorage = () => storage ?? window.localStorage;
+
+  return {
+    async load() {
+      try {
+        const text = getStorage().getItem(key);
+        return text === null ? null : parseDraft(text);
+      } catch (error) {
+        return null;
+      }
+    },
+    async save(draft) {
+      getStorage().setItem(key, serializeDraft(draft));
+    },
+    async clear() {
+      getStorage().removeItem(key);
+    },
+  };
+}
+
+/** Keeps the draft in memory only. Useful for tests, or to turn off persistence across reloads. */
+export function createMemoryDrafts(initial: SavedDraft | null = null): DraftStorage {
+  let saved = initial;
+  return {
+    async load() {
+      return saved;
+    },
+    async save(draft) {
+      saved = draft;
+    },
+    async clear() {
+      saved = null;
+    },
+  };
+}
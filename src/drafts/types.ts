@@ -0,0 +1,36 @@
+// Drafts of an unfinished wizard, for autosave and shareable links
+import { LatLngTuple } from '../types';
+import { Placement } from '../utils/placement';
+
+export interface MapView {
+  center: LatLngTuple;
+  zoom: number;
+}
+
+export interface WizardDraft {
+  /** Current step, 0-based. */
+  step: number;
+  placement: Placement;
+  /** EPSG code of an explicitly chosen output CRS, or null for the UTM zone of the project. */
+  crsCode: number | null;
+  /** Map view when the draft was taken, if known. */
+  view: MapView | null;
+  /** Values of host-defined steps by step id. Links leave these out. */
+  stepValues?: Record<string, unknown>;
+}
+
+export interface SavedDraft extends WizardDraft {
+  /** Milliseconds since the epoch. */
+  savedAt: number;
+}
+
+/**
+ * Where the wizard autosaves its draft. The default keeps it in
+ * localStorage; hosts can plug in their own, e.g. one backed by a server.
+ */
+export interface DraftStorage {
+  /** Resolves to null when there is no usable draft. */
+  load(): Promise<SavedDraft | null>;
+  save(draft: SavedDraft): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,123 @@
+import { LatLngTuple, WizardResult } from '../types';
+import { toProjectExtent } from '../utils/extent';
+import { rectangleOutline, toBuildingFootprint } from '../utils/footprint';
+import { SiteFormat, SiteImportError, detectSiteFormat, exportSite, importSite, toGeoJSON } from '.';
+
+const project: LatLngTuple = [40.7128, -74.006];
+const building: LatLngTuple = [40.7131, -74.0055];
+
+const footprint = toBuildingFootprint(building, rectangleOutline(20, 30), 30);
+
+const result = (extent: WizardResult['projectExtent']): WizardResult => ({
+  projectLocation: project,
+  projectExtent: extent,
+  buildings: [{ id: 'building-1', name: 'Main hall', location: building, rotation: 30, footprint }],
+  buildingLocation: building,
+  buildingRotation: 30,
+  buildingFootprint: footprint,
+  interactionMode: 'drag',
+  sitePlan: null,
+  projected: null,
+});
+
+const circleResult = result(toProjectExtent({ type: 'circle', center: project, radius: 250 }));
+
+describe('site formats', () => {
+  test.each<SiteFormat>(['geojson', 'kml'])('%s round-trips every part of the site', (format) => {
+    const site = importSite(exportSite(circleResult, format));
+    expect(site.projectLocation).toEqual(project);
+    expect(site.projectExtent).toMatchObject({ type: 'circle', radius: 250 });
+    const center = (site.projectExtent as { center: LatLngTuple }).center;
+    expect(center[0]).toBeCloseTo(project[0], 6);
+    expect(center[1]).toBeCloseTo(project[1], 6);
+    expect(site.buildings).toHaveLength(1);
+    expect(site.buildings[0]).toMatchObject({ id: 'building-1', name: 'Main hall', location: building, rotation: 30 });
+
+    // The outline is recovered up to vertex order
+    const outline = site.buildings[0].outline || [];
+    const corners = rectangleOutline(20, 30);
+    expect(outline).toHaveLength(4);
+    for (const [x, y] of corners) {
+      expect(outline.some(([ox, oy]) => Math.abs(ox - x) < 0.01 && Math.abs(oy - y) < 0.01)).toBe(true);
+    }
+  });
+
+  test('keeps rectangles as rectangles', () => {
+    const rectangle = result(
+      toProjectExtent({ type: 'rectangle', bounds: [[40.71, -74.01], [40.72, -74.0]] })
+    );
+    expect(importSite(exportSite(rectangle, 'kml')).projectExtent).toEqual({
+      type: 'rectangle',
+      bounds: [[40.71, -74.01], [40.72, -74.0]],
+    });
+  });
+
+  test('writes closed, counter-clockwise GeoJSON rings', () => {
+    const extent = toGeoJSON(circleResult).features[1];
+    const ring = (extent.geometry.coordinates as number[][][])[0];
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    let sum = 0;
+    for (let i = 0; i < ring.length - 1; i++) sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    expect(sum).toBeGreaterThan(0);
+  });
+
+  test('WKT keeps geometry and identifies parts by order', () => {
+    const wkt = exportSite(circleResult, 'wkt');
+    expect(wkt).toMatch(/^GEOMETRYCOLLECTION \(POINT \(-74.006 40.7128\), POLYGON \(\(/);
+
+    const site = importSite(wkt);
+    expect(site.projectLocation).toEqual(project);
+    expect(site.projectExtent?.type).toBe('polygon');
+    expect(site.buildings[0].location).toEqual(building);
+    expect(site.buildings[0].outline).toHaveLength(4);
+  });
+
+  test('keeps every placed building, paired with its own footprint', () => {
+    const annex: LatLngTuple = [40.7125, -74.0062];
+    const site = importSite(
+      exportSite(
+        {
+          ...circleResult,
+          buildings: [
+            ...circleResult.buildings,
+            { id: 'shed', name: 'Shed', location: null, rotation: 0, footprint: null },
+            {
+              id: 'annex',
+              name: 'Annex',
+              location: annex,
+              rotation: 90,
+              footprint: toBuildingFootprint(annex, rectangleOutline(8, 8), 90),
+            },
+          ],
+        },
+        'geojson'
+      )
+    );
+    expect(site.buildings.map(({ id, name, rotation }) => [id, name, rotation])).toEqual([
+      ['building-1', 'Main hall', 30],
+      ['annex', 'Annex', 90],
+    ]);
+    expect(site.buildings[1].outline).toHaveLength(4);
+  });
+
+  test('reads plain geometries from other tools', () => {
+    expect(importSite('SRID=4326;POINT Z (8.5 47.3 410)').projectLocation).toEqual([47.3, 8.5]);
+    expect(
+      importSite('{"type":"Polygon","coordinates":[[[0,0],[1,0],[1,1],[0,1],[0,0]]]}').projectExtent
+    ).toEqual({ type: 'polygon', vertices: [[0, 0], [0, 1], [1, 1], [1, 0]] });
+  });
+
+  test('detects formats from file names and content', () => {
+    expect(detectSiteFormat('', 'site.GeoJSON')).toBe('geojson');
+    expect(detectSiteFormat('  <kml/>')).toBe('kml');
+    expect(detectSiteFormat('POINT (1 2)')).toBe('wkt');
+    expect(detectSiteFormat('ISO-10303-21;\nHEADER;')).toBe('ifc');
+  });
+
+  test('rejects files without a usable site', () => {
+    expect(() => importSite('{"type":"FeatureCollection","features":[]}')).toThrow(SiteImportError);
+    expect(() => importSite('<kml><Document/></kml>')).toThrow(expect.objectContaining({ format: 'kml' }));
+    expect(() => importSite('LINESTRING (0 0, 1 1)')).toThrow('LINESTRING geometries are not supported.');
+    expect(() => importSite('POLYGON ((0 0, 1 1')).toThrow(SiteImportError);
+  });
+});
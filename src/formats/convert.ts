@@ -0,0 +1,43 @@
+// Entry points for exporting and importing a whole site
+import { WizardResult } from '../types';
+import { parseGeoJSON, serializeGeoJSON } from './geojson';
+import { parseIfc, serializeIfc } from './ifc';
+import { parseKml, serializeKml } from './kml';
+import { ImportedSite, SiteFormat } from './types';
+import { parseWkt, serializeWkt } from './wkt';
+
+export const SITE_FORMATS: Record<SiteFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  wkt: { label: 'WKT', extension: 'wkt', mimeType: 'text/plain' },
+  ifc: { label: 'IFC', extension: 'ifc', mimeType: 'application/x-step' },
+};
+
+const SERIALIZERS: Record<SiteFormat, (result: WizardResult) => string> = {
+  geojson: serializeGeoJSON,
+  kml: serializeKml,
+  wkt: serializeWkt,
+  ifc: serializeIfc,
+};
+
+const PARSERS: Record<SiteFormat, (text: string) => ImportedSite> = {
+  geojson: parseGeoJSON,
+  kml: parseKml,
+  wkt: parseWkt,
+  ifc: parseIfc,
+};
+
+export const exportSite = (result: WizardResult, format: SiteFormat) => SERIALIZERS[format](result);
+
+/** Picks the format from the file extension, or failing that from the start of the content. */
+export function detectSiteFormat(text: string, fileName = ''): SiteFormat {
+  if (/\.(geo)?json$/i.test(fileName)) return 'geojson';
+  if (/\.kml$/i.test(fileName)) return 'kml';
+  if (/\.wkt$/i.test(fileName)) return 'wkt';
+  if (/\.ifc$/i.test(fileName) || /^\s*ISO-10303-21\s*;/.test(text)) return 'ifc';
+  const start = text.trimStart()[0];
+  return start === '{' ? 'geojson' : start === '<' ? 'kml' : 'wkt';
+}
+
+/** Reads a GeoJSON, KML, WKT or IFC site. Throws SiteImportError when the file cannot be used. */
+export const importSite = (text: string, fileName = '') => PARSERS[detectSiteFormat(text, fileName)](text);
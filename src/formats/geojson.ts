@@ -0,0 +1,101 @@
+// GeoJSON (RFC 7946) FeatureCollection conversion
+import { LatLngTuple, WizardResult } from '../types';
+import { dropClosingVertex, isSiteRole, siteFeatures, siteFromFeatures } from './site';
+import { GeoJSONObject, ImportedSite, SiteFeature, SiteImportError } from './types';
+
+const toPosition = ([lat, lng]: LatLngTuple) => [lng, lat];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** An object with a string `type`, as every GeoJSON object has; its other members still need checking. */
+export const isGeoJSONObject = (value: unknown): value is GeoJSONObject => isRecord(value) && typeof value.type === 'string';
+
+/** The items of a member that should be an array, such as `features` or `coordinates`; none when it is not. */
+export const geoJSONItems = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/** A [longitude, latitude] position as [lat, lng], or null when it is not one. */
+export const readPosition = (position: unknown): LatLngTuple | null =>
+  Array.isArray(position) && typeof position[0] === 'number' && typeof position[1] === 'number'
+    ? [position[1], position[0]]
+    : null;
+
+/** The valid positions of a coordinate array as [lat, lng]. */
+export const readPositions = (coordinates: unknown): LatLngTuple[] =>
+  geoJSONItems(coordinates)
+    .map(readPosition)
+    .filter((point): point is LatLngTuple => point !== null);
+
+// Only text and numbers are kept from feature properties; they are all an export writes
+const siteProperties = (properties: Record<string, unknown>): SiteFeature['properties'] =>
+  Object.fromEntries(
+    Object.entries(properties).filter(
+      (entry): entry is [string, string | number] => typeof entry[1] === 'string' || typeof entry[1] === 'number'
+    )
+  );
+
+/** Builds a FeatureCollection with one feature per part of the site; `properties.role` says which. */
+export function toGeoJSON(result: WizardResult) {
+  return {
+    type: 'FeatureCollection',
+    features: siteFeatures(result).map(({ role, geometry, properties }) => ({
+      type: 'Feature',
+      properties: { role, ...properties },
+      geometry:
+        geometry.type === 'Point'
+          ? { type: 'Point', coordinates: toPosition(geometry.point) }
+          : { type: 'Polygon', coordinates: [[...geometry.ring, geometry.ring[0]].map(toPosition)] },
+    })),
+  };
+}
+
+export const serializeGeoJSON = (result: WizardResult) => JSON.stringify(toGeoJSON(result), null, 2);
+
+const readRing = (coordinates: unknown): LatLngTuple[] => dropClosingVertex(readPositions(coordinates));
+
+// Flattens any GeoJSON object into site features, skipping geometry types a site cannot use
+function collectFeatures(geojson: unknown, properties: Record<string, unknown>, features: SiteFeature[]) {
+  if (!isGeoJSONObject(geojson)) return;
+  const role = isSiteRole(properties.role) ? properties.role : undefined;
+  const [outer] = geoJSONItems(geojson.coordinates);
+
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      for (const feature of geoJSONItems(geojson.features)) collectFeatures(feature, {}, features);
+      break;
+    case 'Feature':
+      collectFeatures(geojson.geometry, isRecord(geojson.properties) ? geojson.properties : {}, features);
+      break;
+    case 'GeometryCollection':
+      for (const geometry of geoJSONItems(geojson.geometries)) collectFeatures(geometry, properties, features);
+      break;
+    case 'Point': {
+      const point = readPosition(geojson.coordinates);
+      if (point) features.push({ role, geometry: { type: 'Point', point }, properties: siteProperties(properties) });
+      break;
+    }
+    case 'Polygon':
+      features.push({ role, geometry: { type: 'Polygon', ring: readRing(outer) }, properties: siteProperties(properties) });
+      break;
+    case 'MultiPolygon': {
+      const [ring] = geoJSONItems(outer);
+      features.push({ role, geometry: { type: 'Polygon', ring: readRing(ring) }, properties: siteProperties(properties) });
+      break;
+    }
+  }
+}
+
+export function parseGeoJSON(text: string): ImportedSite {
+  let geojson: unknown;
+  try {
+    geojson = JSON.parse(text);
+  } catch (error) {
+    throw new SiteImportError('geojson', 'The file is not valid JSON.');
+  }
+  const features: SiteFeature[] = [];
+  collectFeatures(geojson, {}, features);
+  if (features.length === 0) {
+    throw new SiteImportError('geojson', 'No points or polygons found in the GeoJSON.');
+  }
+  return siteFromFeatures(features, 'geojson');
+}
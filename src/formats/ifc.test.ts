@@ -0,0 +1,175 @@
+import { gridConvergence, lookupCrs, projectPoint } from '../crs';
+import { LatLngTuple, WizardResult } from '../types';
+import { haversineDistance, offsetToLatLng } from '../utils/geodesy';
+import { rectangleOutline, toBuildingFootprint } from '../utils/footprint';
+import {
+  SiteImportError,
+  compareIfcSite,
+  fromCompoundAngle,
+  importSite,
+  readIfcModel,
+  serializeIfc,
+  toCompoundAngle,
+  updateIfc,
+} from '.';
+
+const reference: LatLngTuple = [51.5074, -0.1278];
+const utm = lookupCrs(32630);
+
+// An office in millimetres, its +Y axis 30° east of true north, with Block A 20 m along +X turned a quarter
+const office = (extra = '') => `ISO-10303-21;
+HEADER;
+FILE_DESCRIPTION(('ViewDefinition [CoordinationView]'),'2;1');
+FILE_NAME('office.ifc','2024-01-01T00:00:00',(''),(''),'','','');
+FILE_SCHEMA(('IFC4'));
+ENDSEC;
+DATA;
+#1=IFCPROJECT('0YvctVUKr0kugbFTf53O9L',$,'Office',$,$,$,$,(#20),#10);
+#10=IFCUNITASSIGNMENT((#11,#12));
+#11=IFCSIUNIT(*,.LENGTHUNIT.,.MILLI.,.METRE.);
+#12=IFCSIUNIT(*,.PLANEANGLEUNIT.,$,.RADIAN.);
+#20=IFCGEOMETRICREPRESENTATIONCONTEXT($,'Model',3,1.E-05,#21,#23);
+#21=IFCAXIS2PLACEMENT3D(#22,$,$);
+#22=IFCCARTESIANPOINT((0.,0.,0.));
+/* true north, seen from the model */
+#23=IFCDIRECTION((-0.5,0.866025403784439));
+#30=IFCSITE('2O2Fr$t4X7Zf8NOew3FLOH',$,'Riverside \\X2\\00E9\\X0\\',$,$,#31,$,$,.ELEMENT.,(51,30,26,640000),(0,-7,-40,-80000),12.,$,$);
+#31=IFCLOCALPLACEMENT($,#21);
+#40=IFCBUILDING('1hOSvn6df7F8_7GcBWlRGQ',$,'Block A',$,$,#41,$,$,.ELEMENT.,$,$,$);
+#41=IFCLOCALPLACEMENT(#31,#42);
+#42=IFCAXIS2PLACEMENT3D(#43,#44,#45);
+#43=IFCCARTESIANPOINT((20000.,0.,0.));
+#44=IFCDIRECTION((0.,0.,1.));
+#45=IFCDIRECTION((0.,1.,0.));
+#50=IFCWALL('3vB2YO$MX4xv5uCqZZG05x',$,'Wall; with a semicolon',$,$,$,$,$,$);
+${extra}ENDSEC;
+END-ISO-10303-21;
+`;
+
+// An IfcMapConversion for the office, optionally with its origin somewhere else
+function mapConversion(origin = reference, crsName = 'EPSG:32630') {
+  const crs = utm as NonNullable<typeof utm>;
+  const [eastings, northings] = projectPoint(crs, origin);
+  const angle = ((gridConvergence(crs, origin) - 30) * Math.PI) / 180;
+  return [
+    `#60=IFCPROJECTEDCRS('${crsName}',$,$,$,$,$,$);`,
+    `#61=IFCMAPCONVERSION(#20,#60,${eastings},${northings},0.,${Math.cos(angle)},${Math.sin(angle)},$);`,
+    '',
+  ].join('\n');
+}
+
+const blockA: LatLngTuple = offsetToLatLng(reference, 20 * Math.cos(Math.PI / 6), -20 * Math.sin(Math.PI / 6));
+
+describe('IFC georeferencing', () => {
+  test('converts compound plane angles both ways', () => {
+    expect(fromCompoundAngle([51, 30, 26, 640000])).toBeCloseTo(51.5074, 9);
+    expect(toCompoundAngle(-0.1278)).toEqual([0, -7, -40, -80000]);
+    expect(fromCompoundAngle(toCompoundAngle(-122.4194155))).toBeCloseTo(-122.4194155, 9);
+  });
+
+  test('reads the IfcSite reference point, TrueNorth and building placements', () => {
+    const model = readIfcModel(office());
+    expect(model).toMatchObject({
+      schema: 'IFC4',
+      siteName: 'Riverside é',
+      locationSource: 'site-reference',
+      northSource: 'true-north',
+      conflicts: [],
+      notes: [],
+    });
+    expect(model.northBearing).toBeCloseTo(30, 6);
+    expect(haversineDistance(model.site.projectLocation, reference)).toBeLessThan(0.001);
+
+    const [building] = model.site.buildings;
+    expect(building).toMatchObject({ id: '1hOSvn6df7F8_7GcBWlRGQ', name: 'Block A', outline: null });
+    expect(haversineDistance(building.location, blockA)).toBeLessThan(0.001);
+    expect(building.rotation).toBeCloseTo(300, 6);
+  });
+
+  test('prefers IfcMapConversion, and reports where the model disagrees with itself', () => {
+    expect(readIfcModel(office(mapConversion()))).toMatchObject({
+      locationSource: 'map-conversion',
+      northSource: 'map-conversion',
+      conflicts: [],
+    });
+
+    const moved = readIfcModel(office(mapConversion(offsetToLatLng(reference, 20, 0))));
+    expect(haversineDistance(moved.site.projectLocation, reference)).toBeCloseTo(20, 1);
+    expect(moved.conflicts).toEqual([
+      { label: 'IfcSite reference point and IfcMapConversion', kind: 'location', difference: expect.any(Number) },
+    ]);
+
+    const unknown = readIfcModel(office(mapConversion(reference, 'Local grid')));
+    expect(unknown.locationSource).toBe('site-reference');
+    expect(unknown.notes).toEqual(['IfcMapConversion uses Local grid, which the wizard does not know.']);
+  });
+
+  test('round-trips a result through a new IFC file', () => {
+    const project: LatLngTuple = [40.7128, -74.006];
+    const hall: LatLngTuple = [40.7131, -74.0055];
+    const result: WizardResult = {
+      projectLocation: project,
+      projectExtent: null,
+      buildings: [
+        { id: 'building-1', name: "Main 'hall'", location: hall, rotation: 30, footprint: null },
+        { id: 'shed', name: 'Shed', location: null, rotation: 0, footprint: null },
+      ],
+      buildingLocation: hall,
+      buildingRotation: 30,
+      buildingFootprint: toBuildingFootprint(hall, rectangleOutline(20, 30), 30),
+      interactionMode: 'drag',
+      sitePlan: null,
+      projected: null,
+    };
+    const text = serializeIfc(result);
+    expect(text).toMatch(/^ISO-10303-21;/);
+    expect(text).toMatch(/IFCPROJECTEDCRS\('EPSG:32618'/);
+
+    const site = importSite(text, 'site.ifc');
+    expect(haversineDistance(site.projectLocation, project)).toBeLessThan(0.01);
+    expect(site.buildings).toHaveLength(1);
+    expect(site.buildings[0].name).toBe("Main 'hall'");
+    expect(haversineDistance(site.buildings[0].location, hall)).toBeLessThan(0.01);
+    expect(site.buildings[0].rotation).toBeCloseTo(30, 6);
+    expect(serializeIfc(result)).toContain(site.buildings[0].id);
+  });
+
+  test('writes the user placement back into the uploaded model', () => {
+    const source = office();
+    const original = readIfcModel(source);
+    const placed: LatLngTuple = offsetToLatLng(blockA, 5, 5);
+    const result: WizardResult = {
+      projectLocation: reference,
+      projectExtent: null,
+      buildings: [{ id: '1hOSvn6df7F8_7GcBWlRGQ', name: 'Block A', location: placed, rotation: 310, footprint: null }],
+      buildingLocation: placed,
+      buildingRotation: 310,
+      buildingFootprint: null,
+      interactionMode: 'drag',
+      sitePlan: null,
+      projected: null,
+    };
+    expect(compareIfcSite(original, result).map(({ label, kind }) => [label, kind])).toEqual([
+      ['Block A location', 'location'],
+      ['Block A rotation', 'rotation'],
+    ]);
+
+    const updated = updateIfc(source, result);
+    expect(updated).toContain("#50=IFCWALL('3vB2YO$MX4xv5uCqZZG05x',$,'Wall; with a semicolon',$,$,$,$,$,$);");
+    expect(updated).toMatch(/#54=IFCMAPCONVERSION\(#20,#53,/);
+
+    const model = readIfcModel(updated);
+    expect(model).toMatchObject({ locationSource: 'map-conversion', conflicts: [] });
+    expect(model.northBearing).toBeCloseTo(40, 6);
+    // The model went with Block A, so its origin no longer sits on the project location
+    expect(compareIfcSite(model, result).map(({ label }) => label)).toEqual(['Project location']);
+  });
+
+  test('rejects files that are not georeferenced IFC models', () => {
+    expect(() => readIfcModel('POINT (1 2)')).toThrow(expect.objectContaining({ format: 'ifc' }));
+    const bare = office().replace('(51,30,26,640000),(0,-7,-40,-80000)', '$,$');
+    expect(() => importSite(bare, 'office.ifc')).toThrow(SiteImportError);
+    const unclosed = office().replace('((20000.,0.,0.));', '((20000.,0.,0.))');
+    expect(() => readIfcModel(unclosed)).toThrow(SiteImportError);
+  });
+});
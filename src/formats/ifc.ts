@@ -0,0 +1,609 @@
+// IFC georeferencing: IfcSite RefLatitude/RefLongitude, the model context's TrueNorth and IfcMapConversion
+import {
+  CRS_UNIT_METRES,
+  CrsDefinition,
+  CrsUnit,
+  gridConvergence,
+  lookupCrs,
+  projectPoint,
+  suggestUtmCrs,
+  unprojectPoint,
+} from '../crs';
+import { LatLngTuple, WizardResult } from '../types';
+import { angleBetween, normalizeAngle } from '../utils/angles';
+import { haversineDistance, latLngToOffset, offsetToLatLng } from '../utils/geodesy';
+import {
+  StepEdit,
+  StepEntity,
+  StepFile,
+  StepValue,
+  editStep,
+  encodeStepString,
+  formatStepEntity,
+  formatStepReal,
+  isStepEnum,
+  isStepRef,
+  isStepTyped,
+  parseStep,
+} from './step';
+import { IfcConflict, IfcModel, ImportedBuilding, SiteImportError } from './types';
+
+/** Differences below these are rounding, not conflicts. */
+export const IFC_LOCATION_TOLERANCE_M = 0.5;
+export const IFC_ROTATION_TOLERANCE_DEG = 0.5;
+
+const SI_PREFIXES: Record<string, number> = {
+  KILO: 1e3,
+  HECTO: 1e2,
+  DECA: 10,
+  DECI: 0.1,
+  CENTI: 1e-2,
+  MILLI: 1e-3,
+  MICRO: 1e-6,
+};
+
+const NAMED_LENGTH_UNITS: Record<string, number> = {
+  FOOT: 0.3048,
+  'US SURVEY FOOT': 1200 / 3937,
+  INCH: 0.0254,
+  YARD: 0.9144,
+};
+
+const CRS_UNIT_NAMES: Record<Exclude<CrsUnit, 'm'>, string> = { 'us-ft': 'US SURVEY FOOT', ft: 'FOOT' };
+
+const GUID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
+const GUID_PATTERN = /^[0-3][0-9A-Za-z_$]{21}$/;
+
+// Everything the georeferencing is read from; geometry and the rest of the model are skipped
+const GEOREFERENCE_TYPES = [
+  'IFCPROJECT',
+  'IFCUNITASSIGNMENT',
+  'IFCSIUNIT',
+  'IFCCONVERSIONBASEDUNIT',
+  'IFCMEASUREWITHUNIT',
+  'IFCGEOMETRICREPRESENTATIONCONTEXT',
+  'IFCMAPCONVERSION',
+  'IFCPROJECTEDCRS',
+  'IFCSITE',
+  'IFCBUILDING',
+  'IFCLOCALPLACEMENT',
+  'IFCAXIS2PLACEMENT3D',
+  'IFCAXIS2PLACEMENT2D',
+  'IFCCARTESIANPOINT',
+  'IFCDIRECTION',
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Decimal degrees from an IfcCompoundPlaneAngleMeasure: degrees, minutes, seconds and millionths of a second. */
+export function fromCompoundAngle([degrees = 0, minutes = 0, seconds = 0, millionths = 0]: number[]): number {
+  return degrees + minutes / 60 + (seconds + millionths / 1e6) / 3600;
+}
+
+/** An IfcCompoundPlaneAngleMeasure to the millionth of a second; every part carries the sign. */
+export function toCompoundAngle(degrees: number): [number, number, number, number] {
+  const sign = degrees < 0 ? -1 : 1;
+  let rest = Math.round(Math.abs(degrees) * 3600e6);
+  const parts = [3600e6, 60e6, 1e6].map((size) => {
+    const part = Math.floor(rest / size);
+    rest -= part * size;
+    return part;
+  });
+  return [...parts, rest].map((part) => sign * part || 0) as [number, number, number, number];
+}
+
+// A 22-character IFC GlobalId hashed from a seed, so the same site exports with the same ids
+function ifcGuid(seed: string): string {
+  let bits = '';
+  for (let round = 0; round < 4; round++) {
+    let hash = 0x811c9dc5 ^ round;
+    for (let i = 0; i < seed.length; i++) hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+    bits += (hash >>> 0).toString(2).padStart(32, '0');
+  }
+  const chunks = [bits.slice(0, 2), ...(bits.slice(2).match(/.{6}/g) || [])];
+  return chunks.map((chunk) => GUID_CHARS[parseInt(chunk, 2)]).join('');
+}
+
+const numberOf = (value: StepValue | undefined): number | null =>
+  typeof value === 'number' ? value : isStepTyped(value) ? numberOf(value.value) : null;
+
+const textOf = (value: StepValue | undefined): string | null =>
+  typeof value === 'string' ? value : isStepTyped(value) ? textOf(value.value) : null;
+
+const numbersOf = (value: StepValue | undefined): number[] =>
+  Array.isArray(value) ? value.map(numberOf).filter((item): item is number => item !== null) : [];
+
+const enumOf = (value: StepValue | undefined) => (isStepEnum(value) ? value.enum : null);
+
+function entityAt(file: StepFile, value: StepValue | undefined, types?: string[]): StepEntity | null {
+  const entity = isStepRef(value) ? file.entities.get(value.ref) : undefined;
+  return entity && (!types || types.includes(entity.type)) ? entity : null;
+}
+
+const entitiesOf = (file: StepFile, type: string) => Array.from(file.entities.values()).filter((e) => e.type === type);
+
+/** A placement in plan: its origin in model units and the turn of its x axis, counter-clockwise in radians. */
+interface Frame {
+  origin: [number, number];
+  angle: number;
+}
+
+const IDENTITY: Frame = { origin: [0, 0], angle: 0 };
+
+function compose(parent: Frame, { origin: [x, y], angle }: Frame): Frame {
+  const [c, s] = [Math.cos(parent.angle), Math.sin(parent.angle)];
+  const [px, py] = parent.origin;
+  return { origin: [px + c * x - s * y, py + s * x + c * y], angle: parent.angle + angle };
+}
+
+function axisFrame(file: StepFile, value: StepValue | undefined): Frame {
+  const axis = entityAt(file, value, ['IFCAXIS2PLACEMENT3D', 'IFCAXIS2PLACEMENT2D']);
+  if (!axis) return IDENTITY;
+  const [x = 0, y = 0] = numbersOf(entityAt(file, axis.args[0], ['IFCCARTESIANPOINT'])?.args[0]);
+  const refDirection = axis.type === 'IFCAXIS2PLACEMENT3D' ? axis.args[2] : axis.args[1];
+  const [dx = 1, dy = 0] = numbersOf(entityAt(file, refDirection, ['IFCDIRECTION'])?.args[0]);
+  return { origin: [x, y], angle: Math.atan2(dy, dx) };
+}
+
+// Walks an IfcLocalPlacement up to the model's coordinate system. Placements tilted out of plan are read by their plan.
+function placementFrame(file: StepFile, value: StepValue | undefined, depth = 0): Frame {
+  const placement = entityAt(file, value, ['IFCLOCALPLACEMENT']);
+  if (!placement || depth > 64) return IDENTITY;
+  return compose(placementFrame(file, placement.args[0], depth + 1), axisFrame(file, placement.args[1]));
+}
+
+// Metres per unit of a length unit entity, or null for anything else
+function lengthUnitMetres(file: StepFile, value: StepValue | undefined, depth = 0): number | null {
+  const unit = entityAt(file, value);
+  if (unit?.type === 'IFCSIUNIT' && enumOf(unit.args[1]) === 'LENGTHUNIT' && enumOf(unit.args[3]) === 'METRE') {
+    const prefix = enumOf(unit.args[2]);
+    return prefix ? SI_PREFIXES[prefix] ?? null : 1;
+  }
+  if (unit?.type === 'IFCCONVERSIONBASEDUNIT' && enumOf(unit.args[1]) === 'LENGTHUNIT') {
+    const named = NAMED_LENGTH_UNITS[(textOf(unit.args[2]) || '').toUpperCase()];
+    if (named) return named;
+    const measure = entityAt(file, unit.args[3], ['IFCMEASUREWITHUNIT']);
+    const factor = numberOf(measure?.args[0]);
+    const base = depth < 4 ? lengthUnitMetres(file, measure?.args[1], depth + 1) : null;
+    return factor !== null && base !== null ? factor * base : null;
+  }
+  return null;
+}
+
+// The project's length unit in metres; models in millimetres are common
+function projectUnitMetres(file: StepFile): number {
+  const [project] = entitiesOf(file, 'IFCPROJECT');
+  const units = entityAt(file, project?.args[8], ['IFCUNITASSIGNMENT'])?.args[0];
+  for (const unit of Array.isArray(units) ? units : []) {
+    const metres = lengthUnitMetres(file, unit);
+    if (metres) return metres;
+  }
+  return 1;
+}
+
+// The 3D model context, which carries TrueNorth and is the source of IfcMapConversion
+function modelContext(file: StepFile): StepEntity | null {
+  const contexts = entitiesOf(file, 'IFCGEOMETRICREPRESENTATIONCONTEXT');
+  return contexts.find((context) => textOf(context.args[1])?.toUpperCase() === 'MODEL') ?? contexts[0] ?? null;
+}
+
+// "EPSG:27700", "EPSG 27700" or a bare code
+function epsgCode(name: string): number | null {
+  const match = name.match(/EPSG\D{0,2}(\d+)/i) || name.trim().match(/^(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+interface MapConversion {
+  entity: StepEntity;
+  crsName: string;
+  crs: CrsDefinition | null;
+  /** Metres per unit of the eastings and northings; the CRS's own unit unless the IFC names one. */
+  mapUnitMetres: number | null;
+}
+
+function readMapConversion(file: StepFile, context: StepEntity | null, extra: CrsDefinition[]): MapConversion | null {
+  const conversions = entitiesOf(file, 'IFCMAPCONVERSION');
+  const entity =
+    conversions.find((conversion) => context && isStepRef(conversion.args[0]) && conversion.args[0].ref === context.id) ??
+    conversions[0];
+  if (!entity) return null;
+  const target = entityAt(file, entity.args[1], ['IFCPROJECTEDCRS']);
+  const crsName = textOf(target?.args[0]) || '';
+  const code = epsgCode(crsName);
+  return {
+    entity,
+    crsName,
+    crs: code === null ? null : lookupCrs(code, extra),
+    mapUnitMetres: lengthUnitMetres(file, target?.args[6]),
+  };
+}
+
+// Model coordinates in model units, and map positions, with the model's origin at `origin` and its +Y on `northBearing`
+function modelToLatLng(origin: LatLngTuple, northBearing: number, unitMetres: number, [x, y]: [number, number]) {
+  const t = toRadians(northBearing);
+  const [mx, my] = [x * unitMetres, y * unitMetres];
+  return offsetToLatLng(origin, mx * Math.cos(t) + my * Math.sin(t), -mx * Math.sin(t) + my * Math.cos(t));
+}
+
+function latLngToModel(origin: LatLngTuple, northBearing: number, unitMetres: number, point: LatLngTuple) {
+  const t = toRadians(northBearing);
+  const [east, north] = latLngToOffset(origin, point);
+  return [
+    (east * Math.cos(t) - north * Math.sin(t)) / unitMetres,
+    (east * Math.sin(t) + north * Math.cos(t)) / unitMetres,
+  ] as [number, number];
+}
+
+// Where the map conversion puts the model origin, and the bearing of the model's +Y axis
+function conversionPlacement({ entity, crs, mapUnitMetres }: MapConversion): [LatLngTuple, number] | null {
+  const [eastings, northings, abscissa, ordinate] = [2, 3, 5, 6].map((i) => numberOf(entity.args[i]));
+  if (!crs || eastings === null || northings === null) return null;
+  const scale = (mapUnitMetres ?? CRS_UNIT_METRES[crs.unit]) / CRS_UNIT_METRES[crs.unit];
+  const origin = unprojectPoint(crs, [eastings * scale, northings * scale]);
+  const gridAngle = abscissa || ordinate ? toDegrees(Math.atan2(ordinate ?? 0, abscissa ?? 0)) : 0;
+  return [origin, normalizeAngle(gridConvergence(crs, origin) - gridAngle)];
+}
+
+// IfcMapConversion eastings, northings and x axis for a model origin and north bearing
+function conversionValues(crs: CrsDefinition, origin: LatLngTuple, northBearing: number, mapUnitMetres: number) {
+  const [eastings, northings] = projectPoint(crs, origin).map((v) => (v * CRS_UNIT_METRES[crs.unit]) / mapUnitMetres);
+  const angle = toRadians(gridConvergence(crs, origin) - northBearing);
+  return { eastings, northings, abscissa: Math.cos(angle), ordinate: Math.sin(angle) };
+}
+
+interface Georeference {
+  model: Omit<IfcModel, 'site'>;
+  origin: LatLngTuple | null;
+  unitMetres: number;
+  site: StepEntity | null;
+  siteFrame: Frame;
+  context: StepEntity | null;
+  conversion: MapConversion | null;
+  buildings: { entity: StepEntity; guid: string; name: string | null; frame: Frame }[];
+}
+
+// Everything the model says about where it is, before deciding which source to trust
+function readGeoreference(file: StepFile, extra: CrsDefinition[]): Georeference {
+  const unitMetres = projectUnitMetres(file);
+  const [site = null] = entitiesOf(file, 'IFCSITE');
+  const siteFrame = site ? placementFrame(file, site.args[5]) : IDENTITY;
+  const context = modelContext(file);
+  const conversion = readMapConversion(file, context, extra);
+  const conflicts: IfcConflict[] = [];
+  const notes: string[] = [];
+
+  const [trueNorthX, trueNorthY] = numbersOf(entityAt(file, context?.args[5], ['IFCDIRECTION'])?.args[0]);
+  const trueNorth =
+    trueNorthX || trueNorthY ? normalizeAngle(toDegrees(Math.atan2(-(trueNorthX ?? 0), trueNorthY ?? 0))) : null;
+
+  const fromConversion = conversion && conversionPlacement(conversion);
+  if (conversion && !conversion.crs) {
+    notes.push(`IfcMapConversion uses ${conversion.crsName || 'an unnamed coordinate system'}, which the wizard does not know.`);
+  }
+  if (fromConversion && trueNorth !== null) {
+    const difference = Math.abs(angleBetween(fromConversion[1], trueNorth));
+    if (difference > IFC_ROTATION_TOLERANCE_DEG) {
+      conflicts.push({ label: 'TrueNorth and IfcMapConversion', kind: 'rotation', difference });
+    }
+  }
+  const northBearing = fromConversion?.[1] ?? trueNorth ?? 0;
+
+  // The reference point is the site's origin; stepping back from it by the site placement finds the model's
+  const latitude = numbersOf(site?.args[9]);
+  const longitude = numbersOf(site?.args[10]);
+  const fromReference =
+    latitude.length > 0 && longitude.length > 0
+      ? modelToLatLng([fromCompoundAngle(latitude), fromCompoundAngle(longitude)], northBearing, -unitMetres, siteFrame.origin)
+      : null;
+  if (fromConversion && fromReference) {
+    const difference = haversineDistance(fromConversion[0], fromReference);
+    if (difference > IFC_LOCATION_TOLERANCE_M) {
+      conflicts.push({ label: 'IfcSite reference point and IfcMapConversion', kind: 'location', difference });
+    }
+  }
+
+  const buildings = entitiesOf(file, 'IFCBUILDING').map((entity) => ({
+    entity,
+    guid: textOf(entity.args[0]) || '',
+    name: textOf(entity.args[2]) || textOf(entity.args[7]),
+    frame: placementFrame(file, entity.args[5]),
+  }));
+
+  return {
+    model: {
+      schema: file.schema,
+      siteName: (site && (textOf(site.args[2]) || textOf(site.args[7]))) || null,
+      locationSource: fromConversion ? 'map-conversion' : 'site-reference',
+      northBearing,
+      northSource: fromConversion ? 'map-conversion' : trueNorth !== null ? 'true-north' : null,
+      conflicts,
+      notes,
+    },
+    origin: fromConversion?.[0] ?? fromReference,
+    unitMetres,
+    site,
+    siteFrame,
+    context,
+    conversion,
+    buildings,
+  };
+}
+
+/**
+ * Reads an IFC model's georeferencing. IfcMapConversion is preferred when
+ * its target CRS has an EPSG code the wizard knows (built in, or from
+ * `extra`), otherwise the IfcSite RefLatitude/RefLongitude places the model,
+ * turned by the context's TrueNorth. Each IfcBuilding becomes a building at
+ * its placement. Throws SiteImportError when the model has neither.
+ */
+export function readIfcModel(text: string, extra: CrsDefinition[] = []): IfcModel {
+  const { model, origin, unitMetres, buildings } = readGeoreference(parseStep(text, GEOREFERENCE_TYPES), extra);
+  if (!origin) {
+    throw new SiteImportError(
+      'ifc',
+      'The model is not georeferenced: its IfcSite has no RefLatitude/RefLongitude and it has no IfcMapConversion the wizard can use.'
+    );
+  }
+  const { northBearing, siteName } = model;
+  const imported = buildings.map(
+    ({ guid, name, frame }): ImportedBuilding => ({
+      id: guid || undefined,
+      name: name ?? undefined,
+      location: modelToLatLng(origin, northBearing, unitMetres, frame.origin),
+      rotation: normalizeAngle(northBearing - toDegrees(frame.angle)),
+      outline: null,
+    })
+  );
+  if (imported.length === 0) {
+    imported.push({ name: siteName ?? undefined, location: origin, rotation: northBearing, outline: null });
+  }
+  return { ...model, site: { projectLocation: origin, projectExtent: null, buildings: imported } };
+}
+
+export const parseIfc = (text: string) => readIfcModel(text).site;
+
+/**
+ * Where the model and the user's placement disagree: the project location
+ * against the model origin, and each building found in the model by id, or
+ * failing that by name.
+ */
+export function compareIfcSite(model: IfcModel, result: WizardResult): IfcConflict[] {
+  const conflicts: IfcConflict[] = [];
+  const { projectLocation, buildings } = model.site;
+  if (result.projectLocation) {
+    const difference = haversineDistance(projectLocation, result.projectLocation);
+    if (difference > IFC_LOCATION_TOLERANCE_M) conflicts.push({ label: 'Project location', kind: 'location', difference });
+  }
+  for (const { id, name, location, rotation } of buildings) {
+    const placed =
+      result.buildings.find((building) => id !== undefined && building.id === id) ??
+      result.buildings.find((building) => name !== undefined && building.name === name);
+    if (!placed?.location) continue;
+    const distance = haversineDistance(location, placed.location);
+    if (distance > IFC_LOCATION_TOLERANCE_M) {
+      conflicts.push({ label: `${placed.name} location`, kind: 'location', difference: distance });
+    }
+    const turn = Math.abs(angleBetween(rotation, placed.rotation));
+    if (turn > IFC_ROTATION_TOLERANCE_DEG) conflicts.push({ label: `${placed.name} rotation`, kind: 'rotation', difference: turn });
+  }
+  return conflicts;
+}
+
+// Numbers new entities from `firstId` and collects their lines
+function entityWriter(firstId: number) {
+  const lines: string[] = [];
+  let nextId = firstId;
+  const add = (type: string, ...rawArgs: string[]) => {
+    const id = nextId++;
+    lines.push(formatStepEntity(id, type, rawArgs));
+    return `#${id}`;
+  };
+  return { lines, add };
+}
+
+type AddEntity = ReturnType<typeof entityWriter>['add'];
+
+const reals = (...values: number[]) => `(${values.map(formatStepReal).join(',')})`;
+
+const compoundAngle = (degrees: number) => `(${toCompoundAngle(degrees).join(',')})`;
+
+// An IfcProjectedCRS named by its EPSG code, with its unit
+function addProjectedCrs(add: AddEntity, crs: CrsDefinition, metre: string): string {
+  const mapUnit =
+    crs.unit === 'm'
+      ? metre
+      : add(
+          'IFCCONVERSIONBASEDUNIT',
+          add('IFCDIMENSIONALEXPONENTS', '1', '0', '0', '0', '0', '0', '0'),
+          '.LENGTHUNIT.',
+          encodeStepString(CRS_UNIT_NAMES[crs.unit]),
+          add('IFCMEASUREWITHUNIT', `IFCLENGTHMEASURE(${formatStepReal(CRS_UNIT_METRES[crs.unit])})`, metre)
+        );
+  return add('IFCPROJECTEDCRS', encodeStepString(`EPSG:${crs.code}`), encodeStepString(crs.name), '$', '$', '$', '$', mapUnit);
+}
+
+// Scale from model units to map units, left unset when they match
+const conversionScale = (unitMetres: number, mapUnitMetres: number) =>
+  Math.abs(unitMetres / mapUnitMetres - 1) < 1e-12 ? '$' : formatStepReal(unitMetres / mapUnitMetres);
+
+function stepFile(lines: string[]): string {
+  const timestamp = new Date().toISOString().slice(0, 19);
+  return [
+    'ISO-10303-21;',
+    'HEADER;',
+    "FILE_DESCRIPTION(('ViewDefinition [ReferenceView]'),'2;1');",
+    `FILE_NAME('project-site.ifc','${timestamp}',(''),(''),'geolocation-wizard','geolocation-wizard','');`,
+    "FILE_SCHEMA(('IFC4'));",
+    'ENDSEC;',
+    'DATA;',
+    ...lines,
+    'ENDSEC;',
+    'END-ISO-10303-21;',
+    '',
+  ].join('\n');
+}
+
+/**
+ * A minimal IFC4 model of the site: an IfcSite at the project location with
+ * RefLatitude/RefLongitude, an IfcMapConversion into the result's projected
+ * CRS (or the local UTM zone), and an IfcBuilding placed and turned for each
+ * placed building. The model's axes point east and north.
+ */
+export function serializeIfc(result: WizardResult): string {
+  const { projectLocation: origin, buildings } = result;
+  const { lines, add } = entityWriter(1);
+  const seed = origin ? origin.join(',') : '';
+
+  const metre = add('IFCSIUNIT', '*', '.LENGTHUNIT.', '$', '.METRE.');
+  const units = add('IFCUNITASSIGNMENT', `(${metre},${add('IFCSIUNIT', '*', '.PLANEANGLEUNIT.', '$', '.RADIAN.')})`);
+  const up = add('IFCDIRECTION', reals(0, 0, 1));
+  const world = add('IFCAXIS2PLACEMENT3D', add('IFCCARTESIANPOINT', reals(0, 0, 0)), '$', '$');
+  const context = add(
+    'IFCGEOMETRICREPRESENTATIONCONTEXT',
+    '$',
+    "'Model'",
+    '3',
+    formatStepReal(1e-5),
+    world,
+    add('IFCDIRECTION', reals(0, 1))
+  );
+  const project = add(
+    'IFCPROJECT',
+    `'${ifcGuid(`project:${seed}`)}'`,
+    '$',
+    "'Project site'",
+    '$',
+    '$',
+    '$',
+    '$',
+    `(${context})`,
+    units
+  );
+
+  if (origin) {
+    const crs = result.projected?.crs ?? suggestUtmCrs(origin[0], origin[1]);
+    const mapUnitMetres = CRS_UNIT_METRES[crs.unit];
+    const { eastings, northings, abscissa, ordinate } = conversionValues(crs, origin, 0, mapUnitMetres);
+    add(
+      'IFCMAPCONVERSION',
+      context,
+      addProjectedCrs(add, crs, metre),
+      ...[eastings, northings, 0, abscissa, ordinate].map(formatStepReal),
+      conversionScale(1, mapUnitMetres)
+    );
+  }
+
+  const sitePlacement = add('IFCLOCALPLACEMENT', '$', world);
+  const site = add(
+    'IFCSITE',
+    `'${ifcGuid(`site:${seed}`)}'`,
+    '$',
+    "'Site'",
+    '$',
+    '$',
+    sitePlacement,
+    '$',
+    '$',
+    '.ELEMENT.',
+    origin ? compoundAngle(origin[0]) : '$',
+    origin ? compoundAngle(origin[1]) : '$',
+    origin ? formatStepReal(0) : '$',
+    '$',
+    '$'
+  );
+  add('IFCRELAGGREGATES', `'${ifcGuid(`project-site:${seed}`)}'`, '$', '$', '$', project, `(${site})`);
+
+  const placed = buildings.flatMap(({ id, name, location, rotation }) => {
+    if (!origin || !location) return [];
+    const [x, y] = latLngToModel(origin, 0, 1, location);
+    const angle = toRadians(-rotation);
+    const placement = add(
+      'IFCLOCALPLACEMENT',
+      sitePlacement,
+      add('IFCAXIS2PLACEMENT3D', add('IFCCARTESIANPOINT', reals(x, y, 0)), up, add('IFCDIRECTION', reals(Math.cos(angle), Math.sin(angle), 0)))
+    );
+    const guid = GUID_PATTERN.test(id) ? id : ifcGuid(`building:${id}:${seed}`);
+    return [
+      add('IFCBUILDING', `'${guid}'`, '$', encodeStepString(name), '$', '$', placement, '$', '$', '.ELEMENT.', '$', '$', '$'),
+    ];
+  });
+  if (placed.length > 0) {
+    add('IFCRELAGGREGATES', `'${ifcGuid(`site-buildings:${seed}`)}'`, '$', '$', '$', site, `(${placed.join(',')})`);
+  }
+  return stepFile(lines);
+}
+
+/**
+ * The uploaded model with its georeferencing moved onto the result,
+ * leaving the rest of the file as it was. A building imported from the
+ * model, found by its GlobalId, carries the model with it: the model goes
+ * where the user put that building, turned the same way. Without one the
+ * model origin goes to the project location and keeps its north. The
+ * IfcSite reference point and TrueNorth are rewritten, and for IFC4 and
+ * later the IfcMapConversion too, which is added if the model has none.
+ * Returns the file unchanged until there is a project location.
+ */
+export function updateIfc(source: string, result: WizardResult, extra: CrsDefinition[] = []): string {
+  if (!result.projectLocation) return source;
+  const file = parseStep(source, GEOREFERENCE_TYPES);
+  const { model, unitMetres, site, siteFrame, context, conversion, buildings } = readGeoreference(file, extra);
+
+  const frames = new Map(buildings.map(({ guid, frame }) => [guid, frame]));
+  const anchor = result.buildings.find(({ id, location }) => location && frames.has(id));
+  const anchorFrame = anchor && frames.get(anchor.id);
+  let northBearing = model.northSource ? model.northBearing : 0;
+  let origin = result.projectLocation;
+  if (anchor?.location && anchorFrame) {
+    northBearing = normalizeAngle(anchor.rotation + toDegrees(anchorFrame.angle));
+    // Back from the building to the model origin, as its placement is in model units from there
+    origin = modelToLatLng(anchor.location, northBearing, -unitMetres, anchorFrame.origin);
+  }
+
+  const edits: StepEdit[] = [];
+  const rewrite = (entity: StepEntity, changes: Record<number, string>) => {
+    const rawArgs = entity.rawArgs.map((raw, i) => changes[i] ?? raw);
+    edits.push({ start: entity.start, end: entity.end, text: formatStepEntity(entity.id, entity.type, rawArgs) });
+  };
+  const { lines, add } = entityWriter(file.maxId + 1);
+
+  if (site && site.rawArgs.length > 10) {
+    const [lat, lng] = modelToLatLng(origin, northBearing, unitMetres, siteFrame.origin);
+    rewrite(site, { 9: compoundAngle(lat), 10: compoundAngle(lng) });
+  }
+
+  if (context && context.rawArgs.length > 5) {
+    const t = toRadians(northBearing);
+    const ratios = numberOf(context.args[2]) === 2 ? [-Math.sin(t), Math.cos(t)] : [-Math.sin(t), Math.cos(t), 0];
+    rewrite(context, { 5: add('IFCDIRECTION', reals(...ratios)) });
+  }
+
+  if (context && !/^IFC2X/.test(file.schema)) {
+    const crs = result.projected?.crs ?? conversion?.crs ?? suggestUtmCrs(origin[0], origin[1]);
+    if (conversion && conversion.crs?.code === crs.code) {
+      const mapUnitMetres = conversion.mapUnitMetres ?? CRS_UNIT_METRES[crs.unit];
+      const { eastings, northings, abscissa, ordinate } = conversionValues(crs, origin, northBearing, mapUnitMetres);
+      rewrite(conversion.entity, {
+        2: formatStepReal(eastings),
+        3: formatStepReal(northings),
+        5: formatStepReal(abscissa),
+        6: formatStepReal(ordinate),
+      });
+    } else {
+      const mapUnitMetres = CRS_UNIT_METRES[crs.unit];
+      const { eastings, northings, abscissa, ordinate } = conversionValues(crs, origin, northBearing, mapUnitMetres);
+      const target = addProjectedCrs(add, crs, add('IFCSIUNIT', '*', '.LENGTHUNIT.', '$', '.METRE.'));
+      const values = [eastings, northings].map(formatStepReal);
+      const axis = [abscissa, ordinate].map(formatStepReal);
+      const scale = conversionScale(unitMetres, mapUnitMetres);
+      if (conversion) {
+        rewrite(conversion.entity, { 1: target, 2: values[0], 3: values[1], 5: axis[0], 6: axis[1], 7: scale });
+      } else {
+        add('IFCMAPCONVERSION', `#${context.id}`, target, ...values, formatStepReal(0), ...axis, scale);
+      }
+    }
+  }
+
+  if (lines.length > 0) edits.push({ start: file.dataEnd, end: file.dataEnd, text: lines.map((line) => `${line}\n`).join('') });
+  return editStep(source, edits);
+}
@@ -0,0 +1,24 @@
+export * from './types';
+export { SITE_FORMATS, detectSiteFormat, exportSite, importSite } from './convert';
+export {
+  geoJSONItems,
+  isGeoJSONObject,
+  parseGeoJSON,
+  readPosition,
+  readPositions,
+  serializeGeoJSON,
+  toGeoJSON,
+} from './geojson';
+export {
+  IFC_LOCATION_TOLERANCE_M,
+  IFC_ROTATION_TOLERANCE_DEG,
+  compareIfcSite,
+  fromCompoundAngle,
+  parseIfc,
+  readIfcModel,
+  serializeIfc,
+  toCompoundAngle,
+  updateIfc,
+} from './ifc';
+export { parseKml, serializeKml } from './kml';
+export { parseWkt, serializeWkt } from './wkt';
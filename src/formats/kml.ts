@@ -0,0 +1,104 @@
+// KML 2.2 document conversion
+import { LatLngTuple, WizardResult } from '../types';
+import { dropClosingVertex, isSiteRole, siteFeatures, siteFromFeatures } from './site';
+import { ImportedSite, SiteFeature, SiteImportError } from './types';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatCoordinates = (points: LatLngTuple[]) => points.map(([lat, lng]) => `${lng},${lat}`).join(' ');
+
+function placemark({ role, geometry, properties }: SiteFeature): string {
+  const { name, ...data } = properties;
+  const extendedData = Object.entries({ role, ...data })
+    .map(([key, value]) => `        <Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join('\n');
+  const shape =
+    geometry.type === 'Point'
+      ? `      <Point><coordinates>${formatCoordinates([geometry.point])}</coordinates></Point>`
+      : [
+          '      <Polygon>',
+          '        <outerBoundaryIs><LinearRing><coordinates>',
+          `          ${formatCoordinates([...geometry.ring, geometry.ring[0]])}`,
+          '        </coordinates></LinearRing></outerBoundaryIs>',
+          '      </Polygon>',
+        ].join('\n');
+
+  return [
+    '    <Placemark>',
+    `      <name>${escapeXml(String(name))}</name>`,
+    '      <ExtendedData>',
+    extendedData,
+    '      </ExtendedData>',
+    shape,
+    '    </Placemark>',
+  ].join('\n');
+}
+
+/** KML document with one placemark per part of the site; the "role" data field says which. */
+export function serializeKml(result: WizardResult): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>Project site</name>',
+    ...siteFeatures(result).map(placemark),
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function readCoordinates(element: Element | undefined): LatLngTuple[] {
+  const text = element?.getElementsByTagName('coordinates')[0]?.textContent || '';
+  const points = text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(',').map(Number))
+    .filter(([lng, lat]) => !isNaN(lng) && !isNaN(lat))
+    .map(([lng, lat]) => [lat, lng] as LatLngTuple);
+  return dropClosingVertex(points);
+}
+
+// ExtendedData in either the <Data> or the schema-based <SimpleData> form
+function readProperties(placemark: Element): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const data of Array.from(placemark.getElementsByTagName('Data'))) {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = data.getElementsByTagName('value')[0]?.textContent?.trim() || '';
+  }
+  for (const data of Array.from(placemark.getElementsByTagName('SimpleData'))) {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = data.textContent?.trim() || '';
+  }
+  return properties;
+}
+
+export function parseKml(text: string): ImportedSite {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new SiteImportError('kml', 'The file is not valid XML.');
+  }
+
+  const features: SiteFeature[] = [];
+  for (const element of Array.from(doc.getElementsByTagName('Placemark'))) {
+    const properties = readProperties(element);
+    const role = isSiteRole(properties.role) ? properties.role : undefined;
+    const polygon = element.getElementsByTagName('Polygon')[0];
+    const point = element.getElementsByTagName('Point')[0];
+
+    if (polygon) {
+      const ring = readCoordinates(polygon.getElementsByTagName('outerBoundaryIs')[0] || polygon);
+      features.push({ role, geometry: { type: 'Polygon', ring }, properties });
+    } else if (point) {
+      const [position] = readCoordinates(point);
+      if (position) features.push({ role, geometry: { type: 'Point', point: position }, properties });
+    }
+  }
+
+  if (features.length === 0) {
+    throw new SiteImportError('kml', 'No placemarks with points or polygons found in the KML.');
+  }
+  return siteFromFeatures(features, 'kml');
+}
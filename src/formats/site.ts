@@ -0,0 +1,157 @@
+// Format-neutral features shared by the GeoJSON, KML and WKT converters
+import { ExtentShape, LatLngTuple, WizardResult } from '../types';
+import { normalizeAngle } from '../utils/angles';
+import { boundsFromCorners, circleVertices, extentCenter, extentVertices } from '../utils/extent';
+import { outlineFromCorners } from '../utils/footprint';
+import { ringCentroid } from '../utils/geometry';
+import { ImportedBuilding, ImportedSite, SiteFeature, SiteFormat, SiteImportError, SiteRole } from './types';
+
+const SITE_ROLES: SiteRole[] = ['project-location', 'project-extent', 'building-location', 'building-footprint'];
+
+/** Drops the repeated first vertex that closes rings in GeoJSON, KML and WKT. */
+export function dropClosingVertex(ring: LatLngTuple[]): LatLngTuple[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+export const isSiteRole = (value: unknown): value is SiteRole => SITE_ROLES.includes(value as SiteRole);
+
+// Exterior rings run counter-clockwise in GeoJSON (RFC 7946) and KML
+function counterClockwise(ring: LatLngTuple[]): LatLngTuple[] {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lat1, lng1] = ring[i];
+    const [lat2, lng2] = ring[(i + 1) % ring.length];
+    sum += lng1 * lat2 - lng2 * lat1;
+  }
+  return sum < 0 ? [...ring].reverse() : ring;
+}
+
+/** The parts of a result as features: project, extent, then each placed building's location and footprint. */
+export function siteFeatures(result: WizardResult): SiteFeature[] {
+  const { projectLocation, projectExtent, buildings } = result;
+  const features: SiteFeature[] = [];
+
+  if (projectLocation) {
+    features.push({
+      role: 'project-location',
+      geometry: { type: 'Point', point: projectLocation },
+      properties: { name: 'Project location' },
+    });
+  }
+  if (projectExtent) {
+    const properties: SiteFeature['properties'] = {
+      name: 'Project extent',
+      shape: projectExtent.type,
+      area: projectExtent.area,
+      perimeter: projectExtent.perimeter,
+    };
+    if (projectExtent.type === 'circle') properties.radius = projectExtent.radius;
+    const ring =
+      projectExtent.type === 'circle'
+        ? circleVertices(projectExtent.center, projectExtent.radius)
+        : extentVertices(projectExtent);
+    features.push({ role: 'project-extent', geometry: { type: 'Polygon', ring: counterClockwise(ring) }, properties });
+  }
+  for (const { id, name, location, rotation, footprint } of buildings) {
+    if (!location || !footprint) continue;
+    // Both features carry the building's id and name, which is how imports pair them up again
+    const building = { building: name, buildingId: id, rotation };
+    features.push({
+      role: 'building-location',
+      geometry: { type: 'Point', point: location },
+      properties: { name, ...building },
+    });
+    features.push({
+      role: 'building-footprint',
+      geometry: { type: 'Polygon', ring: counterClockwise(footprint.corners) },
+      properties: { name: `${name} footprint`, ...building, width: footprint.width, depth: footprint.depth },
+    });
+  }
+  return features;
+}
+
+function extentFromFeature({ geometry, properties }: SiteFeature): ExtentShape {
+  const ring = geometry.type === 'Polygon' ? geometry.ring : [];
+  const radius = Number(properties.radius);
+  if (properties.shape === 'circle' && radius > 0) {
+    return { type: 'circle', center: ringCentroid(ring), radius };
+  }
+  if (properties.shape === 'rectangle') {
+    const lats = ring.map(([lat]) => lat);
+    const lngs = ring.map(([, lng]) => lng);
+    return {
+      type: 'rectangle',
+      bounds: boundsFromCorners([Math.min(...lats), Math.min(...lngs)], [Math.max(...lats), Math.max(...lngs)]),
+    };
+  }
+  return { type: 'polygon', vertices: ring };
+}
+
+// Pairs building points with footprints: by building id where the file has them, otherwise in order
+function buildingsFromFeatures(locations: SiteFeature[], footprints: SiteFeature[]): ImportedBuilding[] {
+  const pairs = new Map<string, { location?: SiteFeature; footprint?: SiteFeature }>();
+  const key = ({ properties }: SiteFeature, index: number) =>
+    properties.buildingId === undefined ? `#${index}` : `id:${properties.buildingId}`;
+  locations.forEach((feature, index) => pairs.set(key(feature, index), { location: feature }));
+  footprints.forEach((feature, index) => {
+    const pair = pairs.get(key(feature, index));
+    if (pair && !pair.footprint) pair.footprint = feature;
+    else pairs.set(`footprint ${index}`, { footprint: feature });
+  });
+
+  return Array.from(pairs.values()).map(({ location, footprint }) => {
+    const ring = footprint?.geometry.type === 'Polygon' ? footprint.geometry.ring : null;
+    const point = location?.geometry.type === 'Point' ? location.geometry.point : ringCentroid(ring ?? []);
+    const properties = { ...footprint?.properties, ...location?.properties };
+    const rotation = Number(footprint?.properties.rotation ?? location?.properties.rotation ?? 0);
+    const normalized = isNaN(rotation) ? 0 : normalizeAngle(rotation);
+    return {
+      ...(properties.buildingId !== undefined && { id: String(properties.buildingId) }),
+      ...(properties.building !== undefined && { name: String(properties.building) }),
+      location: point,
+      rotation: normalized,
+      outline: ring && outlineFromCorners(point, ring, normalized),
+    };
+  });
+}
+
+/**
+ * Assembles a site from parsed features. Features without a role are taken
+ * in order: the first point is the project and later ones are buildings; the
+ * first polygon is the extent and later ones are footprints.
+ */
+export function siteFromFeatures(features: SiteFeature[], format: SiteFormat): ImportedSite {
+  for (const feature of features) {
+    if (feature.geometry.type === 'Polygon' && feature.geometry.ring.length < 3) {
+      throw new SiteImportError(format, 'Polygons need at least three vertices.');
+    }
+  }
+
+  const points = features.filter((feature) => !feature.role && feature.geometry.type === 'Point');
+  const polygons = features.filter((feature) => !feature.role && feature.geometry.type === 'Polygon');
+  const take = (role: SiteRole, untagged: SiteFeature[]) =>
+    features.find((feature) => feature.role === role) || untagged.shift();
+  const withRole = (role: SiteRole) => features.filter((feature) => feature.role === role);
+  const pointOf = (feature?: SiteFeature) => (feature?.geometry.type === 'Point' ? feature.geometry.point : null);
+  const ringOf = (feature?: SiteFeature) => (feature?.geometry.type === 'Polygon' ? feature.geometry.ring : null);
+
+  const projectFeature = take('project-location', points);
+  const extentFeature = take('project-extent', polygons);
+
+  const projectExtent = extentFeature && ringOf(extentFeature) ? extentFromFeature(extentFeature) : null;
+  const projectLocation = pointOf(projectFeature) || (projectExtent && extentCenter(projectExtent));
+  if (!projectLocation) {
+    throw new SiteImportError(format, 'The file has no project location or extent.');
+  }
+
+  return {
+    projectLocation,
+    projectExtent,
+    buildings: buildingsFromFeatures(
+      [...withRole('building-location'), ...points],
+      [...withRole('building-footprint'), ...polygons]
+    ),
+  };
+}
@@ -0,0 +1,244 @@
+// ISO 10303-21 ("STEP physical file") reading and editing, the encoding of IFC models
+import { SiteImportError } from './types';
+
+/** A reference to another entity instance, "#12". */
+export interface StepRef {
+  ref: number;
+}
+
+/** An enumeration value such as ".ELEMENT."; the booleans .T. and .F. read as enumerations too. */
+export interface StepEnum {
+  enum: string;
+}
+
+/** A value wrapped in its defined type, e.g. IFCLABEL('Site'). */
+export interface StepTyped {
+  type: string;
+  value: StepValue;
+}
+
+/** An attribute value. Unset ($) and derived (*) attributes are null. */
+export type StepValue = string | number | StepRef | StepEnum | StepTyped | StepValue[] | null;
+
+export interface StepEntity {
+  id: number;
+  /** Upper-case entity name, e.g. "IFCSITE". */
+  type: string;
+  args: StepValue[];
+  /** The source text of each attribute, so a rewritten entity keeps the others exactly as they were. */
+  rawArgs: string[];
+  /** Where "#id=...;" starts and ends in the file. */
+  start: number;
+  end: number;
+}
+
+export interface StepFile {
+  /** The first schema named in the header, e.g. "IFC4" or "IFC2X3". */
+  schema: string;
+  entities: Map<number, StepEntity>;
+  /** The highest entity id in use, kept or not; new entities are numbered after it. */
+  maxId: number;
+  /** Where the DATA section's closing ENDSEC starts, which is where new entities go. */
+  dataEnd: number;
+}
+
+/** A replacement for the text between `start` and `end`. */
+export interface StepEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Strings, binaries, references, enumerations, numbers, keywords, comments and punctuation
+const TOKEN_PATTERN =
+  /'(?:[^']|'')*'|"[0-9A-Fa-f]*"|#\d+|\.[A-Za-z_][A-Za-z0-9_]*\.|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|!?[A-Za-z_][A-Za-z0-9_-]*|\/\*[\s\S]*?\*\/|\S/g;
+
+// Reads tokens as the parser asks for them, so a large model is never held as a token list
+function tokenizer(text: string) {
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+  const read = (): Token | undefined => {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (!match[0].startsWith('/*')) return { text: match[0], start: match.index, end: match.index + match[0].length };
+    }
+    return undefined;
+  };
+  let current = read();
+  let last: Token | undefined;
+  return {
+    peek: () => current,
+    next: () => {
+      last = current;
+      current = read();
+      return last;
+    },
+    /** The end of the token read most recently. */
+    lastEnd: () => last?.end ?? 0,
+  };
+}
+
+const hexChars = (hex: string, width: number) =>
+  (hex.match(new RegExp(`[0-9A-Fa-f]{${width}}`, 'g')) || []).map((code) => parseInt(code, 16));
+
+/** The text of a quoted STEP string, with its quote and \X\, \X2\ and \X4\ escapes decoded. */
+export function decodeStepString(quoted: string): string {
+  return quoted
+    .slice(1, -1)
+    .replace(/''/g, "'")
+    .replace(/\\X2\\((?:[0-9A-Fa-f]{4})*)\\X0\\/g, (_, hex: string) => String.fromCharCode(...hexChars(hex, 4)))
+    .replace(/\\X4\\((?:[0-9A-Fa-f]{8})*)\\X0\\/g, (_, hex: string) => String.fromCodePoint(...hexChars(hex, 8)))
+    .replace(/\\X\\([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\S\\(.)/g, (_, char: string) => String.fromCharCode(char.charCodeAt(0) + 128))
+    .replace(/\\\\/g, '\\');
+}
+
+/** A quoted STEP string; anything outside printable ASCII is written as \X2\ escapes. */
+export function encodeStepString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "''")
+    .replace(/[^\x20-\x7E]+/g, (run) => {
+      const units = Array.from({ length: run.length }, (_, i) => run.charCodeAt(i).toString(16).toUpperCase());
+      return `\\X2\\${units.map((unit) => unit.padStart(4, '0')).join('')}\\X0\\`;
+    });
+  return `'${escaped}'`;
+}
+
+/** A STEP real, which always has a decimal point: 12 is written "12.". */
+export function formatStepReal(value: number): string {
+  const text = String(Number.isFinite(value) ? value : 0).toUpperCase();
+  return text.includes('.') ? text : text.replace(/^(-?\d+)/, '$1.');
+}
+
+export const formatStepEntity = (id: number, type: string, rawArgs: string[]) => `#${id}=${type}(${rawArgs.join(',')});`;
+
+export const isStepRef = (value: StepValue | undefined): value is StepRef =>
+  typeof value === 'object' && value !== null && 'ref' in value;
+
+export const isStepEnum = (value: StepValue | undefined): value is StepEnum =>
+  typeof value === 'object' && value !== null && 'enum' in value;
+
+export const isStepTyped = (value: StepValue | undefined): value is StepTyped =>
+  typeof value === 'object' && value !== null && 'type' in value;
+
+/**
+ * Reads the header schema and the DATA section's entity instances, keeping
+ * only those of `types` when given. Complex (multi-type) instances are
+ * skipped, as nothing the wizard reads uses them. Throws SiteImportError
+ * when the text is not a STEP file.
+ */
+export function parseStep(text: string, types?: string[]): StepFile {
+  if (!/^\s*ISO-10303-21\s*;/.test(text)) {
+    throw new SiteImportError('ifc', 'The file is not an IFC file in the STEP (ISO-10303-21) format.');
+  }
+  const tokens = tokenizer(text);
+  const wanted = types && new Set(types);
+
+  const fail = (message: string): never => {
+    throw new SiteImportError('ifc', message);
+  };
+  const peek = () => tokens.peek()?.text;
+  const next = () => tokens.next() ?? fail('The IFC file ends unexpectedly.');
+  const expect = (token: string) => {
+    if (next().text !== token) fail(`Expected "${token}" in the IFC file.`);
+  };
+
+  const readValue = (): StepValue => {
+    const token = next().text;
+    if (token === '$' || token === '*') return null;
+    if (token === '(') {
+      const items: StepValue[] = [];
+      if (peek() === ')') {
+        next();
+        return items;
+      }
+      for (;;) {
+        items.push(readValue());
+        const separator = next().text;
+        if (separator === ')') return items;
+        if (separator !== ',') fail('Expected "," or ")" in a list.');
+      }
+    }
+    if (token.startsWith("'")) return decodeStepString(token);
+    if (token.startsWith('"')) return token.slice(1, -1);
+    if (token.startsWith('#')) return { ref: Number(token.slice(1)) };
+    if (/^\.[A-Za-z_]/.test(token)) return { enum: token.slice(1, -1).toUpperCase() };
+    if (/^[-+.\d]/.test(token)) return Number(token);
+    if (/^!?[A-Za-z]/.test(token) && peek() === '(') {
+      next();
+      const value = readValue();
+      expect(')');
+      return { type: token.toUpperCase(), value };
+    }
+    return fail(`Unexpected "${token}" in the IFC file.`);
+  };
+
+  // Attributes with the text each one was written as
+  const readArguments = () => {
+    expect('(');
+    const args: StepValue[] = [];
+    const rawArgs: string[] = [];
+    if (peek() === ')') {
+      next();
+      return { args, rawArgs };
+    }
+    for (;;) {
+      const start = tokens.peek()?.start ?? text.length;
+      args.push(readValue());
+      rawArgs.push(text.slice(start, tokens.lastEnd()));
+      const separator = next().text;
+      if (separator === ')') return { args, rawArgs };
+      if (separator !== ',') fail('Expected "," or ")" between attributes.');
+    }
+  };
+
+  const skipStatement = () => {
+    while (next().text !== ';');
+  };
+
+  let schema = '';
+  while (peek() !== undefined && peek()?.toUpperCase() !== 'DATA') {
+    if (next().text.toUpperCase() === 'FILE_SCHEMA') {
+      const [schemas] = readArguments().args;
+      const [first] = Array.isArray(schemas) ? schemas : [];
+      if (typeof first === 'string') schema = first.toUpperCase();
+    }
+  }
+  if (peek() === undefined) fail('The IFC file has no DATA section.');
+  next();
+  expect(';');
+
+  const entities = new Map<number, StepEntity>();
+  let maxId = 0;
+  while (peek() !== undefined && peek()?.toUpperCase() !== 'ENDSEC') {
+    const head = next();
+    if (!/^#\d+$/.test(head.text)) fail(`Expected an entity instance, not "${head.text}".`);
+    const id = Number(head.text.slice(1));
+    maxId = Math.max(maxId, id);
+    expect('=');
+    const type = peek()?.toUpperCase() || '';
+    if (type === '(' || (wanted && !wanted.has(type))) {
+      skipStatement();
+      continue;
+    }
+    next();
+    const { args, rawArgs } = readArguments();
+    expect(';');
+    entities.set(id, { id, type, args, rawArgs, start: head.start, end: tokens.lastEnd() });
+  }
+  const dataEnd = tokens.peek()?.start ?? fail('The DATA section of the IFC file is not closed.');
+  return { schema, entities, maxId, dataEnd };
+}
+
+/** Applies non-overlapping edits to the file's text. */
+export function editStep(text: string, edits: StepEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((edited, { start, end, text: replacement }) => edited.slice(0, start) + replacement + edited.slice(end), text);
+}
@@ -0,0 +1,74 @@
+// Types for exchanging wizard results with GIS tools
+import { ExtentShape, LatLngTuple, LocalPoint } from '../types';
+
+export type SiteFormat = 'geojson' | 'kml' | 'wkt' | 'ifc';
+
+/** What each part of the site is; stored with every exported feature so imports can find it again. */
+export type SiteRole = 'project-location' | 'project-extent' | 'building-location' | 'building-footprint';
+
+/** A single format-neutral feature: a point, or a ring without a closing vertex. */
+export interface SiteFeature {
+  role?: SiteRole;
+  geometry: { type: 'Point'; point: LatLngTuple } | { type: 'Polygon'; ring: LatLngTuple[] };
+  properties: Record<string, string | number>;
+}
+
+/** A GeoJSON object read from a file: its `type`, and members that are not yet checked. */
+export type GeoJSONObject = Record<string, unknown> & { type: string };
+
+export interface ImportedBuilding {
+  /** Id and name, when the file was exported by the wizard or names its features. */
+  id?: string;
+  name?: string;
+  location: LatLngTuple;
+  rotation: number;
+  /** Footprint in metres around the building location, before rotation. */
+  outline: LocalPoint[] | null;
+}
+
+/** A site read back from a file, ready to pre-populate the wizard. */
+export interface ImportedSite {
+  projectLocation: LatLngTuple;
+  projectExtent: ExtentShape | null;
+  buildings: ImportedBuilding[];
+}
+
+/** Two sources that disagree about a location or rotation. */
+export interface IfcConflict {
+  /** What disagrees, e.g. "Project location" or "Block A rotation". */
+  label: string;
+  kind: 'location' | 'rotation';
+  /** Metres apart for locations, degrees for rotations. */
+  difference: number;
+}
+
+/** An IFC model's georeferencing, read into a site. */
+export interface IfcModel {
+  /** Schema from the file header, e.g. "IFC4" or "IFC2X3". */
+  schema: string;
+  siteName: string | null;
+  /**
+   * The project location is the model's origin; each IfcBuilding is a
+   * building, with its GlobalId as the id so an export can find it again.
+   */
+  site: ImportedSite;
+  /** Which entity placed the origin. */
+  locationSource: 'map-conversion' | 'site-reference';
+  /** Bearing of the model's +Y axis clockwise from true north, and which entity gave it. */
+  northBearing: number;
+  northSource: 'map-conversion' | 'true-north' | null;
+  /** Where the model's own georeferencing disagrees with itself. */
+  conflicts: IfcConflict[];
+  /** Georeferencing the wizard found but could not use. */
+  notes: string[];
+}
+
+export class SiteImportError extends Error {
+  format: SiteFormat;
+
+  constructor(format: SiteFormat, message: string) {
+    super(message);
+    this.name = 'SiteImportError';
+    this.format = format;
+  }
+}
@@ -0,0 +1,102 @@
+// Well-known text conversion. WKT carries geometry only, so parts are identified by their order.
+import { LatLngTuple, WizardResult } from '../types';
+import { dropClosingVertex, siteFeatures, siteFromFeatures } from './site';
+import { ImportedSite, SiteFeature, SiteImportError } from './types';
+
+const formatPoints = (points: LatLngTuple[]) => points.map(([lat, lng]) => `${lng} ${lat}`).join(', ');
+
+/**
+ * GEOMETRYCOLLECTION of the project point and extent, then each
+ * building's point and footprint, with longitude/latitude axes.
+ */
+export function serializeWkt(result: WizardResult): string {
+  const geometries = siteFeatures(result).map(({ geometry }) =>
+    geometry.type === 'Point'
+      ? `POINT (${formatPoints([geometry.point])})`
+      : `POLYGON ((${formatPoints([...geometry.ring, geometry.ring[0]])}))`
+  );
+  return geometries.length > 0 ? `GEOMETRYCOLLECTION (${geometries.join(', ')})` : 'GEOMETRYCOLLECTION EMPTY';
+}
+
+const TOKEN_PATTERN = /[A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[(),]/g;
+
+// Small recursive-descent reader for the geometry types a site can contain
+function readGeometries(text: string): SiteFeature[] {
+  const tokens = text.replace(/^\s*SRID=\d+;/i, '').match(TOKEN_PATTERN) || [];
+  let index = 0;
+  const features: SiteFeature[] = [];
+
+  const fail = (message: string): never => {
+    throw new SiteImportError('wkt', message);
+  };
+  const peek = () => tokens[index];
+  const next = () => tokens[index++] ?? fail('The WKT ends unexpectedly.');
+  const expect = (token: string) => {
+    if (next() !== token) fail(`Expected "${token}" in the WKT.`);
+  };
+
+  const readPoints = (): LatLngTuple[] => {
+    expect('(');
+    const points: LatLngTuple[] = [];
+    for (;;) {
+      const values: number[] = [];
+      while (peek() !== ',' && peek() !== ')') {
+        const value = Number(next());
+        if (isNaN(value)) fail('Coordinates in the WKT must be numbers.');
+        values.push(value);
+      }
+      if (values.length < 2) fail('Each WKT coordinate needs at least two values.');
+      points.push([values[1], values[0]]);
+      if (next() === ')') return points;
+    }
+  };
+
+  const readList = <T>(readItem: () => T): T[] => {
+    expect('(');
+    const items = [readItem()];
+    while (next() === ',') items.push(readItem());
+    return items;
+  };
+
+  const readGeometry = (): void => {
+    const type = next().toUpperCase();
+    if (/^(Z|M|ZM)$/i.test(peek() || '')) next();
+    if (peek()?.toUpperCase() === 'EMPTY') {
+      next();
+      return;
+    }
+
+    switch (type) {
+      case 'POINT':
+        features.push({ geometry: { type: 'Point', point: readPoints()[0] }, properties: {} });
+        break;
+      case 'POLYGON': {
+        const [outer] = readList(readPoints);
+        features.push({ geometry: { type: 'Polygon', ring: dropClosingVertex(outer) }, properties: {} });
+        break;
+      }
+      case 'MULTIPOLYGON': {
+        const [[outer]] = readList(() => readList(readPoints));
+        features.push({ geometry: { type: 'Polygon', ring: dropClosingVertex(outer) }, properties: {} });
+        break;
+      }
+      case 'GEOMETRYCOLLECTION':
+        readList(readGeometry);
+        break;
+      default:
+        fail(`${type} geometries are not supported.`);
+    }
+  };
+
+  if (tokens.length === 0) fail('The file is empty.');
+  while (index < tokens.length) readGeometry();
+  return features;
+}
+
+export function parseWkt(text: string): ImportedSite {
+  const features = readGeometries(text);
+  if (features.length === 0) {
+    throw new SiteImportError('wkt', 'No points or polygons found in the WKT.');
+  }
+  return siteFromFeatures(features, 'wkt');
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export { createNominatimProvider } from './nominatim';
+export { createMemoryProvider } from './memory';
@@ -0,0 +1,41 @@
+import { createMemoryProvider } from './memory';
+
+const places = [
+  { id: 'nyc', label: 'New York, NY, USA', lat: 40.7128, lng: -74.006, type: 'city' },
+  { id: 'newark', label: 'Newark, NJ, USA', lat: 40.7357, lng: -74.1724, type: 'city' },
+  { id: 'york', label: 'York, England', lat: 53.959, lng: -1.0815, type: 'city' },
+];
+
+describe('createMemoryProvider', () => {
+  const geocoder = createMemoryProvider(places);
+
+  test('search prefers exact label matches', async () => {
+    const results = await geocoder.search('york, england');
+    expect(results.map((r) => r.id)).toEqual(['york']);
+  });
+
+  test('search falls back to substring matches', async () => {
+    const results = await geocoder.search('york');
+    expect(results.map((r) => r.id)).toEqual(['nyc', 'york']);
+  });
+
+  test('search resolves to an empty list when nothing matches', async () => {
+    expect(await geocoder.search('Atlantis')).toEqual([]);
+  });
+
+  test('suggest matches prefixes first', async () => {
+    const results = await geocoder.suggest('new');
+    expect(results.map((r) => r.id)).toEqual(['nyc', 'newark']);
+  });
+
+  test('reverse returns the nearest place within range', async () => {
+    expect((await geocoder.reverse(40.713, -74.0))?.id).toBe('nyc');
+    expect(await geocoder.reverse(0, 0)).toBeNull();
+  });
+
+  test('rejects aborted requests', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(geocoder.search('york', { signal: controller.signal })).rejects.toThrow('Aborted');
+  });
+});
@@ -0,0 +1,71 @@
+import { haversineDistance } from '../utils/geodesy';
+import { GeocodeOptions, GeocodeResult, GeocodingProvider } from './types';
+
+interface MemoryGeocoderOptions {
+  /** Reverse lookups further than this from every entry resolve to null. */
+  maxReverseDistance?: number;
+  /** Artificial latency in milliseconds, handy for exercising loading states. */
+  delay?: number;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Offline geocoder that answers from a fixed list of places. Intended for
+ * tests, demos and air-gapped deployments.
+ */
+export function createMemoryProvider(
+  entries: GeocodeResult[],
+  { maxReverseDistance = 5000, delay = 0 }: MemoryGeocoderOptions = {}
+): GeocodingProvider {
+  const settle = <T>(value: T, signal?: AbortSignal): Promise<T> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+      if (!delay) {
+        resolve(value);
+        return;
+      }
+      const timer = setTimeout(() => resolve(value), delay);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+
+  const match = (query: string, prefixOnly: boolean, limit: number) => {
+    const needle = normalize(query);
+    if (!needle) return [];
+    return entries
+      .filter((entry) => {
+        const label = normalize(entry.label);
+        return prefixOnly ? label.startsWith(needle) : label.includes(needle);
+      })
+      .slice(0, limit);
+  };
+
+  return {
+    search(query, { limit = 5, signal }: GeocodeOptions = {}) {
+      const exact = entries.filter((entry) => normalize(entry.label) === normalize(query));
+      return settle(exact.length ? exact.slice(0, limit) : match(query, false, limit), signal);
+    },
+    suggest(query, { limit = 5, signal }: GeocodeOptions = {}) {
+      const prefixed = match(query, true, limit);
+      return settle(prefixed.length ? prefixed : match(query, false, limit), signal);
+    },
+    reverse(lat, lng, { signal }: GeocodeOptions = {}) {
+      let nearest: GeocodeResult | null = null;
+      let nearestDistance = maxReverseDistance;
+      for (const entry of entries) {
+        const distance = haversineDistance([lat, lng], [entry.lat, entry.lng]);
+        if (distance <= nearestDistance) {
+          nearest = entry;
+          nearestDistance = distance;
+        }
+      }
+      return settle(nearest, signal);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { createNominatimProvider } from './nominatim';
+
+const place = { place_id: 1, display_name: 'Trafalgar Square, London', lat: '51.508', lon: '-0.128' };
+
+describe('createNominatimProvider', () => {
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue({ ok: true, json: async () => [place] });
+    global.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('does not send type-ahead to the public server', async () => {
+    const geocoder = createNominatimProvider();
+    expect(await geocoder.suggest('Trafalgar')).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const [result] = await geocoder.search('Trafalgar');
+    expect(result).toMatchObject({ id: '1', lat: 51.508, lng: -0.128 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('suggests from a self-hosted instance', async () => {
+    const geocoder = createNominatimProvider({ baseUrl: 'https://geocoder.example.com/' });
+    expect(await geocoder.suggest('Trafalgar')).toHaveLength(1);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/^https:\/\/geocoder\.example\.com\/search\?/);
+  });
+});
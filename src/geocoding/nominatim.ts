@@ -0,0 +1,108 @@
+import { GeocodeOptions, GeocodeResult, GeocodingError, GeocodingProvider } from './types';
+
+interface NominatimOptions {
+  /** A self-hosted instance; type-ahead suggestions are only fetched from one of these. */
+  baseUrl?: string;
+  /** Sent as `accept-language`; defaults to the browser's preference. */
+  language?: string;
+  /** Restricts results to ISO 3166-1 alpha-2 country codes. */
+  countryCodes?: string[];
+}
+
+interface NominatimPlace {
+  place_id: number;
+  display_name: string;
+  lat: string;
+  lon: string;
+  type?: string;
+  addresstype?: string;
+  boundingbox?: [string, string, string, string];
+  address?: Record<string, string>;
+  error?: string;
+}
+
+const DEFAULT_BASE_URL = 'https://nominatim.openstreetmap.org';
+
+function localityOf(address?: Record<string, string>): string | undefined {
+  if (!address) return undefined;
+  const place = address.city || address.town || address.village || address.hamlet || address.county;
+  return [place, address.state, address.country].filter(Boolean).join(', ') || undefined;
+}
+
+function toResult(place: NominatimPlace): GeocodeResult {
+  const lat = parseFloat(place.lat);
+  const lng = parseFloat(place.lon);
+  if (isNaN(lat) || isNaN(lng)) {
+    throw new GeocodingError('invalid-response', 'Geocoder returned a result without coordinates');
+  }
+
+  // Nominatim orders the bounding box as [south, north, west, east]
+  const bbox = place.boundingbox?.map(Number);
+  return {
+    id: String(place.place_id),
+    label: place.display_name,
+    lat,
+    lng,
+    type: place.addresstype || place.type,
+    locality: localityOf(place.address),
+    countryCode: place.address?.country_code,
+    bbox: bbox && bbox.every((v) => !isNaN(v)) ? [bbox[0], bbox[2], bbox[1], bbox[3]] : undefined,
+  };
+}
+
+/**
+ * Geocoder backed by the public Nominatim API (or a self-hosted instance via
+ * `baseUrl`). The public server's usage policy limits requests to one per
+ * second and forbids client-side autocomplete, so suggestions are empty
+ * unless `baseUrl` points at your own deployment.
+ */
+export function createNominatimProvider(options: NominatimOptions = {}): GeocodingProvider {
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+  const request = async (path: string, params: Record<string, string>, signal?: AbortSignal) => {
+    const query = new URLSearchParams({ format: 'jsonv2', addressdetails: '1', ...params });
+    if (options.language) query.set('accept-language', options.language);
+    if (options.countryCodes?.length) query.set('countrycodes', options.countryCodes.join(','));
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/${path}?${query.toString()}`, { signal });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      throw new GeocodingError('network', 'Could not reach the geocoding service');
+    }
+
+    if (!response.ok) {
+      throw new GeocodingError('http', `Geocoding service responded with ${response.status}`);
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new GeocodingError('invalid-response', 'Geocoding service returned malformed data');
+    }
+  };
+
+  const search = async (query: string, { limit = 5, signal }: GeocodeOptions = {}) => {
+    const places: NominatimPlace[] = await request('search', { q: query, limit: String(limit) }, signal);
+    if (!Array.isArray(places)) {
+      throw new GeocodingError('invalid-response', 'Geocoding service returned malformed data');
+    }
+    return places.map(toResult);
+  };
+
+  return {
+    search,
+    suggest: options.baseUrl ? search : async () => [],
+    async reverse(lat, lng, { signal }: GeocodeOptions = {}) {
+      const place: NominatimPlace = await request(
+        'reverse',
+        { lat: String(lat), lon: String(lng), zoom: '18' },
+        signal
+      );
+      // Nominatim reports "nothing here" as a 200 with an `error` field
+      if (!place || place.error) return null;
+      return toResult(place);
+    },
+  };
+}
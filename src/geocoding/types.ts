@@ -0,0 +1,44 @@
+// Shared types for geocoding providers
+
+/** A single geocoding match. `bbox` is [south, west, north, east] in degrees. */
+export interface GeocodeResult {
+  id: string;
+  label: string;
+  lat: number;
+  lng: number;
+  type?: string;
+  locality?: string;
+  /** ISO 3166-1 alpha-2 code, lower case. */
+  countryCode?: string;
+  bbox?: [number, number, number, number];
+}
+
+export interface GeocodeOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Anything that can turn addresses into coordinates and back. The wizard only
+ * talks to this interface, so hosts can plug in their own geocoder.
+ */
+export interface GeocodingProvider {
+  /** Forward search. Resolves to an empty array when nothing matches. */
+  search(query: string, options?: GeocodeOptions): Promise<GeocodeResult[]>;
+  /** Reverse lookup. Resolves to null when there is no address at the point. */
+  reverse(lat: number, lng: number, options?: GeocodeOptions): Promise<GeocodeResult | null>;
+  /** Type-ahead suggestions for a partial query. */
+  suggest(query: string, options?: GeocodeOptions): Promise<GeocodeResult[]>;
+}
+
+export type GeocodingErrorCode = 'network' | 'http' | 'invalid-response';
+
+export class GeocodingError extends Error {
+  code: GeocodingErrorCode;
+
+  constructor(code: GeocodingErrorCode, message: string) {
+    super(message);
+    this.name = 'GeocodingError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,44 @@
+// Conversions from the browser Geolocation API's positions and errors
+import { DevicePosition, GeolocationSource, PositioningError } from './types';
+
+/** Fixes less accurate than this many metres get a warning; they usually come from Wi-Fi or cell towers. */
+export const LOW_ACCURACY_M = 100;
+
+/** Asks for GPS where the device has it, and gives up after 15 seconds rather than spinning forever. */
+export const DEFAULT_POSITION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 0,
+};
+
+// GeolocationPositionError codes; the constants are missing outside browsers
+const PERMISSION_DENIED = 1;
+const TIMEOUT = 3;
+
+/** The browser's geolocation, or null where there is none, e.g. during server rendering. */
+export const browserGeolocation = (): GeolocationSource | null =>
+  typeof navigator !== 'undefined' && navigator.geolocation ? navigator.geolocation : null;
+
+export const toDevicePosition = ({ coords, timestamp }: GeolocationPosition): DevicePosition => ({
+  location: [coords.latitude, coords.longitude],
+  accuracy: coords.accuracy,
+  timestamp,
+});
+
+export function toPositioningError({ code }: Pick<GeolocationPositionError, 'code'>): PositioningError {
+  if (code === PERMISSION_DENIED) {
+    return new PositioningError(
+      'denied',
+      "Location access is blocked. Allow it in the browser's site settings, or search for an address instead."
+    );
+  }
+  if (code === TIMEOUT) {
+    return new PositioningError('timeout', 'Finding your location took too long. Try again, ideally outdoors.');
+  }
+  return new PositioningError('unavailable', 'Your device could not work out where it is.');
+}
+
+export const unsupportedError = () =>
+  new PositioningError('unsupported', 'This browser cannot share its location. Search for an address instead.');
+
+export const isLowAccuracy = ({ accuracy }: DevicePosition, threshold = LOW_ACCURACY_M) => accuracy > threshold;
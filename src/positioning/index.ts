@@ -0,0 +1,3 @@
+export * from './types';
+export { DEFAULT_POSITION_OPTIONS, LOW_ACCURACY_M, browserGeolocation, isLowAccuracy, toDevicePosition, toPositioningError } from './device';
+export * from './useDevicePosition';
@@ -0,0 +1,28 @@
+// Types for the device's own position, from the browser Geolocation API or a stand-in
+import { LatLngTuple } from '../types';
+
+export interface DevicePosition {
+  location: LatLngTuple;
+  /** Radius in metres within which the true position lies, at about 95% confidence. */
+  accuracy: number;
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+}
+
+/** Anything shaped like `navigator.geolocation`; tests pass a mock. */
+export type GeolocationSource = Pick<Geolocation, 'getCurrentPosition' | 'watchPosition' | 'clearWatch'>;
+
+export type PositioningErrorCode = 'denied' | 'unavailable' | 'timeout' | 'unsupported';
+
+export class PositioningError extends Error {
+  code: PositioningErrorCode;
+
+  constructor(code: PositioningErrorCode, message: string) {
+    super(message);
+    this.name = 'PositioningError';
+    this.code = code;
+  }
+}
+
+/** `locating` waits for a single fix; `watching` follows the device until stopped. */
+export type PositioningStatus = 'idle' | 'locating' | 'watching';
@@ -0,0 +1,91 @@
+import { act, renderHook } from '@testing-library/react';
+import { isLowAccuracy } from './device';
+import { GeolocationSource } from './types';
+import { useDevicePosition } from './useDevicePosition';
+
+type Success = (position: GeolocationPosition) => void;
+type Failure = (error: Pick<GeolocationPositionError, 'code'>) => void;
+
+// Keeps the callbacks of every request so a test can answer them when it likes
+function mockGeolocation() {
+  const requests: { success: Success; failure: Failure }[] = [];
+  const geolocation = {
+    getCurrentPosition: jest.fn((success: Success, failure: Failure) => {
+      requests.push({ success, failure });
+    }),
+    watchPosition: jest.fn((success: Success, failure: Failure) => {
+      requests.push({ success, failure });
+      return requests.length;
+    }),
+    clearWatch: jest.fn(),
+  };
+  return { geolocation: geolocation as unknown as GeolocationSource, mock: geolocation, requests };
+}
+
+const fix = (latitude: number, longitude: number, accuracy: number) =>
+  ({ coords: { latitude, longitude, accuracy }, timestamp: 1760000000000 } as GeolocationPosition);
+
+describe('useDevicePosition', () => {
+  test('finds the device once and reports the accuracy', () => {
+    const { geolocation, requests } = mockGeolocation();
+    const { result } = renderHook(() => useDevicePosition({ geolocation }));
+
+    act(() => result.current.locate());
+    expect(result.current.status).toBe('locating');
+
+    act(() => requests[0].success(fix(51.5074, -0.1278, 250)));
+    expect(result.current.status).toBe('idle');
+    expect(result.current.position).toEqual({ location: [51.5074, -0.1278], accuracy: 250, timestamp: 1760000000000 });
+    expect(result.current.position && isLowAccuracy(result.current.position)).toBe(true);
+  });
+
+  test('explains denied permission and timeouts', () => {
+    const { geolocation, requests } = mockGeolocation();
+    const { result } = renderHook(() => useDevicePosition({ geolocation }));
+
+    act(() => result.current.locate());
+    act(() => requests[0].failure({ code: 1 }));
+    expect(result.current.error).toMatchObject({ code: 'denied', name: 'PositioningError' });
+
+    act(() => result.current.locate());
+    expect(result.current.error).toBeNull();
+    act(() => requests[1].failure({ code: 3 }));
+    expect(result.current.error?.code).toBe('timeout');
+  });
+
+  test('follows the device until stopped, riding out timeouts', () => {
+    const { geolocation, mock, requests } = mockGeolocation();
+    const { result, unmount } = renderHook(() => useDevicePosition({ geolocation }));
+
+    act(() => result.current.watch());
+    act(() => requests[0].success(fix(51.5, -0.12, 20)));
+    act(() => requests[0].failure({ code: 3 }));
+    expect(result.current.status).toBe('watching');
+    act(() => requests[0].success(fix(51.6, -0.12, 8)));
+    expect(result.current.position?.location).toEqual([51.6, -0.12]);
+    expect(result.current.error).toBeNull();
+
+    act(() => result.current.stop());
+    expect(mock.clearWatch).toHaveBeenCalledWith(1);
+    act(() => requests[0].success(fix(51.7, -0.12, 8)));
+    expect(result.current.position?.location).toEqual([51.6, -0.12]);
+
+    act(() => result.current.watch());
+    unmount();
+    expect(mock.clearWatch).toHaveBeenCalledWith(2);
+  });
+
+  test('drops late answers after clearing, and says when there is no geolocation', () => {
+    const { geolocation, requests } = mockGeolocation();
+    const { result } = renderHook(() => useDevicePosition({ geolocation }));
+    act(() => result.current.locate());
+    act(() => result.current.clear());
+    act(() => requests[0].success(fix(51.5, -0.12, 20)));
+    expect(result.current.position).toBeNull();
+
+    const { result: unsupported } = renderHook(() => useDevicePosition({ geolocation: null }));
+    expect(unsupported.current.isSupported).toBe(false);
+    act(() => unsupported.current.locate());
+    expect(unsupported.current.error?.code).toBe('unsupported');
+  });
+});
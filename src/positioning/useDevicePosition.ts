@@ -0,0 +1,97 @@
+// React state for finding, and optionally following, the device's position
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DEFAULT_POSITION_OPTIONS, toDevicePosition, toPositioningError, unsupportedError } from './device';
+import { DevicePosition, GeolocationSource, PositioningError, PositioningStatus } from './types';
+
+export interface UseDevicePositionOptions {
+  /** Where positions come from; null means the device cannot share one. */
+  geolocation: GeolocationSource | null;
+  options?: PositionOptions;
+}
+
+/**
+ * The latest device position and any error. `locate` asks for one fix,
+ * `watch` keeps following the device until `stop`, and `clear` also forgets
+ * the position. Responses that arrive after a newer request, or after
+ * `clear`, are dropped.
+ */
+export function useDevicePosition({ geolocation, options = DEFAULT_POSITION_OPTIONS }: UseDevicePositionOptions) {
+  const [position, setPosition] = useState<DevicePosition | null>(null);
+  const [error, setError] = useState<PositioningError | null>(null);
+  const [status, setStatus] = useState<PositioningStatus>('idle');
+  const watchIdRef = useRef<number | null>(null);
+  const requestRef = useRef(0);
+
+  const stop = useCallback(() => {
+    if (watchIdRef.current !== null) geolocation?.clearWatch(watchIdRef.current);
+    watchIdRef.current = null;
+    requestRef.current++;
+    setStatus('idle');
+  }, [geolocation]);
+
+  const locate = useCallback(() => {
+    stop();
+    if (!geolocation) {
+      setError(unsupportedError());
+      return;
+    }
+    const request = requestRef.current;
+    setError(null);
+    setStatus('locating');
+    geolocation.getCurrentPosition(
+      (fix) => {
+        if (request !== requestRef.current) return;
+        setPosition(toDevicePosition(fix));
+        setStatus('idle');
+      },
+      (failure) => {
+        if (request !== requestRef.current) return;
+        setError(toPositioningError(failure));
+        setStatus('idle');
+      },
+      options
+    );
+  }, [geolocation, options, stop]);
+
+  const watch = useCallback(() => {
+    stop();
+    if (!geolocation) {
+      setError(unsupportedError());
+      return;
+    }
+    const request = requestRef.current;
+    setError(null);
+    setStatus('watching');
+    watchIdRef.current = geolocation.watchPosition(
+      (fix) => {
+        if (request !== requestRef.current) return;
+        setPosition(toDevicePosition(fix));
+        setError(null);
+      },
+      (failure) => {
+        if (request !== requestRef.current) return;
+        const positioningError = toPositioningError(failure);
+        setError(positioningError);
+        // A slow fix is worth waiting out while following the device; a refusal is final
+        if (positioningError.code === 'denied') stop();
+      },
+      options
+    );
+  }, [geolocation, options, stop]);
+
+  const clear = useCallback(() => {
+    stop();
+    setPosition(null);
+    setError(null);
+  }, [stop]);
+
+  // Stop following the device when the component goes away
+  useEffect(
+    () => () => {
+      if (watchIdRef.current !== null) geolocation?.clearWatch(watchIdRef.current);
+    },
+    [geolocation]
+  );
+
+  return { position, error, status, isSupported: geolocation !== null, locate, watch, stop, clear };
+}
@@ -0,0 +1,11 @@
+export * from './types';
+export {
+  REFERENCE_FILE_ACCEPT,
+  REFERENCE_LAYER_STYLES,
+  guessReferenceLayerKind,
+  parseReferenceFile,
+  readReferenceLines,
+  referenceLayerKind,
+  referenceLayerStyle,
+} from './layers';
+export { REFERENCE_SNAP_TOLERANCE_PX, alignRotation, nearestLine, snapFootprint, snapPoint } from './snap';
@@ -0,0 +1,119 @@
+// Reading reference layers' GeoJSON into the lines that snapping and alignment work with
+import { geoJSONItems, isGeoJSONObject, readPosition, readPositions } from '../formats';
+import { LatLngTuple } from '../types';
+import { ReferenceLayer, ReferenceLayerError, ReferenceLayerKind, ReferenceLayerStyle, ReferenceLine } from './types';
+
+/** How each kind of layer is drawn unless the layer gives its own style. */
+export const REFERENCE_LAYER_STYLES: Record<ReferenceLayerKind, Required<ReferenceLayerStyle>> = {
+  parcels: { color: '#f59e0b', weight: 2, fillOpacity: 0, dashArray: '6 4' },
+  roads: { color: '#64748b', weight: 3, fillOpacity: 0, dashArray: '' },
+  buildings: { color: '#a855f7', weight: 1.5, fillOpacity: 0.15, dashArray: '' },
+  other: { color: '#0ea5e9', weight: 2, fillOpacity: 0.1, dashArray: '' },
+};
+
+/** File types the reference layer picker offers. */
+export const REFERENCE_FILE_ACCEPT = '.geojson,.json,application/geo+json,application/json';
+
+export const referenceLayerKind = (layer: ReferenceLayer): ReferenceLayerKind => layer.kind ?? 'other';
+
+export const referenceLayerStyle = (layer: ReferenceLayer): Required<ReferenceLayerStyle> => ({
+  ...REFERENCE_LAYER_STYLES[referenceLayerKind(layer)],
+  ...layer.style,
+});
+
+// Closes a ring that does not repeat its first vertex, so its last edge snaps too
+function readRing(coordinates: unknown): LatLngTuple[] {
+  const ring = readPositions(coordinates);
+  if (ring.length < 3) return ring;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// Flattens any GeoJSON object into point lists: lone points, lines and polygon rings
+function collectLines(geojson: unknown, lines: LatLngTuple[][]) {
+  if (!isGeoJSONObject(geojson)) return;
+  const { coordinates } = geojson;
+
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      for (const feature of geoJSONItems(geojson.features)) collectLines(feature, lines);
+      break;
+    case 'Feature':
+      collectLines(geojson.geometry, lines);
+      break;
+    case 'GeometryCollection':
+      for (const geometry of geoJSONItems(geojson.geometries)) collectLines(geometry, lines);
+      break;
+    case 'Point': {
+      const point = readPosition(coordinates);
+      if (point) lines.push([point]);
+      break;
+    }
+    case 'MultiPoint':
+      for (const point of readPositions(coordinates)) lines.push([point]);
+      break;
+    case 'LineString':
+      lines.push(readPositions(coordinates));
+      break;
+    case 'MultiLineString':
+      for (const line of geoJSONItems(coordinates)) lines.push(readPositions(line));
+      break;
+    case 'Polygon':
+      for (const ring of geoJSONItems(coordinates)) lines.push(readRing(ring));
+      break;
+    case 'MultiPolygon':
+      for (const polygon of geoJSONItems(coordinates)) {
+        for (const ring of geoJSONItems(polygon)) lines.push(readRing(ring));
+      }
+      break;
+  }
+}
+
+/** Every point, line and ring of a layer; anything that is not GeoJSON geometry is left out. */
+export function readReferenceLines(layer: ReferenceLayer): ReferenceLine[] {
+  const lines: LatLngTuple[][] = [];
+  collectLines(layer.data, lines);
+  const kind = referenceLayerKind(layer);
+  return lines.filter((points) => points.length > 0).map((points) => ({ layerId: layer.id, kind, points }));
+}
+
+const KIND_PATTERNS: [ReferenceLayerKind, RegExp][] = [
+  ['parcels', /parcel|cadast|lot|plot|propert/i],
+  ['roads', /road|street|highway|kerb|curb/i],
+  ['buildings', /building|footprint|structure/i],
+];
+
+/** Guesses what a layer shows from its file name, e.g. "city-parcels.geojson" holds parcels. */
+export const guessReferenceLayerKind = (fileName: string): ReferenceLayerKind =>
+  KIND_PATTERNS.find(([, pattern]) => pattern.test(fileName))?.[0] ?? 'other';
+
+/**
+ * Turns the text of an uploaded GeoJSON file into a reference layer with an
+ * id not among `existing`. Throws a ReferenceLayerError when the text is not
+ * GeoJSON or holds no geometry.
+ */
+export function parseReferenceFile(text: string, fileName: string, existing: ReferenceLayer[] = []): ReferenceLayer {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ReferenceLayerError('invalid-json', `${fileName} is not valid JSON.`);
+  }
+  if (!isGeoJSONObject(data)) {
+    throw new ReferenceLayerError('not-geojson', `${fileName} is not GeoJSON.`);
+  }
+
+  const ids = new Set(existing.map(({ id }) => id));
+  let index = 1;
+  while (ids.has(`upload-${index}`)) index += 1;
+  const layer: ReferenceLayer = {
+    id: `upload-${index}`,
+    name: fileName.replace(/\.(geo)?json$/i, '') || fileName,
+    kind: guessReferenceLayerKind(fileName),
+    data,
+  };
+  if (readReferenceLines(layer).length === 0) {
+    throw new ReferenceLayerError('no-geometry', `${fileName} has no points, lines or polygons.`);
+  }
+  return layer;
+}
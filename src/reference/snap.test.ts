@@ -0,0 +1,114 @@
+import { LatLngTuple } from '../types';
+import { footprintCorners, rectangleOutline } from '../utils/footprint';
+import { haversineDistance, latLngToOffset, offsetToLatLng } from '../utils/geodesy';
+import { parseReferenceFile, readReferenceLines } from './layers';
+import { alignRotation, nearestLine, snapFootprint, snapPoint } from './snap';
+import { ReferenceLayer, ReferenceLayerError } from './types';
+
+const origin: LatLngTuple = [51.5074, -0.1278];
+const at = (east: number, north: number) => offsetToLatLng(origin, east, north);
+const position = (east: number, north: number) => {
+  const [lat, lng] = at(east, north);
+  return [lng, lat];
+};
+
+// A 40 m square parcel with its south-west corner on the origin, and a road 60 m north running 30° east of north
+const parcels: ReferenceLayer = {
+  id: 'parcels',
+  name: 'Parcels',
+  kind: 'parcels',
+  data: {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Polygon', coordinates: [[position(0, 0), position(40, 0), position(40, 40), position(0, 40)]] },
+      },
+    ],
+  },
+};
+const roads: ReferenceLayer = {
+  id: 'roads',
+  name: 'Roads',
+  kind: 'roads',
+  data: { type: 'LineString', coordinates: [position(0, 60), position(50, 60 + 50 * Math.sqrt(3))] },
+};
+const lines = [...readReferenceLines(parcels), ...readReferenceLines(roads)];
+
+describe('reference layers', () => {
+  test('reads rings closed and lines as they are', () => {
+    const [ring, road] = lines;
+    expect(ring).toMatchObject({ layerId: 'parcels', kind: 'parcels' });
+    expect(ring.points).toHaveLength(5);
+    expect(ring.points[4]).toEqual(ring.points[0]);
+    expect(road.points).toHaveLength(2);
+    expect(readReferenceLines({ id: 'x', name: 'X', data: { type: 'MultiPoint', coordinates: [[0, 0], [1, 1]] } })).toEqual([
+      { layerId: 'x', kind: 'other', points: [[0, 0]] },
+      { layerId: 'x', kind: 'other', points: [[1, 1]] },
+    ]);
+  });
+
+  test('turns an uploaded file into a layer with a fresh id and a kind from its name', () => {
+    const layer = parseReferenceFile(JSON.stringify(roads.data), 'street-centrelines.geojson', [{ ...roads, id: 'upload-1' }]);
+    expect(layer).toMatchObject({ id: 'upload-2', name: 'street-centrelines', kind: 'roads' });
+    expect(() => parseReferenceFile('{', 'bad.json')).toThrow(ReferenceLayerError);
+    expect(() => parseReferenceFile('[1, 2]', 'list.json')).toThrow(expect.objectContaining({ code: 'not-geojson' }));
+    expect(() => parseReferenceFile('{"type":"FeatureCollection","features":[]}', 'empty.geojson')).toThrow(
+      expect.objectContaining({ code: 'no-geometry' })
+    );
+  });
+});
+
+describe('snapPoint', () => {
+  test('prefers a vertex in reach over a closer edge', () => {
+    const snap = snapPoint(at(3, 1), lines, 5);
+    expect(snap).toMatchObject({ target: 'vertex', layerId: 'parcels' });
+    expect(haversineDistance((snap as NonNullable<typeof snap>).point, origin)).toBeLessThan(0.001);
+  });
+
+  test('falls back to the nearest point along an edge, and to nothing out of reach', () => {
+    const snap = snapPoint(at(20, 2), lines, 5);
+    expect(snap).toMatchObject({ target: 'edge', layerId: 'parcels' });
+    const [east, north] = latLngToOffset(origin, (snap as NonNullable<typeof snap>).point);
+    expect(east).toBeCloseTo(20, 2);
+    expect(north).toBeCloseTo(0, 2);
+    expect(snapPoint(at(20, 20), lines, 5)).toBeNull();
+  });
+});
+
+describe('snapFootprint', () => {
+  test('moves a footprint corner onto a nearby parcel corner', () => {
+    // A 10 × 10 m building inside the parcel, its north-east corner 2.1 m from the parcel's
+    const corners = footprintCorners(at(33.5, 33.5), rectangleOutline(10, 10), 0);
+    const snap = snapFootprint(corners, lines, 3);
+    expect(snap).toMatchObject({ target: 'vertex', layerId: 'parcels' });
+    const [east, north] = (snap as NonNullable<typeof snap>).offset;
+    expect(east).toBeCloseTo(1.5, 1);
+    expect(north).toBeCloseTo(1.5, 1);
+  });
+
+  test('slides a footprint edge against a parcel line', () => {
+    const corners = footprintCorners(at(20, 7), rectangleOutline(10, 10), 0);
+    const snap = snapFootprint(corners, lines, 3);
+    expect(snap).toMatchObject({ target: 'edge' });
+    const [east, north] = (snap as NonNullable<typeof snap>).offset;
+    expect(east).toBeCloseTo(0, 1);
+    expect(north).toBeCloseTo(-2, 1);
+  });
+});
+
+describe('alignment', () => {
+  test('finds the direction of the nearest line', () => {
+    const road = nearestLine(at(10, 80), lines, 100);
+    expect(road).toMatchObject({ layerId: 'roads', kind: 'roads' });
+    expect((road as NonNullable<typeof road>).bearing).toBeCloseTo(30, 1);
+    expect(nearestLine(at(500, 500), lines, 100)).toBeNull();
+  });
+
+  test('turns a building by the smallest amount that squares it to a line', () => {
+    expect(alignRotation(10, 30)).toBeCloseTo(30, 6);
+    expect(alignRotation(100, 30)).toBeCloseTo(120, 6);
+    expect(alignRotation(340, 30)).toBeCloseTo(300, 6);
+  });
+});
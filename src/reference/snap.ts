@@ -0,0 +1,138 @@
+// Snapping points and footprints to reference layers, and squaring buildings up to nearby lines
+import { LatLngTuple } from '../types';
+import { angleBetween, normalizeAngle } from '../utils/angles';
+import { latLngToOffset, offsetToLatLng } from '../utils/geodesy';
+import { FootprintSnap, NearestLine, ReferenceLine, SnapResult } from './types';
+
+/** Snap tolerance in screen pixels when the host does not set one. */
+export const REFERENCE_SNAP_TOLERANCE_PX = 10;
+
+type Local = [number, number];
+
+const METRES_PER_DEGREE = 111320;
+
+// Lines with a vertex or edge that could come within `radius` metres of the point, judged by bounding box
+function linesNear(lines: ReferenceLine[], [lat, lng]: LatLngTuple, radius: number): ReferenceLine[] {
+  const latSpan = radius / METRES_PER_DEGREE;
+  const lngSpan = radius / (METRES_PER_DEGREE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+  return lines.filter(({ points }) => {
+    const lats = points.map(([pointLat]) => pointLat);
+    const lngs = points.map(([, pointLng]) => pointLng);
+    return (
+      Math.min(...lats) - latSpan <= lat &&
+      Math.max(...lats) + latSpan >= lat &&
+      Math.min(...lngs) - lngSpan <= lng &&
+      Math.max(...lngs) + lngSpan >= lng
+    );
+  });
+}
+
+// Nearest point to `p` on the segment from `a` to `b`, all in local metres
+function closestOnSegment([px, py]: Local, [ax, ay]: Local, [bx, by]: Local): Local {
+  const [dx, dy] = [bx - ax, by - ay];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.min(Math.max(((px - ax) * dx + (py - ay) * dy) / lengthSquared, 0), 1) : 0;
+  return [ax + t * dx, ay + t * dy];
+}
+
+const distance = ([ax, ay]: Local, [bx, by]: Local) => Math.hypot(bx - ax, by - ay);
+
+// Each segment of a point list in local metres; a lone point has none
+const segments = (points: Local[]): [Local, Local][] => points.slice(1).map((point, i) => [points[i], point]);
+
+/**
+ * The layer vertex within `tolerance` metres of the point, or failing that
+ * the nearest point along a layer line, or null when nothing is that close.
+ */
+export function snapPoint(point: LatLngTuple, lines: ReferenceLine[], tolerance: number): SnapResult | null {
+  if (tolerance <= 0) return null;
+  const nearby = linesNear(lines, point, tolerance).map(({ layerId, points }) => ({
+    layerId,
+    points: points.map((vertex) => latLngToOffset(point, vertex)),
+    vertices: points,
+  }));
+
+  let best: SnapResult | null = null;
+  for (const { layerId, points, vertices } of nearby) {
+    for (let i = 0; i < points.length; i += 1) {
+      const gap = distance([0, 0], points[i]);
+      if (gap <= tolerance && (!best || gap < best.distance)) {
+        best = { point: vertices[i], target: 'vertex', layerId, distance: gap };
+      }
+    }
+  }
+  if (best) return best;
+
+  for (const { layerId, points } of nearby) {
+    for (const [a, b] of segments(points)) {
+      const [east, north] = closestOnSegment([0, 0], a, b);
+      const gap = Math.hypot(east, north);
+      if (gap <= tolerance && (!best || gap < best.distance)) {
+        best = { point: offsetToLatLng(point, east, north), target: 'edge', layerId, distance: gap };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * How far to move a footprint so it touches a reference layer: a corner
+ * onto a layer vertex if one is within `tolerance` metres, otherwise the
+ * smallest move that puts a corner on a layer line or a layer vertex on a
+ * footprint edge. Null when nothing is that close.
+ */
+export function snapFootprint(corners: LatLngTuple[], lines: ReferenceLine[], tolerance: number): FootprintSnap | null {
+  if (corners.length === 0 || tolerance <= 0) return null;
+  const origin = corners[0];
+  const outline = corners.map((corner) => latLngToOffset(origin, corner));
+  const ring = [...outline, outline[0]];
+  const extent = Math.max(...outline.map(([x, y]) => Math.hypot(x, y)));
+  const nearby = linesNear(lines, origin, extent + tolerance).map(({ layerId, points }) => ({
+    layerId,
+    points: points.map((vertex) => latLngToOffset(origin, vertex)),
+  }));
+
+  let vertexSnap: FootprintSnap | null = null;
+  let edgeSnap: FootprintSnap | null = null;
+  const consider = (from: Local, to: Local, target: FootprintSnap['target'], layerId: string) => {
+    const gap = distance(from, to);
+    if (gap > tolerance) return;
+    const snap: FootprintSnap = { offset: [to[0] - from[0], to[1] - from[1]], target, layerId, distance: gap };
+    if (target === 'vertex' && (!vertexSnap || gap < vertexSnap.distance)) vertexSnap = snap;
+    if (target === 'edge' && (!edgeSnap || gap < edgeSnap.distance)) edgeSnap = snap;
+  };
+
+  for (const { layerId, points } of nearby) {
+    for (const corner of outline) {
+      for (const vertex of points) consider(corner, vertex, 'vertex', layerId);
+      for (const [a, b] of segments(points)) consider(corner, closestOnSegment(corner, a, b), 'edge', layerId);
+    }
+    // Layer vertices onto footprint edges, so a wall can sit against a parcel corner
+    for (const vertex of points) {
+      for (const [a, b] of segments(ring)) consider(closestOnSegment(vertex, a, b), vertex, 'edge', layerId);
+    }
+  }
+  return vertexSnap ?? edgeSnap;
+}
+
+/** The reference line nearest the point within `maxDistance` metres, with its direction there. */
+export function nearestLine(point: LatLngTuple, lines: ReferenceLine[], maxDistance: number): NearestLine | null {
+  let nearest: NearestLine | null = null;
+  for (const { layerId, kind, points } of linesNear(lines, point, maxDistance)) {
+    for (const [a, b] of segments(points.map((vertex) => latLngToOffset(point, vertex)))) {
+      const gap = distance([0, 0], closestOnSegment([0, 0], a, b));
+      if (gap > maxDistance || (nearest && gap >= nearest.distance) || distance(a, b) === 0) continue;
+      const bearing = normalizeAngle((Math.atan2(b[0] - a[0], b[1] - a[1]) * 180) / Math.PI) % 180;
+      nearest = { layerId, kind, bearing, distance: gap };
+    }
+  }
+  return nearest;
+}
+
+/** The rotation closest to `current` that squares a building up to a line with the given bearing. */
+export function alignRotation(current: number, bearing: number): number {
+  const candidates = [0, 90, 180, 270].map((turn) => normalizeAngle(bearing + turn));
+  return candidates.reduce((best, candidate) =>
+    Math.abs(angleBetween(current, candidate)) < Math.abs(angleBetween(current, best)) ? candidate : best
+  );
+}
@@ -0,0 +1,79 @@
+// Types for vector reference layers (parcels, roads, existing buildings) drawn over the basemap for placement to snap to
+import { LatLngTuple } from '../types';
+
+/** What a layer shows. It picks the default style, and roads and parcels are what buildings align to. */
+export type ReferenceLayerKind = 'parcels' | 'roads' | 'buildings' | 'other';
+
+export interface ReferenceLayerStyle {
+  /** CSS colour of lines and fills. */
+  color?: string;
+  /** Line width in pixels. */
+  weight?: number;
+  /** Polygon fill opacity, 0 for outlines only. */
+  fillOpacity?: number;
+  /** SVG dash pattern, e.g. "4 4". */
+  dashArray?: string;
+}
+
+export interface ReferenceLayer {
+  /** Unique among the wizard's reference layers. */
+  id: string;
+  name: string;
+  kind?: ReferenceLayerKind;
+  /** A GeoJSON FeatureCollection, Feature or geometry in WGS84 longitude/latitude. */
+  data: unknown;
+  style?: ReferenceLayerStyle;
+  /** Whether the layer shows when the wizard opens; defaults to true. The user can toggle it. */
+  visible?: boolean;
+  /** Whether placement snaps to the layer while it shows; defaults to true. */
+  snap?: boolean;
+}
+
+/**
+ * A line, ring or lone point of a reference layer, as snapping and
+ * alignment see it. Rings repeat their first vertex at the end.
+ */
+export interface ReferenceLine {
+  layerId: string;
+  kind: ReferenceLayerKind;
+  points: LatLngTuple[];
+}
+
+/** Where a point snapped to. */
+export interface SnapResult {
+  point: LatLngTuple;
+  /** A vertex of a layer, or the nearest point along one of its lines. */
+  target: 'vertex' | 'edge';
+  layerId: string;
+  /** Metres between the point and where it snapped. */
+  distance: number;
+}
+
+/** A footprint snap: how far to move the whole footprint, in metres east and north. */
+export interface FootprintSnap {
+  offset: [number, number];
+  target: 'vertex' | 'edge';
+  layerId: string;
+  distance: number;
+}
+
+/** The line nearest a point, for turning a building square to it. */
+export interface NearestLine {
+  layerId: string;
+  kind: ReferenceLayerKind;
+  /** Direction of the nearest segment, clockwise from north, in [0, 180). */
+  bearing: number;
+  distance: number;
+}
+
+export type ReferenceLayerErrorCode = 'invalid-json' | 'not-geojson' | 'no-geometry';
+
+export class ReferenceLayerError extends Error {
+  code: ReferenceLayerErrorCode;
+
+  constructor(code: ReferenceLayerErrorCode, message: string) {
+    super(message);
+    this.name = 'ReferenceLayerError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,42 @@
+// Loading a site-plan image chosen by the user
+import { PlanImage, SitePlanError } from './types';
+
+/** File types the picker offers. PDFs are left out: browsers cannot draw their pages as images, so they need exporting first. */
+export const PLAN_IMAGE_ACCEPT = 'image/png,image/jpeg,image/webp,image/gif,image/svg+xml';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+/**
+ * Reads an image file into an object URL with its size in pixels. Rejects
+ * with a SitePlanError for anything the browser cannot decode, explaining
+ * what to do when a PDF is picked through "All files" anyway. The
+ * caller revokes the URL when the image is no longer shown.
+ */
+export function readPlanImage(file: File): Promise<PlanImage> {
+  if (isPdf(file)) {
+    return Promise.reject(
+      new SitePlanError('unsupported-file', 'PDF plans cannot be shown directly. Export the page as a PNG or JPG first.')
+    );
+  }
+  if (!file.type.startsWith('image/')) {
+    return Promise.reject(new SitePlanError('unsupported-file', 'Choose a PNG, JPG, WebP, GIF or SVG image.'));
+  }
+
+  const url = URL.createObjectURL(file);
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      if (image.naturalWidth > 0 && image.naturalHeight > 0) {
+        resolve({ url, name: file.name, width: image.naturalWidth, height: image.naturalHeight });
+        return;
+      }
+      URL.revokeObjectURL(url);
+      reject(new SitePlanError('unreadable-image', 'The image has no size; SVG plans need a width and height.'));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new SitePlanError('unreadable-image', 'The image could not be read.'));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export { MIN_CONTROL_POINTS, latLngToPlan, planToLatLng, solveTransform, toPlanTransform } from './transform';
+export { createControlPoint, fitSitePlan, isOnPlan, placeSitePlan, planCorners } from './plan';
+export { PLAN_IMAGE_ACCEPT, readPlanImage } from './image';
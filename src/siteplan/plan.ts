@@ -0,0 +1,74 @@
+// Creating a site plan and keeping its transform in step with its control points
+import { LatLngTuple } from '../types';
+import { latLngToOffset } from '../utils/geodesy';
+import { MIN_CONTROL_POINTS, planToLatLng, solveTransform, toPlanTransform } from './transform';
+import { ControlPoint, PlanPixel, PlanTransform, PlanTransformModel, SitePlan, SitePlanError } from './types';
+
+/**
+ * A plan with no control points yet, north up with its middle at `center`
+ * and each pixel `metresPerPixel` across, so it shows up where the user is
+ * looking before it is aligned.
+ */
+export function placeSitePlan(
+  { name, width, height }: Pick<SitePlan, 'name' | 'width' | 'height'>,
+  center: LatLngTuple,
+  metresPerPixel: number
+): SitePlan {
+  const s = metresPerPixel;
+  return {
+    name,
+    width,
+    height,
+    model: 'similarity',
+    controlPoints: [],
+    transform: toPlanTransform('similarity', center, [s, 0, (-s * width) / 2, 0, -s, (s * height) / 2], [], false),
+  };
+}
+
+/** A control point with the first free "point-N" id. */
+export function createControlPoint(existing: ControlPoint[], pixel: PlanPixel, location: LatLngTuple): ControlPoint {
+  const taken = new Set(existing.map((point) => point.id));
+  let number = existing.length + 1;
+  while (taken.has(`point-${number}`)) number++;
+  return { id: `point-${number}`, pixel, location };
+}
+
+// Slides the plan so a single control point's pixel lands on its location, keeping scale and rotation
+function shiftOntoPoint({ model, origin, matrix }: PlanTransform, point: ControlPoint): PlanTransform {
+  const [a, b, , d, e] = matrix;
+  const [x, y] = point.pixel;
+  const [east, north] = latLngToOffset(origin, point.location);
+  return toPlanTransform(model, origin, [a, b, east - a * x - b * y, d, e, north - d * x - e * y], [point], false);
+}
+
+/**
+ * The plan with new control points or model, refitted. Until there are
+ * enough points for an affine fit a similarity stands in, and with fewer
+ * still, or points that cannot pin the plan down, it keeps its current
+ * placement; a single point slides the plan onto it.
+ */
+export function fitSitePlan(plan: SitePlan, changes: Partial<Pick<SitePlan, 'model' | 'controlPoints'>>): SitePlan {
+  const { model, controlPoints } = { ...plan, ...changes };
+  const fallbacks: PlanTransformModel[] = model === 'affine' ? ['affine', 'similarity'] : ['similarity'];
+  for (const fallback of fallbacks) {
+    if (controlPoints.length < MIN_CONTROL_POINTS[fallback]) continue;
+    try {
+      return { ...plan, model, controlPoints, transform: solveTransform(controlPoints, fallback) };
+    } catch (error) {
+      if (!(error instanceof SitePlanError)) throw error;
+    }
+  }
+  const { transform } = plan;
+  const unfitted =
+    controlPoints.length === 1
+      ? shiftOntoPoint(transform, controlPoints[0])
+      : toPlanTransform(transform.model, transform.origin, transform.matrix, controlPoints, false);
+  return { ...plan, model, controlPoints, transform: unfitted };
+}
+
+/** Map positions of the image's top-left, top-right, bottom-right and bottom-left corners. */
+export const planCorners = ({ width, height, transform }: SitePlan): LatLngTuple[] =>
+  ([[0, 0], [width, 0], [width, height], [0, height]] as PlanPixel[]).map((pixel) => planToLatLng(transform, pixel));
+
+/** Whether a pixel is on the image. */
+export const isOnPlan = ({ width, height }: SitePlan, [x, y]: PlanPixel) => x >= 0 && y >= 0 && x <= width && y <= height;
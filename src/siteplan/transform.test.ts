@@ -0,0 +1,94 @@
+import { LatLngTuple } from '../types';
+import { haversineDistance } from '../utils/geodesy';
+import { fitSitePlan, placeSitePlan, planCorners } from './plan';
+import { latLngToPlan, planToLatLng, solveTransform, toPlanTransform } from './transform';
+import { ControlPoint, PlanPixel, SitePlanError } from './types';
+
+const origin: LatLngTuple = [51.5074, -0.1278];
+
+// A 2000 × 1500 px plan at 5 cm a pixel, its up direction turned 30° clockwise from north
+const turn = (30 * Math.PI) / 180;
+const [p, q] = [0.05 * Math.cos(turn), -0.05 * Math.sin(turn)];
+const truth = toPlanTransform('similarity', origin, [p, q, -40, q, -p, 30], [], false);
+
+const pixels: PlanPixel[] = [
+  [100, 120],
+  [1900, 200],
+  [1800, 1400],
+  [250, 1300],
+];
+const pointsOn = (transform = truth, pick = pixels): ControlPoint[] =>
+  pick.map((pixel, index) => ({ id: `point-${index + 1}`, pixel, location: planToLatLng(transform, pixel) }));
+
+const plan = placeSitePlan({ name: 'plan.png', width: 2000, height: 1500 }, origin, 0.1);
+
+describe('solveTransform', () => {
+  test('recovers the scale and rotation of a plan from two points', () => {
+    const transform = solveTransform(pointsOn(truth, pixels.slice(0, 2)), 'similarity');
+    expect(transform.metresPerPixel).toBeCloseTo(0.05, 5);
+    expect(transform.rotation).toBeCloseTo(30, 3);
+    expect(transform.rmsError).toBeCloseTo(0, 3);
+    const [lat, lng] = planToLatLng(transform, [1000, 750]);
+    expect(haversineDistance([lat, lng], planToLatLng(truth, [1000, 750]))).toBeLessThan(0.01);
+  });
+
+  test('reports the residual of a point that does not agree with the others', () => {
+    const points = pointsOn();
+    const [lat, lng] = points[3].location;
+    points[3] = { ...points[3], location: [lat + 0.00002, lng] };
+    const { residuals, rmsError } = solveTransform(points, 'similarity');
+    expect(residuals).toHaveLength(4);
+    expect(Math.max(...residuals)).toBe(residuals[3]);
+    expect(rmsError).toBeGreaterThan(0.5);
+    expect(rmsError).toBeLessThan(2.3);
+  });
+
+  test('an affine fit takes up a plan stretched along one axis', () => {
+    const stretched = toPlanTransform('affine', origin, [0.05, 0, -40, 0, -0.06, 30], [], false);
+    const points = pointsOn(stretched);
+    expect(solveTransform(points, 'affine').rmsError).toBeCloseTo(0, 3);
+    expect(solveTransform(points, 'similarity').rmsError).toBeGreaterThan(1);
+  });
+
+  test('converts map positions back to pixels', () => {
+    const [x, y] = latLngToPlan(truth, planToLatLng(truth, [321, 654]));
+    expect(x).toBeCloseTo(321, 6);
+    expect(y).toBeCloseTo(654, 6);
+  });
+
+  test('refuses too few points, or points in a line', () => {
+    expect(() => solveTransform(pointsOn(truth, pixels.slice(0, 2)), 'affine')).toThrow(
+      expect.objectContaining({ name: 'SitePlanError', code: 'too-few-points' })
+    );
+    const inLine = pointsOn(truth, [[0, 0], [500, 500], [1000, 1000]]);
+    expect(() => solveTransform(inLine, 'affine')).toThrow(SitePlanError);
+    const sameSpot = pointsOn(truth, [[0, 0], [500, 500]]).map((point) => ({ ...point, location: origin }));
+    expect(() => solveTransform(sameSpot, 'similarity')).toThrow(expect.objectContaining({ code: 'degenerate-points' }));
+  });
+});
+
+describe('fitSitePlan', () => {
+  test('starts north up around the center', () => {
+    const [topLeft, topRight] = planCorners(plan);
+    expect(topLeft[0]).toBeCloseTo(topRight[0], 9);
+    expect(haversineDistance(topLeft, topRight)).toBeCloseTo(200, 0);
+    expect(plan.transform).toMatchObject({ rotation: 0, rmsError: null });
+  });
+
+  test('slides onto a single point, and stands in a similarity for an affine fit', () => {
+    const [first, second] = pointsOn();
+    const shifted = fitSitePlan(plan, { controlPoints: [first] });
+    expect(haversineDistance(planToLatLng(shifted.transform, first.pixel), first.location)).toBeLessThan(0.001);
+    expect(shifted.transform).toMatchObject({ metresPerPixel: 0.1, rmsError: null });
+
+    const standIn = fitSitePlan(shifted, { model: 'affine', controlPoints: [first, second] });
+    expect(standIn.model).toBe('affine');
+    expect(standIn.transform.model).toBe('similarity');
+    expect(standIn.transform.rotation).toBeCloseTo(30, 3);
+
+    // Without any points the plan stays where it was
+    const emptied = fitSitePlan(standIn, { controlPoints: [] });
+    expect(emptied.transform.matrix).toEqual(standIn.transform.matrix);
+    expect(emptied.transform.rmsError).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+// Least-squares fits of plan pixels to map positions, and conversions through the fitted transform
+import { LatLngTuple } from '../types';
+import { normalizeAngle } from '../utils/angles';
+import { latLngToOffset, offsetToLatLng } from '../utils/geodesy';
+import { ControlPoint, PlanPixel, PlanTransform, PlanTransformModel, SitePlanError } from './types';
+
+/** Control points each model needs before it can be fitted. */
+export const MIN_CONTROL_POINTS: Record<PlanTransformModel, number> = { similarity: 2, affine: 3 };
+
+// Relative size below which a determinant counts as zero, i.e. the points lie in a line or on one spot
+const DEGENERATE_TOLERANCE = 1e-9;
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Where the matrix puts a pixel, in metres [east, north] from the origin
+function applyMatrix([a, b, c, d, e, f]: PlanTransform['matrix'], [x, y]: PlanPixel): [number, number] {
+  return [a * x + b * y + c, d * x + e * y + f];
+}
+
+/** Fills in the scale, rotation and residuals of a matrix; `fitted` says whether it came from the control points. */
+export function toPlanTransform(
+  model: PlanTransformModel,
+  origin: LatLngTuple,
+  matrix: PlanTransform['matrix'],
+  controlPoints: ControlPoint[],
+  fitted: boolean
+): PlanTransform {
+  const [a, b, , d, e] = matrix;
+  const residuals = controlPoints.map(({ pixel, location }) => {
+    const [east, north] = applyMatrix(matrix, pixel);
+    const [targetEast, targetNorth] = latLngToOffset(origin, location);
+    return Math.hypot(east - targetEast, north - targetNorth);
+  });
+  const meanSquare = residuals.reduce((sum, residual) => sum + residual ** 2, 0) / Math.max(residuals.length, 1);
+  return {
+    model,
+    origin,
+    matrix,
+    metresPerPixel: Math.sqrt(Math.abs(a * e - b * d)),
+    // The plan's up direction is pixel [0, -1]
+    rotation: normalizeAngle(toDegrees(Math.atan2(-b, -e))),
+    residuals,
+    rmsError: fitted ? Math.sqrt(meanSquare) : null,
+  };
+}
+
+/** Map position of a pixel of the plan. */
+export function planToLatLng({ origin, matrix }: PlanTransform, pixel: PlanPixel): LatLngTuple {
+  const [east, north] = applyMatrix(matrix, pixel);
+  return offsetToLatLng(origin, east, north);
+}
+
+/** Pixel of the plan at a map position; it may lie outside the image. */
+export function latLngToPlan({ origin, matrix }: PlanTransform, point: LatLngTuple): PlanPixel {
+  const [a, b, c, d, e, f] = matrix;
+  const [east, north] = latLngToOffset(origin, point);
+  const det = a * e - b * d;
+  return [(e * (east - c) - b * (north - f)) / det, (a * (north - f) - d * (east - c)) / det];
+}
+
+// Sums of the centred pixel coordinates and their products with the centred targets, for the normal equations
+function centredSums(pixels: PlanPixel[], targets: [number, number][]) {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const pixelMean: [number, number] = [mean(pixels.map(([x]) => x)), mean(pixels.map(([, y]) => y))];
+  const targetMean: [number, number] = [mean(targets.map(([east]) => east)), mean(targets.map(([, north]) => north))];
+  const sums = { xx: 0, xy: 0, yy: 0, xEast: 0, yEast: 0, xNorth: 0, yNorth: 0 };
+  pixels.forEach(([px, py], index) => {
+    const x = px - pixelMean[0];
+    const y = py - pixelMean[1];
+    const east = targets[index][0] - targetMean[0];
+    const north = targets[index][1] - targetMean[1];
+    sums.xx += x * x;
+    sums.xy += x * y;
+    sums.yy += y * y;
+    sums.xEast += x * east;
+    sums.yEast += y * east;
+    sums.xNorth += x * north;
+    sums.yNorth += y * north;
+  });
+  return { pixelMean, targetMean, ...sums };
+}
+
+const degenerate = () =>
+  new SitePlanError('degenerate-points', 'The control points are too close together, or in a line, to fit the plan.');
+
+/**
+ * Fits the plan to its control points by least squares. A similarity keeps
+ * the plan's shape, turning and scaling it with y flipped so the image is
+ * not mirrored; an affine fit can also stretch and shear it, e.g. for a
+ * scan that is not quite square. Throws a SitePlanError when there are too
+ * few points for the model or they cannot pin the plan down.
+ */
+export function solveTransform(controlPoints: ControlPoint[], model: PlanTransformModel): PlanTransform {
+  const needed = MIN_CONTROL_POINTS[model];
+  if (controlPoints.length < needed) {
+    throw new SitePlanError('too-few-points', `A${model === 'affine' ? 'n' : ''} ${model} fit needs at least ${needed} control points.`);
+  }
+  const origin: LatLngTuple = [
+    controlPoints.reduce((sum, { location }) => sum + location[0], 0) / controlPoints.length,
+    controlPoints.reduce((sum, { location }) => sum + location[1], 0) / controlPoints.length,
+  ];
+  const targets = controlPoints.map(({ location }) => latLngToOffset(origin, location));
+  const { pixelMean, targetMean, xx, xy, yy, xEast, yEast, xNorth, yNorth } = centredSums(
+    controlPoints.map(({ pixel }) => pixel),
+    targets
+  );
+  const [mx, my] = pixelMean;
+  const [meanEast, meanNorth] = targetMean;
+
+  let a: number, b: number, d: number, e: number;
+  if (model === 'similarity') {
+    // east = p·x + q·y, north = q·x − p·y on centred coordinates
+    const spread = xx + yy;
+    if (spread === 0) throw degenerate();
+    const p = (xEast - yNorth) / spread;
+    const q = (yEast + xNorth) / spread;
+    [a, b, d, e] = [p, q, q, -p];
+  } else {
+    const det = xx * yy - xy * xy;
+    if (det <= DEGENERATE_TOLERANCE * xx * yy) throw degenerate();
+    a = (yy * xEast - xy * yEast) / det;
+    b = (xx * yEast - xy * xEast) / det;
+    d = (yy * xNorth - xy * yNorth) / det;
+    e = (xx * yNorth - xy * xNorth) / det;
+  }
+  // All the locations on one spot, or in a line for an affine fit, would squash the plan flat
+  if (Math.abs(a * e - b * d) <= DEGENERATE_TOLERANCE * (a * a + b * b + d * d + e * e)) throw degenerate();
+
+  const matrix: PlanTransform['matrix'] = [a, b, meanEast - a * mx - b * my, d, e, meanNorth - d * mx - e * my];
+  return toPlanTransform(model, origin, matrix, controlPoints, true);
+}
@@ -0,0 +1,66 @@
+// Types for a site-plan image laid over the map and the transform that places it
+import { LatLngTuple } from '../types';
+
+/** A point on the plan image in pixels: [x, y] from the top-left corner, with y pointing down. */
+export type PlanPixel = [number, number];
+
+/** `similarity` only moves, turns and scales the plan; `affine` may also stretch and shear it. */
+export type PlanTransformModel = 'similarity' | 'affine';
+
+/** A pixel of the plan paired with the map position it belongs at. */
+export interface ControlPoint {
+  /** Stays the same as other points are added and removed, e.g. "point-2". */
+  id: string;
+  pixel: PlanPixel;
+  location: LatLngTuple;
+}
+
+export interface PlanTransform {
+  /** The model actually fitted; a similarity stands in for an affine fit until there are enough points. */
+  model: PlanTransformModel;
+  /** Map position the matrix measures metres from. */
+  origin: LatLngTuple;
+  /** Pixel [x, y] to metres from the origin, as [a, b, c, d, e, f]: east = ax + by + c, north = dx + ey + f. */
+  matrix: [number, number, number, number, number, number];
+  /** Ground size of a pixel in metres, averaged over both axes. */
+  metresPerPixel: number;
+  /** Bearing of the plan's up direction in degrees clockwise from north; a building drawn square on the plan has this rotation. */
+  rotation: number;
+  /** Metres between each control point's location and where the transform puts its pixel, in control point order. */
+  residuals: number[];
+  /** Root mean square of the residuals in metres, or null while the plan is only roughly placed. */
+  rmsError: number | null;
+}
+
+export interface SitePlan {
+  /** File name of the image, so the same one can be loaded again with a restored draft. */
+  name: string;
+  /** Image size in pixels. */
+  width: number;
+  height: number;
+  /** The fit asked for. */
+  model: PlanTransformModel;
+  controlPoints: ControlPoint[];
+  /** The fit to the control points, or a rough placement until there are enough of them. */
+  transform: PlanTransform;
+}
+
+/** A plan image ready to show; `url` is an object URL owned by whoever loaded it. */
+export interface PlanImage {
+  url: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export type SitePlanErrorCode = 'too-few-points' | 'degenerate-points' | 'unsupported-file' | 'unreadable-image';
+
+export class SitePlanError extends Error {
+  code: SitePlanErrorCode;
+
+  constructor(code: SitePlanErrorCode, message: string) {
+    super(message);
+    this.name = 'SitePlanError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,61 @@
+// Which way a building's facades face, how long the sun is on each, and the summary a result carries
+import { LatLngTuple, WizardResult } from '../types';
+import { angleBetween, compassPoint, normalizeAngle } from '../utils/angles';
+import { parseSolarDate, sunPath, sunTimes } from './sun';
+import { FacadeOrientation, FacadeSide, FacadeSun, SolarSummary } from './types';
+
+const FACADE_TURNS: [FacadeSide, number][] = [
+  ['north', 0],
+  ['east', 90],
+  ['south', 180],
+  ['west', 270],
+];
+
+// Samples of the sun's path used to count facade sun hours; each stands for this many minutes
+const SUN_HOUR_STEP_MINUTES = 5;
+
+/** The direction each side of a building faces once it is turned `rotation` degrees clockwise from north. */
+export function facadeOrientations(rotation: number): FacadeOrientation[] {
+  return FACADE_TURNS.map(([side, turn]) => {
+    const azimuth = normalizeAngle(rotation + turn);
+    return { side, azimuth, compass: compassPoint(azimuth) };
+  });
+}
+
+/** Facade orientations with the hours the sun is up and in front of each on a YYYY-MM-DD day. */
+export function facadeSun(location: LatLngTuple, rotation: number, date: string): FacadeSun[] {
+  // The path ends where it started, a day later, so its last sample is left out
+  const daylight = sunPath(location, date, SUN_HOUR_STEP_MINUTES)
+    .slice(0, -1)
+    .filter(({ elevation }) => elevation > 0);
+  return facadeOrientations(rotation).map((facade) => {
+    const samples = daylight.filter(({ azimuth }) => Math.abs(angleBetween(facade.azimuth, azimuth)) < 90).length;
+    return { ...facade, sunHours: (samples * SUN_HOUR_STEP_MINUTES) / 60 };
+  });
+}
+
+/**
+ * The sun over the project location on a YYYY-MM-DD day, with the facades of
+ * every placed building; null without a project location or a valid date. The
+ * sun panel works its figures out the same way, so the two agree.
+ */
+export function solarSummary(result: WizardResult, date: string): SolarSummary | null {
+  const location = result.projectLocation;
+  if (!location || Number.isNaN(parseSolarDate(date))) return null;
+  const times = sunTimes(location, date);
+  return {
+    date,
+    location,
+    sunrise: times.sunrise && times.sunrise.toISOString(),
+    sunset: times.sunset && times.sunset.toISOString(),
+    solarNoon: times.solarNoon.toISOString(),
+    sunriseAzimuth: times.sunriseAzimuth,
+    sunsetAzimuth: times.sunsetAzimuth,
+    noonElevation: times.noonElevation,
+    dayLength: times.dayLength,
+    polar: times.polar,
+    buildings: result.buildings
+      .filter((building) => building.location !== null)
+      .map(({ id, name, rotation }) => ({ id, name, facades: facadeSun(location, rotation, date) })),
+  };
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export { formatSolarDate, parseSolarDate, solarPosition, sunPath, sunTimes } from './sun';
+export { facadeOrientations, facadeSun, solarSummary } from './facades';
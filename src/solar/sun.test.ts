@@ -0,0 +1,88 @@
+import { LatLngTuple, WizardResult } from '../types';
+import { facadeOrientations, facadeSun, solarSummary } from './facades';
+import { solarPosition, sunPath, sunTimes } from './sun';
+
+const london: LatLngTuple = [51.5074, -0.1278];
+const sydney: LatLngTuple = [-33.8688, 151.2093];
+const tromso: LatLngTuple = [69.6492, 18.9553];
+
+const minutesOf = (time: Date | null) => (time ? time.getUTCHours() * 60 + time.getUTCMinutes() : NaN);
+
+describe('sun position', () => {
+  test('puts the sun overhead at the equator at an equinox noon', () => {
+    const { elevation } = solarPosition([0, 0], new Date(Date.UTC(2024, 2, 20, 12, 7)));
+    expect(elevation).toBeGreaterThan(89.5);
+  });
+
+  test('matches published sunrise and sunset times at midsummer in London', () => {
+    const times = sunTimes(london, '2024-06-21');
+    // 04:43 and 21:21 BST
+    expect(Math.abs(minutesOf(times.sunrise) - (3 * 60 + 43))).toBeLessThanOrEqual(1);
+    expect(Math.abs(minutesOf(times.sunset) - (20 * 60 + 21))).toBeLessThanOrEqual(1);
+    expect(times.sunriseAzimuth).toBeCloseTo(49, 0);
+    expect(times.sunsetAzimuth).toBeCloseTo(311, 0);
+    expect(times.noonElevation).toBeCloseTo(61.9, 1);
+    expect(times.dayLength).toBeCloseTo(16.6, 1);
+    expect(times.polar).toBeNull();
+  });
+
+  test('takes the local day east of Greenwich, where it starts the UTC day before', () => {
+    const times = sunTimes(sydney, '2024-06-21');
+    // 07:00 and 16:54 AEST
+    expect((times.sunrise as Date).toISOString()).toMatch(/^2024-06-20T2[01]:/);
+    expect(Math.abs(minutesOf(times.sunset) - (6 * 60 + 54))).toBeLessThanOrEqual(1);
+    expect(times.sunriseAzimuth).toBeCloseTo(62, 0);
+  });
+
+  test('reports polar day and night', () => {
+    expect(sunTimes(tromso, '2024-06-21')).toMatchObject({ polar: 'day', sunrise: null, sunset: null, dayLength: 24 });
+    expect(sunTimes(tromso, '2024-12-21')).toMatchObject({ polar: 'night', dayLength: 0 });
+  });
+
+  test('traces the path from midnight to midnight, highest at solar noon', () => {
+    const path = sunPath(london, '2024-06-21', 60);
+    expect(path).toHaveLength(25);
+    const highest = path.reduce((best, point) => (point.elevation > best.elevation ? point : best));
+    expect(highest).toBe(path[12]);
+    expect(highest.azimuth).toBeCloseTo(180, 0);
+  });
+});
+
+describe('facades', () => {
+  test('turns the four sides with the building', () => {
+    expect(facadeOrientations(30).map(({ side, azimuth, compass }) => [side, azimuth, compass])).toEqual([
+      ['north', 30, 'NNE'],
+      ['east', 120, 'ESE'],
+      ['south', 210, 'SSW'],
+      ['west', 300, 'WNW'],
+    ]);
+  });
+
+  test('counts the hours of sun on each facade', () => {
+    const [north, east, south, west] = facadeSun(london, 0, '2024-12-21');
+    expect(north.sunHours).toBe(0);
+    expect(south.sunHours).toBeCloseTo(7.8, 0);
+    expect(east.sunHours + west.sunHours).toBeCloseTo(south.sunHours, 0);
+  });
+
+  test('summarises the sun over the project and the facades of each placed building', () => {
+    const result = {
+      projectLocation: london,
+      buildings: [
+        { id: 'building-1', name: 'Block A', location: london, rotation: 90 },
+        { id: 'building-2', name: 'Block B', location: null, rotation: 0 },
+        { id: 'building-3', name: 'Block C', location: london, rotation: 45 },
+      ],
+    } as unknown as WizardResult;
+    const summary = solarSummary(result, '2024-06-21');
+    expect(summary).toMatchObject({ date: '2024-06-21', location: london, polar: null });
+    expect(summary?.sunrise).toMatch(/^2024-06-21T03:4\d/);
+    expect(summary?.buildings.map(({ id, facades }) => [id, facades[0].side, facades[0].azimuth])).toEqual([
+      ['building-1', 'north', 90],
+      ['building-3', 'north', 45],
+    ]);
+    expect(summary?.buildings[0].facades).toEqual(facadeSun(london, 90, '2024-06-21'));
+    expect(solarSummary({ ...result, projectLocation: null }, '2024-06-21')).toBeNull();
+    expect(solarSummary(result, '')).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+// Sun position from NOAA's solar calculator equations (after Meeus), accurate to about a minute of time
+// between 1800 and 2100 and needing no network
+import { LatLngTuple } from '../types';
+import { normalizeAngle } from '../utils/angles';
+import { SunPathPoint, SunPosition, SunTimes } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Where the sun's upper edge touches the horizon: its radius plus standard refraction
+const SUNRISE_ELEVATION = -0.833;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Declination in degrees and the equation of time in minutes at a moment
+function solarCoordinates(time: Date) {
+  const t = (time.getTime() / DAY_MS + 2440587.5 - 2451545) / 36525;
+  const meanLongitude = normalizeAngle(280.46646 + t * (36000.76983 + t * 0.0003032));
+  const meanAnomaly = toRadians(357.52911 + t * (35999.05029 - 0.0001537 * t));
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const center =
+    Math.sin(meanAnomaly) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * meanAnomaly) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * meanAnomaly) * 0.000289;
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = toRadians(meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega));
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = toDegrees(Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude)));
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * l0) -
+        2 * eccentricity * Math.sin(meanAnomaly) +
+        4 * eccentricity * y * Math.sin(meanAnomaly) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly)
+    );
+  return { declination, equationOfTime };
+}
+
+/** The sun's azimuth and elevation at the site at a moment. */
+export function solarPosition([lat, lng]: LatLngTuple, time: Date): SunPosition {
+  const { declination, equationOfTime } = solarCoordinates(time);
+  const minutesOfDay = (((time.getTime() % DAY_MS) + DAY_MS) % DAY_MS) / MINUTE_MS;
+  const hourAngle = toRadians((minutesOfDay + equationOfTime + 4 * lng) / 4 - 180);
+  const phi = toRadians(lat);
+  const delta = toRadians(declination);
+
+  const elevation = Math.asin(Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle));
+  const azimuth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(phi) - Math.tan(delta) * Math.cos(phi)
+  );
+  return { azimuth: normalizeAngle(toDegrees(azimuth) + 180), elevation: toDegrees(elevation) };
+}
+
+/** Midnight UTC at the start of a YYYY-MM-DD day, or NaN when the text is not a date. */
+export function parseSolarDate(date: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN;
+}
+
+/** The YYYY-MM-DD day a moment falls on in the browser's time zone, e.g. today's for the date picker. */
+export function formatSolarDate(time: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(time.getDate())}`;
+}
+
+// Solar noon at the longitude on the UTC day starting at `dayStart`, with the equation of time at that noon
+function solarNoonOn(lng: number, dayStart: number): Date {
+  const estimate = dayStart + (720 - 4 * lng) * MINUTE_MS;
+  const { equationOfTime } = solarCoordinates(new Date(estimate));
+  return new Date(estimate - equationOfTime * MINUTE_MS);
+}
+
+// Minutes from solar noon to when the sun crosses SUNRISE_ELEVATION, or which polar case applies
+function halfDayMinutes(lat: number, declination: number): number | 'day' | 'night' {
+  const phi = toRadians(lat);
+  const delta = toRadians(declination);
+  const cosHourAngle =
+    (Math.cos(toRadians(90 - SUNRISE_ELEVATION)) - Math.sin(phi) * Math.sin(delta)) / (Math.cos(phi) * Math.cos(delta));
+  if (cosHourAngle > 1) return 'night';
+  if (cosHourAngle < -1) return 'day';
+  return 4 * toDegrees(Math.acos(cosHourAngle));
+}
+
+// Sunrise (-1) or sunset (+1), refined with the sun's declination at the first estimate
+function horizonCrossing(lat: number, noon: Date, direction: 1 | -1): Date | null {
+  let time = noon.getTime();
+  for (let pass = 0; pass < 2; pass += 1) {
+    const half = halfDayMinutes(lat, solarCoordinates(new Date(time)).declination);
+    if (typeof half !== 'number') return null;
+    time = noon.getTime() + direction * half * MINUTE_MS;
+  }
+  return new Date(time);
+}
+
+/**
+ * Solar noon, sunrise and sunset at the site on a YYYY-MM-DD day, taken as
+ * the local day around that date's solar noon. Times are absolute; show
+ * them in the site's time zone.
+ */
+export function sunTimes(location: LatLngTuple, date: string): SunTimes {
+  const [lat, lng] = location;
+  const solarNoon = solarNoonOn(lng, parseSolarDate(date));
+  const noonElevation = solarPosition(location, solarNoon).elevation;
+  const half = halfDayMinutes(lat, solarCoordinates(solarNoon).declination);
+  const sunrise = horizonCrossing(lat, solarNoon, -1);
+  const sunset = horizonCrossing(lat, solarNoon, 1);
+  const polar = typeof half === 'number' ? null : half;
+  return {
+    solarNoon,
+    noonElevation,
+    sunrise,
+    sunset,
+    sunriseAzimuth: sunrise && solarPosition(location, sunrise).azimuth,
+    sunsetAzimuth: sunset && solarPosition(location, sunset).azimuth,
+    dayLength:
+      sunrise && sunset ? (sunset.getTime() - sunrise.getTime()) / (60 * MINUTE_MS) : polar === 'day' ? 24 : 0,
+    polar,
+  };
+}
+
+/** The sun's position every `stepMinutes` through the 24 hours centred on the day's solar noon. */
+export function sunPath(location: LatLngTuple, date: string, stepMinutes = 10): SunPathPoint[] {
+  const { solarNoon } = sunTimes(location, date);
+  const start = solarNoon.getTime() - 12 * 60 * MINUTE_MS;
+  const count = Math.floor((24 * 60) / stepMinutes);
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const time = new Date(start + i * stepMinutes * MINUTE_MS);
+    return { time, ...solarPosition(location, time) };
+  });
+}
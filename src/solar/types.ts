@@ -0,0 +1,72 @@
+// Types for the sun's position over the site and what it means for the building's facades
+import { LatLngTuple } from '../types';
+
+/** Where the sun is at a moment, seen from the site. */
+export interface SunPosition {
+  /** Degrees clockwise from north. */
+  azimuth: number;
+  /** Degrees above the horizon, negative below it; not corrected for refraction. */
+  elevation: number;
+}
+
+/** A sample of the sun's path through a day. */
+export interface SunPathPoint extends SunPosition {
+  time: Date;
+}
+
+export interface SunTimes {
+  /** When the sun is highest, in the UTC day the site's local date falls on. */
+  solarNoon: Date;
+  noonElevation: number;
+  /** Null when the sun does not rise or set that day; see `polar`. */
+  sunrise: Date | null;
+  sunset: Date | null;
+  sunriseAzimuth: number | null;
+  sunsetAzimuth: number | null;
+  /** Hours between sunrise and sunset: 24 in polar day, 0 in polar night. */
+  dayLength: number;
+  /** Set above the polar circles when the sun stays up ('day') or down ('night') all day. */
+  polar: 'day' | 'night' | null;
+}
+
+/** The building's own sides, named as they face when it is not rotated. */
+export type FacadeSide = 'north' | 'east' | 'south' | 'west';
+
+export interface FacadeOrientation {
+  side: FacadeSide;
+  /** Direction the facade faces, in degrees clockwise from north. */
+  azimuth: number;
+  /** Nearest of the 16 compass points to that direction, e.g. "NNE". */
+  compass: string;
+}
+
+export interface FacadeSun extends FacadeOrientation {
+  /** Hours the sun is up and in front of the facade on the day analysed. */
+  sunHours: number;
+}
+
+/** One placed building's facades, matched to the result's `buildings` by id. */
+export interface BuildingSun {
+  id: string;
+  name: string;
+  facades: FacadeSun[];
+}
+
+/** What the result's `solar` field holds: the day analysed and the sun over the site on it. */
+export interface SolarSummary {
+  /** The day analysed, as YYYY-MM-DD at the site. */
+  date: string;
+  /** Where the sun was worked out for: the project location, for every building on the site. */
+  location: LatLngTuple;
+  /** ISO 8601 times in UTC, or null when the sun does not rise or set that day. */
+  sunrise: string | null;
+  sunset: string | null;
+  solarNoon: string;
+  sunriseAzimuth: number | null;
+  sunsetAzimuth: number | null;
+  noonElevation: number;
+  dayLength: number;
+  polar: 'day' | 'night' | null;
+  /** Facades of each placed building, in the order of the result's `buildings`. */
+  buildings: BuildingSun[];
+}
@@ -0,0 +1,86 @@
+// Types shared between the wizard and its host
+import { ProjectedResult } from './crs/types';
+import { SitePlan } from './siteplan/types';
+import { SolarSummary } from './solar/types';
+
+export type LatLngTuple = [number, number];
+
+/** Offset in metres from an anchor point: [east, north]. */
+export type LocalPoint = [number, number];
+
+export type ExtentShapeType = 'circle' | 'rectangle' | 'polygon';
+
+export interface CircleExtentShape {
+  type: 'circle';
+  center: LatLngTuple;
+  /** Radius in metres. */
+  radius: number;
+}
+
+export interface RectangleExtentShape {
+  type: 'rectangle';
+  /** South-west and north-east corners. */
+  bounds: [LatLngTuple, LatLngTuple];
+}
+
+export interface PolygonExtentShape {
+  type: 'polygon';
+  /** Outer ring, not closed (the first vertex is not repeated). */
+  vertices: LatLngTuple[];
+}
+
+export type ExtentShape = CircleExtentShape | RectangleExtentShape | PolygonExtentShape;
+
+export interface ExtentMetrics {
+  /** Representative point: the circle center or the polygon centroid. */
+  center: LatLngTuple;
+  /** Geodesic area in square metres. */
+  area: number;
+  /** Geodesic perimeter in metres. */
+  perimeter: number;
+}
+
+export type ProjectExtent = ExtentShape & ExtentMetrics;
+
+export interface BuildingFootprint {
+  /** Outline in metres around the building location, before rotation. */
+  outline: LocalPoint[];
+  /** Size of the unrotated outline's bounding box in metres. */
+  width: number;
+  depth: number;
+  /** Outline vertices on the map after applying the building rotation. */
+  corners: LatLngTuple[];
+}
+
+/** One entry of the project's building list. */
+export interface ProjectBuilding {
+  /** Stays the same through edits, undo and saved drafts. */
+  id: string;
+  name: string;
+  /** Null until the building is placed. */
+  location: LatLngTuple | null;
+  /** Degrees clockwise from north, between 0 and 360. */
+  rotation: number;
+  footprint: BuildingFootprint | null;
+}
+
+export interface WizardResult {
+  projectLocation: LatLngTuple | null;
+  projectExtent: ProjectExtent | null;
+  /** The building list, in order; there is always at least one entry. */
+  buildings: ProjectBuilding[];
+  /** The first building's location, rotation and footprint, for hosts that handle a single building. */
+  buildingLocation: LatLngTuple | null;
+  /** Degrees clockwise from north, between 0 and 360. */
+  buildingRotation: number;
+  buildingFootprint: BuildingFootprint | null;
+  interactionMode: string;
+  /** The site-plan image laid over the map, with its control points and the transform fitted to them. */
+  sitePlan: SitePlan | null;
+  /** The same placement in the selected projected CRS, once a project location is set. */
+  projected: ProjectedResult | null;
+  /** Values of host-defined steps by step id; only present when the wizard runs such steps. */
+  custom?: Record<string, unknown>;
+  /** Sun times and facade orientations on the chosen date; only present when the host asks for them. */
+  solar?: SolarSummary | null;
+}
@@ -0,0 +1,22 @@
+import { angleBetween, normalizeAngle, screenBearing, snapAngle } from './angles';
+
+describe('angles', () => {
+  test('normalises and snaps clockwise angles', () => {
+    expect(normalizeAngle(-90)).toBe(270);
+    expect(normalizeAngle(720)).toBe(0);
+    expect(snapAngle(52, 15)).toBe(45);
+    expect(snapAngle(-10, 15)).toBe(345);
+  });
+
+  test('measures screen bearings with y pointing down', () => {
+    expect(screenBearing([0, 0], [0, -10])).toBe(0);
+    expect(screenBearing([0, 0], [10, 0])).toBe(90);
+    expect(screenBearing([0, 0], [-10, 0])).toBe(270);
+  });
+
+  test('takes the short way round between two angles', () => {
+    expect(angleBetween(350, 10)).toBe(20);
+    expect(angleBetween(10, 350)).toBe(-20);
+    expect(angleBetween(0, 180)).toBe(180);
+  });
+});
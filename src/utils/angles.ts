@@ -0,0 +1,29 @@
+// Angle helpers for rotations measured clockwise from north
+
+/** Wraps any angle into the range [0, 360). */
+export function normalizeAngle(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/** Rounds an angle to the nearest multiple of `step` and normalises it. */
+export function snapAngle(degrees: number, step: number): number {
+  return normalizeAngle(step > 0 ? Math.round(degrees / step) * step : degrees);
+}
+
+/** Bearing in degrees clockwise from screen up of the line from `a` to `b`, given in pixel [x, y]. */
+export function screenBearing([ax, ay]: [number, number], [bx, by]: [number, number]): number {
+  return normalizeAngle((Math.atan2(bx - ax, ay - by) * 180) / Math.PI);
+}
+
+/** Smallest signed turn from one angle to another, in the range (-180, 180]. */
+export function angleBetween(from: number, to: number): number {
+  const turn = normalizeAngle(to - from);
+  return turn > 180 ? turn - 360 : turn;
+}
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+/** Nearest of the 16 compass points to a bearing, e.g. "NE" for 47°. */
+export function compassPoint(degrees: number): string {
+  return COMPASS_POINTS[Math.round(normalizeAngle(degrees) / 22.5) % 16];
+}
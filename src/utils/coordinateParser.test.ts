@@ -0,0 +1,70 @@
+import { CoordinateParseError, parseCoordinates } from './coordinateParser';
+
+const expectNear = (input: string, lat: number, lng: number, format: string, tolerance = 4) => {
+  const result = parseCoordinates(input);
+  expect(result).not.toBeNull();
+  expect(result!.format).toBe(format);
+  expect(result!.lat).toBeCloseTo(lat, tolerance);
+  expect(result!.lng).toBeCloseTo(lng, tolerance);
+};
+
+describe('parseCoordinates', () => {
+  test('accepts decimal degrees with flexible separators', () => {
+    expectNear('40.7128,-74.0060', 40.7128, -74.006, 'decimal');
+    expectNear('40.7, -74.0', 40.7, -74, 'decimal');
+    expectNear('40.7 -74.0', 40.7, -74, 'decimal');
+    expectNear('40.7; -74.0', 40.7, -74, 'decimal');
+    expectNear('40.7N 74.0W', 40.7, -74, 'decimal');
+    expectNear('W74.0 N40.7', 40.7, -74, 'decimal');
+  });
+
+  test('accepts degrees, minutes and seconds', () => {
+    expectNear(`40°42'46"N 74°0'21"W`, 40.712778, -74.005833, 'dms');
+    expectNear('40 42 46 N 74 0 21 W', 40.712778, -74.005833, 'dms');
+    expectNear(`40°42.767'N, 74°0.35'W`, 40.712783, -74.005833, 'dms');
+  });
+
+  test('accepts UTM', () => {
+    expectNear('18T 583959 4507351', 40.7128, -74.006, 'utm', 3);
+    expectNear('56H 334369 6250948', -33.8688, 151.2093, 'utm', 3);
+  });
+
+  test('accepts MGRS', () => {
+    expectNear('18TWL8395907351', 40.7128, -74.006, 'mgrs', 3);
+    expectNear('18T WL 83959 07351', 40.7128, -74.006, 'mgrs', 3);
+  });
+
+  test('accepts full and short plus codes', () => {
+    expectNear('8FVC9G8F+6X', 47.3655625, 8.5249375, 'pluscode', 6);
+    const short = parseCoordinates('9G8F+6X', { reference: [47.4, 8.6] });
+    expect(short!.lat).toBeCloseTo(47.3655625, 6);
+    expect(short!.lng).toBeCloseTo(8.5249375, 6);
+    expect(() => parseCoordinates('9G8F+6X')).toThrow(CoordinateParseError);
+  });
+
+  test('returns null for things that are not coordinates', () => {
+    expect(parseCoordinates('1600 Pennsylvania Avenue')).toBeNull();
+    expect(parseCoordinates('London')).toBeNull();
+    expect(parseCoordinates('')).toBeNull();
+    // Zone, band and grid square letters with no grid digits read as a house number and street
+    expect(parseCoordinates('12 Elm')).toBeNull();
+    expect(parseCoordinates('3 Elm')).toBeNull();
+  });
+
+  test('rejects out-of-range values with a helpful message', () => {
+    expect(() => parseCoordinates('95, 40')).toThrow(/Latitude 95 is out of range.*swap/);
+    expect(() => parseCoordinates('40, 200')).toThrow(/Longitude 200 is out of range/);
+    expect(() => parseCoordinates(`40°75'0"N 74°0'0"W`)).toThrow(/less than 60/);
+    expect(() => parseCoordinates('61T 583959 4507351')).toThrow(/zone 61/);
+    expect(() => parseCoordinates('18T 583959 9507351')).toThrow(/latitude band T/);
+  });
+
+  test('reports the format of invalid input', () => {
+    expect(() => parseCoordinates('40N 50N')).toThrow(
+      expect.objectContaining({ name: 'CoordinateParseError', format: 'decimal' })
+    );
+    expect(() => parseCoordinates('18TWL839590735')).toThrow(
+      expect.objectContaining({ name: 'CoordinateParseError', format: 'mgrs' })
+    );
+  });
+});
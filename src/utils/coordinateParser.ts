@@ -0,0 +1,339 @@
+// Parses the coordinate strings people paste into the search box
+import { LATITUDE_BANDS, latLngToUtm, utmToLatLng, centralMeridian } from './utm';
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'utm' | 'mgrs' | 'pluscode';
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal degrees',
+  dms: 'Degrees, minutes, seconds',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+  pluscode: 'Plus code',
+};
+
+export interface ParsedCoordinate {
+  lat: number;
+  lng: number;
+  format: CoordinateFormat;
+}
+
+export interface ParseOptions {
+  /** Used to recover short plus codes such as "PX7V+4H". */
+  reference?: [number, number];
+}
+
+export class CoordinateParseError extends Error {
+  format: CoordinateFormat;
+
+  constructor(format: CoordinateFormat, message: string) {
+    super(message);
+    this.name = 'CoordinateParseError';
+    this.format = format;
+  }
+}
+
+const UTM_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:M?E)?\s*[,;\s]\s*(\d+(?:\.\d+)?)\s*(?:M?N)?$/;
+const MGRS_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d+)(?:\s+(\d+))?$/;
+const PLUS_CODE_ALPHABET = '23456789CFGHJMPQRVWX';
+const PLUS_CODE_PATTERN = /^[23456789CFGHJMPQRVWX0]{2,8}\+[23456789CFGHJMPQRVWX]*$/;
+const DEGREES_PATTERN = /^[\d\s.,;°'"+\-NSEW]+$/;
+
+function checkRange(format: CoordinateFormat, lat: number, lng: number): ParsedCoordinate {
+  if (Math.abs(lat) > 90) {
+    const hint = Math.abs(lng) <= 90 ? ' Did you swap latitude and longitude?' : '';
+    throw new CoordinateParseError(format, `Latitude ${lat} is out of range (must be between -90 and 90).${hint}`);
+  }
+  if (Math.abs(lng) > 180) {
+    throw new CoordinateParseError(format, `Longitude ${lng} is out of range (must be between -180 and 180).`);
+  }
+  return { lat, lng, format };
+}
+
+// ---- Decimal degrees and degrees/minutes/seconds ----
+
+interface AngleComponent {
+  values: number[];
+  negative: boolean;
+  hemisphere: string | null;
+}
+
+function splitComponents(tokens: string[]): string[][] | null {
+  const separatorIndex = tokens.findIndex((token) => token === ',' || token === ';');
+  if (separatorIndex !== -1) {
+    if (tokens.lastIndexOf(',') !== tokens.indexOf(',') || tokens.filter((t) => t === ';').length > 1) {
+      return null;
+    }
+    return [tokens.slice(0, separatorIndex), tokens.slice(separatorIndex + 1)];
+  }
+
+  const isNumber = (token: string) => /\d/.test(token);
+  const isHemisphere = (token: string) => /^[NSEW]$/.test(token);
+
+  // Hemisphere letters mark where one value ends (suffix style) or starts (prefix style)
+  const letterIndexes = tokens.map((t, i) => (isHemisphere(t) ? i : -1)).filter((i) => i !== -1);
+  if (letterIndexes.length === 2) {
+    if (letterIndexes[0] === 0) return [tokens.slice(0, letterIndexes[1]), tokens.slice(letterIndexes[1])];
+    return [tokens.slice(0, letterIndexes[0] + 1), tokens.slice(letterIndexes[0] + 1)];
+  }
+
+  // A second degree sign starts the second value
+  const degreeIndexes = tokens.map((t, i) => (t === '°' ? i : -1)).filter((i) => i !== -1);
+  if (degreeIndexes.length === 2) {
+    const start = degreeIndexes[1] - 1;
+    return [tokens.slice(0, start), tokens.slice(start)];
+  }
+
+  // Bare numbers split evenly: "lat lng", "d m d m" or "d m s d m s"
+  const numberIndexes = tokens.map((t, i) => (isNumber(t) ? i : -1)).filter((i) => i !== -1);
+  if (numberIndexes.length % 2 !== 0 || numberIndexes.length > 6) return null;
+  const start = numberIndexes[numberIndexes.length / 2];
+  return [tokens.slice(0, start), tokens.slice(start)];
+}
+
+function parseComponent(tokens: string[]): AngleComponent {
+  const numbers = tokens.filter((token) => /\d/.test(token));
+  const hemisphere = tokens.find((token) => /^[NSEW]$/.test(token)) || null;
+  const negative = numbers.length > 0 && numbers[0].startsWith('-');
+  return { values: numbers.map((n) => Math.abs(parseFloat(n))), negative, hemisphere };
+}
+
+function componentToDegrees({ values, negative, hemisphere }: AngleComponent): number {
+  const [degrees, minutes = 0, seconds = 0] = values;
+  if (values.length > 3) {
+    throw new CoordinateParseError('dms', 'Too many numbers in one coordinate value.');
+  }
+  if (values.slice(0, -1).some((v) => !Number.isInteger(v))) {
+    throw new CoordinateParseError('dms', 'Only the last part of a degrees/minutes/seconds value may have decimals.');
+  }
+  if (minutes >= 60 || seconds >= 60) {
+    throw new CoordinateParseError('dms', 'Minutes and seconds must be less than 60.');
+  }
+  if (negative && hemisphere) {
+    throw new CoordinateParseError(values.length > 1 ? 'dms' : 'decimal', 'Use either a minus sign or a hemisphere letter, not both.');
+  }
+
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return negative || hemisphere === 'S' || hemisphere === 'W' ? -value : value;
+}
+
+function parseDegrees(input: string): ParsedCoordinate | null {
+  if (!DEGREES_PATTERN.test(input)) return null;
+
+  const tokens = input.match(/[+-]?\d+(?:\.\d+)?|[NSEW]|[°'",;]/g) || [];
+  const numberCount = tokens.filter((token) => /\d/.test(token)).length;
+  if (numberCount < 2) return null;
+
+  const components = splitComponents(tokens);
+  const format: CoordinateFormat = numberCount > 2 ? 'dms' : 'decimal';
+  if (!components || components.some((component) => !component.some((t) => /\d/.test(t)))) {
+    throw new CoordinateParseError(format, 'Could not tell where the latitude ends and the longitude begins.');
+  }
+
+  const [first, second] = components.map(parseComponent);
+  let lat = componentToDegrees(first);
+  let lng = componentToDegrees(second);
+
+  // Hemisphere letters decide which value is which; otherwise latitude comes first
+  const axisOf = ({ hemisphere }: AngleComponent) =>
+    hemisphere ? (hemisphere === 'N' || hemisphere === 'S' ? 'lat' : 'lng') : null;
+  const firstAxis = axisOf(first);
+  const secondAxis = axisOf(second);
+  if (firstAxis && firstAxis === secondAxis) {
+    throw new CoordinateParseError(format, 'Expected one latitude (N/S) and one longitude (E/W).');
+  }
+  if (firstAxis === 'lng' || secondAxis === 'lat') {
+    [lat, lng] = [lng, lat];
+  }
+
+  return checkRange(format, lat, lng);
+}
+
+// ---- UTM and MGRS ----
+
+function bandMinimumLatitude(band: string) {
+  return -80 + LATITUDE_BANDS.indexOf(band) * 8;
+}
+
+function checkZone(format: CoordinateFormat, zone: number) {
+  if (zone < 1 || zone > 60) {
+    throw new CoordinateParseError(format, `UTM zone ${zone} does not exist (must be between 1 and 60).`);
+  }
+}
+
+function checkInBand(format: CoordinateFormat, band: string, lat: number) {
+  const min = bandMinimumLatitude(band);
+  const max = band === 'X' ? 84 : min + 8;
+  // Allow a little slack: positions right on a band edge are often written with the neighbouring band
+  if (lat < min - 0.5 || lat > max + 0.5) {
+    throw new CoordinateParseError(format, `Northing does not fall within latitude band ${band}.`);
+  }
+}
+
+function parseUtm(input: string): ParsedCoordinate | null {
+  const match = input.match(UTM_PATTERN);
+  if (!match) return null;
+
+  const zone = parseInt(match[1], 10);
+  const band = match[2];
+  const easting = parseFloat(match[3]);
+  const northing = parseFloat(match[4]);
+  checkZone('utm', zone);
+  if (easting < 100000 || easting > 900000) {
+    throw new CoordinateParseError('utm', `Easting ${easting} is out of range (must be between 100000 and 900000).`);
+  }
+  if (northing < 0 || northing > 10000000) {
+    throw new CoordinateParseError('utm', `Northing ${northing} is out of range (must be between 0 and 10000000).`);
+  }
+
+  const hemisphere = band >= 'N' ? 'N' : 'S';
+  const [lat, lng] = utmToLatLng({ zone, hemisphere, easting, northing });
+  checkInBand('utm', band, lat);
+  return checkRange('utm', lat, lng);
+}
+
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+function parseMgrs(input: string): ParsedCoordinate | null {
+  const match = input.replace(/\s+/g, ' ').match(MGRS_PATTERN);
+  if (!match) return null;
+
+  const zone = parseInt(match[1], 10);
+  const [, , band, columnLetter, rowLetter] = match;
+  checkZone('mgrs', zone);
+
+  const digits = match[5] + (match[6] ?? '');
+  if (match[6] && match[5].length !== match[6].length) {
+    throw new CoordinateParseError('mgrs', 'MGRS easting and northing must have the same number of digits.');
+  }
+  if (digits.length % 2 !== 0 || digits.length > 10) {
+    throw new CoordinateParseError('mgrs', 'MGRS grid digits must be an even count of at most 10.');
+  }
+
+  const columnIndex = MGRS_COLUMN_SETS[(zone - 1) % 3].indexOf(columnLetter);
+  if (columnIndex === -1) {
+    throw new CoordinateParseError('mgrs', `Column letter ${columnLetter} is not used in zone ${zone}.`);
+  }
+  // Even zones start their row lettering at F
+  const rowIndex = (MGRS_ROW_LETTERS.indexOf(rowLetter) - (zone % 2 === 0 ? 5 : 0) + 20) % 20;
+
+  const precision = digits.length / 2;
+  const scale = Math.pow(10, 5 - precision);
+  const withinSquare = (text: string) => (text ? parseInt(text, 10) * scale : 0) + scale / 2;
+  const easting = (columnIndex + 1) * 100000 + withinSquare(digits.slice(0, precision));
+
+  // Row letters repeat every 2000 km; pick the cycle that lands inside the latitude band
+  const hemisphere = band >= 'N' ? 'N' : 'S';
+  const bandNorthing = latLngToUtm(bandMinimumLatitude(band), centralMeridian(zone), zone).northing - 100000;
+  let northing = rowIndex * 100000 + withinSquare(digits.slice(precision));
+  while (northing < bandNorthing) northing += 2000000;
+
+  const [lat, lng] = utmToLatLng({ zone, hemisphere, easting, northing });
+  checkInBand('mgrs', band, lat);
+  return checkRange('mgrs', lat, lng);
+}
+
+// ---- Open Location Code (plus codes) ----
+
+function decodePlusCode(code: string): [number, number] {
+  let lat = -90;
+  let lng = -180;
+  let latResolution = 400;
+  let lngResolution = 400;
+  const digits = code.replace('+', '').replace(/0+$/, '');
+
+  for (let i = 0; i < Math.min(digits.length, 10); i += 2) {
+    latResolution /= 20;
+    lngResolution /= 20;
+    lat += PLUS_CODE_ALPHABET.indexOf(digits[i]) * latResolution;
+    lng += PLUS_CODE_ALPHABET.indexOf(digits[i + 1]) * lngResolution;
+  }
+  // Characters after the tenth refine a 4 x 5 grid
+  for (let i = 10; i < digits.length; i++) {
+    const index = PLUS_CODE_ALPHABET.indexOf(digits[i]);
+    latResolution /= 5;
+    lngResolution /= 4;
+    lat += Math.floor(index / 4) * latResolution;
+    lng += (index % 4) * lngResolution;
+  }
+
+  return [lat + latResolution / 2, lng + lngResolution / 2];
+}
+
+function encodePlusCodePrefix(lat: number, lng: number, length: number): string {
+  let code = '';
+  let latValue = Math.min(Math.max(lat + 90, 0), 179.999999);
+  let lngValue = (((lng + 180) % 360) + 360) % 360;
+  let resolution = 20;
+  while (code.length < length) {
+    const latDigit = Math.floor(latValue / resolution);
+    const lngDigit = Math.floor(lngValue / resolution);
+    latValue -= latDigit * resolution;
+    lngValue -= lngDigit * resolution;
+    code += PLUS_CODE_ALPHABET[latDigit] + PLUS_CODE_ALPHABET[lngDigit];
+    resolution /= 20;
+  }
+  return code;
+}
+
+function parsePlusCode(input: string, { reference }: ParseOptions): ParsedCoordinate | null {
+  if (!PLUS_CODE_PATTERN.test(input)) return null;
+
+  const separator = input.indexOf('+');
+  if (separator % 2 !== 0 || input.length - separator === 2) {
+    throw new CoordinateParseError('pluscode', 'Malformed plus code.');
+  }
+  const padding = input.indexOf('0');
+  if (padding !== -1 && (padding % 2 !== 0 || input.length > separator + 1 || !/^0+\+$/.test(input.slice(padding)))) {
+    throw new CoordinateParseError('pluscode', 'Malformed plus code padding.');
+  }
+
+  let code = input;
+  if (separator < 8) {
+    if (!reference) {
+      throw new CoordinateParseError('pluscode', 'Short plus codes need a full code or a nearby reference location.');
+    }
+    // Borrow the missing leading digits from the reference, then pick the nearest match
+    const missing = 8 - separator;
+    const resolution = Math.pow(20, 2 - missing / 2);
+    code = encodePlusCodePrefix(reference[0], reference[1], missing) + input;
+    let [lat, lng] = decodePlusCode(code);
+    if (reference[0] + resolution / 2 < lat && lat - resolution >= -90) lat -= resolution;
+    else if (reference[0] - resolution / 2 > lat && lat + resolution <= 90) lat += resolution;
+    if (reference[1] + resolution / 2 < lng) lng -= resolution;
+    else if (reference[1] - resolution / 2 > lng) lng += resolution;
+    return checkRange('pluscode', lat, ((lng + 540) % 360) - 180);
+  }
+
+  if (PLUS_CODE_ALPHABET.indexOf(code[0]) > 8 || PLUS_CODE_ALPHABET.indexOf(code[1]) > 17) {
+    throw new CoordinateParseError('pluscode', 'Plus code is outside the valid latitude/longitude range.');
+  }
+  const [lat, lng] = decodePlusCode(code);
+  return checkRange('pluscode', lat, lng);
+}
+
+/**
+ * Recognises decimal degrees, degrees/minutes/seconds, UTM, MGRS and plus
+ * codes. Returns null when the input does not look like coordinates at all
+ * (so it can be sent to a geocoder instead) and throws a CoordinateParseError
+ * when it does but cannot be used.
+ */
+export function parseCoordinates(input: string, options: ParseOptions = {}): ParsedCoordinate | null {
+  const normalized = input
+    .trim()
+    .toUpperCase()
+    .replace(/[′’‘]/g, "'")
+    .replace(/[″”“]|''/g, '"')
+    .replace(/º/g, '°');
+  if (!normalized) return null;
+
+  return (
+    parsePlusCode(normalized, options) ||
+    parseUtm(normalized) ||
+    parseMgrs(normalized) ||
+    parseDegrees(normalized)
+  );
+}
+
+/** Decimal degrees as the search box shows them, in a form parseCoordinates reads back. */
+export const formatCoordinates = (lat: number, lng: number) => `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
@@ -0,0 +1,115 @@
+// Helpers for the project extent shapes
+import { ExtentMetrics, ExtentShape, LatLngTuple, ProjectExtent } from '../types';
+import { destinationPoint, haversineDistance, latLngToOffset, offsetToLatLng } from './geodesy';
+import { findSelfIntersections, pathLength, pointInRing, ringArea, ringCentroid } from './geometry';
+
+export const DEFAULT_EXTENT_RADIUS = 1000;
+
+/** Corners of a rectangle in drawing order, starting south-west and going clockwise. */
+export function rectangleVertices([southWest, northEast]: [LatLngTuple, LatLngTuple]): LatLngTuple[] {
+  return [southWest, [northEast[0], southWest[1]], northEast, [southWest[0], northEast[1]]];
+}
+
+/** Normalises two arbitrary opposite corners into [south-west, north-east]. */
+export function boundsFromCorners(a: LatLngTuple, b: LatLngTuple): [LatLngTuple, LatLngTuple] {
+  return [
+    [Math.min(a[0], b[0]), Math.min(a[1], b[1])],
+    [Math.max(a[0], b[0]), Math.max(a[1], b[1])],
+  ];
+}
+
+/** Regular polygon approximating a geodesic circle, for formats without circles. */
+export function circleVertices(center: LatLngTuple, radius: number, segments = 64): LatLngTuple[] {
+  return Array.from({ length: segments }, (_, i) => destinationPoint(center, (i * 360) / segments, radius));
+}
+
+/** Outline of a rectangle or polygon extent; circles have none. */
+export function extentVertices(shape: ExtentShape): LatLngTuple[] {
+  if (shape.type === 'rectangle') return rectangleVertices(shape.bounds);
+  if (shape.type === 'polygon') return shape.vertices;
+  return [];
+}
+
+export function extentCenter(shape: ExtentShape): LatLngTuple {
+  if (shape.type === 'circle') return shape.center;
+  return ringCentroid(extentVertices(shape));
+}
+
+/** Moves a shape so its center lands on `center`, keeping its size on the ground. */
+export function moveExtent(shape: ExtentShape, center: LatLngTuple): ExtentShape {
+  if (shape.type === 'circle') return { ...shape, center };
+  const origin = extentCenter(shape);
+  const move = (point: LatLngTuple): LatLngTuple => {
+    const [east, north] = latLngToOffset(origin, point);
+    return offsetToLatLng(center, east, north);
+  };
+  if (shape.type === 'rectangle') {
+    return { type: 'rectangle', bounds: boundsFromCorners(move(shape.bounds[0]), move(shape.bounds[1])) };
+  }
+  return { type: 'polygon', vertices: shape.vertices.map(move) };
+}
+
+export function extentMetrics(shape: ExtentShape): ExtentMetrics {
+  if (shape.type === 'circle') {
+    return {
+      center: shape.center,
+      area: Math.PI * shape.radius * shape.radius,
+      perimeter: 2 * Math.PI * shape.radius,
+    };
+  }
+  const vertices = extentVertices(shape);
+  return { center: ringCentroid(vertices), area: ringArea(vertices), perimeter: pathLength(vertices, true) };
+}
+
+/** Drops the metrics from a result's extent, leaving the editable shape. */
+export function toExtentShape(extent: ProjectExtent): ExtentShape {
+  if (extent.type === 'circle') return { type: 'circle', center: extent.center, radius: extent.radius };
+  if (extent.type === 'rectangle') return { type: 'rectangle', bounds: extent.bounds };
+  return { type: 'polygon', vertices: extent.vertices };
+}
+
+export function toProjectExtent(shape: ExtentShape): ProjectExtent {
+  return { ...shape, ...extentMetrics(shape) };
+}
+
+/** Describes why an extent cannot be used yet, or returns null when it is fine. */
+export function extentProblem(shape: ExtentShape): string | null {
+  if (shape.type === 'polygon') {
+    if (shape.vertices.length < 3) return 'A polygon needs at least three vertices.';
+    if (findSelfIntersections(shape.vertices).length > 0) {
+      return 'The outline crosses itself. Move or delete a vertex to fix it.';
+    }
+  }
+  if (shape.type === 'rectangle') {
+    const [southWest, northEast] = shape.bounds;
+    if (southWest[0] === northEast[0] || southWest[1] === northEast[1]) {
+      return 'The rectangle has no area.';
+    }
+  }
+  return null;
+}
+
+/** Whether a point lies inside (or on the edge of) an extent. */
+export function pointInExtent(point: LatLngTuple, shape: ExtentShape): boolean {
+  if (shape.type === 'circle') return haversineDistance(shape.center, point) <= shape.radius;
+  return pointInRing(point, extentVertices(shape));
+}
+
+/** Distance in metres from a point to the nearest part of an extent's outline. */
+export function distanceToExtentEdge(point: LatLngTuple, shape: ExtentShape): number {
+  if (shape.type === 'circle') return Math.abs(shape.radius - haversineDistance(shape.center, point));
+
+  // Work in metres around the point; parcels are small enough for a flat approximation
+  const ring = extentVertices(shape).map((vertex) => latLngToOffset(point, vertex));
+  let nearest = Infinity;
+  for (let i = 0; i < ring.length; i++) {
+    const [ax, ay] = ring[i];
+    const [bx, by] = ring[(i + 1) % ring.length];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+    nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return nearest;
+}
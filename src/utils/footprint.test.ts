@@ -0,0 +1,69 @@
+import { footprintCorners, isRectangleOutline, outlineSize, parseFootprintOutline, rectangleOutline } from './footprint';
+import { latLngToOffset } from './geodesy';
+import { LatLngTuple } from '../types';
+
+const anchor: LatLngTuple = [40.7128, -74.006];
+
+describe('footprint', () => {
+  test('rectangleOutline is centred on the anchor', () => {
+    expect(outlineSize(rectangleOutline(20, 30))).toEqual({ width: 20, depth: 30 });
+  });
+
+  test('isRectangleOutline tells the sized rectangle from other outlines', () => {
+    expect(isRectangleOutline(rectangleOutline(20, 30))).toBe(true);
+    expect(isRectangleOutline([...rectangleOutline(20, 30)].reverse())).toBe(true);
+    expect(
+      isRectangleOutline([
+        [0, 0],
+        [10, 0],
+        [10, 5],
+        [0, 5],
+      ])
+    ).toBe(false);
+    expect(
+      isRectangleOutline([
+        [-10, -15],
+        [-10, 15],
+        [10, 15],
+      ])
+    ).toBe(false);
+  });
+
+  test('footprintCorners rotates clockwise around the anchor', () => {
+    // A 90° rotation turns the north-east corner of a 20 x 30 rectangle to the south-east
+    const [, , northEast] = footprintCorners(anchor, rectangleOutline(20, 30), 90);
+    const [east, north] = latLngToOffset(anchor, northEast);
+    expect(east).toBeCloseTo(15, 3);
+    expect(north).toBeCloseTo(-10, 3);
+  });
+
+  test('parses x,y offsets with a header row', () => {
+    const outline = parseFootprintOutline('x,y\n0,0\n10,0\n10,5\n0,0', 'outline.csv');
+    expect(outline).toEqual([
+      [0, 0],
+      [10, 0],
+      [10, 5],
+    ]);
+  });
+
+  test('parses a GeoJSON polygon into metres around its centroid', () => {
+    const geojson = {
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[0, 0], [0.001, 0], [0.001, 0.001], [0, 0.001], [0, 0]]],
+      },
+    };
+    const outline = parseFootprintOutline(JSON.stringify(geojson), 'site.geojson');
+    const { width, depth } = outlineSize(outline);
+    expect(outline).toHaveLength(4);
+    expect(width).toBeCloseTo(111.2, 0);
+    expect(depth).toBeCloseTo(111.2, 0);
+  });
+
+  test('rejects outlines that are too short or malformed', () => {
+    expect(() => parseFootprintOutline('0,0\n1,1')).toThrow(/at least three/);
+    expect(() => parseFootprintOutline('0,0\n1,1\nfoo')).toThrow(/Line 3/);
+    expect(() => parseFootprintOutline('{"type":"Point"}', 'a.json')).toThrow(/No polygon/);
+  });
+});
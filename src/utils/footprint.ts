@@ -0,0 +1,149 @@
+// Building footprint outlines and their placement on the map
+import { BuildingFootprint, LatLngTuple, LocalPoint } from '../types';
+import { latLngToOffset, offsetToLatLng } from './geodesy';
+import { ringCentroid } from './geometry';
+
+export const DEFAULT_BUILDING_WIDTH = 20;
+export const DEFAULT_BUILDING_DEPTH = 30;
+
+export class FootprintParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FootprintParseError';
+  }
+}
+
+/** Rectangle of the given size centred on the anchor, listed clockwise from the south-west corner. */
+export function rectangleOutline(width: number, depth: number): LocalPoint[] {
+  const x = width / 2;
+  const y = depth / 2;
+  return [
+    [-x, -y],
+    [-x, y],
+    [x, y],
+    [x, -y],
+  ];
+}
+
+// Whether an outline is the centred rectangle the width and depth fields make, in any vertex order
+export function isRectangleOutline(outline: LocalPoint[]): boolean {
+  const { width, depth } = outlineSize(outline);
+  const corners = rectangleOutline(width, depth);
+  const close = ([x1, y1]: LocalPoint, [x2, y2]: LocalPoint) => Math.abs(x1 - x2) < 1e-6 && Math.abs(y1 - y2) < 1e-6;
+  return outline.length === 4 && corners.every((corner) => outline.some((point) => close(point, corner)));
+}
+
+export function outlineSize(outline: LocalPoint[]): { width: number; depth: number } {
+  const xs = outline.map(([x]) => x);
+  const ys = outline.map(([, y]) => y);
+  return { width: Math.max(...xs) - Math.min(...xs), depth: Math.max(...ys) - Math.min(...ys) };
+}
+
+/** Rotates a local point clockwise by `rotation` degrees, matching a compass bearing. */
+export function rotateLocal([x, y]: LocalPoint, rotation: number): LocalPoint {
+  const theta = (rotation * Math.PI) / 180;
+  return [x * Math.cos(theta) + y * Math.sin(theta), -x * Math.sin(theta) + y * Math.cos(theta)];
+}
+
+export function footprintCorners(anchor: LatLngTuple, outline: LocalPoint[], rotation: number): LatLngTuple[] {
+  return outline.map((point) => {
+    const [east, north] = rotateLocal(point, rotation);
+    return offsetToLatLng(anchor, east, north);
+  });
+}
+
+/** Recovers the unrotated outline from placed corners, the inverse of footprintCorners. */
+export function outlineFromCorners(anchor: LatLngTuple, corners: LatLngTuple[], rotation: number): LocalPoint[] {
+  return corners.map((corner) => rotateLocal(latLngToOffset(anchor, corner), -rotation));
+}
+
+export function toBuildingFootprint(anchor: LatLngTuple, outline: LocalPoint[], rotation: number): BuildingFootprint {
+  return { outline, ...outlineSize(outline), corners: footprintCorners(anchor, outline, rotation) };
+}
+
+function dropClosingVertex<T extends [number, number]>(ring: T[]): T[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const firstItem = (value: unknown): unknown => (Array.isArray(value) ? value[0] : undefined);
+
+// [lng, lat] positions of a ring, or null when it is not an array of them
+function readPositions(value: unknown): [number, number][] | null {
+  if (!Array.isArray(value)) return null;
+  const positions: [number, number][] = [];
+  for (const position of value) {
+    if (!Array.isArray(position) || typeof position[0] !== 'number' || typeof position[1] !== 'number') return null;
+    positions.push([position[0], position[1]]);
+  }
+  return positions;
+}
+
+function firstPolygonRing(geojson: unknown): [number, number][] | null {
+  if (!isRecord(geojson)) return null;
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      for (const feature of Array.isArray(geojson.features) ? geojson.features : []) {
+        const ring = firstPolygonRing(feature);
+        if (ring) return ring;
+      }
+      return null;
+    case 'Feature':
+      return firstPolygonRing(geojson.geometry);
+    case 'Polygon':
+      return readPositions(firstItem(geojson.coordinates));
+    case 'MultiPolygon':
+      return readPositions(firstItem(firstItem(geojson.coordinates)));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads an uploaded footprint. GeoJSON polygons (longitude/latitude) are
+ * re-centred on their centroid; CSV or plain-text files list "x,y" offsets in
+ * metres from the anchor, one vertex per line.
+ */
+export function parseFootprintOutline(text: string, fileName = ''): LocalPoint[] {
+  let outline: LocalPoint[];
+
+  if (/\.(geo)?json$/i.test(fileName) || text.trim().startsWith('{')) {
+    let geojson: unknown;
+    try {
+      geojson = JSON.parse(text);
+    } catch (error) {
+      throw new FootprintParseError('The file is not valid JSON.');
+    }
+    const ring = firstPolygonRing(geojson);
+    if (!ring) throw new FootprintParseError('No polygon found in the GeoJSON file.');
+
+    const latLngs = dropClosingVertex(ring.map(([lng, lat]) => [lat, lng] as LatLngTuple));
+    const centroid = ringCentroid(latLngs);
+    outline = latLngs.map((point) => latLngToOffset(centroid, point));
+  } else {
+    const rows = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'));
+    outline = [];
+    rows.forEach((row, index) => {
+      const values = row.split(/[\s,;]+/).map(Number);
+      if (values.length < 2 || values.slice(0, 2).some(isNaN)) {
+        // Tolerate a header row
+        if (index === 0) return;
+        throw new FootprintParseError(`Line ${index + 1} is not an "x,y" pair.`);
+      }
+      outline.push([values[0], values[1]]);
+    });
+    outline = dropClosingVertex(outline);
+  }
+
+  if (outline.length < 3) {
+    throw new FootprintParseError('A footprint needs at least three vertices.');
+  }
+  return outline;
+}
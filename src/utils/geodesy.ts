@@ -0,0 +1,63 @@
+// Geodesic helpers shared across the wizard
+
+export const EARTH_RADIUS_M = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Great-circle distance in metres between two [lat, lng] points. */
+export function haversineDistance(a: [number, number], b: [number, number]): number {
+  const dLat = toRadians(b[0] - a[0]);
+  const dLng = toRadians(b[1] - a[1]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Initial great-circle bearing from a to b, in degrees clockwise from north (0–360). */
+export function initialBearing(a: [number, number], b: [number, number]): number {
+  const phi1 = toRadians(a[0]);
+  const phi2 = toRadians(b[0]);
+  const dLng = toRadians(b[1] - a[1]);
+  const y = Math.sin(dLng) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/** Point reached by travelling `distance` metres from `origin` along `bearing` degrees. */
+export function destinationPoint(origin: [number, number], bearing: number, distance: number): [number, number] {
+  const delta = distance / EARTH_RADIUS_M;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(origin[0]);
+  const lambda1 = toRadians(origin[1]);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+    );
+
+  return [toDegrees(phi2), ((toDegrees(lambda2) + 540) % 360) - 180];
+}
+
+/**
+ * Moves `origin` by metres east and north using a local flat-earth
+ * approximation, which is accurate to centimetres over a building footprint.
+ */
+export function offsetToLatLng(origin: [number, number], east: number, north: number): [number, number] {
+  const lat = origin[0] + toDegrees(north / EARTH_RADIUS_M);
+  const lng = origin[1] + toDegrees(east / (EARTH_RADIUS_M * Math.cos(toRadians(origin[0]))));
+  return [lat, lng];
+}
+
+/** Inverse of offsetToLatLng: metres [east, north] from `origin` to `point`. */
+export function latLngToOffset(origin: [number, number], point: [number, number]): [number, number] {
+  const north = toRadians(point[0] - origin[0]) * EARTH_RADIUS_M;
+  const east = toRadians(point[1] - origin[1]) * EARTH_RADIUS_M * Math.cos(toRadians(origin[0]));
+  return [east, north];
+}
@@ -0,0 +1,40 @@
+import { findSelfIntersections, pathLength, ringArea, ringCentroid } from './geometry';
+import { LatLngTuple } from '../types';
+
+const square: LatLngTuple[] = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+];
+
+describe('geometry', () => {
+  test('ringArea matches the spherical area of a one-degree cell', () => {
+    expect(ringArea(square) / 1.23637e10).toBeCloseTo(1, 3);
+    expect(ringArea([...square].reverse())).toBeCloseTo(ringArea(square));
+    expect(ringArea(square.slice(0, 2))).toBe(0);
+  });
+
+  test('pathLength optionally closes the ring', () => {
+    const side = 111195;
+    expect(pathLength(square) / (3 * side)).toBeCloseTo(1, 2);
+    expect(pathLength(square, true) / (4 * side)).toBeCloseTo(1, 2);
+  });
+
+  test('ringCentroid finds the middle of a square', () => {
+    const [lat, lng] = ringCentroid(square);
+    expect(lat).toBeCloseTo(0.5);
+    expect(lng).toBeCloseTo(0.5);
+  });
+
+  test('findSelfIntersections detects a bow tie', () => {
+    const bowTie: LatLngTuple[] = [
+      [0, 0],
+      [1, 1],
+      [1, 0],
+      [0, 1],
+    ];
+    expect(findSelfIntersections(square)).toEqual([]);
+    expect(findSelfIntersections(bowTie)).toEqual([[0, 2]]);
+  });
+});
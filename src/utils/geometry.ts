@@ -0,0 +1,111 @@
+// Planar and geodesic geometry on [lat, lng] rings
+import { LatLngTuple } from '../types';
+import { EARTH_RADIUS_M, haversineDistance } from './geodesy';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Geodesic area of a ring in square metres, using the spherical excess
+ * approximation from Chamberlain & Duquette (2007).
+ */
+export function ringArea(vertices: LatLngTuple[]): number {
+  if (vertices.length < 3) return 0;
+  let total = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const [lat1, lng1] = vertices[i];
+    const [lat2, lng2] = vertices[(i + 1) % vertices.length];
+    total += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+/** Length of a path in metres, optionally closing it back to the first vertex. */
+export function pathLength(vertices: LatLngTuple[], closed = false): number {
+  let total = 0;
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    total += haversineDistance(vertices[i], vertices[(i + 1) % vertices.length]);
+  }
+  return total;
+}
+
+/** Area-weighted centroid of a ring, falling back to the vertex average for degenerate rings. */
+export function ringCentroid(vertices: LatLngTuple[]): LatLngTuple {
+  let area = 0;
+  let lat = 0;
+  let lng = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const [y1, x1] = vertices[i];
+    const [y2, x2] = vertices[(i + 1) % vertices.length];
+    const cross = x1 * y2 - x2 * y1;
+    area += cross;
+    lat += (y1 + y2) * cross;
+    lng += (x1 + x2) * cross;
+  }
+  if (Math.abs(area) < 1e-12) {
+    const sum = vertices.reduce((acc, [y, x]) => [acc[0] + y, acc[1] + x], [0, 0]);
+    return [sum[0] / vertices.length, sum[1] / vertices.length];
+  }
+  return [lat / (3 * area), lng / (3 * area)];
+}
+
+/** Ray-casting point-in-polygon test; points on the boundary may fall either way. */
+export function pointInRing([lat, lng]: LatLngTuple, vertices: LatLngTuple[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [latI, lngI] = vertices[i];
+    const [latJ, lngJ] = vertices[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const orientation = (a: LatLngTuple, b: LatLngTuple, c: LatLngTuple) => {
+  const value = (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1]);
+  return Math.abs(value) < 1e-15 ? 0 : Math.sign(value);
+};
+
+const onSegment = (a: LatLngTuple, b: LatLngTuple, p: LatLngTuple) =>
+  Math.min(a[0], b[0]) <= p[0] &&
+  p[0] <= Math.max(a[0], b[0]) &&
+  Math.min(a[1], b[1]) <= p[1] &&
+  p[1] <= Math.max(a[1], b[1]);
+
+/** True when segments ab and cd touch or cross. */
+export function segmentsIntersect(a: LatLngTuple, b: LatLngTuple, c: LatLngTuple, d: LatLngTuple): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (
+    (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b))
+  );
+}
+
+/**
+ * Pairs of edge indices that cross in a closed ring. Edge i runs from
+ * vertex i to vertex i + 1; neighbouring edges are not compared.
+ */
+export function findSelfIntersections(vertices: LatLngTuple[]): [number, number][] {
+  const count = vertices.length;
+  const crossings: [number, number][] = [];
+  if (count < 4) return crossings;
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 2; j < count; j++) {
+      // The first and last edges share vertex 0
+      if (i === 0 && j === count - 1) continue;
+      if (segmentsIntersect(vertices[i], vertices[i + 1], vertices[j], vertices[(j + 1) % count])) {
+        crossings.push([i, j]);
+      }
+    }
+  }
+  return crossings;
+}
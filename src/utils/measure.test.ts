@@ -0,0 +1,35 @@
+import { LatLngTuple } from '../types';
+import { offsetToLatLng } from './geodesy';
+import { formatBearing, measurePath } from './measure';
+
+const origin: LatLngTuple = [51.5074, -0.1278];
+// A 30 × 40 m lot, walked clockwise from its south-west corner
+const lot: LatLngTuple[] = [origin, offsetToLatLng(origin, 0, 40), offsetToLatLng(origin, 30, 40), offsetToLatLng(origin, 30, 0)];
+
+describe('measurePath', () => {
+  test('measures each leg of a path with its bearing', () => {
+    const { segments, length, area } = measurePath(lot.slice(0, 3), 'distance');
+    expect(segments.map((segment) => Math.round(segment.length * 10) / 10)).toEqual([40, 30]);
+    expect(segments[0].bearing).toBeCloseTo(0, 3);
+    expect(segments[1].bearing).toBeCloseTo(90, 3);
+    expect(length).toBeCloseTo(70, 1);
+    expect(area).toBeNull();
+  });
+
+  test('closes an area and measures what it encloses', () => {
+    const { segments, length, area } = measurePath(lot, 'area');
+    expect(segments).toHaveLength(4);
+    expect(segments[3].bearing).toBeCloseTo(270, 3);
+    expect(length).toBeCloseTo(140, 1);
+    expect(area).toBeCloseTo(1200, -1);
+    expect(measurePath(lot.slice(0, 2), 'area')).toMatchObject({ segments: [expect.anything()], area: null });
+    expect(measurePath([], 'area')).toEqual({ segments: [], length: 0, area: null });
+  });
+});
+
+test('formatBearing names the nearest compass point', () => {
+  expect(formatBearing(47.54)).toBe('47.5° NE');
+  expect(formatBearing(359.98)).toBe('0.0° N');
+  expect(formatBearing(191.2)).toBe('191.2° S');
+  expect(formatBearing(200)).toBe('200.0° SSW');
+});
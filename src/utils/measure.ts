@@ -0,0 +1,51 @@
+// Distances, bearings and areas along a path the user measures on the map
+import { LatLngTuple } from '../types';
+import { compassPoint } from './angles';
+import { haversineDistance, initialBearing } from './geodesy';
+import { ringArea } from './geometry';
+
+/** Distance measures a path; area also closes it back to its first point and measures what it encloses. */
+export type MeasureMode = 'distance' | 'area';
+
+export interface MeasuredSegment {
+  from: LatLngTuple;
+  to: LatLngTuple;
+  /** Great-circle length in metres. */
+  length: number;
+  /** Initial bearing from `from` to `to`, in degrees clockwise from north. */
+  bearing: number;
+}
+
+export interface Measurement {
+  segments: MeasuredSegment[];
+  /** Total length in metres, the perimeter in area mode. */
+  length: number;
+  /** Enclosed geodesic area in square metres, or null until an area has three points. */
+  area: number | null;
+}
+
+const measureSegment = (from: LatLngTuple, to: LatLngTuple): MeasuredSegment => ({
+  from,
+  to,
+  length: haversineDistance(from, to),
+  bearing: initialBearing(from, to),
+});
+
+/** Measures the points in order; in area mode a ring of three or more is closed and its area measured. */
+export function measurePath(points: LatLngTuple[], mode: MeasureMode): Measurement {
+  const closed = mode === 'area' && points.length >= 3;
+  const ends = closed ? [...points, points[0]] : points;
+  const segments = ends.slice(1).map((to, i) => measureSegment(ends[i], to));
+  return {
+    segments,
+    length: segments.reduce((total, { length }) => total + length, 0),
+    area: closed ? ringArea(points) : null,
+  };
+}
+
+/** A bearing to a tenth of a degree with the nearest of the 16 compass points, e.g. "47.5° NE". */
+export function formatBearing(bearing: number): string {
+  const rounded = Math.round(bearing * 10) / 10;
+  const degrees = rounded >= 360 ? 0 : rounded;
+  return `${degrees.toFixed(1)}° ${compassPoint(degrees)}`;
+}
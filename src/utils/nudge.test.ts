@@ -0,0 +1,31 @@
+import { NUDGE_PIXELS, metresPerPixel, nudgeOffset, rotationNudge } from './nudge';
+
+const key = (name: string, modifiers: { shiftKey?: boolean; altKey?: boolean } = {}) => ({
+  key: name,
+  shiftKey: false,
+  altKey: false,
+  ...modifiers,
+});
+
+describe('nudge', () => {
+  test('a pixel covers about 156 km at zoom 0 on the equator, halving with each zoom level', () => {
+    expect(metresPerPixel(0, 0)).toBeCloseTo(156543.03, 1);
+    expect(metresPerPixel(0, 18)).toBeCloseTo(0.597, 3);
+    expect(metresPerPixel(60, 18)).toBeCloseTo(0.299, 3);
+  });
+
+  test('arrow keys move east and north, further with Shift and less with Alt', () => {
+    expect(nudgeOffset(key('ArrowUp'), 2)).toEqual([0, NUDGE_PIXELS.normal * 2]);
+    expect(nudgeOffset(key('ArrowLeft', { shiftKey: true }), 2)).toEqual([-NUDGE_PIXELS.coarse * 2, 0]);
+    expect(nudgeOffset(key('ArrowDown', { altKey: true }), 2)).toEqual([0, -NUDGE_PIXELS.fine * 2]);
+    expect(nudgeOffset(key('Enter'), 2)).toBeNull();
+  });
+
+  test('brackets rotate by the snap step, with or without Shift turning them into braces', () => {
+    expect(rotationNudge(key(']'), 15)).toBe(15);
+    expect(rotationNudge(key('['), 5)).toBe(-5);
+    expect(rotationNudge(key('}', { shiftKey: true }), 15)).toBe(45);
+    expect(rotationNudge(key('[', { altKey: true }), 15)).toBe(-1);
+    expect(rotationNudge(key('r'), 15)).toBeNull();
+  });
+});
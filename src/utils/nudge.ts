@@ -0,0 +1,47 @@
+// Keyboard steps for moving and rotating features. Moves are sized in screen pixels, so a step looks the same at any zoom.
+
+/** Screen pixels per arrow key press: with Alt, plain, and with Shift. */
+export const NUDGE_PIXELS = { fine: 1, normal: 10, coarse: 50 };
+
+/** Degrees per [ or ] press with Shift; plain presses use the rotation snap and Alt turns by 1°. */
+export const COARSE_ROTATION_STEP = 45;
+
+// Equatorial radius of the spherical Web Mercator projection the basemaps use
+const WEB_MERCATOR_RADIUS_M = 6378137;
+const TILE_SIZE = 256;
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowUp: [0, 1],
+  ArrowDown: [0, -1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+
+const ROTATION_KEYS: Record<string, number> = { ']': 1, '}': 1, '[': -1, '{': -1 };
+
+type NudgeKey = Pick<KeyboardEvent, 'key' | 'shiftKey' | 'altKey'>;
+
+const stepSize = ({ shiftKey, altKey }: NudgeKey) =>
+  altKey ? NUDGE_PIXELS.fine : shiftKey ? NUDGE_PIXELS.coarse : NUDGE_PIXELS.normal;
+
+/** Ground distance in metres covered by one screen pixel at this latitude and zoom. */
+export function metresPerPixel(latitude: number, zoom: number): number {
+  return (2 * Math.PI * WEB_MERCATOR_RADIUS_M * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * 2 ** zoom);
+}
+
+/** Metres [east, north] to move for an arrow key, or null for any other key. */
+export function nudgeOffset(event: NudgeKey, metresPerStep: number): [number, number] | null {
+  const direction = ARROW_DIRECTIONS[event.key];
+  if (!direction) return null;
+  const distance = stepSize(event) * metresPerStep;
+  return [direction[0] * distance, direction[1] * distance];
+}
+
+/** Clockwise degrees to turn for ] (or counterclockwise for [), or null for any other key. */
+export function rotationNudge(event: NudgeKey, snap: number): number | null {
+  // Shift turns the brackets into braces on most layouts
+  const sign = ROTATION_KEYS[event.key] ?? 0;
+  if (sign === 0) return null;
+  const step = event.altKey ? 1 : event.shiftKey ? COARSE_ROTATION_STEP : snap;
+  return sign * step;
+}
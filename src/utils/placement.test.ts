@@ -0,0 +1,53 @@
+import { suggestUtmCrs } from '../crs';
+import { LatLngTuple, WizardResult } from '../types';
+import { rectangleOutline } from './footprint';
+import { EMPTY_PLACEMENT, Placement, createBuilding, placementFromResult, placementPoints, resultFromPlacement } from './placement';
+
+const project: LatLngTuple = [51.5074, -0.1278];
+const crs = suggestUtmCrs(project[0], project[1]);
+
+const placed: Placement = {
+  projectLocation: project,
+  projectExtent: { type: 'circle', center: project, radius: 300 },
+  buildings: [
+    { id: 'building-1', name: 'Main hall', location: [51.5076, -0.1275], rotation: 45, outline: rectangleOutline(12, 18) },
+  ],
+  sitePlan: null,
+  interactionMode: 'center',
+};
+
+describe('placement', () => {
+  test('round-trips through a wizard result', () => {
+    const result = resultFromPlacement(placed, crs);
+    expect(result.projectExtent).toMatchObject({ type: 'circle', radius: 300, area: Math.PI * 300 * 300 });
+    expect(result.buildings).toEqual([expect.objectContaining({ id: 'building-1', name: 'Main hall', rotation: 45 })]);
+    expect(result.buildingFootprint).toMatchObject({ width: 12, depth: 18 });
+    expect(result.projected?.crs.code).toBe(32630);
+    expect(placementFromResult(result)).toEqual(placed);
+  });
+
+  test('keeps the default outline while no building is placed', () => {
+    const result = resultFromPlacement({ ...placed, buildings: [{ ...placed.buildings[0], location: null }] }, crs);
+    expect(result.buildingFootprint).toBeNull();
+    expect(placementFromResult(result).buildings[0].outline).toBe(EMPTY_PLACEMENT.buildings[0].outline);
+  });
+
+  test('reads results from before the building list', () => {
+    const legacy = { ...resultFromPlacement(placed, crs), buildings: undefined } as unknown as WizardResult;
+    const [building] = placementFromResult(legacy).buildings;
+    expect(building).toMatchObject({ id: 'building-1', name: 'Building 1', rotation: 45 });
+  });
+
+  test('new buildings get the first free id', () => {
+    const first = createBuilding([]);
+    const third = { ...first, id: 'building-3' };
+    expect(createBuilding([first])).toMatchObject({ id: 'building-2', name: 'Building 2', location: null });
+    expect(createBuilding([first, third])).toMatchObject({ id: 'building-4' });
+  });
+
+  test('placementPoints covers the extent and the footprint', () => {
+    expect(placementPoints(EMPTY_PLACEMENT)).toEqual([]);
+    // Project, 16 points around the circle and 4 footprint corners
+    expect(placementPoints(placed)).toHaveLength(21);
+  });
+});
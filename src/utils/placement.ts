@@ -0,0 +1,126 @@
+// The editable wizard state, and conversion to and from the WizardResult it produces
+import { CrsDefinition, projectResult } from '../crs';
+import { planCorners } from '../siteplan/plan';
+import { SitePlan } from '../siteplan/types';
+import { ExtentShape, LatLngTuple, LocalPoint, ProjectBuilding, WizardResult } from '../types';
+import { circleVertices, extentVertices, toExtentShape, toProjectExtent } from './extent';
+import { DEFAULT_BUILDING_DEPTH, DEFAULT_BUILDING_WIDTH, rectangleOutline, toBuildingFootprint } from './footprint';
+
+export type InteractionMode = 'drag' | 'center';
+
+export interface BuildingPlacement {
+  /** Stays the same through edits, undo and saved drafts. */
+  id: string;
+  name: string;
+  location: LatLngTuple | null;
+  /** Degrees clockwise from north. */
+  rotation: number;
+  /** Footprint in metres around the building location, kept even before the building is placed. */
+  outline: LocalPoint[];
+}
+
+export interface Placement {
+  projectLocation: LatLngTuple | null;
+  projectExtent: ExtentShape | null;
+  /** Never empty: the last building cannot be removed, only unplaced. */
+  buildings: BuildingPlacement[];
+  /** The image itself is not part of the placement, only its size, control points and transform. */
+  sitePlan: SitePlan | null;
+  interactionMode: InteractionMode;
+}
+
+export const DEFAULT_OUTLINE = rectangleOutline(DEFAULT_BUILDING_WIDTH, DEFAULT_BUILDING_DEPTH);
+
+/**
+ * An unplaced building with the first free "building-N" id and a matching
+ * name. Ids are never reused while the building that has one is in the list.
+ */
+export function createBuilding(existing: BuildingPlacement[], outline = DEFAULT_OUTLINE): BuildingPlacement {
+  const taken = new Set(existing.map((building) => building.id));
+  let number = existing.length + 1;
+  while (taken.has(`building-${number}`)) number++;
+  return { id: `building-${number}`, name: `Building ${number}`, location: null, rotation: 0, outline };
+}
+
+export const EMPTY_PLACEMENT: Placement = {
+  projectLocation: null,
+  projectExtent: null,
+  buildings: [createBuilding([])],
+  sitePlan: null,
+  interactionMode: 'drag',
+};
+
+// Results saved before the building list have only the single building fields
+function buildingsFromResult(result: WizardResult): BuildingPlacement[] {
+  const buildings: ProjectBuilding[] = result.buildings ?? [
+    {
+      id: 'building-1',
+      name: 'Building 1',
+      location: result.buildingLocation,
+      rotation: result.buildingRotation,
+      footprint: result.buildingFootprint,
+    },
+  ];
+  if (buildings.length === 0) return EMPTY_PLACEMENT.buildings;
+  return buildings.map(({ id, name, location, rotation, footprint }) => ({
+    id,
+    name,
+    location,
+    rotation,
+    outline: footprint?.outline || DEFAULT_OUTLINE,
+  }));
+}
+
+export function placementFromResult(result: WizardResult): Placement {
+  return {
+    projectLocation: result.projectLocation,
+    projectExtent: result.projectExtent && toExtentShape(result.projectExtent),
+    buildings: buildingsFromResult(result),
+    sitePlan: result.sitePlan ?? null,
+    interactionMode: result.interactionMode === 'center' ? 'center' : 'drag',
+  };
+}
+
+/** Builds the result for a placement; `projected` stays null without a CRS. */
+export function resultFromPlacement(placement: Placement, crs: CrsDefinition | null): WizardResult {
+  const { projectLocation, projectExtent, sitePlan, interactionMode } = placement;
+  const buildings = placement.buildings.map(
+    ({ id, name, location, rotation, outline }): ProjectBuilding => ({
+      id,
+      name,
+      location,
+      rotation,
+      footprint: location && toBuildingFootprint(location, outline, rotation),
+    })
+  );
+  const [first] = buildings;
+  const result: WizardResult = {
+    projectLocation,
+    projectExtent: projectExtent && toProjectExtent(projectExtent),
+    buildings,
+    buildingLocation: first.location,
+    buildingRotation: first.rotation,
+    buildingFootprint: first.footprint,
+    interactionMode,
+    sitePlan,
+    projected: null,
+  };
+  return { ...result, projected: crs && projectResult(result, crs) };
+}
+
+/** Every point that should be in view when the placement is shown. */
+export function placementPoints(placement: Placement): LatLngTuple[] {
+  const { projectLocation, projectExtent, buildings, sitePlan } = placement;
+  const points: LatLngTuple[] = [];
+  if (projectLocation) points.push(projectLocation);
+  if (projectExtent?.type === 'circle') {
+    points.push(...circleVertices(projectExtent.center, projectExtent.radius, 16));
+  } else if (projectExtent) {
+    points.push(...extentVertices(projectExtent));
+  }
+  for (const { location, outline, rotation } of buildings) {
+    if (location) points.push(...toBuildingFootprint(location, outline, rotation).corners);
+  }
+  if (sitePlan) points.push(...planCorners(sitePlan));
+  return points;
+}
@@ -0,0 +1,170 @@
+// Conformal map projections on the WGS84 ellipsoid (transverse Mercator and Lambert conformal conic)
+
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const E = Math.sqrt(E2);
+const EP2 = E2 / (1 - E2);
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export interface TransverseMercatorParams {
+  /** Latitude of origin in degrees. */
+  lat0: number;
+  /** Central meridian in degrees. */
+  lon0: number;
+  /** Scale factor on the central meridian. */
+  k0: number;
+  /** False easting and northing in metres. */
+  falseEasting: number;
+  falseNorthing: number;
+}
+
+export interface LambertConformalConicParams {
+  lat0: number;
+  lon0: number;
+  /** Standard parallels in degrees. */
+  lat1: number;
+  lat2: number;
+  falseEasting: number;
+  falseNorthing: number;
+}
+
+/** Easting and northing in metres. */
+export type ProjectedXY = [number, number];
+
+// Meridian arc length from the equator
+const meridianArc = (phi: number) =>
+  A *
+  ((1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256) * phi -
+    ((3 * E2) / 8 + (3 * E2 ** 2) / 32 + (45 * E2 ** 3) / 1024) * Math.sin(2 * phi) +
+    ((15 * E2 ** 2) / 256 + (45 * E2 ** 3) / 1024) * Math.sin(4 * phi) -
+    ((35 * E2 ** 3) / 3072) * Math.sin(6 * phi));
+
+/** Projects [lat, lng] with a transverse Mercator projection (Snyder's series). */
+export function transverseMercatorForward(lat: number, lng: number, params: TransverseMercatorParams): ProjectedXY {
+  const { lat0, lon0, k0, falseEasting, falseNorthing } = params;
+  const phi = toRadians(lat);
+  const lambda = toRadians(lng - lon0);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = A / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * lambda;
+
+  const easting =
+    k0 * n * (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120) +
+    falseEasting;
+  const northing =
+    k0 *
+      (meridianArc(phi) -
+        meridianArc(toRadians(lat0)) +
+        n *
+          tanPhi *
+          ((a * a) / 2 +
+            ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+            ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720)) +
+    falseNorthing;
+
+  return [easting, northing];
+}
+
+/** Inverse of transverseMercatorForward, returning [lat, lng]. */
+export function transverseMercatorInverse(easting: number, northing: number, params: TransverseMercatorParams): [number, number] {
+  const { lat0, lon0, k0, falseEasting, falseNorthing } = params;
+  const x = easting - falseEasting;
+  const m = meridianArc(toRadians(lat0)) + (northing - falseNorthing) / k0;
+
+  const mu = m / (A * (1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+  const n1 = A / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const t1 = tanPhi1 * tanPhi1;
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const r1 = (A * (1 - E2)) / Math.pow(1 - E2 * sinPhi1 * sinPhi1, 1.5);
+  const d = x / (n1 * k0);
+
+  const lat =
+    phi1 -
+    ((n1 * tanPhi1) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6) / 720);
+  const lng =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) / 120) /
+    cosPhi1;
+
+  return [toDegrees(lat), lon0 + toDegrees(lng)];
+}
+
+const lccM = (phi: number) => Math.cos(phi) / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+
+const lccT = (phi: number) => {
+  const eSin = E * Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - eSin) / (1 + eSin), E / 2);
+};
+
+// Cone constant, mapping constant and radius at the origin latitude
+function lccConstants({ lat0, lat1, lat2 }: LambertConformalConicParams) {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const m1 = lccM(phi1);
+  const t1 = lccT(phi1);
+  const n =
+    Math.abs(lat1 - lat2) < 1e-10
+      ? Math.sin(phi1)
+      : (Math.log(m1) - Math.log(lccM(phi2))) / (Math.log(t1) - Math.log(lccT(phi2)));
+  const f = m1 / (n * Math.pow(t1, n));
+  const rho0 = A * f * Math.pow(lccT(toRadians(lat0)), n);
+  return { n, f, rho0 };
+}
+
+/** Projects [lat, lng] with a two-standard-parallel Lambert conformal conic projection. */
+export function lambertConformalConicForward(lat: number, lng: number, params: LambertConformalConicParams): ProjectedXY {
+  const { n, f, rho0 } = lccConstants(params);
+  const rho = A * f * Math.pow(lccT(toRadians(lat)), n);
+  const theta = n * toRadians(lng - params.lon0);
+  return [params.falseEasting + rho * Math.sin(theta), params.falseNorthing + rho0 - rho * Math.cos(theta)];
+}
+
+/** Inverse of lambertConformalConicForward, returning [lat, lng]. */
+export function lambertConformalConicInverse(
+  easting: number,
+  northing: number,
+  params: LambertConformalConicParams
+): [number, number] {
+  const { n, f, rho0 } = lccConstants(params);
+  const x = easting - params.falseEasting;
+  const y = rho0 - (northing - params.falseNorthing);
+  const sign = Math.sign(n);
+  const rho = sign * Math.hypot(x, y);
+  const theta = Math.atan2(sign * x, sign * y);
+  const t = Math.pow(rho / (A * f), 1 / n);
+
+  // Latitude has no closed form; a few fixed-point iterations converge well below a millimetre
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < 10; i++) {
+    const eSin = E * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(t * Math.pow((1 - eSin) / (1 + eSin), E / 2));
+    const done = Math.abs(next - phi) < 1e-12;
+    phi = next;
+    if (done) break;
+  }
+
+  return [toDegrees(phi), params.lon0 + toDegrees(theta / n)];
+}
@@ -0,0 +1,48 @@
+// Length units and formatting of lengths and areas for display
+
+export type LengthUnit = 'm' | 'ft' | 'km' | 'mi';
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; metres: number }> = {
+  m: { label: 'm', metres: 1 },
+  ft: { label: 'ft', metres: 0.3048 },
+  km: { label: 'km', metres: 1000 },
+  mi: { label: 'mi', metres: 1609.344 },
+};
+
+export const isImperial = (unit: LengthUnit) => unit === 'ft' || unit === 'mi';
+
+export const toMetres = (value: number, unit: LengthUnit) => value * LENGTH_UNITS[unit].metres;
+
+export const fromMetres = (metres: number, unit: LengthUnit) => metres / LENGTH_UNITS[unit].metres;
+
+/** Rounds to a precision that suits the unit: whole metres/feet, thousandths of km/mi. */
+export function roundForUnit(value: number, unit: LengthUnit): number {
+  const factor = unit === 'm' || unit === 'ft' ? 1 : 1000;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Formats a length. Without a unit, metric lengths switch from metres to
+ * kilometres automatically; with one, that unit is used as-is.
+ */
+export function formatLength(metres: number, unit?: LengthUnit): string {
+  if (!unit) {
+    if (metres >= 1000) return `${(metres / 1000).toFixed(2)} km`;
+    return `${metres.toFixed(metres < 10 ? 1 : 0)} m`;
+  }
+  const value = fromMetres(metres, unit);
+  return `${value.toFixed(unit === 'm' || unit === 'ft' ? 0 : 2)} ${LENGTH_UNITS[unit].label}`;
+}
+
+/** Formats an area in metric (m², ha, km²) or imperial (ft², ac, mi²) depending on the length unit. */
+export function formatArea(squareMetres: number, unit?: LengthUnit): string {
+  if (unit && isImperial(unit)) {
+    const squareFeet = squareMetres / (0.3048 * 0.3048);
+    if (squareFeet >= 27878400) return `${(squareFeet / 27878400).toFixed(2)} mi²`;
+    if (squareFeet >= 43560) return `${(squareFeet / 43560).toFixed(2)} ac`;
+    return `${squareFeet.toFixed(0)} ft²`;
+  }
+  if (squareMetres >= 1000000) return `${(squareMetres / 1000000).toFixed(2)} km²`;
+  if (squareMetres >= 10000) return `${(squareMetres / 10000).toFixed(2)} ha`;
+  return `${squareMetres.toFixed(0)} m²`;
+}
@@ -0,0 +1,55 @@
+// Universal Transverse Mercator conversions on the WGS84 ellipsoid
+import { TransverseMercatorParams, transverseMercatorForward, transverseMercatorInverse } from './projection';
+
+const K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+export const LATITUDE_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+export interface UtmCoordinate {
+  zone: number;
+  hemisphere: 'N' | 'S';
+  easting: number;
+  northing: number;
+}
+
+export const centralMeridian = (zone: number) => (zone - 1) * 6 - 180 + 3;
+
+/** Transverse Mercator parameters of a UTM zone. */
+export const utmParams = (zone: number, hemisphere: 'N' | 'S'): TransverseMercatorParams => ({
+  lat0: 0,
+  lon0: centralMeridian(zone),
+  k0: K0,
+  falseEasting: FALSE_EASTING,
+  falseNorthing: hemisphere === 'S' ? FALSE_NORTHING_SOUTH : 0,
+});
+
+/** Standard UTM zone for a point, including the Norway and Svalbard exceptions. */
+export function utmZoneFor(lat: number, lng: number): number {
+  let zone = Math.floor((lng + 180) / 6) + 1;
+  if (zone > 60) zone = 60;
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) zone = 32;
+  if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+    zone = lng < 9 ? 31 : lng < 21 ? 33 : lng < 33 ? 35 : 37;
+  }
+  return zone;
+}
+
+/** Latitude band letter (C–X) for latitudes between -80 and 84, otherwise null. */
+export function latitudeBand(lat: number): string | null {
+  if (lat < -80 || lat > 84) return null;
+  return LATITUDE_BANDS[Math.min(Math.floor((lat + 80) / 8), LATITUDE_BANDS.length - 1)];
+}
+
+/** Converts a WGS84 point to UTM. The zone defaults to the standard zone for the point. */
+export function latLngToUtm(lat: number, lng: number, zone = utmZoneFor(lat, lng)): UtmCoordinate {
+  const hemisphere = lat < 0 ? 'S' : 'N';
+  const [easting, northing] = transverseMercatorForward(lat, lng, utmParams(zone, hemisphere));
+  return { zone, hemisphere, easting, northing };
+}
+
+/** Converts a UTM coordinate back to WGS84 [lat, lng]. */
+export function utmToLatLng({ zone, hemisphere, easting, northing }: UtmCoordinate): [number, number] {
+  return transverseMercatorInverse(easting, northing, utmParams(zone, hemisphere));
+}
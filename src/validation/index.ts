@@ -0,0 +1,12 @@
+export * from './types';
+export {
+  EDGE_CLEARANCE_M,
+  allowedCountries,
+  buildingInsideExtent,
+  defaultValidators,
+  issuesForStep,
+  maxExtentArea,
+  projectInsideExtent,
+  runSyncValidators,
+  runValidators,
+} from './rules';
@@ -0,0 +1,128 @@
+import { createMemoryProvider } from '../geocoding';
+import { toBuildingFootprint, rectangleOutline } from '../utils/footprint';
+import { destinationPoint } from '../utils/geodesy';
+import { toProjectExtent } from '../utils/extent';
+import { LatLngTuple } from '../types';
+import { ValidationContext, ValidationIssue } from './types';
+import {
+  allowedCountries,
+  buildingInsideExtent,
+  issuesForStep,
+  maxExtentArea,
+  projectInsideExtent,
+  runValidators,
+} from './rules';
+
+const center: LatLngTuple = [40.7128, -74.006];
+
+const context = (overrides: Partial<ValidationContext> = {}): ValidationContext => ({
+  currentStep: 2,
+  currentStepId: 'building',
+  projectLocation: center,
+  projectExtent: toProjectExtent({ type: 'circle', center, radius: 100 }),
+  buildings: [{ id: 'building-1', name: 'Building 1', location: null, rotation: 0, footprint: null }],
+  buildingLocation: null,
+  buildingRotation: 0,
+  buildingFootprint: null,
+  interactionMode: 'drag',
+  sitePlan: null,
+  projected: null,
+  ...overrides,
+});
+
+const building = (id: string, location: LatLngTuple, width = 20, depth = 20) => ({
+  id,
+  name: id,
+  location,
+  rotation: 0,
+  footprint: toBuildingFootprint(location, rectangleOutline(width, depth), 0),
+});
+
+const withBuilding = (location: LatLngTuple) => context({ buildings: [building('building-1', location)] });
+
+describe('validation rules', () => {
+  test('projectInsideExtent flags a project outside its extent', () => {
+    expect(projectInsideExtent(context())).toBeNull();
+    const outside = context({ projectLocation: destinationPoint(center, 0, 500) });
+    expect(projectInsideExtent(outside)).toMatchObject({ id: 'project-outside-extent', severity: 'error', step: 'extent' });
+  });
+
+  test('buildingInsideExtent distinguishes outside, crossing and near-edge footprints', () => {
+    expect(buildingInsideExtent(withBuilding(center))).toEqual([]);
+    expect(buildingInsideExtent(withBuilding(destinationPoint(center, 90, 1000)))).toEqual([
+      expect.objectContaining({ id: 'building-outside-extent:building-1', message: 'The building is outside the project extent.' }),
+    ]);
+    expect(buildingInsideExtent(withBuilding(destinationPoint(center, 90, 95)))).toEqual([
+      expect.objectContaining({ id: 'building-crosses-extent:building-1' }),
+    ]);
+    expect(buildingInsideExtent(withBuilding(destinationPoint(center, 90, 87)))).toEqual([
+      expect.objectContaining({ id: 'building-near-extent-edge:building-1', severity: 'warning' }),
+    ]);
+  });
+
+  test('buildingInsideExtent checks each building and names it', () => {
+    const buildings = [building('Hall', center), building('Shed', destinationPoint(center, 90, 1000))];
+    expect(buildingInsideExtent(context({ buildings }))).toEqual([
+      expect.objectContaining({ id: 'building-outside-extent:Shed', message: 'Shed is outside the project extent.' }),
+    ]);
+  });
+
+  test('maxExtentArea rejects large extents', () => {
+    expect(maxExtentArea(50000)(context())).toBeNull();
+    expect(maxExtentArea(10000)(context())).toMatchObject({ id: 'extent-too-large' });
+  });
+
+  test('allowedCountries checks the reverse-geocoded country', async () => {
+    const geocoder = createMemoryProvider([{ id: 'nyc', label: 'New York', lat: center[0], lng: center[1], countryCode: 'us' }]);
+    expect(await allowedCountries(['US'], geocoder)(context())).toBeNull();
+    expect(await allowedCountries(['CA'], geocoder)(context())).toMatchObject({ id: 'country-not-allowed' });
+  });
+
+  test('allowedCountries looks a location up only once', async () => {
+    const geocoder = createMemoryProvider([{ id: 'nyc', label: 'New York', lat: center[0], lng: center[1], countryCode: 'us' }]);
+    const reverse = jest.spyOn(geocoder, 'reverse');
+    const validate = allowedCountries(['US'], geocoder);
+    await validate(context());
+    await validate(context({ currentStep: 1, currentStepId: 'extent' }));
+    expect(reverse).toHaveBeenCalledTimes(1);
+    await validate(context({ projectLocation: [40.72, -74.0] }));
+    expect(reverse).toHaveBeenCalledTimes(2);
+  });
+
+  test('runValidators turns failing rules into warnings', async () => {
+    const issues = await runValidators(
+      [
+        () => {
+          throw new Error('boom');
+        },
+        maxExtentArea(10000),
+      ],
+      context()
+    );
+    expect(issues.map((issue) => issue.severity)).toEqual(['warning', 'error']);
+  });
+
+  test('issuesForStep hides later-step issues and sorts errors first', () => {
+    const issues = issuesForStep(
+      [
+        { id: 'a', severity: 'warning', message: 'a' },
+        { id: 'b', severity: 'error', message: 'b', step: 2 },
+        { id: 'c', severity: 'error', message: 'c', step: 1 },
+      ],
+      1,
+      ['location', 'extent', 'building']
+    );
+    expect(issues.map((issue) => issue.id)).toEqual(['c', 'a']);
+  });
+
+  test('issuesForStep places issues by step id in the running pipeline', () => {
+    const issues: ValidationIssue[] = [
+      { id: 'extent', severity: 'error', message: 'extent', step: 'extent' },
+      { id: 'elevation', severity: 'error', message: 'elevation', step: 'elevation' },
+    ];
+    expect(issuesForStep(issues, 0, ['extent', 'location', 'building']).map((issue) => issue.id)).toEqual(['extent']);
+    // A step that is not running counts as the last one
+    expect(issuesForStep(issues, 1, ['location', 'extent', 'building']).map((issue) => issue.id)).toEqual(['extent']);
+    expect(issuesForStep(issues, 2, ['location', 'extent', 'building'])).toHaveLength(2);
+  });
+});
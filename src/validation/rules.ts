@@ -0,0 +1,160 @@
+// Built-in geometric rules and factories for common host rules
+import { GeocodeResult, GeocodingProvider } from '../geocoding';
+import { ProjectBuilding, ProjectExtent } from '../types';
+import { distanceToExtentEdge, pointInExtent } from '../utils/extent';
+import { formatArea, formatLength } from '../utils/units';
+import { ValidationContext, ValidationIssue, Validator } from './types';
+
+const EXTENT_STEP = 'extent';
+const BUILDING_STEP = 'building';
+
+/** Footprints closer than this to the extent edge get a warning. */
+export const EDGE_CLEARANCE_M = 5;
+
+/** The project point must sit inside its own extent. */
+export const projectInsideExtent: Validator = ({ projectLocation, projectExtent }) => {
+  if (!projectLocation || !projectExtent || pointInExtent(projectLocation, projectExtent)) return null;
+  return {
+    id: 'project-outside-extent',
+    severity: 'error',
+    message: 'The project location is outside the project extent.',
+    location: projectLocation,
+    step: EXTENT_STEP,
+  };
+};
+
+// Containment of one building; issue ids carry the building id, since every building can have its own
+function buildingIssue({ id, name, location, footprint }: ProjectBuilding, extent: ProjectExtent, named: boolean): ValidationIssue | null {
+  if (!location) return null;
+  const subject = named ? name : 'The building';
+  const corners = footprint?.corners.length ? footprint.corners : [location];
+  const outside = corners.filter((corner) => !pointInExtent(corner, extent));
+  if (outside.length === corners.length) {
+    return {
+      id: `building-outside-extent:${id}`,
+      severity: 'error',
+      message: `${subject} is outside the project extent.`,
+      location,
+      step: BUILDING_STEP,
+    };
+  }
+  if (outside.length > 0) {
+    return {
+      id: `building-crosses-extent:${id}`,
+      severity: 'error',
+      message: `${named ? `Part of the footprint of ${name}` : 'Part of the building footprint'} extends beyond the project extent.`,
+      location: outside[0],
+      step: BUILDING_STEP,
+    };
+  }
+
+  const clearance = Math.min(...corners.map((corner) => distanceToExtentEdge(corner, extent)));
+  if (clearance < EDGE_CLEARANCE_M) {
+    return {
+      id: `building-near-extent-edge:${id}`,
+      severity: 'warning',
+      message: `${subject} is only ${formatLength(clearance)} from the edge of the project extent.`,
+      location,
+      step: BUILDING_STEP,
+    };
+  }
+  return null;
+}
+
+/** Every footprint corner of every building must be inside the extent; corners close to the edge get a warning. */
+export const buildingInsideExtent: Validator = ({ buildings, projectExtent }) => {
+  if (!projectExtent) return null;
+  // With one building, messages need not say which
+  const named = buildings.length > 1;
+  return buildings.flatMap((building) => buildingIssue(building, projectExtent, named) ?? []);
+};
+
+export const defaultValidators: Validator[] = [projectInsideExtent, buildingInsideExtent];
+
+/** Rejects extents larger than `maxArea` square metres. */
+export function maxExtentArea(maxArea: number): Validator {
+  return ({ projectExtent }) =>
+    projectExtent && projectExtent.area > maxArea
+      ? {
+          id: 'extent-too-large',
+          severity: 'error',
+          message: `The project extent is ${formatArea(projectExtent.area)}; the maximum is ${formatArea(maxArea)}.`,
+          location: projectExtent.center,
+          step: EXTENT_STEP,
+        }
+      : null;
+}
+
+/**
+ * Requires the project location to be in one of the given countries, checked
+ * by reverse geocoding. Codes are ISO 3166-1 alpha-2, in any case.
+ */
+export function allowedCountries(countryCodes: string[], geocoder: GeocodingProvider): Validator {
+  const allowed = countryCodes.map((code) => code.toLowerCase());
+  // Validation reruns on every edit; only a move of the project location needs a new lookup
+  let last: { key: string; place: Promise<GeocodeResult | null> } | null = null;
+  return async ({ projectLocation }) => {
+    if (!projectLocation) return null;
+    const key = projectLocation.join(',');
+    if (last?.key !== key) {
+      const lookup = { key, place: geocoder.reverse(projectLocation[0], projectLocation[1]) };
+      last = lookup;
+      // A failed lookup is tried again next time rather than remembered
+      lookup.place.catch(() => {
+        if (last === lookup) last = null;
+      });
+    }
+    const place = await last.place;
+    if (place?.countryCode && allowed.includes(place.countryCode.toLowerCase())) return null;
+    return {
+      id: 'country-not-allowed',
+      severity: 'error',
+      message: place?.countryCode
+        ? `Projects in ${place.countryCode.toUpperCase()} are not supported here.`
+        : 'Could not confirm which country the project is in.',
+      location: projectLocation,
+      step: 'location',
+    };
+  };
+}
+
+/** Runs rules and flattens their output. A rule that throws becomes a warning rather than breaking the wizard. */
+export async function runValidators(validators: Validator[], context: ValidationContext): Promise<ValidationIssue[]> {
+  const outputs = await Promise.all(
+    validators.map(async (validator, index) => {
+      try {
+        return await validator(context);
+      } catch (error) {
+        return {
+          id: `validator-failed-${index}`,
+          severity: 'warning' as const,
+          message: `A validation rule could not run: ${(error as Error).message}`,
+        };
+      }
+    })
+  );
+  return outputs.flatMap((output) => (output ? ([] as ValidationIssue[]).concat(output) : []));
+}
+
+/** Synchronous counterpart of runValidators for rules known not to return promises. */
+export function runSyncValidators(validators: Validator[], context: ValidationContext): ValidationIssue[] {
+  return validators.flatMap((validator) => {
+    const output = validator(context);
+    if (!output || output instanceof Promise) return [];
+    return ([] as ValidationIssue[]).concat(output);
+  });
+}
+
+// Position of an issue's first step in the running pipeline
+function stepIndex({ step = 0 }: ValidationIssue, stepIds: string[]): number {
+  if (typeof step === 'number') return step;
+  const index = stepIds.indexOf(step);
+  return index < 0 ? stepIds.length - 1 : index;
+}
+
+/** Issues that apply at `step` of the pipeline with these step ids, errors first. */
+export function issuesForStep(issues: ValidationIssue[], step: number, stepIds: string[]): ValidationIssue[] {
+  return issues
+    .filter((issue) => stepIndex(issue, stepIds) <= step)
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
@@ -0,0 +1,31 @@
+// Types for wizard validation rules
+import { LatLngTuple, WizardResult } from '../types';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  /** Stable identifier, used as a React key and for de-duplication. */
+  id: string;
+  /** Errors block moving on; warnings are informational. */
+  severity: ValidationSeverity;
+  message: string;
+  /** Where to flag the issue on the map, if anywhere. */
+  location?: LatLngTuple;
+  /**
+   * First step the issue applies to, as a step id or a 0-based index. It is
+   * shown and, for errors, blocks progress from that step onwards. Defaults
+   * to the first step; an id the wizard is not running means the last one.
+   */
+  step?: number | string;
+}
+
+/** Everything a rule can look at: the result so far plus the step the user is on. */
+export interface ValidationContext extends WizardResult {
+  currentStep: number;
+  currentStepId: string;
+}
+
+type ValidatorOutput = ValidationIssue | ValidationIssue[] | null | undefined;
+
+/** A validation rule. Rules may be asynchronous, for example when they need a geocoder. */
+export type Validator = (context: ValidationContext) => ValidatorOutput | Promise<ValidatorOutput>;
@@ -0,0 +1,31 @@
+import { LatLngTuple } from '../types';
+import { rectangleOutline } from '../utils/footprint';
+import { EMPTY_PLACEMENT, Placement } from '../utils/placement';
+import { describePlacementChange } from './announcements';
+
+const project: LatLngTuple = [51.5074, -0.1278];
+const located: Placement = { ...EMPTY_PLACEMENT, projectLocation: project };
+
+describe('describePlacementChange', () => {
+  test('describes each changed part in plain language', () => {
+    expect(describePlacementChange(EMPTY_PLACEMENT, located)).toBe('Project location set to 51.507400, -0.127800.');
+    expect(
+      describePlacementChange(located, { ...located, projectExtent: { type: 'circle', center: project, radius: 100 } })
+    ).toBe('Project extent is a circle with a radius of 100 m, covering 3.14 ha, centred on 51.507400, -0.127800.');
+    const [building] = located.buildings;
+    expect(
+      describePlacementChange(located, {
+        ...located,
+        buildings: [{ ...building, rotation: 45, outline: rectangleOutline(12, 18) }],
+      })
+    ).toBe('Building 1 rotated to 45° clockwise from north. Building 1 footprint is 12 m wide and 18 m deep.');
+    expect(
+      describePlacementChange(located, { ...located, buildings: [{ ...building, name: 'Hall' }, { ...building, id: 'b2', name: 'Shed' }] })
+    ).toBe('Building 1 renamed to Hall. Shed added.');
+    expect(describePlacementChange(located, EMPTY_PLACEMENT)).toBe('Project location removed.');
+  });
+
+  test('stays quiet when only preferences change', () => {
+    expect(describePlacementChange(located, { ...located, interactionMode: 'center' })).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+// Plain-language descriptions of edits, for screen reader announcements
+import { MIN_CONTROL_POINTS, SitePlan } from '../siteplan';
+import { ExtentShape, LatLngTuple } from '../types';
+import { formatCoordinates } from '../utils/coordinateParser';
+import { extentMetrics } from '../utils/extent';
+import { outlineSize } from '../utils/footprint';
+import { latLngToOffset } from '../utils/geodesy';
+import { BuildingPlacement, Placement } from '../utils/placement';
+import { formatArea, formatLength } from '../utils/units';
+
+// Controlled hosts rebuild the placement on every change, so compare values rather than references
+const changed = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+
+const describePoint = ([lat, lng]: LatLngTuple) => formatCoordinates(lat, lng);
+
+function describeExtent(shape: ExtentShape): string {
+  const { center, area } = extentMetrics(shape);
+  const covering = `covering ${formatArea(area)}, centred on ${describePoint(center)}`;
+  if (shape.type === 'circle') {
+    return `Project extent is a circle with a radius of ${formatLength(shape.radius)}, ${covering}.`;
+  }
+  if (shape.type === 'rectangle') {
+    const [southWest, northEast] = shape.bounds;
+    const [width, height] = latLngToOffset(southWest, northEast);
+    return `Project extent is a rectangle ${formatLength(width)} wide and ${formatLength(height)} tall, ${covering}.`;
+  }
+  return `Project extent is a polygon with ${shape.vertices.length} corners, ${covering}.`;
+}
+
+function describeBuildingChange(previous: BuildingPlacement, next: BuildingPlacement): string[] {
+  const { name } = next;
+  const messages: string[] = [];
+  if (next.name !== previous.name) messages.push(`${previous.name} renamed to ${name}.`);
+  if (changed(next.location, previous.location)) {
+    messages.push(next.location ? `${name} placed at ${describePoint(next.location)}.` : `${name} unplaced.`);
+  }
+  if (next.rotation !== previous.rotation) {
+    messages.push(`${name} rotated to ${Math.round(next.rotation * 10) / 10}° clockwise from north.`);
+  }
+  if (changed(next.outline, previous.outline)) {
+    const { width, depth } = outlineSize(next.outline);
+    messages.push(`${name} footprint is ${formatLength(width)} wide and ${formatLength(depth)} deep.`);
+  }
+  return messages;
+}
+
+function describeSitePlanChange(previous: SitePlan | null, next: SitePlan | null): string | null {
+  if (!next) return previous && 'Site plan removed.';
+  if (!previous || previous.name !== next.name) return `Site plan ${next.name} added; pick control points to align it.`;
+  if (!changed(next.controlPoints, previous.controlPoints) && next.model === previous.model) return null;
+  const count = next.controlPoints.length;
+  const { rmsError, model } = next.transform;
+  if (rmsError === null) {
+    const needed = MIN_CONTROL_POINTS[next.model] - count;
+    return needed > 0
+      ? `Site plan has ${count} control point${count === 1 ? '' : 's'}; ${needed} more needed to align it.`
+      : 'Site plan control points are too close together, or in a line, to align it.';
+  }
+  return `Site plan aligned to ${count} control points with a ${model} fit, off by ${formatLength(rmsError)} on average.`;
+}
+
+/** Describes what changed between two placements, or returns null if nothing a user would notice did. */
+export function describePlacementChange(previous: Placement, next: Placement): string | null {
+  const messages: string[] = [];
+  if (changed(next.projectLocation, previous.projectLocation)) {
+    messages.push(
+      next.projectLocation ? `Project location set to ${describePoint(next.projectLocation)}.` : 'Project location removed.'
+    );
+  }
+  if (changed(next.projectExtent, previous.projectExtent)) {
+    messages.push(next.projectExtent ? describeExtent(next.projectExtent) : 'Project extent removed.');
+  }
+  for (const building of next.buildings) {
+    const before = previous.buildings.find(({ id }) => id === building.id);
+    if (before) messages.push(...describeBuildingChange(before, building));
+    else messages.push(`${building.name} added.`);
+  }
+  for (const { id, name } of previous.buildings) {
+    if (!next.buildings.some((building) => building.id === id)) messages.push(`${name} removed.`);
+  }
+  const sitePlan = describeSitePlanChange(previous.sitePlan, next.sitePlan);
+  if (sitePlan) messages.push(sitePlan);
+  return messages.length > 0 ? messages.join(' ') : null;
+}
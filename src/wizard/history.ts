@@ -0,0 +1,72 @@
+// Undo and redo for the wizard state
+import { WizardAction, WizardSnapshot, WizardState } from './types';
+
+/** Older steps are dropped beyond this many. */
+export const HISTORY_LIMIT = 100;
+
+// Drags, typing, panning and held arrow keys send these in quick bursts; repeats this close together are one undo step
+const MERGED_EDITS: WizardAction['type'][] = [
+  'setProjectExtent',
+  'setBuildingRotation',
+  'setBuildingOutline',
+  'placeAtCenter',
+  'nudge',
+  'setStepValue',
+  'renameBuilding',
+  'moveControlPoint',
+];
+const MERGE_WINDOW_MS = 500;
+
+// Preferences, the address label and which building is selected are not edits of the site
+const UNRECORDED_EDITS: WizardAction['type'][] = ['setInteractionMode', 'setCrs', 'setSearchAddress', 'selectBuilding'];
+
+const snapshot = ({ step, placement, extentDrawMode, extentDraft, searchAddress, stepValues }: WizardState): WizardSnapshot => ({
+  step,
+  placement,
+  extentDrawMode,
+  extentDraft,
+  searchAddress,
+  stepValues,
+});
+
+// The interaction mode is a preference, so it stays as the user last set it
+const restore = (state: WizardState, { placement, ...rest }: WizardSnapshot): WizardState => ({
+  ...state,
+  ...rest,
+  placement: { ...placement, interactionMode: state.placement.interactionMode },
+  lastEdit: null,
+});
+
+export function undo(state: WizardState): WizardState {
+  const { past, future } = state;
+  if (past.length === 0) return state;
+  return {
+    ...restore(state, past[past.length - 1]),
+    past: past.slice(0, -1),
+    future: [...future, snapshot(state)],
+  };
+}
+
+export function redo(state: WizardState): WizardState {
+  const { past, future } = state;
+  if (future.length === 0) return state;
+  return {
+    ...restore(state, future[future.length - 1]),
+    past: [...past, snapshot(state)],
+    future: future.slice(0, -1),
+  };
+}
+
+/** Adds `previous` to the undo history if `action` changed anything worth undoing. */
+export function recordEdit(previous: WizardState, next: WizardState, action: WizardAction, time: number): WizardState {
+  if (next === previous || UNRECORDED_EDITS.includes(action.type)) return next;
+  const { lastEdit } = previous;
+  const merged =
+    MERGED_EDITS.includes(action.type) && lastEdit?.type === action.type && time - lastEdit.time < MERGE_WINDOW_MS;
+  return {
+    ...next,
+    past: merged ? previous.past : [...previous.past, snapshot(previous)].slice(-HISTORY_LIMIT),
+    future: [],
+    lastEdit: { type: action.type, time },
+  };
+}
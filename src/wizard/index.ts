@@ -0,0 +1,5 @@
+export * from './types';
+export { activeFeature, createWizardState, currentStepId, isStepComplete, selectedBuilding, wizardReducer } from './reducer';
+export { DEFAULT_STEPS, isBuiltInStep, resolveSteps } from './steps';
+export { describePlacementChange } from './announcements';
+export * from './useGeolocationWizard';
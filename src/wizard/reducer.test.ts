@@ -0,0 +1,378 @@
+import { placeSitePlan } from '../siteplan';
+import { LatLngTuple } from '../types';
+import { EMPTY_PLACEMENT } from '../utils/placement';
+import { createWizardState, currentStepId, isStepComplete, selectedBuilding, wizardReducer } from './reducer';
+import { resolveSteps } from './steps';
+import { CustomStep, WizardAction, WizardState } from './types';
+
+const project: LatLngTuple = [51.5074, -0.1278];
+
+const run = (state: WizardState, ...actions: WizardAction[]) =>
+  actions.reduce((current, action) => wizardReducer(current, action), state);
+
+describe('wizardReducer', () => {
+  const start = createWizardState({ defaultRadius: 250 });
+
+  test('a click places whatever the current step is about', () => {
+    const located = run(start, { type: 'placePoint', point: project });
+    expect(located.placement.projectLocation).toEqual(project);
+    expect(located.step).toBe(0);
+
+    const onExtent = run(located, { type: 'next' });
+    expect(onExtent.step).toBe(1);
+    expect(onExtent.placement.projectExtent).toEqual({ type: 'circle', center: project, radius: 250 });
+
+    const building: LatLngTuple = [51.5076, -0.1275];
+    const onBuilding = run(onExtent, { type: 'next' }, { type: 'placePoint', point: building });
+    expect(onBuilding.step).toBe(2);
+    expect(onBuilding.placement.buildings[0].location).toEqual(building);
+  });
+
+  test('does not advance past an incomplete step', () => {
+    expect(isStepComplete(start)).toBe(false);
+    expect(wizardReducer(start, { type: 'next' })).toBe(start);
+    expect(wizardReducer(start, { type: 'previous' })).toBe(start);
+  });
+
+  test('moving the circle keeps its radius', () => {
+    const state = run(
+      start,
+      { type: 'placePoint', point: project },
+      { type: 'next' },
+      { type: 'setProjectExtent', extent: { type: 'circle', center: project, radius: 800 } },
+      { type: 'placePoint', point: [51.51, -0.12] }
+    );
+    expect(state.placement.projectExtent).toEqual({ type: 'circle', center: [51.51, -0.12], radius: 800 });
+  });
+
+  test('picking circle again keeps the radius and is not an undo step', () => {
+    const sized = run(
+      start,
+      { type: 'placePoint', point: project },
+      { type: 'next' },
+      { type: 'setProjectExtent', extent: { type: 'circle', center: project, radius: 800 } }
+    );
+    expect(wizardReducer(sized, { type: 'setExtentDrawMode', mode: 'circle' })).toBe(sized);
+  });
+
+  test('switching to circle keeps the radius of a circular extent', () => {
+    const state = run(
+      start,
+      { type: 'placePoint', point: project },
+      { type: 'next' },
+      { type: 'setExtentDrawMode', mode: 'polygon' },
+      // e.g. an imported site
+      { type: 'setProjectExtent', extent: { type: 'circle', center: project, radius: 800 } },
+      { type: 'setExtentDrawMode', mode: 'circle' }
+    );
+    expect(state.extentDrawMode).toBe('circle');
+    expect(state.placement.projectExtent).toEqual({ type: 'circle', center: project, radius: 800 });
+  });
+
+  test('draws a rectangle from two clicks', () => {
+    const state = run(
+      start,
+      { type: 'placePoint', point: project },
+      { type: 'next' },
+      { type: 'setExtentDrawMode', mode: 'rectangle' }
+    );
+    expect(state.placement.projectExtent).toBeNull();
+
+    const half = run(state, { type: 'placePoint', point: [51.5, -0.13] });
+    expect(half.extentDraft).toHaveLength(1);
+    expect(isStepComplete(half)).toBe(false);
+
+    const drawn = run(half, { type: 'placePoint', point: [51.51, -0.12] });
+    expect(drawn.extentDraft).toEqual([]);
+    expect(drawn.placement.projectExtent).toEqual({
+      type: 'rectangle',
+      bounds: [[51.5, -0.13], [51.51, -0.12]],
+    });
+    // Further clicks leave a finished rectangle alone
+    expect(wizardReducer(drawn, { type: 'placePoint', point: [51.6, -0.1] })).toBe(drawn);
+  });
+
+  test('closes a polygon draft only once it has three vertices', () => {
+    const drafting = run(
+      start,
+      { type: 'placePoint', point: project },
+      { type: 'next' },
+      { type: 'setExtentDrawMode', mode: 'polygon' },
+      { type: 'placePoint', point: [51.5, -0.13] },
+      { type: 'placePoint', point: [51.51, -0.13] }
+    );
+    expect(wizardReducer(drafting, { type: 'finishExtentDraft' })).toBe(drafting);
+
+    const closed = run(drafting, { type: 'placePoint', point: [51.51, -0.12] }, { type: 'finishExtentDraft' });
+    expect(closed.placement.projectExtent).toEqual({
+      type: 'polygon',
+      vertices: [[51.5, -0.13], [51.51, -0.13], [51.51, -0.12]],
+    });
+    expect(isStepComplete(closed)).toBe(true);
+    expect(run(closed, { type: 'redrawExtent' }).placement.projectExtent).toBeNull();
+  });
+
+  test('center mode moves a finished rectangle without resizing it', () => {
+    const drawn = run(
+      start,
+      { type: 'placePoint', point: project },
+      { type: 'next' },
+      { type: 'setExtentDrawMode', mode: 'rectangle' }
+    );
+    // Nothing to move until the rectangle has been drawn
+    expect(wizardReducer(drawn, { type: 'placeAtCenter', point: [51.6, -0.1] })).toBe(drawn);
+
+    const moved = run(
+      drawn,
+      { type: 'placePoint', point: [51.5, -0.13] },
+      { type: 'placePoint', point: [51.51, -0.12] },
+      { type: 'placeAtCenter', point: [51.605, -0.105] }
+    );
+    const { projectExtent } = moved.placement;
+    expect(projectExtent?.type).toBe('rectangle');
+    const [[south, west], [north, east]] = projectExtent?.type === 'rectangle' ? projectExtent.bounds : [[0, 0], [0, 0]];
+    expect((south + north) / 2).toBeCloseTo(51.605, 6);
+    expect((west + east) / 2).toBeCloseTo(-0.105, 6);
+    expect(north - south).toBeCloseTo(0.01, 4);
+    expect(east - west).toBeCloseTo(0.01, 4);
+  });
+
+  test('arrow-key nudges move the current feature and merge into one undo step', () => {
+    const located = run(start, { type: 'placePoint', point: project });
+    expect(wizardReducer(start, { type: 'nudge', east: 10, north: 0 })).toBe(start);
+
+    const nudged = [0, 100, 200].reduce(
+      (state, time) => wizardReducer(state, { type: 'nudge', east: 0, north: 10 }, time),
+      located
+    );
+    expect(nudged.placement.projectLocation?.[0]).toBeCloseTo(project[0] + 30 / 111195, 6);
+    expect(nudged.placement.projectLocation?.[1]).toBeCloseTo(project[1], 9);
+    expect(run(nudged, { type: 'undo' }).placement.projectLocation).toEqual(project);
+  });
+
+  test('keeps a restored extent that still contains the project', () => {
+    const extent = { type: 'rectangle' as const, bounds: [[51.5, -0.13], [51.51, -0.12]] as [LatLngTuple, LatLngTuple] };
+    const state = createWizardState({
+      placement: { ...EMPTY_PLACEMENT, projectLocation: project, projectExtent: extent },
+      defaultRadius: 250,
+    });
+    expect(state.extentDrawMode).toBe('rectangle');
+    expect(run(state, { type: 'next' }).placement.projectExtent).toBe(extent);
+  });
+
+  test('restores a draft as one undoable step', () => {
+    const placement = { ...EMPTY_PLACEMENT, projectLocation: project };
+    const state = run(start, { type: 'restoreDraft', draft: { step: 2, placement, crsCode: 2263, view: null } });
+    expect(state).toMatchObject({ step: 1, placement, crsCode: 2263 });
+    expect(run(state, { type: 'undo' }).placement).toEqual(start.placement);
+  });
+
+  test('limits the starting step to what the placement allows', () => {
+    expect(createWizardState({ step: 2, defaultRadius: 250 }).step).toBe(0);
+    const located = { ...EMPTY_PLACEMENT, projectLocation: project };
+    expect(createWizardState({ placement: located, step: 2, defaultRadius: 250 }).step).toBe(1);
+    const extent = { type: 'circle' as const, center: project, radius: 300 };
+    expect(createWizardState({ placement: { ...located, projectExtent: extent }, step: 2, defaultRadius: 250 }).step).toBe(2);
+  });
+});
+
+describe('custom step pipelines', () => {
+  const elevation: CustomStep<number | null> = {
+    id: 'elevation',
+    title: 'Set elevation',
+    initialValue: null,
+    isComplete: (value) => value !== null,
+  };
+  const steps = resolveSteps(['location', elevation, { id: 'extent', optional: true }]);
+  const start = createWizardState({ steps, defaultRadius: 250 });
+
+  test('runs the steps in the host order and waits for custom steps to be complete', () => {
+    const onElevation = run(start, { type: 'placePoint', point: project }, { type: 'next' });
+    expect(currentStepId(onElevation)).toBe('elevation');
+    expect(onElevation.stepValues).toEqual({ elevation: null });
+    // Map clicks on a custom step are the host's business
+    expect(wizardReducer(onElevation, { type: 'placePoint', point: [51.6, -0.1] }).placement).toBe(onElevation.placement);
+    expect(wizardReducer(onElevation, { type: 'next' })).toBe(onElevation);
+
+    const onExtent = run(onElevation, { type: 'setStepValue', id: 'elevation', value: 12.5 }, { type: 'next' });
+    expect(currentStepId(onExtent)).toBe('extent');
+    expect(onExtent.placement.projectExtent).toMatchObject({ type: 'circle', center: project });
+    // The optional extent can be skipped, but not left half drawn
+    expect(isStepComplete(run(onExtent, { type: 'redrawExtent' }))).toBe(true);
+    const drafting = run(onExtent, { type: 'setExtentDrawMode', mode: 'polygon' }, { type: 'placePoint', point: project });
+    expect(isStepComplete(drafting)).toBe(false);
+    expect(run(onExtent, { type: 'undo' }, { type: 'undo' }).stepValues).toEqual({ elevation: null });
+  });
+
+  test('can make the building step required', () => {
+    const [, building] = resolveSteps(['location', { id: 'building', optional: false }]);
+    expect(building).toEqual({ id: 'building', title: 'Place building', optional: false });
+    const state = createWizardState({
+      steps: resolveSteps(['location', { id: 'building', optional: false }]),
+      placement: { ...EMPTY_PLACEMENT, projectLocation: project },
+      step: 1,
+      defaultRadius: 250,
+    });
+    expect(isStepComplete(state)).toBe(false);
+    expect(isStepComplete(run(state, { type: 'placePoint', point: project }))).toBe(true);
+  });
+});
+
+describe('building list', () => {
+  const onBuilding = run(
+    createWizardState({ defaultRadius: 250 }),
+    { type: 'placePoint', point: project },
+    { type: 'next' },
+    { type: 'next' },
+    { type: 'placePoint', point: project }
+  );
+  const names = (state: WizardState) => state.placement.buildings.map(({ name }) => name);
+
+  test('clicks place the selected building, and added buildings have to be placed', () => {
+    const added = run(onBuilding, { type: 'addBuilding' });
+    expect(names(added)).toEqual(['Building 1', 'Building 2']);
+    expect(selectedBuilding(added)).toMatchObject({ id: 'building-2', location: null });
+    expect(isStepComplete(added)).toBe(false);
+
+    const placed = run(added, { type: 'placePoint', point: [51.5076, -0.1275] });
+    expect(placed.placement.buildings.map(({ location }) => location)).toEqual([project, [51.5076, -0.1275]]);
+    expect(isStepComplete(placed)).toBe(true);
+  });
+
+  test('puts a building down and turns it as one undo step', () => {
+    const moved: LatLngTuple = [51.5076, -0.1275];
+    const placed = run(onBuilding, { type: 'placePoint', point: moved, rotation: 30 });
+    expect(selectedBuilding(placed)).toMatchObject({ location: moved, rotation: 30 });
+    expect(selectedBuilding(run(placed, { type: 'undo' }))).toMatchObject({ location: project, rotation: 0 });
+
+    const dragged = run(placed, { type: 'setBuildingLocation', location: project, rotation: 45 });
+    expect(selectedBuilding(dragged)).toMatchObject({ location: project, rotation: 45 });
+    expect(selectedBuilding(run(dragged, { type: 'undo' }))).toMatchObject({ location: moved, rotation: 30 });
+  });
+
+  test('duplicates beside the original, keeping rotation and footprint', () => {
+    const rotated = run(onBuilding, { type: 'setBuildingRotation', rotation: 30 });
+    const copied = run(rotated, { type: 'duplicateBuilding', id: 'building-1' });
+    const [original, copy] = copied.placement.buildings;
+    expect(copy).toMatchObject({ id: 'building-2', name: 'Building 1 copy', rotation: 30, outline: original.outline });
+    expect(copy.location?.[0]).toBeCloseTo(project[0], 9);
+    expect(copy.location?.[1]).toBeGreaterThan(project[1]);
+    expect(copied.selectedBuilding).toBe('building-2');
+  });
+
+  test('removes and renames by id, and keeps at least one building', () => {
+    const two = run(onBuilding, { type: 'duplicateBuilding', id: 'building-1' }, { type: 'renameBuilding', id: 'building-2', name: 'Annex' });
+    expect(names(two)).toEqual(['Building 1', 'Annex']);
+
+    const removed = run(two, { type: 'removeBuilding', id: 'building-2' });
+    expect(names(removed)).toEqual(['Building 1']);
+    expect(selectedBuilding(removed).id).toBe('building-1');
+
+    const unplaced = run(removed, { type: 'removeBuilding', id: 'building-1' });
+    expect(unplaced.placement.buildings).toEqual([expect.objectContaining({ id: 'building-1', location: null })]);
+  });
+
+  test('selection is not an undo step, and falls back to the first building', () => {
+    const added = run(onBuilding, { type: 'addBuilding' }, { type: 'selectBuilding', id: 'building-1' });
+    expect(added.past).toHaveLength(onBuilding.past.length + 1);
+    expect(wizardReducer(added, { type: 'selectBuilding', id: 'missing' })).toBe(added);
+
+    const undone = run(added, { type: 'selectBuilding', id: 'building-2' }, { type: 'undo' });
+    expect(undone.selectedBuilding).toBe('building-2');
+    expect(selectedBuilding(undone).id).toBe('building-1');
+  });
+});
+
+describe('undo and redo', () => {
+  const start = createWizardState({ defaultRadius: 250 });
+  const moved: LatLngTuple = [51.51, -0.12];
+
+  test('steps back through placements and step changes', () => {
+    const state = run(start, { type: 'placePoint', point: project }, { type: 'next' });
+    const undone = run(state, { type: 'undo' });
+    expect(undone.step).toBe(0);
+    expect(undone.placement.projectExtent).toBeNull();
+
+    const empty = run(undone, { type: 'undo' });
+    expect(empty.placement.projectLocation).toBeNull();
+    expect(wizardReducer(empty, { type: 'undo' })).toBe(empty);
+
+    const redone = run(empty, { type: 'redo' }, { type: 'redo' });
+    expect(redone.step).toBe(1);
+    expect(redone.placement).toEqual(state.placement);
+  });
+
+  test('restores the address that went with each location', () => {
+    const state = run(
+      start,
+      { type: 'placePoint', point: project },
+      { type: 'setSearchAddress', address: 'Trafalgar Square', location: project },
+      { type: 'placePoint', point: moved }
+    );
+    // A late lookup for a location the project has left is dropped
+    expect(run(state, { type: 'setSearchAddress', address: 'Trafalgar Square', location: project }).searchAddress).toBe(
+      'Trafalgar Square'
+    );
+    const withAddress = run(state, { type: 'setSearchAddress', address: 'Covent Garden', location: moved });
+
+    const undone = run(withAddress, { type: 'undo' });
+    expect(undone.placement.projectLocation).toEqual(project);
+    expect(undone.searchAddress).toBe('Trafalgar Square');
+    expect(run(undone, { type: 'redo' }).searchAddress).toBe('Covent Garden');
+  });
+
+  test('a new edit clears the redo stack', () => {
+    const state = run(start, { type: 'placePoint', point: project }, { type: 'undo' }, { type: 'placePoint', point: moved });
+    expect(state.future).toEqual([]);
+    expect(wizardReducer(state, { type: 'redo' })).toBe(state);
+  });
+
+  test('merges the rapid updates of a drag into one step', () => {
+    const placed = run(start, { type: 'placePoint', point: project }, { type: 'next' }, { type: 'next' });
+    const rotated = [10, 20, 30].reduce(
+      (state, rotation, i) => wizardReducer(state, { type: 'setBuildingRotation', rotation }, 1000 + i * 16),
+      placed
+    );
+    expect(rotated.past).toHaveLength(placed.past.length + 1);
+    expect(run(rotated, { type: 'undo' }).placement.buildings[0].rotation).toBe(0);
+
+    const later = wizardReducer(rotated, { type: 'setBuildingRotation', rotation: 90 }, 5000);
+    expect(run(later, { type: 'undo' }).placement.buildings[0].rotation).toBe(30);
+  });
+
+  test('leaves the interaction mode out of the history', () => {
+    const state = run(start, { type: 'placePoint', point: project }, { type: 'setInteractionMode', mode: 'center' });
+    expect(state.past).toHaveLength(1);
+    expect(run(state, { type: 'undo' }).placement.interactionMode).toBe('center');
+  });
+});
+
+describe('site plan', () => {
+  const start = createWizardState({ defaultRadius: 250 });
+  const plan = placeSitePlan({ name: 'plan.png', width: 1000, height: 800 }, project, 0.1);
+  const loaded = run(start, { type: 'setSitePlan', plan });
+
+  test('control points refit the plan, and each edit is one undo step', () => {
+    const fitted = run(
+      loaded,
+      { type: 'addControlPoint', pixel: [0, 0], location: [51.508, -0.129] },
+      { type: 'addControlPoint', pixel: [1000, 0], location: [51.508, -0.1275] }
+    );
+    const { controlPoints, transform } = fitted.placement.sitePlan ?? plan;
+    expect(controlPoints.map(({ id }) => id)).toEqual(['point-1', 'point-2']);
+    expect(transform.rmsError).toBeCloseTo(0, 6);
+    expect(transform.rotation).toBeCloseTo(0, 3);
+
+    const moved = run(fitted, { type: 'moveControlPoint', id: 'point-2', location: [51.5085, -0.1275] });
+    expect(moved.placement.sitePlan?.transform.rotation).toBeGreaterThan(300);
+    expect(run(moved, { type: 'undo' }).placement.sitePlan).toEqual(fitted.placement.sitePlan);
+    expect(run(moved, { type: 'removeControlPoint', id: 'point-1' }).placement.sitePlan?.transform.rmsError).toBeNull();
+  });
+
+  test('ignores point edits without a plan or with unknown ids', () => {
+    expect(wizardReducer(start, { type: 'addControlPoint', pixel: [0, 0], location: project })).toBe(start);
+    expect(wizardReducer(loaded, { type: 'removeControlPoint', id: 'point-9' })).toBe(loaded);
+    expect(wizardReducer(loaded, { type: 'setSitePlanModel', model: 'similarity' })).toBe(loaded);
+    expect(run(loaded, { type: 'setSitePlan', plan: null }, { type: 'undo' }).placement.sitePlan).toEqual(plan);
+  });
+});
@@ -0,0 +1,338 @@
+// Pure state machine behind the wizard; no React or Leaflet involved
+import { SitePlan, createControlPoint, fitSitePlan } from '../siteplan';
+import { LatLngTuple } from '../types';
+import { boundsFromCorners, extentCenter, extentProblem, moveExtent, pointInExtent } from '../utils/extent';
+import { formatCoordinates } from '../utils/coordinateParser';
+import { offsetToLatLng } from '../utils/geodesy';
+import { BuildingPlacement, EMPTY_PLACEMENT, Placement, createBuilding } from '../utils/placement';
+import { recordEdit, redo, undo } from './history';
+import { DEFAULT_STEPS, initialStepValues, resolveSteps } from './steps';
+import { WizardAction, WizardState, WizardStep } from './types';
+
+const DEFAULT_PIPELINE = resolveSteps(DEFAULT_STEPS);
+
+// Gap in metres between a building and its duplicate
+const DUPLICATE_GAP_M = 5;
+
+/** Id of the step the user is on. */
+export const currentStepId = ({ steps, step }: WizardState): string => steps[step].id;
+
+export function createWizardState({
+  steps = DEFAULT_PIPELINE,
+  placement = EMPTY_PLACEMENT,
+  step = 0,
+  defaultRadius,
+  crsCode = null,
+  stepValues,
+}: {
+  steps?: WizardStep[];
+  placement?: Placement;
+  step?: number;
+  defaultRadius: number;
+  crsCode?: number | null;
+  /** Saved values of custom steps; the rest start from their initial values. */
+  stepValues?: Record<string, unknown>;
+}): WizardState {
+  const { projectLocation } = placement;
+  const state: WizardState = {
+    steps,
+    step: 0,
+    placement,
+    selectedBuilding: placement.buildings[0].id,
+    extentDrawMode: placement.projectExtent?.type ?? 'circle',
+    extentDraft: [],
+    defaultRadius,
+    crsCode,
+    searchAddress: projectLocation ? formatCoordinates(projectLocation[0], projectLocation[1]) : '',
+    stepValues: initialStepValues(steps, stepValues),
+    past: [],
+    future: [],
+    lastEdit: null,
+  };
+  // Open on the requested step only if every step before it is complete
+  let reachable = 0;
+  while (reachable < Math.min(step, steps.length - 1) && isStepComplete({ ...state, step: reachable })) reachable++;
+  return { ...state, step: reachable };
+}
+
+/** Whether the current step has what it needs, before any validation rules. */
+export function isStepComplete(state: WizardState): boolean {
+  const { steps, step, placement, extentDraft, stepValues } = state;
+  const { id, optional, custom } = steps[step];
+  if (custom) return optional || (custom.isComplete?.(stepValues[id]) ?? true);
+  if (id === 'location') return placement.projectLocation !== null;
+  if (id === 'extent') {
+    const { projectExtent } = placement;
+    // A shape still being drawn has to be finished or cancelled, even on an optional step
+    if (extentDraft.length > 0) return false;
+    if (projectExtent === null) return optional;
+    return extentProblem(projectExtent) === null;
+  }
+  // An optional step can be passed with no buildings at all, but not with some of the list left unplaced
+  const placed = placement.buildings.filter((building) => building.location !== null).length;
+  return placed === placement.buildings.length || (optional && placed === 0);
+}
+
+/** The building that edits apply to: the selected one, or the first if that has been removed. */
+export function selectedBuilding({ placement, selectedBuilding: id }: WizardState): BuildingPlacement {
+  return placement.buildings.find((building) => building.id === id) ?? placement.buildings[0];
+}
+
+/** Position of what the current step edits: the project, the extent's center or the building. */
+export function activeFeature(state: WizardState): LatLngTuple | null {
+  const { placement } = state;
+  switch (currentStepId(state)) {
+    case 'location':
+      return placement.projectLocation;
+    case 'extent':
+      return placement.projectExtent && extentCenter(placement.projectExtent);
+    case 'building':
+      return selectedBuilding(state).location;
+    default:
+      return null;
+  }
+}
+
+const withPlacement = (state: WizardState, changes: Partial<Placement>): WizardState => ({
+  ...state,
+  placement: { ...state.placement, ...changes },
+});
+
+const withBuilding = (state: WizardState, id: string | undefined, changes: Partial<BuildingPlacement>): WizardState => {
+  const target = id ?? selectedBuilding(state).id;
+  return withPlacement(state, {
+    buildings: state.placement.buildings.map((building) => (building.id === target ? { ...building, ...changes } : building)),
+  });
+};
+
+// Edits of a plan that has since been removed have nothing to apply to
+const withSitePlan = (state: WizardState, changes: (plan: SitePlan) => Partial<Pick<SitePlan, 'model' | 'controlPoints'>>) => {
+  const { sitePlan } = state.placement;
+  return sitePlan ? withPlacement(state, { sitePlan: fitSitePlan(sitePlan, changes(sitePlan)) }) : state;
+};
+
+const hasControlPoint = ({ placement }: WizardState, id: string) =>
+  placement.sitePlan?.controlPoints.some((point) => point.id === id) ?? false;
+
+// The copy goes east of the original, far enough that the two footprints cannot overlap
+function duplicateBuilding(state: WizardState, id: string): WizardState {
+  const { buildings } = state.placement;
+  const index = buildings.findIndex((building) => building.id === id);
+  if (index < 0) return state;
+  const original = buildings[index];
+  const reach = Math.max(...original.outline.map(([x, y]) => Math.hypot(x, y)));
+  const copy: BuildingPlacement = {
+    ...createBuilding(buildings, original.outline),
+    name: `${original.name} copy`,
+    location: original.location && offsetToLatLng(original.location, 2 * reach + DUPLICATE_GAP_M, 0),
+    rotation: original.rotation,
+  };
+  return {
+    ...withPlacement(state, { buildings: [...buildings.slice(0, index + 1), copy, ...buildings.slice(index + 1)] }),
+    selectedBuilding: copy.id,
+  };
+}
+
+// The list never runs empty, so the only building is unplaced rather than removed
+function removeBuilding(state: WizardState, id: string): WizardState {
+  const { buildings } = state.placement;
+  const index = buildings.findIndex((building) => building.id === id);
+  if (index < 0) return state;
+  if (buildings.length === 1) return withBuilding(state, id, { location: null });
+  const remaining = buildings.filter((building) => building.id !== id);
+  const selected = selectedBuilding(state).id === id ? remaining[Math.min(index, remaining.length - 1)].id : state.selectedBuilding;
+  return { ...withPlacement(state, { buildings: remaining }), selectedBuilding: selected };
+}
+
+// Custom steps handle their own map clicks, so they leave the placement alone
+function placePoint(state: WizardState, point: LatLngTuple, rotation?: number): WizardState {
+  const { placement, extentDrawMode, extentDraft, defaultRadius } = state;
+  const id = currentStepId(state);
+  if (id === 'location') return withPlacement(state, { projectLocation: point });
+  if (id === 'building') return withBuilding(state, undefined, { location: point, ...(rotation !== undefined && { rotation }) });
+  if (id !== 'extent') return state;
+
+  const { projectExtent } = placement;
+  if (extentDrawMode === 'circle') {
+    // Moving the circle keeps whatever radius the user already chose
+    const radius = projectExtent?.type === 'circle' ? projectExtent.radius : defaultRadius;
+    return withPlacement(state, { projectExtent: { type: 'circle', center: point, radius } });
+  }
+  // Finished rectangles and polygons are only changed through their handles or "Redraw"
+  if (projectExtent !== null) return state;
+  if (extentDrawMode === 'rectangle' && extentDraft.length === 1) {
+    return {
+      ...withPlacement(state, { projectExtent: { type: 'rectangle', bounds: boundsFromCorners(extentDraft[0], point) } }),
+      extentDraft: [],
+    };
+  }
+  return { ...state, extentDraft: [...extentDraft, point] };
+}
+
+function placeAtCenter(state: WizardState, point: LatLngTuple): WizardState {
+  const { placement, extentDrawMode, defaultRadius } = state;
+  if (currentStepId(state) !== 'extent') return placePoint(state, point);
+  const { projectExtent } = placement;
+  if (projectExtent) return withPlacement(state, { projectExtent: moveExtent(projectExtent, point) });
+  // Rectangles and polygons still have to be drawn by clicking
+  if (extentDrawMode !== 'circle') return state;
+  return withPlacement(state, { projectExtent: { type: 'circle', center: point, radius: defaultRadius } });
+}
+
+function nudge(state: WizardState, east: number, north: number): WizardState {
+  const from = activeFeature(state);
+  return from ? placeAtCenter(state, offsetToLatLng(from, east, north)) : state;
+}
+
+function next(state: WizardState): WizardState {
+  if (state.step >= state.steps.length - 1 || !isStepComplete(state)) return state;
+  const advanced = { ...state, step: state.step + 1 };
+  const { projectLocation, projectExtent } = state.placement;
+
+  // Entering the extent step starts a circle around the project, unless a restored extent still fits
+  if (currentStepId(advanced) === 'extent' && projectLocation) {
+    const keepExtent = projectExtent !== null && pointInExtent(projectLocation, projectExtent);
+    if (!keepExtent && (projectExtent === null || projectExtent.type === 'circle')) {
+      const radius = projectExtent?.type === 'circle' ? projectExtent.radius : state.defaultRadius;
+      return {
+        ...withPlacement(advanced, { projectExtent: { type: 'circle', center: projectLocation, radius } }),
+        extentDrawMode: 'circle',
+      };
+    }
+  }
+  return advanced;
+}
+
+function applyEdit(state: WizardState, action: Exclude<WizardAction, { type: 'undo' | 'redo' }>): WizardState {
+  switch (action.type) {
+    case 'placePoint':
+      return placePoint(state, action.point, action.rotation);
+    case 'placeAtCenter':
+      return placeAtCenter(state, action.point);
+    case 'nudge':
+      return nudge(state, action.east, action.north);
+    case 'setProjectLocation':
+      return withPlacement(state, { projectLocation: action.location });
+    case 'setProjectExtent':
+      return withPlacement(state, { projectExtent: action.extent });
+    case 'setExtentDrawMode': {
+      const { mode } = action;
+      if (mode === state.extentDrawMode) return state;
+      const { projectExtent, projectLocation } = state.placement;
+      const changed = { ...state, extentDrawMode: mode, extentDraft: [] };
+      if (mode === 'circle') {
+        // A circle the user already sized stays as it is, as it does when placePoint or next move it
+        if (projectExtent?.type === 'circle') return changed;
+        const center = projectExtent ? extentCenter(projectExtent) : projectLocation;
+        return withPlacement(changed, {
+          projectExtent: center && { type: 'circle', center, radius: state.defaultRadius },
+        });
+      }
+      return projectExtent?.type === mode ? changed : withPlacement(changed, { projectExtent: null });
+    }
+    case 'finishExtentDraft':
+      if (state.extentDrawMode !== 'polygon' || state.extentDraft.length < 3) return state;
+      return {
+        ...withPlacement(state, { projectExtent: { type: 'polygon', vertices: state.extentDraft } }),
+        extentDraft: [],
+      };
+    case 'cancelExtentDraft':
+      return { ...state, extentDraft: [] };
+    case 'redrawExtent':
+      return { ...withPlacement(state, { projectExtent: null }), extentDraft: [] };
+    case 'setBuildingLocation':
+      return withBuilding(state, action.id, {
+        location: action.location,
+        ...(action.rotation !== undefined && { rotation: action.rotation }),
+      });
+    case 'setBuildingRotation':
+      return withBuilding(state, action.id, { rotation: action.rotation });
+    case 'setBuildingOutline':
+      return withBuilding(state, action.id, { outline: action.outline });
+    case 'addBuilding': {
+      const building = createBuilding(state.placement.buildings);
+      return {
+        ...withPlacement(state, { buildings: [...state.placement.buildings, building] }),
+        selectedBuilding: building.id,
+      };
+    }
+    case 'duplicateBuilding':
+      return duplicateBuilding(state, action.id);
+    case 'removeBuilding':
+      return removeBuilding(state, action.id);
+    case 'renameBuilding':
+      return withBuilding(state, action.id, { name: action.name });
+    case 'selectBuilding':
+      return state.placement.buildings.some((building) => building.id === action.id)
+        ? { ...state, selectedBuilding: action.id }
+        : state;
+    case 'setSitePlan':
+      return withPlacement(state, { sitePlan: action.plan });
+    case 'addControlPoint':
+      return withSitePlan(state, ({ controlPoints }) => ({
+        controlPoints: [...controlPoints, createControlPoint(controlPoints, action.pixel, action.location)],
+      }));
+    case 'moveControlPoint':
+      if (!hasControlPoint(state, action.id)) return state;
+      return withSitePlan(state, ({ controlPoints }) => ({
+        controlPoints: controlPoints.map((point) => (point.id === action.id ? { ...point, location: action.location } : point)),
+      }));
+    case 'removeControlPoint':
+      if (!hasControlPoint(state, action.id)) return state;
+      return withSitePlan(state, ({ controlPoints }) => ({
+        controlPoints: controlPoints.filter((point) => point.id !== action.id),
+      }));
+    case 'setSitePlanModel':
+      if (state.placement.sitePlan?.model === action.model) return state;
+      return withSitePlan(state, () => ({ model: action.model }));
+    case 'setInteractionMode':
+      return withPlacement(state, { interactionMode: action.mode });
+    case 'setCrs':
+      return { ...state, crsCode: action.code };
+    case 'setSearchAddress': {
+      const { address, location } = action;
+      const current = state.placement.projectLocation;
+      const moved = location && (location[0] !== current?.[0] || location[1] !== current?.[1]);
+      return moved || address === state.searchAddress ? state : { ...state, searchAddress: address };
+    }
+    case 'importSite': {
+      const { buildings: imported, ...site } = action.site;
+      // Footprints missing from the file keep the size the user had set
+      const fallbackOutline = selectedBuilding(state).outline;
+      const buildings = imported.reduce<BuildingPlacement[]>((list, { id, name, location, rotation, outline }) => {
+        const building = createBuilding(list, outline ?? fallbackOutline);
+        const keepId = id !== undefined && !list.some((other) => other.id === id);
+        return [...list, { ...building, id: keepId ? id : building.id, name: name ?? building.name, location, rotation }];
+      }, []);
+      if (buildings.length === 0) buildings.push(createBuilding([], fallbackOutline));
+      return {
+        ...withPlacement(state, { ...site, buildings }),
+        selectedBuilding: buildings[0].id,
+        extentDrawMode: site.projectExtent?.type ?? state.extentDrawMode,
+        extentDraft: [],
+      };
+    }
+    case 'setStepValue':
+      return { ...state, stepValues: { ...state.stepValues, [action.id]: action.value } };
+    case 'restoreDraft': {
+      const { placement, step, crsCode, stepValues } = action.draft;
+      const { steps, defaultRadius } = state;
+      const restored = createWizardState({ steps, placement, step, crsCode, stepValues, defaultRadius });
+      return { ...restored, past: state.past, future: state.future, lastEdit: state.lastEdit };
+    }
+    case 'next':
+      return next(state);
+    case 'previous':
+      return state.step > 0 ? { ...state, step: state.step - 1 } : state;
+  }
+}
+
+/**
+ * Applies an action and keeps the undo history. `time`, in milliseconds,
+ * lets the rapid repeats of a drag share one undo step.
+ */
+export function wizardReducer(state: WizardState, action: WizardAction, time = 0): WizardState {
+  if (action.type === 'undo') return undo(state);
+  if (action.type === 'redo') return redo(state);
+  return recordEdit(state, applyEdit(state, action), action, time);
+}
@@ -0,0 +1,31 @@
+import { DEFAULT_STEPS, initialStepValues, resolveSteps } from './steps';
+import { StepConfig } from './types';
+
+describe('resolveSteps', () => {
+  test('titles the built-in steps and marks only the building as optional', () => {
+    expect(resolveSteps(DEFAULT_STEPS)).toEqual([
+      { id: 'location', title: 'Locate project', optional: false },
+      { id: 'extent', title: 'Extent', optional: false },
+      { id: 'building', title: 'Place building (Optional)', optional: true },
+    ]);
+    expect(resolveSteps([{ id: 'location', title: 'Site', optional: true }, { id: 'extent', optional: true }])).toEqual([
+      { id: 'location', title: 'Site', optional: false },
+      { id: 'extent', title: 'Extent (Optional)', optional: true },
+    ]);
+  });
+
+  test('rejects lists it cannot run', () => {
+    expect(() => resolveSteps(['extent', 'building'])).toThrow('location step');
+    expect(() => resolveSteps(['location', 'extent', 'extent'])).toThrow('"extent" is listed more than once');
+    expect(() => resolveSteps(['location', { id: 'extent', title: 'Mine', initialValue: 0 } as unknown as StepConfig])).toThrow('built-in');
+  });
+
+  test('starts custom steps from their initial values unless saved ones are given', () => {
+    const steps = resolveSteps([
+      'location',
+      { id: 'crs', title: 'Choose CRS', initialValue: 'utm' },
+      { id: 'elevation', title: 'Set elevation', initialValue: 0 },
+    ]);
+    expect(initialStepValues(steps, { elevation: 42, stale: true })).toEqual({ crs: 'utm', elevation: 42 });
+  });
+});
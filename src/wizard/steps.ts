@@ -0,0 +1,51 @@
+// The step pipeline: which steps run, in which order, and what each needs before the user can move on
+import { BuiltInStepId, StepConfig, WizardStep } from './types';
+
+const BUILT_IN_TITLES: Record<BuiltInStepId, string> = {
+  location: 'Locate project',
+  extent: 'Extent',
+  building: 'Place building',
+};
+
+// Without a host title, optional built-in steps say so
+const builtInStep = (id: BuiltInStepId, optional: boolean, title?: string): WizardStep => ({
+  id,
+  title: title ?? `${BUILT_IN_TITLES[id]}${optional ? ' (Optional)' : ''}`,
+  optional,
+});
+
+/** The wizard's own three steps, used when the host does not pass a list. */
+export const DEFAULT_STEPS: StepConfig[] = ['location', 'extent', 'building'];
+
+export const isBuiltInStep = (id: string): id is BuiltInStepId => id in BUILT_IN_TITLES;
+
+/**
+ * Turns a host's step list into the pipeline the wizard runs. Throws for
+ * lists it cannot run: no location step, or the same id twice.
+ */
+export function resolveSteps(configs: StepConfig[]): WizardStep[] {
+  const steps = configs.map((config): WizardStep => {
+    if (typeof config === 'string') return builtInStep(config, config === 'building');
+    if ('initialValue' in config) {
+      if (isBuiltInStep(config.id)) throw new Error(`"${config.id}" is a built-in step id.`);
+      return { id: config.id, title: config.title, optional: config.optional ?? false, custom: config };
+    }
+    const { id, title, optional = id === 'building' } = config;
+    return builtInStep(id, optional && id !== 'location', title);
+  });
+
+  if (!steps.some((step) => step.id === 'location')) throw new Error('The location step cannot be left out.');
+  const ids = steps.map((step) => step.id);
+  const repeated = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (repeated) throw new Error(`The step "${repeated}" is listed more than once.`);
+  return steps;
+}
+
+/** Starting values of the pipeline's custom steps, overridden by any saved ones. */
+export function initialStepValues(steps: WizardStep[], saved: Record<string, unknown> = {}): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const { id, custom } of steps) {
+    if (custom) values[id] = id in saved ? saved[id] : custom.initialValue;
+  }
+  return values;
+}
@@ -0,0 +1,146 @@
+// State, actions and step pipeline of the headless wizard
+import { ReactNode } from 'react';
+import { WizardDraft } from '../drafts';
+import { ImportedSite } from '../formats';
+import { PlanPixel, PlanTransformModel, SitePlan } from '../siteplan';
+import { ExtentShape, ExtentShapeType, LatLngTuple, LocalPoint, WizardResult } from '../types';
+import { InteractionMode, Placement } from '../utils/placement';
+import { Validator } from '../validation';
+
+/** The steps the wizard knows how to run itself. */
+export type BuiltInStepId = 'location' | 'extent' | 'building';
+
+/** Adjusts one of the built-in steps. */
+export interface BuiltInStepOptions {
+  id: BuiltInStepId;
+  title?: string;
+  /**
+   * Whether the step can be passed with nothing placed. The building step is
+   * optional unless set to false; the location step is always required.
+   */
+  optional?: boolean;
+}
+
+/** What a custom step's panel, map layers and click handler work with. */
+export interface StepContext<Value = unknown> {
+  value: Value;
+  setValue(value: Value): void;
+  result: WizardResult;
+}
+
+/**
+ * A host-defined step. Its value is saved with drafts and returned as
+ * `result.custom[id]`. The callbacks are methods so that a step typed with
+ * its own Value still fits in a StepConfig list.
+ */
+export interface CustomStep<Value = unknown> {
+  /** Unique, and not one of the built-in step ids. */
+  id: string;
+  title: string;
+  optional?: boolean;
+  initialValue: Value;
+  /** Whether a required step can be passed; any value will do without it. */
+  isComplete?(value: Value): boolean;
+  /** Rules for the step; issues without a `step` of their own apply from this one. */
+  validate?: Validator;
+  /** Shown over the map while the step is current. */
+  instructions?: string;
+  onMapClick?(point: LatLngTuple, context: StepContext<Value>): void;
+  /** Extra layers inside the map, such as markers for the step's value. */
+  renderMapLayers?(context: StepContext<Value>): ReactNode;
+  /** Controls shown with the other map panels. */
+  renderPanel?(context: StepContext<Value>): ReactNode;
+}
+
+/** One entry of a host's step list: a built-in step by id or with options, or a custom step. */
+export type StepConfig = BuiltInStepId | BuiltInStepOptions | CustomStep;
+
+/** A step as the wizard runs it. */
+export interface WizardStep {
+  id: string;
+  title: string;
+  optional: boolean;
+  /** Set for host-defined steps. */
+  custom?: CustomStep;
+}
+
+export interface WizardState {
+  /** The step pipeline, in order. */
+  steps: WizardStep[];
+  /** Current step, 0-based. */
+  step: number;
+  placement: Placement;
+  /** Id of the building that clicks, handles and the panel edit; the first building if it is gone. */
+  selectedBuilding: string;
+  /** Shape drawn by clicks on the extent step. */
+  extentDrawMode: ExtentShapeType;
+  /** Clicked vertices of a rectangle or polygon that is still being drawn. */
+  extentDraft: LatLngTuple[];
+  /** Radius in metres for newly placed circular extents. */
+  defaultRadius: number;
+  /** EPSG code of the output CRS, or null for the UTM zone of the project. */
+  crsCode: number | null;
+  /** Address shown in the search box for the project location. */
+  searchAddress: string;
+  /** Values of the custom steps by step id. */
+  stepValues: Record<string, unknown>;
+  /** Earlier and undone states, most recent last. */
+  past: WizardSnapshot[];
+  future: WizardSnapshot[];
+  /** Type and time of the last recorded edit, used to merge drags into one undo step. */
+  lastEdit: { type: WizardAction['type']; time: number } | null;
+}
+
+/** The part of the state that undo and redo restore. */
+export type WizardSnapshot = Pick<
+  WizardState,
+  'step' | 'placement' | 'extentDrawMode' | 'extentDraft' | 'searchAddress' | 'stepValues'
+>;
+
+export type WizardAction =
+  /**
+   * A click or tap on the map; what it does depends on the step and the extent
+   * draw mode. On the building step, `rotation` turns the building in the same edit.
+   */
+  | { type: 'placePoint'; point: LatLngTuple; rotation?: number }
+  /** Center mode: puts the current step's feature at the map center, moving a finished extent as a whole. */
+  | { type: 'placeAtCenter'; point: LatLngTuple }
+  /** Keyboard move of the current step's feature by metres east and north. */
+  | { type: 'nudge'; east: number; north: number }
+  | { type: 'setProjectLocation'; location: LatLngTuple }
+  | { type: 'setProjectExtent'; extent: ExtentShape | null }
+  | { type: 'setExtentDrawMode'; mode: ExtentShapeType }
+  | { type: 'finishExtentDraft' }
+  | { type: 'cancelExtentDraft' }
+  | { type: 'redrawExtent' }
+  /** Building edits apply to the selected building unless given an id. A location can come with a new rotation. */
+  | { type: 'setBuildingLocation'; location: LatLngTuple | null; rotation?: number; id?: string }
+  | { type: 'setBuildingRotation'; rotation: number; id?: string }
+  | { type: 'setBuildingOutline'; outline: LocalPoint[]; id?: string }
+  /** Adds an unplaced building to the end of the list and selects it. */
+  | { type: 'addBuilding' }
+  /** Places a copy beside the building and selects it. */
+  | { type: 'duplicateBuilding'; id: string }
+  /** Removing the only building unplaces it instead. */
+  | { type: 'removeBuilding'; id: string }
+  | { type: 'renameBuilding'; id: string; name: string }
+  | { type: 'selectBuilding'; id: string }
+  /** Shows a newly loaded plan in place of any other, or removes it with null. */
+  | { type: 'setSitePlan'; plan: SitePlan | null }
+  /** Control point edits refit the plan. */
+  | { type: 'addControlPoint'; pixel: PlanPixel; location: LatLngTuple }
+  | { type: 'moveControlPoint'; id: string; location: LatLngTuple }
+  | { type: 'removeControlPoint'; id: string }
+  | { type: 'setSitePlanModel'; model: PlanTransformModel }
+  | { type: 'setInteractionMode'; mode: InteractionMode }
+  | { type: 'setCrs'; code: number | null }
+  /** Ignored when given a location the project has since moved away from, e.g. a late reverse geocode. */
+  | { type: 'setSearchAddress'; address: string; location?: LatLngTuple }
+  | { type: 'setStepValue'; id: string; value: unknown }
+  | { type: 'importSite'; site: ImportedSite }
+  /** Resumes a saved or linked draft; the step is limited to what its placement allows. */
+  | { type: 'restoreDraft'; draft: WizardDraft }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'undo' }
+  | { type: 'redo' };
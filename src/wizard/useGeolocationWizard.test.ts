@@ -0,0 +1,87 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { LatLngTuple, WizardResult } from '../types';
+import { StepConfig } from './types';
+import { useGeolocationWizard } from './useGeolocationWizard';
+
+const project: LatLngTuple = [40.7484, -73.9857];
+
+describe('useGeolocationWizard', () => {
+  test('walks through the steps and projects to the UTM zone of the project', () => {
+    const { result } = renderHook(() => useGeolocationWizard({ defaultRadius: 200 }));
+    expect(result.current.canProceed).toBe(false);
+    expect(result.current.activeCrs).toBeNull();
+
+    act(() => result.current.dispatch({ type: 'placePoint', point: project }));
+    expect(result.current.canProceed).toBe(true);
+    expect(result.current.activeCrs?.code).toBe(32618);
+    expect(result.current.isAutomaticCrs).toBe(true);
+
+    act(() => result.current.dispatch({ type: 'next' }));
+    expect(result.current.state.step).toBe(1);
+    expect(result.current.result.projectExtent).toMatchObject({ type: 'circle', radius: 200 });
+    expect(result.current.isLastStep).toBe(false);
+  });
+
+  test('in controlled mode, reports edits without applying them', () => {
+    const changes: WizardResult[] = [];
+    const { result } = renderHook(() => useGeolocationWizard({ crs: 2263, onChange: (next) => changes.push(next) }));
+    act(() => result.current.dispatch({ type: 'placePoint', point: project }));
+    expect(changes).toHaveLength(1);
+    expect(changes[0].projected?.crs.code).toBe(2263);
+
+    const value = changes[0];
+    const { result: controlled } = renderHook(() =>
+      useGeolocationWizard({ value, onChange: (next) => changes.push(next) })
+    );
+    act(() => {
+      // Both edits build on the latest state even though nothing re-renders in between
+      controlled.current.dispatch({ type: 'setBuildingLocation', location: project });
+      controlled.current.dispatch({ type: 'setBuildingRotation', rotation: 30 });
+    });
+    expect(changes[2]).toMatchObject({ buildingLocation: project, buildingRotation: 30 });
+    expect(controlled.current.state.placement.buildings[0].location).toBeNull();
+  });
+
+  test('returns custom step values in the result and applies their rules from that step', async () => {
+    const steps: StepConfig[] = [
+      'location',
+      {
+        id: 'elevation',
+        title: 'Set elevation',
+        initialValue: -500,
+        validate: ({ custom }) =>
+          (custom?.elevation as number) < -430
+            ? { id: 'below-dead-sea', severity: 'error', message: 'That is lower than any land.' }
+            : null,
+      },
+    ];
+    const { result } = renderHook(() => useGeolocationWizard({ steps }));
+    expect(result.current.result.custom).toEqual({ elevation: -500 });
+
+    act(() => result.current.dispatch({ type: 'placePoint', point: project }));
+    act(() => result.current.dispatch({ type: 'next' }));
+    expect(result.current.stepId).toBe('elevation');
+    expect(result.current.isLastStep).toBe(true);
+    await waitFor(() => expect(result.current.issues.map((issue) => issue.id)).toEqual(['below-dead-sea']));
+    expect(result.current.issues[0].step).toBe('elevation');
+
+    act(() => result.current.dispatch({ type: 'setStepValue', id: 'elevation', value: 12 }));
+    await waitFor(() => expect(result.current.canProceed).toBe(true));
+    expect(result.current.result.custom).toEqual({ elevation: 12 });
+  });
+
+  test('adds a sun summary only when given a date, and reports a new date', () => {
+    const changes: WizardResult[] = [];
+    const { result, rerender } = renderHook(
+      ({ solarDate }: { solarDate?: string }) => useGeolocationWizard({ solarDate, onChange: (next) => changes.push(next) }),
+      { initialProps: {} }
+    );
+    act(() => result.current.dispatch({ type: 'placePoint', point: project }));
+    expect(result.current.result).not.toHaveProperty('solar');
+
+    rerender({ solarDate: '2024-06-21' });
+    expect(result.current.result.solar).toMatchObject({ date: '2024-06-21', location: project, polar: null });
+    expect(result.current.result.solar?.buildings).toEqual([]);
+    expect(changes[changes.length - 1].solar?.date).toBe('2024-06-21');
+  });
+});
@@ -0,0 +1,223 @@
+// React binding for the wizard state machine, usable with any UI
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CrsDefinition, lookupCrs, suggestUtmCrs } from '../crs';
+import { WizardDraft } from '../drafts';
+import { LatLngTuple, WizardResult } from '../types';
+import { DEFAULT_EXTENT_RADIUS } from '../utils/extent';
+import { EMPTY_PLACEMENT, Placement, placementFromResult, resultFromPlacement } from '../utils/placement';
+import { ValidationContext, ValidationIssue, Validator, defaultValidators, issuesForStep, runSyncValidators, runValidators } from '../validation';
+import { createWizardState, currentStepId, isStepComplete, wizardReducer } from './reducer';
+import { solarSummary } from '../solar';
+import { DEFAULT_STEPS, resolveSteps } from './steps';
+import { StepConfig, WizardAction, WizardState, WizardStep } from './types';
+
+export interface UseGeolocationWizardOptions {
+  /** A saved result to start from. */
+  initialValue?: WizardResult;
+  /** Step to open on; limited to the furthest step the starting value allows. */
+  initialStep?: number;
+  /** A saved or linked draft to start from, in place of initialValue, initialStep and crs. */
+  initialDraft?: WizardDraft | null;
+  /** Controlled mode: the placement comes from here and edits go to onChange. */
+  value?: WizardResult;
+  onChange?: (result: WizardResult) => void;
+  /** Radius in metres for new circular extents. */
+  defaultRadius?: number;
+  /** Extra rules on top of the built-in containment checks. */
+  validators?: Validator[];
+  /** EPSG code of the output CRS; defaults to the UTM zone of the project. */
+  crs?: number;
+  coordinateSystems?: CrsDefinition[];
+  /** The steps to run, in order; see DEFAULT_STEPS. */
+  steps?: StepConfig[];
+  /** YYYY-MM-DD day to summarise the sun on in the result; leave unset to leave `solar` out. */
+  solarDate?: string | null;
+}
+
+const NO_VALIDATORS: Validator[] = [];
+const NO_COORDINATE_SYSTEMS: CrsDefinition[] = [];
+
+// Host rules often hit a network service, so wait for edits to settle before running them
+const VALIDATION_DEBOUNCE_MS = 300;
+
+const resolveCrs = (code: number | null, location: LatLngTuple | null, extra: CrsDefinition[]) =>
+  (code !== null && lookupCrs(code, extra)) || (location && suggestUtmCrs(location[0], location[1]));
+
+// Custom step values only appear in the result when the pipeline has custom steps, and the sun only
+// when the host picked a date
+function buildResult(
+  placement: Placement,
+  crs: CrsDefinition | null,
+  steps: WizardStep[],
+  stepValues: Record<string, unknown>,
+  solarDate: string | null
+): WizardResult {
+  const placed = resultFromPlacement(placement, crs);
+  const result = steps.some((step) => step.custom) ? { ...placed, custom: stepValues } : placed;
+  return solarDate ? { ...result, solar: solarSummary(result, solarDate) } : result;
+}
+
+// Issues from a custom step's rules apply from that step unless they say otherwise
+const stepValidator =
+  (id: string, validate: Validator): Validator =>
+  async (context) => {
+    const output = await validate(context);
+    return output && ([] as ValidationIssue[]).concat(output).map((issue) => ({ step: id, ...issue }));
+  };
+
+/**
+ * Wizard state, derived result, validation and step navigation without any
+ * map. The GeolocationWizard component is one UI on top of this hook.
+ */
+export function useGeolocationWizard({
+  initialValue,
+  initialStep = 0,
+  initialDraft,
+  value,
+  onChange,
+  defaultRadius = DEFAULT_EXTENT_RADIUS,
+  validators = NO_VALIDATORS,
+  crs,
+  coordinateSystems = NO_COORDINATE_SYSTEMS,
+  steps: stepConfigs = DEFAULT_STEPS,
+  solarDate = null,
+}: UseGeolocationWizardOptions = {}) {
+  const steps = useMemo(() => resolveSteps(stepConfigs), [stepConfigs]);
+  const [internalState, setInternalState] = useState<WizardState>(() => {
+    if (initialDraft && !value) {
+      const { placement, step, crsCode, stepValues } = initialDraft;
+      return createWizardState({ steps, placement, step, crsCode, stepValues, defaultRadius });
+    }
+    const start = value ?? initialValue;
+    return createWizardState({
+      steps,
+      placement: start ? placementFromResult(start) : EMPTY_PLACEMENT,
+      step: initialStep,
+      defaultRadius,
+      crsCode: crs ?? null,
+      stepValues: start?.custom,
+    });
+  });
+
+  // In controlled mode the placement, and any custom step values, always come from the host.
+  // The step list is read on every render, so hosts can update their steps' callbacks.
+  const isControlled = value !== undefined;
+  const controlledPlacement = useMemo(() => value && placementFromResult(value), [value]);
+  const state = useMemo<WizardState>(
+    () => ({
+      ...internalState,
+      steps,
+      step: Math.min(internalState.step, steps.length - 1),
+      placement: controlledPlacement ?? internalState.placement,
+      stepValues: value?.custom ?? internalState.stepValues,
+      defaultRadius,
+    }),
+    [internalState, steps, controlledPlacement, value, defaultRadius]
+  );
+
+  // Several actions can be dispatched in one event, so each builds on the latest state, not the rendered one
+  const latestRef = useRef(state);
+  latestRef.current = state;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const optionsRef = useRef({ isControlled, coordinateSystems, solarDate });
+  optionsRef.current = { isControlled, coordinateSystems, solarDate };
+
+  const dispatch = useCallback((action: WizardAction) => {
+    const current = latestRef.current;
+    const next = wizardReducer(current, action, Date.now());
+    if (next === current) return;
+    latestRef.current = next;
+    setInternalState(next);
+
+    if (next.placement !== current.placement || next.crsCode !== current.crsCode || next.stepValues !== current.stepValues) {
+      const { coordinateSystems: extra, solarDate: date } = optionsRef.current;
+      const nextCrs = resolveCrs(next.crsCode, next.placement.projectLocation, extra);
+      onChangeRef.current?.(buildResult(next.placement, nextCrs, next.steps, next.stepValues, date));
+    }
+  }, []);
+
+  const { placement, step, crsCode, stepValues, past, future } = state;
+  // Only a change of UTM zone needs a new suggestion, which keeps the CRS (and the result) stable while dragging
+  const suggestedCode = placement.projectLocation && suggestUtmCrs(placement.projectLocation[0], placement.projectLocation[1]).code;
+  const activeCrs = useMemo(
+    () => (crsCode !== null && lookupCrs(crsCode, coordinateSystems)) || (suggestedCode !== null ? lookupCrs(suggestedCode) : null),
+    [crsCode, coordinateSystems, suggestedCode]
+  );
+  const result = useMemo(
+    () => buildResult(placement, activeCrs, steps, stepValues, solarDate),
+    [placement, activeCrs, steps, stepValues, solarDate]
+  );
+
+  // A new date changes the result without an edit, so it is reported here
+  const reportedDateRef = useRef(solarDate);
+  useEffect(() => {
+    if (reportedDateRef.current === solarDate) return;
+    reportedDateRef.current = solarDate;
+    onChangeRef.current?.(result);
+  }, [solarDate, result]);
+
+  const stepId = currentStepId(state);
+  const validationContext = useMemo<ValidationContext>(
+    () => ({ ...result, currentStep: step, currentStepId: stepId }),
+    [result, step, stepId]
+  );
+  const allValidators = useMemo(
+    () => [
+      ...validators,
+      ...steps.flatMap(({ id, custom }) => (custom?.validate ? [stepValidator(id, custom.validate)] : [])),
+    ],
+    [validators, steps]
+  );
+  const builtInIssues = useMemo(() => runSyncValidators(defaultValidators, validationContext), [validationContext]);
+  const [hostIssues, setHostIssues] = useState<ValidationIssue[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+
+  useEffect(() => {
+    if (allValidators.length === 0) {
+      setHostIssues([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsValidating(true);
+    const timer = setTimeout(async () => {
+      const issues = await runValidators(allValidators, validationContext);
+      if (!cancelled) {
+        setHostIssues(issues);
+        setIsValidating(false);
+      }
+    }, VALIDATION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [allValidators, validationContext]);
+
+  const stepIds = useMemo(() => steps.map(({ id }) => id), [steps]);
+  const issues = useMemo(
+    () => issuesForStep([...builtInIssues, ...hostIssues], step, stepIds),
+    [builtInIssues, hostIssues, step, stepIds]
+  );
+  const hasBlockingIssue = issues.some((issue) => issue.severity === 'error');
+  const canProceed = !hasBlockingIssue && !isValidating && isStepComplete(state);
+
+  return {
+    state,
+    dispatch,
+    result,
+    activeCrs,
+    /** True while the CRS follows the project's UTM zone rather than an explicit choice. */
+    isAutomaticCrs: crsCode === null || activeCrs?.code !== crsCode,
+    issues,
+    isValidating,
+    canProceed,
+    steps,
+    /** Id of the current step, e.g. "location" or a custom step's id. */
+    stepId,
+    isLastStep: step === steps.length - 1,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}